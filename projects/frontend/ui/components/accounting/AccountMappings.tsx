@@ -0,0 +1,129 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { RotateCcw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import {
+  FALLBACK_EXPENSE_ACCOUNT, accountLabel, allAccounts, mappingKey, suggestTaxExpenseAccount,
+} from "./chartOfAccounts";
+import type { MappingKind } from "./chartOfAccounts";
+import type { FallbackExpense } from "./engine";
+
+type Props = {
+  year: number;
+  accountMappings: any[];
+  taxExpenses: any[];
+  /** Kostenzeilen des Jahres, die auf das Sammelkonto 6300 fallen. */
+  fallbacks: FallbackExpense[];
+  isReadOnly?: boolean;
+  isSaving?: boolean;
+  onSaveMapping?: (data: { kind: MappingKind; key: string; account: string }) => void;
+  onDeleteMapping?: (id: string) => void;
+};
+
+function fmt(n: number): string {
+  return n.toLocaleString("de-DE", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export default function AccountMappings({
+  year,
+  accountMappings,
+  taxExpenses,
+  fallbacks,
+  isReadOnly = false,
+  isSaving = false,
+  onSaveMapping,
+  onDeleteMapping,
+}: Props) {
+  const { t } = useTranslation("accounting");
+  const canEdit = !isReadOnly && !!onSaveMapping;
+  const expenseAccounts = allAccounts().filter(a => a.type === "expense");
+
+  const findMapping = (kind: MappingKind, key: string) =>
+    accountMappings.find(m => m.kind === kind && mappingKey(m.key) === key);
+
+  // Kategorien aus den erfassten Werbungskosten und bestehenden Zuordnungen
+  const categories = new Map<string, string>();
+  for (const e of taxExpenses) {
+    const key = mappingKey(e.category);
+    if (key && !categories.has(key)) categories.set(key, String(e.category).trim());
+  }
+  for (const m of accountMappings) {
+    if (m.kind === "tax-category" && !categories.has(mappingKey(m.key))) categories.set(mappingKey(m.key), m.key);
+  }
+  const categoryRows = [...categories.entries()].sort((a, b) => a[1].localeCompare(b[1]));
+
+  const accountSelect = (kind: MappingKind, key: string, value: string) => (
+    <select
+      className="border rounded px-2 h-7 text-xs bg-background max-w-[14rem]"
+      value={value}
+      disabled={!canEdit || isSaving}
+      onChange={e => onSaveMapping?.({ kind, key, account: e.target.value })}
+    >
+      {!expenseAccounts.some(a => a.number === value) && <option value={value}>{accountLabel(value)}</option>}
+      {expenseAccounts.map(a => <option key={a.number} value={a.number}>{accountLabel(a.number)}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="grid md:grid-cols-2 gap-4">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">{t("mappings.taxTitle")}</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <p className="px-4 pb-2 text-xs text-muted-foreground">{t("mappings.taxIntro")}</p>
+          {categoryRows.length === 0 && (
+            <p className="px-4 py-3 text-sm text-muted-foreground">{t("mappings.taxEmpty")}</p>
+          )}
+          {categoryRows.map(([key, label]) => {
+            const m = findMapping("tax-category", key);
+            const suggestion = suggestTaxExpenseAccount(key);
+            return (
+              <div key={key} className="flex items-center justify-between gap-2 px-4 py-1.5 border-b text-sm">
+                <span className="text-xs truncate">
+                  {label}
+                  {!m && <span className="ml-2 text-muted-foreground">{t("mappings.suggested")}</span>}
+                </span>
+                <div className="flex items-center gap-1 shrink-0">
+                  {accountSelect("tax-category", key, m?.account ?? suggestion)}
+                  {m && canEdit && onDeleteMapping && (
+                    <button className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                      title={t("mappings.reset")} disabled={isSaving}
+                      onClick={() => onDeleteMapping(String(m.id))}>
+                      <RotateCcw className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">{t("mappings.fallbackTitle", { account: accountLabel(FALLBACK_EXPENSE_ACCOUNT), year })}</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <p className="px-4 pb-2 text-xs text-muted-foreground">{t("mappings.fallbackIntro")}</p>
+          {fallbacks.length === 0 && (
+            <p className="px-4 py-3 text-sm text-muted-foreground">{t("mappings.fallbackEmpty")}</p>
+          )}
+          {fallbacks.map(f => (
+            <div key={`${f.kind}:${f.key}`} className="flex items-center justify-between gap-2 px-4 py-1.5 border-b text-sm">
+              <span className="text-xs min-w-0">
+                <span className="truncate">{f.label || t("mappings.noKey")}</span>
+                <span className="ml-2 text-muted-foreground">
+                  {t(`mappings.kinds.${f.kind}`)} · {t("mappings.lines", { count: f.count })} · € {fmt(f.amount)}
+                </span>
+              </span>
+              {f.key ? accountSelect(f.kind, f.key, FALLBACK_EXPENSE_ACCOUNT) : (
+                <span className="text-xs text-muted-foreground shrink-0">{t("mappings.notMappable")}</span>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
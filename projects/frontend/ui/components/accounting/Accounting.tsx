@@ -1,23 +1,60 @@
 import React, { useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
-import { ChevronLeft, ChevronRight, Plus, Info, Undo2, BookOpen, Camera } from "lucide-react";
+import {
+  ChevronLeft, ChevronRight, Plus, Info, Undo2, BookOpen, Camera, Download, Trash2, Lock, ShieldCheck,
+  ExternalLink, Search, X, Pencil,
+} from "lucide-react";
 import { Button } from "../ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
 import { Input } from "../ui/input";
 import { Label } from "../ui/label";
-import { ACCOUNTS, accountLabel, account, OPENING_ASSET_ACCOUNTS, OPENING_LIABILITY_ACCOUNTS } from "./chartOfAccounts";
-import { deriveJournal, trialBalance, guv, bilanz, ledger } from "./engine";
-import type { AccountingData, JournalLine } from "./engine";
+import { allAccounts, accountLabel, displayNumber, openingAssetAccounts, OPENING_LIABILITY_ACCOUNTS } from "./chartOfAccounts";
+import type { ChartId, MappingKind } from "./chartOfAccounts";
+import {
+  deriveJournal, trialBalance, guv, bilanz, ledger, splitTotals, unknownAccounts, closingEntries, fallbackExpenses, frozenLines,
+} from "./engine";
+import type { AccountingData, FrozenLine, JournalLine, SplitPosting } from "./engine";
+import { datevBuchungsstapel, datevLines, downloadDatev } from "./datevExport";
+import ChartSettings from "./ChartSettings";
+import AccountMappings from "./AccountMappings";
+import Budget from "./Budget";
+import CashFlowStatement from "./CashFlowStatement";
+import EuerReport from "./EuerReport";
+import VatReturn from "./VatReturn";
+import { hasVatBookings, unitVatRate } from "./vat";
+import BankLedgers from "./BankLedgers";
+import { cashFlow } from "./cashFlow";
+import { garageRentDifferences, garageRents } from "./garageRents";
+import { EMPTY_JOURNAL_FILTER, filterJournal, isJournalFilterActive, lineSource, sourceTarget } from "./sources";
+import type { JournalFilter, SourceTarget } from "./sources";
+import { auditExport, auditIssues, downloadAuditExport, verifyChain } from "./auditTrail";
+import type { AuditResult } from "./auditTrail";
+import { formatDocumentNumber, pendingDocumentNumbers, vacatedDocumentNumbers } from "./documentNumbers";
+import type { PendingDocumentNumber } from "./documentNumbers";
+import BookingOverrideForm from "./BookingOverrideForm";
+import { overridesByLine } from "./bookingOverrides";
+import { ALLOCATION_KEYS, costCenterGuv, inCostCenter } from "./costCenters";
+import {
+  PERIOD_KINDS, compareResult, compareSection, compareTrialBalance, defaultIndex, periodDates,
+  periodIndexCount, priorPeriod,
+} from "./periods";
+import type { ComparisonRow, Period, PeriodKind } from "./periods";
+import type { AllocationKey, CostCenter } from "./costCenters";
 
 type Props = {
   properties?: any[];
   apartments?: any[];
   garages?: any[];
+  garagePayments?: any[];
   allCosts?: any[];
   allRentPayments?: any[];
+  tenants?: any[];
+  tenantMieten?: any[];
+  deposits?: any[];
   taxConfigs?: any[];
   taxLoans?: any[];
   taxMaintenances?: any[];
+  taxFixedAssets?: any[];
   nebenkostenSettlements?: any[];
   taxIncomes?: any[];
   taxExpenses?: any[];
@@ -30,6 +67,31 @@ type Props = {
   onAddJournalEntry?: (data: any) => void;
   onStornoJournalEntry?: (id: string) => void;
   onCompleteAccountingOnboarding?: (data: any) => void;
+  accountingSettings?: { chart?: ChartId; accrual?: boolean; "allocation-key"?: AllocationKey } | null;
+  customAccounts?: any[];
+  onSaveAccountingSettings?: (data: { chart?: ChartId; accrual?: boolean; allocationKey?: AllocationKey }) => void;
+  onAddCustomAccount?: (data: { number: string; name: string; type: string }) => void;
+  onDeleteCustomAccount?: (id: string) => void;
+  accountMappings?: any[];
+  onSaveAccountMapping?: (data: { kind: MappingKind; key: string; account: string }) => void;
+  onDeleteAccountMapping?: (id: string) => void;
+  /** Steuersatz einer Kostenposition (Vorsteuer bei Option nach § 9 UStG). */
+  onSetCostVatRate?: (costId: string, rate: number | null) => void;
+  bankAccounts?: any[];
+  yearCloses?: any[];
+  onCloseYear?: (data: { year: number; lines: FrozenLine[]; closingLines: FrozenLine[]; snapshot: any }) => void;
+  /** Festgeschriebene Belegnummern abgeleiteter Buchungen (document-number Entities). */
+  documentNumbers?: any[];
+  onAssignDocumentNumbers?: (lines: PendingDocumentNumber[]) => void;
+  /** Umbuchungen abgeleiteter Buchungen (booking-override Entities). */
+  bookingOverrides?: any[];
+  onSaveBookingOverride?: (data: { lineId: string; debit: string; credit: string; date: string; propertyId: string; note: string }) => void;
+  onDeleteBookingOverride?: (id: string) => void;
+  budgets?: any[];
+  onSaveBudget?: (data: { year: number; account: string; propertyId: string; months: number[] }) => void;
+  onDeleteBudget?: (id: string) => void;
+  /** Sprung zur Quelle einer Buchung (Dashboard-Tab mit Kontext). */
+  onNavigate?: (tab: string, context?: SourceTarget["context"]) => void;
 };
 
 function fmt(n: number): string {
@@ -41,24 +103,109 @@ function pNum(v: any): number {
   return parseFloat(String(v).replace(",", ".")) || 0;
 }
 
+function fmtPct(pct: number | null): string {
+  if (pct === null) return "—";
+  return `${pct >= 0 ? "+" : "−"}${Math.abs(pct).toLocaleString("de-DE", { minimumFractionDigits: 1, maximumFractionDigits: 1 })} %`;
+}
+
+/** Konto als Link ins Kontenblatt. */
+function AccountLink({ account: acc, label, onOpen }: { account: string; label: string; onOpen: (acc: string) => void }) {
+  return (
+    <button className="text-left hover:underline hover:text-primary" onClick={() => onOpen(acc)}>
+      {label}
+    </button>
+  );
+}
+
+/** Herkunft einer Buchung mit Sprung zur Quell-Entity (soweit außerhalb der Buchhaltung). */
+function SourceBadge({ line, data, onNavigate }: {
+  line: JournalLine;
+  data: AccountingData;
+  onNavigate?: (tab: string, context?: SourceTarget["context"]) => void;
+}) {
+  const { t } = useTranslation("accounting");
+  const ref = lineSource(line);
+  if (!ref) return null;
+  const target = onNavigate ? sourceTarget(ref, data) : null;
+  const label = `${t(`sources.kinds.${ref.kind}`)} #${ref.id}`;
+  return target ? (
+    <button className="inline-flex items-center gap-1 text-[10px] text-primary hover:underline whitespace-nowrap"
+      title={t("sources.open")} onClick={() => onNavigate!(target.tab, target.context)}>
+      {label}
+      <ExternalLink className="h-3 w-3" />
+    </button>
+  ) : (
+    <span className="text-[10px] text-muted-foreground whitespace-nowrap">{label}</span>
+  );
+}
+
+/** Vorjahreswert, absolute und prozentuale Abweichung (Vergleichsspalten). */
+function DeviationCells({ c }: { c: { prior: number; delta: number; pct: number | null } }) {
+  return (
+    <>
+      <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap text-muted-foreground">€ {fmt(c.prior)}</td>
+      <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">{c.delta < 0 ? "−" : "+"} € {fmt(Math.abs(c.delta))}</td>
+      <td className="px-4 py-1.5 text-right tabular-nums whitespace-nowrap text-xs">{fmtPct(c.pct)}</td>
+    </>
+  );
+}
+
 function fmtDate(d: string): string {
   const [y, m, day] = d.split("-");
   return `${day}.${m}.${y}`;
 }
 
-type Tab = "journal" | "susa" | "guv" | "bilanz" | "konten";
+type Tab = "journal" | "susa" | "guv" | "bilanz" | "cashflow" | "euer" | "ustva" | "konten" | "plan" | "kontenrahmen";
+
+type PostingDraft = { account: string; side: "S" | "H"; amount: string };
+
+const emptyPostings = (): PostingDraft[] => [
+  { account: "", side: "S", amount: "" },
+  { account: "", side: "S", amount: "" },
+  { account: "", side: "H", amount: "" },
+];
+
+const emptyForm = {
+  date: "", debit: "", credit: "", amount: "", description: "", propertyId: "", reference: "",
+  split: false, postings: [] as PostingDraft[],
+};
+
+/** Validierung einer Splitbuchung: ≥1 Soll- und ≥1 Habenposition, Konto je Seite eindeutig, Summen gleich. */
+function splitError(postings: PostingDraft[]): "incomplete" | "sameAccount" | "unbalanced" | null {
+  const filled = postings.filter(p => p.account || p.amount);
+  if (filled.some(p => !p.account || !(pNum(p.amount) > 0))) return "incomplete";
+  if (!filled.some(p => p.side === "S") || !filled.some(p => p.side === "H")) return "incomplete";
+  const debits = new Set(filled.filter(p => p.side === "S").map(p => p.account));
+  if (filled.some(p => p.side === "H" && debits.has(p.account))) return "sameAccount";
+  const { soll, haben } = splitTotals(filled.map(p => ({ ...p, amount: pNum(p.amount) })));
+  if (Math.abs(soll - haben) > 0.005) return "unbalanced";
+  return null;
+}
+
+const DATEV_SETTINGS_KEY = "pm-datev-settings";
 
-const emptyForm = { date: "", debit: "", credit: "", amount: "", description: "", propertyId: "", reference: "" };
+function loadDatevSettings(): { beraterNr: string; mandantNr: string } {
+  try {
+    const raw = localStorage.getItem(DATEV_SETTINGS_KEY);
+    if (raw) return { beraterNr: "", mandantNr: "", ...JSON.parse(raw) };
+  } catch { /* ignore malformed settings */ }
+  return { beraterNr: "", mandantNr: "" };
+}
 
 export default function Accounting({
   properties = [],
   apartments = [],
   garages = [],
+  garagePayments = [],
   allCosts = [],
   allRentPayments = [],
+  tenants = [],
+  tenantMieten = [],
+  deposits = [],
   taxConfigs = [],
   taxLoans = [],
   taxMaintenances = [],
+  taxFixedAssets = [],
   nebenkostenSettlements = [],
   taxIncomes = [],
   taxExpenses = [],
@@ -71,6 +218,27 @@ export default function Accounting({
   onAddJournalEntry,
   onStornoJournalEntry,
   onCompleteAccountingOnboarding,
+  accountingSettings = null,
+  customAccounts = [],
+  onSaveAccountingSettings,
+  onAddCustomAccount,
+  onDeleteCustomAccount,
+  accountMappings = [],
+  onSaveAccountMapping,
+  onDeleteAccountMapping,
+  onSetCostVatRate,
+  bankAccounts = [],
+  yearCloses = [],
+  onCloseYear,
+  documentNumbers = [],
+  onAssignDocumentNumbers,
+  bookingOverrides = [],
+  onSaveBookingOverride,
+  onDeleteBookingOverride,
+  budgets = [],
+  onSaveBudget,
+  onDeleteBudget,
+  onNavigate,
 }: Props) {
   const { t } = useTranslation("accounting");
   const { t: tCommon } = useTranslation("common");
@@ -79,9 +247,21 @@ export default function Accounting({
   const [year, setYear] = useState(currentYear);
   const [tab, setTab] = useState<Tab>("journal");
   const [propertyFilter, setPropertyFilter] = useState<string>("");
+  const [unitFilter, setUnitFilter] = useState<string>("");   // "a:<Wohnung>" | "g:<Garage>"
+  const [guvMode, setGuvMode] = useState<"total" | "centers">("total");
+  const [periodKind, setPeriodKind] = useState<PeriodKind>("year");
+  const [periodIndex, setPeriodIndex] = useState(12);
+  const [compare, setCompare] = useState(false);
   const [selectedAccount, setSelectedAccount] = useState<string>("1800");
+  const [journalFilter, setJournalFilter] = useState<JournalFilter>(EMPTY_JOURNAL_FILTER);
+  const [searchAllYears, setSearchAllYears] = useState(false);
   const [form, setForm] = useState<typeof emptyForm | null>(null);
   const [stornoConfirmId, setStornoConfirmId] = useState<string | null>(null);
+  const [overrideLineId, setOverrideLineId] = useState<string | null>(null);
+  const [datev, setDatev] = useState<{ beraterNr: string; mandantNr: string } | null>(null);
+  const [closeConfirm, setCloseConfirm] = useState(false);
+  const [audit, setAudit] = useState<AuditResult | null>(null);
+  const [auditRunning, setAuditRunning] = useState(false);
 
   // ── Onboarding (Eröffnungsbilanz) state ──────────────────────────────────
   const [obDate, setObDate] = useState(`${currentYear}-01-01`);
@@ -95,7 +275,8 @@ export default function Accounting({
     return init;
   });
 
-  const obSumAssets = OPENING_ASSET_ACCOUNTS.reduce((s, a) => s + pNum(obValues[a]), 0);
+  const openingAssets = useMemo(() => openingAssetAccounts(bankAccounts), [bankAccounts]);
+  const obSumAssets = openingAssets.reduce((s, a) => s + pNum(obValues[a]), 0);
   const obSumLiabs  = OPENING_LIABILITY_ACCOUNTS.reduce((s, a) => s + pNum(obValues[a]), 0);
   const obEquity    = obSumAssets - obSumLiabs;
 
@@ -105,7 +286,7 @@ export default function Accounting({
   function completeOnboarding(skip: boolean) {
     const positions: { account: string; side: "S" | "H"; amount: number }[] = [];
     if (!skip) {
-      for (const acc of OPENING_ASSET_ACCOUNTS) {
+      for (const acc of openingAssets) {
         const v = pNum(obValues[acc]);
         if (v > 0) positions.push({ account: acc, side: "S", amount: v });
       }
@@ -121,35 +302,188 @@ export default function Accounting({
   }
 
   const data: AccountingData = useMemo(() => ({
-    properties, apartments, garages, allCosts, allRentPayments, taxConfigs,
-    loans: taxLoans, maintenances: taxMaintenances, nkSettlements: nebenkostenSettlements,
+    properties, apartments, garages, garagePayments, allCosts, allRentPayments, taxConfigs,
+    loans: taxLoans, maintenances: taxMaintenances, fixedAssets: taxFixedAssets, nkSettlements: nebenkostenSettlements,
     taxIncomes, taxExpenses, journalEntries,
     onboarding: accountingOnboarding, openingBalances,
-  }), [properties, apartments, garages, allCosts, allRentPayments, taxConfigs,
-       taxLoans, taxMaintenances, nebenkostenSettlements, taxIncomes, taxExpenses, journalEntries,
-       accountingOnboarding, openingBalances]);
+    chart: accountingSettings?.chart, customAccounts, accountMappings, bankAccounts, yearCloses, documentNumbers, bookingOverrides,
+    accrual: !!accountingSettings?.accrual, tenants, tenantMieten, deposits,
+  }), [properties, apartments, garages, garagePayments, allCosts, allRentPayments, tenants, tenantMieten, deposits, taxConfigs,
+       taxLoans, taxMaintenances, taxFixedAssets, nebenkostenSettlements, taxIncomes, taxExpenses, journalEntries,
+       accountingOnboarding, openingBalances, accountingSettings, customAccounts, accountMappings, bankAccounts, yearCloses,
+       documentNumbers, bookingOverrides]);
 
   const allLines = useMemo(() => deriveJournal(data, year), [data, year]);
 
-  const journalLines = useMemo(() => {
-    let ls = allLines.filter(l => l.year === year);
-    if (propertyFilter) ls = ls.filter(l => l.propertyId === propertyFilter);
-    return ls;
-  }, [allLines, year, propertyFilter]);
+  // Kostenstelle: Immobilie, optional Wohnung oder Garage
+  const costCenter: CostCenter = useMemo(() => ({
+    propertyId:  propertyFilter || undefined,
+    apartmentId: unitFilter.startsWith("a:") ? unitFilter.slice(2) : undefined,
+    garageId:    unitFilter.startsWith("g:") ? unitFilter.slice(2) : undefined,
+  }), [propertyFilter, unitFilter]);
+  const centerUnits = useMemo(() => propertyFilter ? [
+    ...apartments.filter((a: any) => String(a["property-id"]) === propertyFilter)
+      .map((a: any) => ({ value: `a:${a.id}`, label: t("costCenters.apartment", { code: a.code ?? "" }) })),
+    ...garages.filter((g: any) => String(g["property-id"]) === propertyFilter)
+      .map((g: any) => ({ value: `g:${g.id}`, label: t("costCenters.garage", { code: g.code ?? "" }) })),
+  ] : [], [apartments, garages, propertyFilter, t]);
+  const centerLines = useMemo(() => allLines.filter(l => inCostCenter(l, costCenter)), [allLines, costCenter]);
+
+  const journalLines = useMemo(() => filterJournal(
+    searchAllYears && isJournalFilterActive(journalFilter) ? centerLines : centerLines.filter(l => l.year === year),
+    journalFilter,
+  ), [centerLines, year, journalFilter, searchAllYears]);
+  // Vorläufige Belegnummern werden beim Export bzw. Abschluss festgeschrieben.
+  const pendingNumbers = useMemo(() => pendingDocumentNumbers(allLines), [allLines]);
+  const pendingThisYear = pendingNumbers.filter(p => p.year === year).length;
+  const vacatedNumbers = useMemo(() => vacatedDocumentNumbers(allLines, documentNumbers, year),
+    [allLines, documentNumbers, year]);
+  const canFixNumbers = !isReadOnly && !!onAssignDocumentNumbers;
+
+  function fixDocumentNumbers() {
+    if (canFixNumbers && pendingNumbers.length > 0) onAssignDocumentNumbers?.(pendingNumbers);
+  }
+
+  const overrideMap = useMemo(() => overridesByLine(bookingOverrides), [bookingOverrides]);
+  const canOverride = !isReadOnly && !!onSaveBookingOverride;
+
+  const journalTypes = useMemo(() => [...new Set(centerLines
+    .filter(l => l.source === "auto" && l.sourceType).map(l => l.sourceType!))].sort(), [centerLines]);
 
   const susa = useMemo(() => trialBalance(allLines, year), [allLines, year]);
   const guvData = useMemo(() => guv(allLines, year), [allLines, year]);
+
+  // Auswertungszeitraum für SuSa, GuV und Kontenblatt (Monat, Quartal, bis Monatsende)
+  const period: Period = useMemo(() => ({ kind: periodKind, year, index: periodIndex }), [periodKind, year, periodIndex]);
+  const range = useMemo(() => periodDates(period), [period]);
+  const priorRange = useMemo(() => periodDates(priorPeriod(period)), [period]);
+  const periodLabel = periodKind === "year" ? String(year) : t(`period.label.${periodKind}`, {
+    year, index: periodIndex, month: String(periodIndex).padStart(2, "0"),
+  });
+
+  // Auswertung der gewählten Kostenstelle und des Zeitraums (Snapshot und Kopfzeile bleiben Portfolio/Jahr)
+  const viewLines = propertyFilter ? centerLines : allLines;
+  const susaView = useMemo(() => trialBalance(viewLines, range), [viewLines, range]);
+  const guvView = useMemo(() => guv(viewLines, range), [viewLines, range]);
+  const susaPrior = useMemo(() => compare ? trialBalance(viewLines, priorRange) : [], [compare, viewLines, priorRange]);
+  const guvPrior = useMemo(() => compare ? guv(viewLines, priorRange) : null, [compare, viewLines, priorRange]);
+  const susaCompare = useMemo(() => compareTrialBalance(susaView, susaPrior, displayNumber), [susaView, susaPrior]);
+  const guvCompare = useMemo(() => guvPrior && {
+    revenues: compareSection(guvView.revenues, guvPrior.revenues, displayNumber),
+    expenses: compareSection(guvView.expenses, guvPrior.expenses, displayNumber),
+    result: { current: guvView.result, prior: guvPrior.result, ...compareResult(guvView.result, guvPrior.result) },
+  }, [guvView, guvPrior]);
+  const allocationKey: AllocationKey = accountingSettings?.["allocation-key"] ?? "none";
+  const centerGuv = useMemo(() => costCenterGuv(allLines, range, properties, apartments, allocationKey),
+    [allLines, range, properties, apartments, allocationKey]);
   const bilanzData = useMemo(() => bilanz(allLines, year), [allLines, year]);
-  const kontoData = useMemo(() => ledger(allLines, selectedAccount, year), [allLines, selectedAccount, year]);
+  const cashFlowData = useMemo(() => cashFlow(allLines, range), [allLines, range]);
+  const kontoData = useMemo(() => ledger(viewLines, selectedAccount, range), [viewLines, selectedAccount, range]);
+
+  const susaRows = useMemo(() => {
+    if (!compare) return susaView.map(r => ({ row: r, cmp: null as ComparisonRow | null }));
+    const byAccount = new Map(susaView.map(r => [r.account, r]));
+    return susaCompare.map(c => ({
+      row: byAccount.get(c.account) ?? { account: c.account, opening: 0, debit: 0, credit: 0, closing: 0 },
+      cmp: c as ComparisonRow | null,
+    }));
+  }, [compare, susaView, susaCompare]);
+
+  async function runAudit() {
+    setAuditRunning(true);
+    try {
+      setAudit(await verifyChain(journalEntries));
+    } finally {
+      setAuditRunning(false);
+    }
+  }
+
+  function handleAuditExport() {
+    if (!audit) return;
+    const stamp = audit.checkedAt.toISOString().slice(0, 10);
+    downloadAuditExport(auditExport(audit), `Pruefprotokoll_Buchungen_${stamp}.txt`);
+  }
+
+  function changePeriodKind(kind: PeriodKind) {
+    setPeriodKind(kind);
+    setPeriodIndex(defaultIndex(kind, year));
+  }
+
+  // Drill-down: Betrag eines Berichts → Kontenblatt des Kontos (gleicher Zeitraum
+  // und gleiche Kostenstelle; Bilanzwerte beziehen sich auf das ganze Jahr).
+  function openLedger(acc: string, opts: { propertyId?: string; wholeYear?: boolean } = {}) {
+    if (!acc) return;
+    if (opts.propertyId !== undefined) { setPropertyFilter(opts.propertyId); setUnitFilter(""); }
+    if (opts.wholeYear && periodKind !== "year") changePeriodKind("year");
+    setSelectedAccount(acc);
+    setTab("konten");
+  }
 
   const activeAccounts = useMemo(() => {
     const used = new Set<string>();
     for (const l of allLines) { used.add(l.debit); used.add(l.credit); }
-    return ACCOUNTS.filter(a => used.has(a.number));
+    return allAccounts().filter(a => used.has(a.number));
   }, [allLines]);
 
+  const unknown = useMemo(() => unknownAccounts(allLines), [allLines]);
+  const fallbacks = useMemo(() => fallbackExpenses(data, year), [data, year]);
+  const garageRentRows = useMemo(
+    () => garageRents(garages, year, garagePayments, tenants, undefined, propertyFilter || undefined),
+    [garages, year, garagePayments, tenants, propertyFilter]);
+  const garageDiffs = garageRentDifferences(garageRentRows);
+  const garageEstimates = garageRentRows.filter(r => r.estimated);
+
+  // ── Jahresabschluss ───────────────────────────────────────────────────────
+  const lastClosedYear = yearCloses.reduce((m: number | null, c: any) =>
+    m === null || Number(c.year) > m ? Number(c.year) : m, null);
+  const yearClose = yearCloses.find((c: any) => Number(c.year) === year);
+  const isClosed = lastClosedYear !== null && year <= lastClosedYear;
+  const canClose = !isReadOnly && !!onCloseYear && !isClosed && year < currentYear
+    && (lastClosedYear === null || year === lastClosedYear + 1);
+
+  function handleCloseYear() {
+    if (!canClose) return;
+    fixDocumentNumbers();
+    onCloseYear?.({
+      year,
+      lines: frozenLines(allLines, year),
+      closingLines: closingEntries(allLines, year),
+      snapshot: { susa, guv: guvData, bilanz: bilanzData },
+    });
+    setCloseConfirm(false);
+  }
+
+  const formSplitError = form?.split ? splitError(form.postings) : null;
+  const formSplitTotals = form?.split
+    ? splitTotals(form.postings.filter(p => p.account).map(p => ({ ...p, amount: pNum(p.amount) })))
+    : null;
+  const formInClosedYear = !!form?.date && lastClosedYear !== null
+    && parseInt(form.date.slice(0, 4), 10) <= lastClosedYear;
+  const formComplete = !!form && !!form.date && (form.split
+    ? formSplitError === null
+    : !!form.debit && !!form.credit && !!form.amount && form.debit !== form.credit);
+
+  function setPosting(i: number, patch: Partial<PostingDraft>) {
+    setForm(f => f ? { ...f, postings: f.postings.map((p, k) => k === i ? { ...p, ...patch } : p) } : f);
+  }
+
   function handleSave() {
-    if (!form || !form.date || !form.debit || !form.credit || !form.amount) return;
+    if (!form || !formComplete) return;
+    if (form.split) {
+      const postings: SplitPosting[] = form.postings
+        .filter(p => p.account)
+        .map(p => ({ account: p.account, side: p.side, amount: pNum(p.amount) }));
+      onAddJournalEntry?.({
+        date: form.date,
+        lines: postings,
+        description: form.description,
+        propertyId: form.propertyId || undefined,
+        reference: form.reference || undefined,
+      });
+      setForm(null);
+      return;
+    }
+    if (!form.debit || !form.credit || !form.amount) return;
     if (form.debit === form.credit) return;
     onAddJournalEntry?.({
       date: form.date,
@@ -163,12 +497,40 @@ export default function Accounting({
     setForm(null);
   }
 
+  const datevValid = !!datev && /^\d{4,7}$/.test(datev.beraterNr) && /^\d{1,5}$/.test(datev.mandantNr);
+  const datevCount = useMemo(() => datevLines(allLines, year, propertyFilter || undefined).length,
+    [allLines, year, propertyFilter]);
+
+  function handleDatevExport() {
+    if (!datev || !datevValid) return;
+    localStorage.setItem(DATEV_SETTINGS_KEY, JSON.stringify(datev));
+    const property = properties.find((p: any) => String(p.id) === propertyFilter);
+    const csv = datevBuchungsstapel(allLines, {
+      year,
+      beraterNr: datev.beraterNr,
+      mandantNr: datev.mandantNr,
+      accounts: data,
+      propertyId: propertyFilter || undefined,
+      label: property ? `${property.name} ${year}` : `Buchungen ${year}`,
+    });
+    const suffix = property ? `_${String(property.name).replace(/\s+/g, "_")}` : "";
+    downloadDatev(csv, `EXTF_Buchungsstapel_${year}${suffix}.csv`);
+    fixDocumentNumbers();
+    setDatev(null);
+  }
+
+  const showVat = apartments.some((a: any) => unitVatRate(a) !== null) || hasVatBookings(allLines);
   const TABS: { id: Tab; label: string }[] = [
     { id: "journal", label: t("tabs.journal") },
     { id: "konten",  label: t("tabs.konten") },
     { id: "susa",    label: t("tabs.susa") },
     { id: "guv",     label: t("tabs.guv") },
     { id: "bilanz",  label: t("tabs.bilanz") },
+    { id: "cashflow", label: t("tabs.cashflow") },
+    { id: "euer",    label: t("tabs.euer") },
+    ...(showVat ? [{ id: "ustva" as Tab, label: t("tabs.ustva") }] : []),
+    { id: "plan",    label: t("tabs.plan") },
+    { id: "kontenrahmen", label: t("tabs.kontenrahmen") },
   ];
 
   // ── One-time onboarding: capture the opening balance sheet ───────────────
@@ -198,7 +560,7 @@ export default function Accounting({
             <div className="grid sm:grid-cols-2 gap-5">
               <div className="space-y-2">
                 <p className="text-xs font-semibold text-muted-foreground">{t("bilanz.aktiva")}</p>
-                {OPENING_ASSET_ACCOUNTS.map(acc => (
+                {openingAssets.map(acc => (
                   <div key={acc} className="space-y-0.5">
                     <Label className="text-xs">{accountLabel(acc)}</Label>
                     <Input type="number" min="0" step="0.01" placeholder="0,00" className="h-8 text-sm"
@@ -277,11 +639,11 @@ export default function Accounting({
             </button>
           ))}
         </div>
-        {tab === "journal" && properties.length > 1 && (
+        {(tab === "journal" || tab === "susa" || tab === "konten" || tab === "euer" || (tab === "guv" && guvMode === "total")) && properties.length > 1 && (
           <select
             className="border rounded px-2 py-1.5 text-sm bg-background"
             value={propertyFilter}
-            onChange={e => setPropertyFilter(e.target.value)}
+            onChange={e => { setPropertyFilter(e.target.value); setUnitFilter(""); }}
           >
             <option value="">{t("allProperties")}</option>
             {properties.map((p: any) => (
@@ -289,8 +651,83 @@ export default function Accounting({
             ))}
           </select>
         )}
+        {(tab === "journal" || tab === "susa" || tab === "konten" || (tab === "guv" && guvMode === "total")) && centerUnits.length > 0 && (
+          <select
+            className="border rounded px-2 py-1.5 text-sm bg-background"
+            value={unitFilter}
+            onChange={e => setUnitFilter(e.target.value)}
+          >
+            <option value="">{t("costCenters.allUnits")}</option>
+            {centerUnits.map(u => <option key={u.value} value={u.value}>{u.label}</option>)}
+          </select>
+        )}
+        {(tab === "susa" || tab === "guv" || tab === "cashflow" || tab === "konten") && (
+          <div className="flex items-center gap-1">
+            <select
+              className="border rounded px-2 py-1.5 text-sm bg-background"
+              value={periodKind}
+              onChange={e => changePeriodKind(e.target.value as PeriodKind)}
+            >
+              {PERIOD_KINDS.map(k => <option key={k} value={k}>{t(`period.kinds.${k}`)}</option>)}
+            </select>
+            {periodIndexCount(periodKind) > 0 && (
+              <select
+                className="border rounded px-2 py-1.5 text-sm bg-background"
+                value={periodIndex}
+                onChange={e => setPeriodIndex(Number(e.target.value))}
+              >
+                {Array.from({ length: periodIndexCount(periodKind) }, (_, i) => i + 1).map(i => (
+                  <option key={i} value={i}>{periodKind === "quarter" ? `Q${i}` : String(i).padStart(2, "0")}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        )}
+        {(tab === "susa" || (tab === "guv" && guvMode === "total")) && (
+          <label className="flex items-center gap-1.5 text-sm">
+            <input type="checkbox" checked={compare} onChange={e => setCompare(e.target.checked)} />
+            {t("period.compare")}
+          </label>
+        )}
+        {isClosed ? (
+          <span className="ml-auto inline-flex items-center gap-1 text-xs rounded bg-muted text-muted-foreground px-2 py-1">
+            <Lock className="h-3 w-3" />
+            {yearClose?.["closed-at"]
+              ? t("close.closedAt", { date: new Date(Number(yearClose["closed-at"])).toLocaleDateString("de-DE") })
+              : t("close.locked")}
+          </span>
+        ) : canClose && !closeConfirm && (
+          <Button size="sm" variant="outline" className="ml-auto h-7 gap-1" onClick={() => setCloseConfirm(true)}>
+            <Lock className="h-3.5 w-3.5" />
+            {t("close.button", { year })}
+          </Button>
+        )}
       </div>
 
+      {closeConfirm && canClose && (
+        <Card>
+          <CardContent className="py-3 space-y-2">
+            <p className="text-sm font-medium">{t("close.title", { year })}</p>
+            <p className="text-xs text-muted-foreground">{t("close.intro", { next: year + 1 })}</p>
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs">
+              <span>{guvData.result >= 0 ? t("guv.profit") : t("guv.loss")}: <span className="tabular-nums font-medium">€ {fmt(Math.abs(guvData.result))}</span></span>
+              <span>{t("bilanz.total")}: <span className="tabular-nums font-medium">€ {fmt(bilanzData.totalAktiva)}</span></span>
+            </div>
+            {Math.abs(bilanzData.totalAktiva - bilanzData.totalPassiva) > 0.005 && (
+              <p className="text-xs text-destructive">{t("close.unbalanced")}</p>
+            )}
+            <div className="flex gap-2 pt-1">
+              <Button size="sm" className="h-7" disabled={isSaving || unknown.length > 0} onClick={handleCloseYear}>
+                {t("close.confirm")}
+              </Button>
+              <Button size="sm" variant="ghost" className="h-7" onClick={() => setCloseConfirm(false)}>
+                {tCommon("cancel")}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* GoB / GoBD note */}
       <div className="flex items-start gap-2 rounded-lg border bg-muted/40 px-3 py-2 text-xs text-muted-foreground">
         <Info className="h-3.5 w-3.5 mt-0.5 shrink-0" />
@@ -301,6 +738,31 @@ export default function Accounting({
             </p>
           )}
           <p>{t("gobdNote")}</p>
+          {unknown.length > 0 && (
+            <p className="text-destructive">{t("kontenrahmen.unknownWarning", { accounts: unknown.join(", ") })}</p>
+          )}
+          {pendingThisYear > 0 && (
+            <p>{t("journal.numbersPendingInfo", { count: pendingThisYear, year })}</p>
+          )}
+          {vacatedNumbers.length > 0 && (
+            <p>{t("journal.numbersVacated", {
+              numbers: vacatedNumbers.map(d => formatDocumentNumber(d.year, d.number)).join(", "),
+            })}</p>
+          )}
+          {fallbacks.length > 0 && (
+            <p>{t("mappings.fallbackNote", { count: fallbacks.reduce((s, f) => s + f.count, 0), year })}</p>
+          )}
+          {garageEstimates.length > 0 && (
+            <p>{t("garageRent.estimated", { year, garages: garageEstimates.map(r => r.code).join(", ") })}</p>
+          )}
+          {garageDiffs.map(r => (
+            <p key={r.garageId} className="text-amber-600">
+              {t("garageRent.difference", {
+                garage: r.code, year, expected: fmt(r.expected), received: fmt(r.received),
+                months: r.missingMonths.map(m => String(m).padStart(2, "0")).join(", ") || "—",
+              })}
+            </p>
+          ))}
         </div>
       </div>
 
@@ -313,16 +775,124 @@ export default function Accounting({
                 <BookOpen className="h-4 w-4" />
                 {t("journal.title", { year })}
               </CardTitle>
-              {!isReadOnly && onAddJournalEntry && !form && (
-                <Button size="sm" variant="outline" className="h-7 gap-1"
-                  onClick={() => setForm({ ...emptyForm, date: `${year}-12-31` })}>
-                  <Plus className="h-3.5 w-3.5" />
-                  {t("journal.add")}
-                </Button>
+              <div className="flex items-center gap-2">
+                {journalEntries.length > 0 && (
+                  <Button size="sm" variant="outline" className="h-7 gap-1" disabled={auditRunning} onClick={runAudit}>
+                    <ShieldCheck className="h-3.5 w-3.5" />
+                    {t("audit.verify")}
+                  </Button>
+                )}
+                {canFixNumbers && pendingThisYear > 0 && (
+                  <Button size="sm" variant="outline" className="h-7 gap-1" disabled={isSaving} onClick={fixDocumentNumbers}>
+                    <Lock className="h-3.5 w-3.5" />
+                    {t("journal.numbersFix", { count: pendingThisYear })}
+                  </Button>
+                )}
+                {!datev && (
+                  <Button size="sm" variant="outline" className="h-7 gap-1"
+                    onClick={() => setDatev(loadDatevSettings())}>
+                    <Download className="h-3.5 w-3.5" />
+                    {t("datev.export")}
+                  </Button>
+                )}
+                {!isReadOnly && onAddJournalEntry && !form && !isClosed && (
+                  <Button size="sm" variant="outline" className="h-7 gap-1"
+                    onClick={() => setForm({ ...emptyForm, date: `${year}-12-31` })}>
+                    <Plus className="h-3.5 w-3.5" />
+                    {t("journal.add")}
+                  </Button>
+                )}
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 pt-2">
+              <div className="relative">
+                <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+                <Input className="h-8 text-sm pl-7 w-56" placeholder={t("search.placeholder")}
+                  value={journalFilter.text}
+                  onChange={e => setJournalFilter(f => ({ ...f, text: e.target.value }))} />
+              </div>
+              <select className="border rounded px-2 h-8 text-sm bg-background max-w-[14rem]" value={journalFilter.account}
+                onChange={e => setJournalFilter(f => ({ ...f, account: e.target.value }))}>
+                <option value="">{t("search.allAccounts")}</option>
+                {activeAccounts.map(a => <option key={a.number} value={a.number}>{accountLabel(a.number)}</option>)}
+              </select>
+              <select className="border rounded px-2 h-8 text-sm bg-background" value={journalFilter.type}
+                onChange={e => setJournalFilter(f => ({ ...f, type: e.target.value }))}>
+                <option value="">{t("search.allTypes")}</option>
+                <option value="manual">{t("journal.manual")}</option>
+                {journalTypes.map(x => <option key={x} value={x}>{t(`sources.types.${x}`, { defaultValue: x })}</option>)}
+              </select>
+              <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <input type="checkbox" checked={searchAllYears} onChange={e => setSearchAllYears(e.target.checked)} />
+                {t("search.allYears")}
+              </label>
+              {isJournalFilterActive(journalFilter) && (
+                <>
+                  <span className="text-xs text-muted-foreground">{t("search.results", { count: journalLines.length })}</span>
+                  <button className="text-muted-foreground hover:text-foreground" title={t("search.reset")}
+                    onClick={() => setJournalFilter(EMPTY_JOURNAL_FILTER)}>
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </>
               )}
             </div>
           </CardHeader>
           <CardContent className="p-0">
+            {audit && (
+              <div className="border-b px-4 py-3 space-y-1 bg-muted/30 text-xs">
+                <p className={`font-medium ${audit.ok ? "text-green-600" : "text-destructive"}`}>
+                  {audit.ok ? t("audit.ok", { count: audit.entries.length }) : t("audit.failed")}
+                </p>
+                {audit.legacy > 0 && <p className="text-muted-foreground">{t("audit.legacy", { count: audit.legacy })}</p>}
+                {audit.gaps.length > 0 && <p className="text-destructive">{t("audit.gaps", { numbers: audit.gaps.join(", ") })}</p>}
+                {auditIssues(audit).map(e => (
+                  <p key={`${e.number}-${e.status}`} className="text-destructive">
+                    {t("audit.issue", { number: e.number, status: t(`audit.status.${e.status}`) })}
+                  </p>
+                ))}
+                <div className="flex gap-2 pt-1">
+                  <Button size="sm" className="h-7 gap-1" onClick={handleAuditExport}>
+                    <Download className="h-3.5 w-3.5" />
+                    {t("audit.export")}
+                  </Button>
+                  <Button size="sm" variant="ghost" className="h-7" onClick={() => setAudit(null)}>{t("audit.close")}</Button>
+                </div>
+              </div>
+            )}
+            {datev && (
+              <div className="border-b px-4 py-3 space-y-2 bg-muted/30">
+                <p className="text-xs text-muted-foreground">
+                  {t("datev.intro", {
+                    year,
+                    property: properties.find((p: any) => String(p.id) === propertyFilter)?.name ?? t("allProperties"),
+                    count: datevCount,
+                  })}
+                </p>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">{t("datev.beraterNr")}</Label>
+                    <Input className="h-8 text-sm" inputMode="numeric" value={datev.beraterNr}
+                      onChange={e => setDatev(d => d ? { ...d, beraterNr: e.target.value.trim() } : d)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">{t("datev.mandantNr")}</Label>
+                    <Input className="h-8 text-sm" inputMode="numeric" value={datev.mandantNr}
+                      onChange={e => setDatev(d => d ? { ...d, mandantNr: e.target.value.trim() } : d)} />
+                  </div>
+                </div>
+                {!datevValid && (datev.beraterNr || datev.mandantNr) && (
+                  <p className="text-xs text-destructive">{t("datev.invalidNumbers")}</p>
+                )}
+                <div className="flex gap-2 pt-1">
+                  <Button size="sm" className="h-7" disabled={!datevValid || datevCount === 0} onClick={handleDatevExport}>
+                    {t("datev.download")}
+                  </Button>
+                  <Button size="sm" variant="ghost" className="h-7" onClick={() => setDatev(null)}>
+                    {tCommon("cancel")}
+                  </Button>
+                </div>
+              </div>
+            )}
             {form && (
               <div className="border-b px-4 py-3 space-y-2 bg-muted/30">
                 <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
@@ -334,13 +904,17 @@ export default function Accounting({
                     {accountingOnboarding?.date && form.date && form.date < accountingOnboarding.date && (
                       <p className="text-[10px] text-destructive">{t("journal.beforeOpening", { date: fmtDate(accountingOnboarding.date) })}</p>
                     )}
+                    {formInClosedYear && (
+                      <p className="text-[10px] text-destructive">{t("close.periodClosed", { year: lastClosedYear })}</p>
+                    )}
                   </div>
+                  {!form.split && (<>
                   <div className="space-y-1">
                     <Label className="text-xs">{t("journal.debit")}</Label>
                     <select className="border rounded px-2 h-8 text-sm w-full bg-background" value={form.debit}
                       onChange={e => setForm(f => f ? { ...f, debit: e.target.value } : f)}>
                       <option value="">—</option>
-                      {ACCOUNTS.map(a => <option key={a.number} value={a.number}>{a.number} {a.name}</option>)}
+                      {allAccounts().map(a => <option key={a.number} value={a.number}>{accountLabel(a.number)}</option>)}
                     </select>
                   </div>
                   <div className="space-y-1">
@@ -348,7 +922,7 @@ export default function Accounting({
                     <select className="border rounded px-2 h-8 text-sm w-full bg-background" value={form.credit}
                       onChange={e => setForm(f => f ? { ...f, credit: e.target.value } : f)}>
                       <option value="">—</option>
-                      {ACCOUNTS.map(a => <option key={a.number} value={a.number}>{a.number} {a.name}</option>)}
+                      {allAccounts().map(a => <option key={a.number} value={a.number}>{accountLabel(a.number)}</option>)}
                     </select>
                   </div>
                   <div className="space-y-1">
@@ -357,6 +931,7 @@ export default function Accounting({
                       value={form.amount}
                       onChange={e => setForm(f => f ? { ...f, amount: e.target.value } : f)} />
                   </div>
+                  </>)}
                   <div className="space-y-1 col-span-2">
                     <Label className="text-xs">{t("journal.description")}</Label>
                     <Input className="h-8 text-sm" placeholder={t("journal.descPlaceholder")}
@@ -378,12 +953,60 @@ export default function Accounting({
                       onChange={e => setForm(f => f ? { ...f, reference: e.target.value } : f)} />
                   </div>
                 </div>
-                {form.debit && form.credit && form.debit === form.credit && (
+                <label className="flex items-center gap-2 text-xs">
+                  <input type="checkbox" checked={form.split}
+                    onChange={e => setForm(f => f ? {
+                      ...f,
+                      split: e.target.checked,
+                      postings: e.target.checked && f.postings.length === 0 ? emptyPostings() : f.postings,
+                    } : f)} />
+                  {t("journal.splitToggle")}
+                </label>
+                {form.split && (
+                  <div className="space-y-1.5">
+                    {form.postings.map((p, i) => (
+                      <div key={i} className="flex items-center gap-2">
+                        <select className="border rounded px-2 h-8 text-sm bg-background w-20" value={p.side}
+                          onChange={e => setPosting(i, { side: e.target.value as "S" | "H" })}>
+                          <option value="S">{t("konten.soll")}</option>
+                          <option value="H">{t("konten.haben")}</option>
+                        </select>
+                        <select className="border rounded px-2 h-8 text-sm bg-background flex-1 min-w-0" value={p.account}
+                          onChange={e => setPosting(i, { account: e.target.value })}>
+                          <option value="">—</option>
+                          {allAccounts().map(a => <option key={a.number} value={a.number}>{accountLabel(a.number)}</option>)}
+                        </select>
+                        <Input className="h-8 text-sm w-32" type="number" min="0" step="0.01" placeholder="0.00"
+                          value={p.amount} onChange={e => setPosting(i, { amount: e.target.value })} />
+                        <button className="text-muted-foreground hover:text-destructive disabled:opacity-30"
+                          disabled={form.postings.length <= 2} title={t("journal.splitRemove")}
+                          onClick={() => setForm(f => f ? { ...f, postings: f.postings.filter((_, k) => k !== i) } : f)}>
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      </div>
+                    ))}
+                    <div className="flex items-center justify-between">
+                      <button className="text-xs text-primary hover:underline inline-flex items-center gap-1"
+                        onClick={() => setForm(f => f ? { ...f, postings: [...f.postings, { account: "", side: "H", amount: "" }] } : f)}>
+                        <Plus className="h-3 w-3" />
+                        {t("journal.splitAdd")}
+                      </button>
+                      {formSplitTotals && (
+                        <span className={`text-xs tabular-nums ${formSplitError === "unbalanced" ? "text-destructive" : "text-muted-foreground"}`}>
+                          {t("konten.soll")} € {fmt(formSplitTotals.soll)} · {t("konten.haben")} € {fmt(formSplitTotals.haben)}
+                        </span>
+                      )}
+                    </div>
+                    {formSplitError === "unbalanced" && <p className="text-xs text-destructive">{t("journal.splitUnbalanced")}</p>}
+                    {formSplitError === "sameAccount" && <p className="text-xs text-destructive">{t("journal.sameAccount")}</p>}
+                  </div>
+                )}
+                {!form.split && form.debit && form.credit && form.debit === form.credit && (
                   <p className="text-xs text-destructive">{t("journal.sameAccount")}</p>
                 )}
                 <div className="flex gap-2 pt-1">
                   <Button size="sm" className="h-7"
-                    disabled={!form.date || !form.debit || !form.credit || !form.amount || form.debit === form.credit || isSaving
+                    disabled={!formComplete || isSaving || formInClosedYear
                       || (!!accountingOnboarding?.date && form.date < accountingOnboarding.date)}
                     onClick={handleSave}>
                     {t("journal.post")}
@@ -409,24 +1032,51 @@ export default function Accounting({
                 </thead>
                 <tbody>
                   {journalLines.length === 0 && (
-                    <tr><td colSpan={7} className="px-4 py-6 text-center text-muted-foreground text-sm">{t("journal.empty")}</td></tr>
+                    <tr><td colSpan={7} className="px-4 py-6 text-center text-muted-foreground text-sm">
+                      {isJournalFilterActive(journalFilter) ? t("search.empty") : t("journal.empty")}
+                    </td></tr>
                   )}
-                  {journalLines.map(l => (
-                    <tr key={l.id} className={`border-b last:border-b-0 ${l.stornoed || l.isStorno ? "opacity-50" : ""}`}>
-                      <td className="px-4 py-1.5 tabular-nums text-xs whitespace-nowrap">{l.number}</td>
-                      <td className="px-2 py-1.5 tabular-nums text-xs whitespace-nowrap">{fmtDate(l.date)}</td>
+                  {journalLines.map((l, i) => {
+                    // Folgezeilen einer Splitbuchung gehören zum Beleg der ersten Zeile.
+                    const continuation = !!l.split && i > 0 && journalLines[i - 1].number === l.number;
+                    const lastOfBeleg = !l.split || journalLines[i + 1]?.number !== l.number;
+                    return (
+                    <React.Fragment key={l.id}>
+                    <tr className={`${lastOfBeleg ? "border-b last:border-b-0" : ""} ${l.stornoed || l.isStorno ? "opacity-50" : ""}`}>
+                      <td className={`px-4 py-1.5 tabular-nums text-xs whitespace-nowrap ${l.numberPending ? "italic text-muted-foreground" : ""}`}
+                        title={l.numberPending ? t("journal.numberPending") : undefined}>
+                        {continuation ? "" : l.number}
+                      </td>
+                      <td className="px-2 py-1.5 tabular-nums text-xs whitespace-nowrap">{continuation ? "" : fmtDate(l.date)}</td>
                       <td className="px-2 py-1.5">
-                        {l.description}
-                        {l.stornoed && <span className="ml-1 text-[10px] text-destructive">({t("journal.stornoedBadge")})</span>}
+                        {!continuation && l.description}
+                        {!continuation && l.split && <span className="ml-1 text-[10px] rounded bg-muted text-muted-foreground px-1.5 py-0.5">{t("journal.splitBadge")}</span>}
+                        {!continuation && l.stornoed && <span className="ml-1 text-[10px] text-destructive">({t("journal.stornoedBadge")})</span>}
+                        {!continuation && l.overridden && (
+                          <span className="ml-1 text-[10px] rounded bg-amber-100 text-amber-700 px-1.5 py-0.5"
+                            title={[
+                              t("override.original", {
+                                debit: displayNumber(l.overridden.debit), credit: displayNumber(l.overridden.credit),
+                                date: fmtDate(l.overridden.date),
+                              }),
+                              l.overridden.note,
+                            ].filter(Boolean).join(" · ")}>
+                            {t("override.badge")}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-2 py-1.5 text-xs whitespace-nowrap" title={accountLabel(l.debit)}>
+                        <AccountLink account={l.debit} label={displayNumber(l.debit)} onOpen={openLedger} />
+                      </td>
+                      <td className="px-2 py-1.5 text-xs whitespace-nowrap" title={accountLabel(l.credit)}>
+                        <AccountLink account={l.credit} label={displayNumber(l.credit)} onOpen={openLedger} />
                       </td>
-                      <td className="px-2 py-1.5 text-xs whitespace-nowrap" title={accountLabel(l.debit)}>{l.debit}</td>
-                      <td className="px-2 py-1.5 text-xs whitespace-nowrap" title={accountLabel(l.credit)}>{l.credit}</td>
                       <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">€ {fmt(l.amount)}</td>
                       <td className="px-2 py-1.5 whitespace-nowrap">
-                        {l.source === "manual" ? (
+                        {continuation ? null : l.source === "manual" ? (
                           <span className="inline-flex items-center gap-1">
                             <span className="text-[10px] rounded bg-blue-100 text-blue-700 px-1.5 py-0.5">{t("journal.manual")}</span>
-                            {!isReadOnly && onStornoJournalEntry && !l.stornoed && !l.isStorno && (
+                            {!isReadOnly && onStornoJournalEntry && !l.stornoed && !l.isStorno && !isClosed && (
                               stornoConfirmId === l.entityId ? (
                                 <>
                                   <button className="text-[10px] text-destructive font-semibold hover:underline"
@@ -447,11 +1097,41 @@ export default function Accounting({
                             )}
                           </span>
                         ) : (
-                          <span className="text-[10px] rounded bg-muted text-muted-foreground px-1.5 py-0.5">{t("journal.auto")}</span>
+                          <span className="inline-flex items-center gap-1.5">
+                            <span className="text-[10px] rounded bg-muted text-muted-foreground px-1.5 py-0.5">{t("journal.auto")}</span>
+                            <SourceBadge line={l} data={data} onNavigate={onNavigate} />
+                            {canOverride && l.sourceType !== "closing" && l.sourceType !== "carryforward"
+                              && l.sourceType !== "correction" && (
+                              <button className="text-muted-foreground hover:text-foreground" title={t("override.edit")}
+                                onClick={() => setOverrideLineId(id => id === l.id ? null : l.id)}>
+                                <Pencil className="h-3.5 w-3.5" />
+                              </button>
+                            )}
+                          </span>
                         )}
                       </td>
                     </tr>
-                  ))}
+                    {overrideLineId === l.id && (
+                      <tr className="border-b">
+                        <td colSpan={7} className="p-0">
+                          <BookingOverrideForm
+                            line={l}
+                            override={overrideMap.get(l.id)}
+                            properties={properties}
+                            closed={lastClosedYear !== null && l.year <= lastClosedYear}
+                            isSaving={isSaving}
+                            onSave={d => { onSaveBookingOverride?.(d); setOverrideLineId(null); }}
+                            onDelete={onDeleteBookingOverride
+                              ? id => { onDeleteBookingOverride(id); setOverrideLineId(null); }
+                              : undefined}
+                            onCancel={() => setOverrideLineId(null)}
+                          />
+                        </td>
+                      </tr>
+                    )}
+                    </React.Fragment>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
@@ -460,6 +1140,10 @@ export default function Accounting({
       )}
 
       {/* ── Kontenblatt (Hauptbuch) ─────────────────────────────────────── */}
+      {tab === "konten" && bankAccounts.length > 0 && (
+        <BankLedgers lines={allLines} range={range} bankAccountList={bankAccounts}
+          selectedAccount={selectedAccount} onSelectAccount={setSelectedAccount} />
+      )}
       {tab === "konten" && (
         <Card>
           <CardHeader className="pb-2">
@@ -470,11 +1154,17 @@ export default function Accounting({
                 value={selectedAccount}
                 onChange={e => setSelectedAccount(e.target.value)}
               >
-                {(activeAccounts.length > 0 ? activeAccounts : ACCOUNTS).map(a => (
-                  <option key={a.number} value={a.number}>{a.number} {a.name}</option>
+                {activeAccounts.length > 0 && !activeAccounts.some(a => a.number === selectedAccount) && (
+                  <option value={selectedAccount}>{accountLabel(selectedAccount)}</option>
+                )}
+                {(activeAccounts.length > 0 ? activeAccounts : allAccounts()).map(a => (
+                  <option key={a.number} value={a.number}>{accountLabel(a.number)}</option>
                 ))}
               </select>
             </div>
+            {selectedAccount === "1200" && accountingSettings?.accrual && (
+              <p className="text-xs text-muted-foreground">{t("konten.receivablesHint")}</p>
+            )}
           </CardHeader>
           <CardContent className="p-0">
             <div className="overflow-x-auto">
@@ -485,6 +1175,7 @@ export default function Accounting({
                     <th className="text-left  font-medium px-2 py-2">{t("journal.number")}</th>
                     <th className="text-left  font-medium px-2 py-2">{t("journal.description")}</th>
                     <th className="text-left  font-medium px-2 py-2">{t("konten.counterAccount")}</th>
+                    <th className="text-left  font-medium px-2 py-2">{t("sources.column")}</th>
                     <th className="text-right font-medium px-2 py-2">{t("konten.soll")}</th>
                     <th className="text-right font-medium px-2 py-2">{t("konten.haben")}</th>
                     <th className="text-right font-medium px-4 py-2">{t("konten.saldo")}</th>
@@ -492,7 +1183,7 @@ export default function Accounting({
                 </thead>
                 <tbody>
                   <tr className="border-b bg-muted/30">
-                    <td colSpan={6} className="px-4 py-1.5 text-xs font-medium">{t("konten.opening")}</td>
+                    <td colSpan={7} className="px-4 py-1.5 text-xs font-medium">{t("konten.opening")}</td>
                     <td className="px-4 py-1.5 text-right tabular-nums text-xs font-medium">€ {fmt(kontoData.opening)}</td>
                   </tr>
                   {kontoData.rows.map((r, i) => (
@@ -500,14 +1191,26 @@ export default function Accounting({
                       <td className="px-4 py-1.5 tabular-nums text-xs whitespace-nowrap">{fmtDate(r.line.date)}</td>
                       <td className="px-2 py-1.5 tabular-nums text-xs whitespace-nowrap">{r.line.number}</td>
                       <td className="px-2 py-1.5">{r.line.description}</td>
-                      <td className="px-2 py-1.5 text-xs whitespace-nowrap" title={accountLabel(r.counter)}>{r.counter}</td>
-                      <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">{r.side === "S" ? `€ ${fmt(r.line.amount)}` : ""}</td>
-                      <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">{r.side === "H" ? `€ ${fmt(r.line.amount)}` : ""}</td>
+                      <td className="px-2 py-1.5 text-xs whitespace-nowrap" title={r.counter.split(", ").map(accountLabel).join(", ")}>
+                        {r.counter.split(", ").map((c, k) => (
+                          <React.Fragment key={c}>
+                            {k > 0 && ", "}
+                            <AccountLink account={c} label={displayNumber(c)} onOpen={openLedger} />
+                          </React.Fragment>
+                        ))}
+                      </td>
+                      <td className="px-2 py-1.5">
+                        {r.line.source === "manual"
+                          ? <span className="text-[10px] rounded bg-blue-100 text-blue-700 px-1.5 py-0.5">{t("journal.manual")}</span>
+                          : <SourceBadge line={r.line} data={data} onNavigate={onNavigate} />}
+                      </td>
+                      <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">{r.side === "S" ? `€ ${fmt(r.amount)}` : ""}</td>
+                      <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">{r.side === "H" ? `€ ${fmt(r.amount)}` : ""}</td>
                       <td className="px-4 py-1.5 text-right tabular-nums whitespace-nowrap">€ {fmt(r.balance)}</td>
                     </tr>
                   ))}
                   <tr className="bg-muted/30">
-                    <td colSpan={6} className="px-4 py-1.5 text-xs font-semibold">{t("konten.closing")}</td>
+                    <td colSpan={7} className="px-4 py-1.5 text-xs font-semibold">{t("konten.closing")}</td>
                     <td className="px-4 py-1.5 text-right tabular-nums text-xs font-semibold">€ {fmt(kontoData.closing)}</td>
                   </tr>
                 </tbody>
@@ -521,7 +1224,8 @@ export default function Accounting({
       {tab === "susa" && (
         <Card>
           <CardHeader className="pb-2">
-            <CardTitle className="text-base">{t("susa.title", { year })}</CardTitle>
+            <CardTitle className="text-base">{t("susa.title", { year: periodLabel })}</CardTitle>
+            {propertyFilter && <p className="text-xs text-muted-foreground">{t("costCenters.filterHint")}</p>}
           </CardHeader>
           <CardContent className="p-0">
             <div className="overflow-x-auto">
@@ -532,25 +1236,34 @@ export default function Accounting({
                     <th className="text-right font-medium px-2 py-2">{t("susa.opening")}</th>
                     <th className="text-right font-medium px-2 py-2">{t("konten.soll")}</th>
                     <th className="text-right font-medium px-2 py-2">{t("konten.haben")}</th>
-                    <th className="text-right font-medium px-4 py-2">{t("susa.closing")}</th>
+                    <th className={`text-right font-medium ${compare ? "px-2" : "px-4"} py-2`}>{t("susa.closing")}</th>
+                    {compare && (
+                      <>
+                        <th className="text-right font-medium px-2 py-2">{t("period.prior")}</th>
+                        <th className="text-right font-medium px-2 py-2">{t("period.delta")}</th>
+                        <th className="text-right font-medium px-4 py-2">%</th>
+                      </>
+                    )}
                   </tr>
                 </thead>
                 <tbody>
-                  {susa.map(r => (
+                  {susaRows.map(({ row: r, cmp }) => (
                     <tr key={r.account} className="border-b last:border-b-0">
-                      <td className="px-4 py-1.5 text-xs">{accountLabel(r.account)}</td>
+                      <td className="px-4 py-1.5 text-xs"><AccountLink account={r.account} label={accountLabel(r.account)} onOpen={openLedger} /></td>
                       <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">€ {fmt(r.opening)}</td>
                       <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">€ {fmt(r.debit)}</td>
                       <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">€ {fmt(r.credit)}</td>
-                      <td className="px-4 py-1.5 text-right tabular-nums whitespace-nowrap font-medium">€ {fmt(r.closing)}</td>
+                      <td className={`${compare ? "px-2" : "px-4"} py-1.5 text-right tabular-nums whitespace-nowrap font-medium`}>€ {fmt(r.closing)}</td>
+                      {cmp && <DeviationCells c={cmp} />}
                     </tr>
                   ))}
                   <tr className="bg-muted/30 font-semibold text-xs">
                     <td className="px-4 py-2">{t("susa.total")}</td>
-                    <td className="px-2 py-2 text-right tabular-nums">€ {fmt(susa.reduce((s, r) => s + r.opening, 0))}</td>
-                    <td className="px-2 py-2 text-right tabular-nums">€ {fmt(susa.reduce((s, r) => s + r.debit, 0))}</td>
-                    <td className="px-2 py-2 text-right tabular-nums">€ {fmt(susa.reduce((s, r) => s + r.credit, 0))}</td>
-                    <td className="px-4 py-2 text-right tabular-nums">€ {fmt(susa.reduce((s, r) => s + r.closing, 0))}</td>
+                    <td className="px-2 py-2 text-right tabular-nums">€ {fmt(susaView.reduce((s, r) => s + r.opening, 0))}</td>
+                    <td className="px-2 py-2 text-right tabular-nums">€ {fmt(susaView.reduce((s, r) => s + r.debit, 0))}</td>
+                    <td className="px-2 py-2 text-right tabular-nums">€ {fmt(susaView.reduce((s, r) => s + r.credit, 0))}</td>
+                    <td className={`${compare ? "px-2" : "px-4"} py-2 text-right tabular-nums`}>€ {fmt(susaView.reduce((s, r) => s + r.closing, 0))}</td>
+                    {compare && <td colSpan={3} />}
                   </tr>
                 </tbody>
               </table>
@@ -563,37 +1276,252 @@ export default function Accounting({
       {tab === "guv" && (
         <Card>
           <CardHeader className="pb-2">
-            <CardTitle className="text-base">{t("guv.title", { year })}</CardTitle>
+            <div className="flex flex-wrap items-center gap-3">
+              <CardTitle className="text-base">{t("guv.title", { year: periodLabel })}</CardTitle>
+              {properties.length > 1 && (
+                <div className="flex rounded-lg border overflow-hidden">
+                  {(["total", "centers"] as const).map(m => (
+                    <button
+                      key={m}
+                      className={`px-2.5 py-1 text-xs ${guvMode === m ? "bg-primary text-primary-foreground" : "bg-background hover:bg-muted"}`}
+                      onClick={() => setGuvMode(m)}
+                    >
+                      {t(`costCenters.mode.${m}`)}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {guvMode === "centers" && properties.length > 1 && (
+                <label className="ml-auto flex items-center gap-2 text-xs text-muted-foreground">
+                  {t("costCenters.allocation")}
+                  <select
+                    className="border rounded px-2 py-1 text-xs bg-background"
+                    value={allocationKey}
+                    disabled={isReadOnly || isSaving || !onSaveAccountingSettings}
+                    onChange={e => onSaveAccountingSettings?.({ allocationKey: e.target.value as AllocationKey })}
+                  >
+                    {ALLOCATION_KEYS.map(k => <option key={k} value={k}>{t(`costCenters.keys.${k}`)}</option>)}
+                  </select>
+                </label>
+              )}
+            </div>
+            {guvMode === "total" && propertyFilter && (
+              <p className="text-xs text-muted-foreground">{t("costCenters.filterHint")}</p>
+            )}
           </CardHeader>
-          <CardContent className="p-0">
-            <div className="px-4 py-2 text-xs font-semibold text-muted-foreground border-b">{t("guv.revenues")}</div>
-            {guvData.revenues.map(r => (
-              <div key={r.account} className="flex justify-between px-4 py-1.5 border-b text-sm">
-                <span className="text-xs">{accountLabel(r.account)}</span>
-                <span className="tabular-nums">€ {fmt(r.amount)}</span>
+          {guvMode === "centers" && properties.length > 1 ? (
+            <CardContent className="p-0">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-xs text-muted-foreground">
+                      <th className="text-left font-medium px-4 py-2">{t("susa.account")}</th>
+                      {properties.map((p: any) => (
+                        <th key={p.id} className="text-right font-medium px-2 py-2 whitespace-nowrap">{p.name}</th>
+                      ))}
+                      {allocationKey === "none" && (
+                        <th className="text-right font-medium px-2 py-2 whitespace-nowrap">{t("costCenters.unassigned")}</th>
+                      )}
+                      <th className="text-right font-medium px-4 py-2 whitespace-nowrap">{t("costCenters.consolidated")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(["revenue", "expense"] as const).map(type => (
+                      <React.Fragment key={type}>
+                        <tr className="border-b bg-muted/30">
+                          <td colSpan={properties.length + (allocationKey === "none" ? 3 : 2)}
+                            className="px-4 py-1.5 text-xs font-semibold text-muted-foreground">
+                            {t(type === "revenue" ? "guv.revenues" : "guv.expenses")}
+                          </td>
+                        </tr>
+                        {centerGuv.rows.filter(r => r.type === type).map(r => (
+                          <tr key={r.account} className="border-b">
+                            <td className="px-4 py-1.5 text-xs">
+                              <AccountLink account={r.account} label={accountLabel(r.account)}
+                                onOpen={acc => openLedger(acc, { propertyId: "" })} />
+                            </td>
+                            {centerGuv.propertyIds.map(id => (
+                              <td key={id} className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">
+                                <button className="hover:underline hover:text-primary" title={t("drill.ledger")}
+                                  onClick={() => openLedger(r.account, { propertyId: id })}>
+                                  € {fmt(r.byProperty[id])}
+                                </button>
+                              </td>
+                            ))}
+                            {allocationKey === "none" && (
+                              <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">€ {fmt(r.unassigned)}</td>
+                            )}
+                            <td className="px-4 py-1.5 text-right tabular-nums whitespace-nowrap font-medium">€ {fmt(r.total)}</td>
+                          </tr>
+                        ))}
+                      </React.Fragment>
+                    ))}
+                    <tr className="bg-muted/30 font-semibold text-xs">
+                      <td className="px-4 py-2">{t("costCenters.result")}</td>
+                      {centerGuv.propertyIds.map(id => (
+                        <td key={id} className={`px-2 py-2 text-right tabular-nums whitespace-nowrap ${centerGuv.results[id] < 0 ? "text-destructive" : ""}`}>
+                          € {fmt(centerGuv.results[id])}
+                        </td>
+                      ))}
+                      {allocationKey === "none" && (
+                        <td className="px-2 py-2 text-right tabular-nums whitespace-nowrap">€ {fmt(centerGuv.unassignedResult)}</td>
+                      )}
+                      <td className={`px-4 py-2 text-right tabular-nums whitespace-nowrap ${centerGuv.totalResult < 0 ? "text-destructive" : "text-green-600"}`}>
+                        € {fmt(centerGuv.totalResult)}
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
               </div>
-            ))}
-            {guvData.revenues.length === 0 && <p className="px-4 py-2 text-sm text-muted-foreground">—</p>}
-            <div className="px-4 py-2 text-xs font-semibold text-muted-foreground border-b border-t">{t("guv.expenses")}</div>
-            {guvData.expenses.map(e => (
-              <div key={e.account} className="flex justify-between px-4 py-1.5 border-b text-sm">
-                <span className="text-xs">{accountLabel(e.account)}</span>
-                <span className="tabular-nums">− € {fmt(e.amount)}</span>
+              <p className="px-4 py-2 text-xs text-muted-foreground">{t(`costCenters.keyHint.${allocationKey}`)}</p>
+            </CardContent>
+          ) : guvCompare ? (
+            <CardContent className="p-0">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-xs text-muted-foreground">
+                      <th className="text-left font-medium px-4 py-2">{t("susa.account")}</th>
+                      <th className="text-right font-medium px-2 py-2">{periodLabel}</th>
+                      <th className="text-right font-medium px-2 py-2">{t("period.prior")}</th>
+                      <th className="text-right font-medium px-2 py-2">{t("period.delta")}</th>
+                      <th className="text-right font-medium px-4 py-2">%</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {([["revenues", guvCompare.revenues], ["expenses", guvCompare.expenses]] as const).map(([key, rows]) => (
+                      <React.Fragment key={key}>
+                        <tr className="border-b bg-muted/30">
+                          <td colSpan={5} className="px-4 py-1.5 text-xs font-semibold text-muted-foreground">{t(`guv.${key}`)}</td>
+                        </tr>
+                        {rows.map(r => (
+                          <tr key={r.account} className="border-b">
+                            <td className="px-4 py-1.5 text-xs"><AccountLink account={r.account} label={accountLabel(r.account)} onOpen={openLedger} /></td>
+                            <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">€ {fmt(r.current)}</td>
+                            <DeviationCells c={r} />
+                          </tr>
+                        ))}
+                        {rows.length === 0 && (
+                          <tr className="border-b"><td colSpan={5} className="px-4 py-1.5 text-sm text-muted-foreground">—</td></tr>
+                        )}
+                      </React.Fragment>
+                    ))}
+                    <tr className="bg-muted/30 font-semibold">
+                      <td className="px-4 py-2 text-sm">{t("costCenters.result")}</td>
+                      <td className={`px-2 py-2 text-right tabular-nums whitespace-nowrap ${guvCompare.result.current >= 0 ? "text-green-600" : "text-destructive"}`}>
+                        € {fmt(guvCompare.result.current)}
+                      </td>
+                      <DeviationCells c={guvCompare.result} />
+                    </tr>
+                  </tbody>
+                </table>
               </div>
-            ))}
-            {guvData.expenses.length === 0 && <p className="px-4 py-2 text-sm text-muted-foreground">—</p>}
-            <div className="flex justify-between px-4 py-3 border-t bg-muted/30">
-              <span className="font-semibold text-sm">
-                {guvData.result >= 0 ? t("guv.profit") : t("guv.loss")}
-              </span>
-              <span className={`font-semibold tabular-nums ${guvData.result >= 0 ? "text-green-600" : "text-destructive"}`}>
-                € {fmt(Math.abs(guvData.result))}
-              </span>
-            </div>
-          </CardContent>
+            </CardContent>
+          ) : (
+            <CardContent className="p-0">
+              <div className="px-4 py-2 text-xs font-semibold text-muted-foreground border-b">{t("guv.revenues")}</div>
+              {guvView.revenues.map(r => (
+                <div key={r.account} className="flex justify-between px-4 py-1.5 border-b text-sm">
+                  <span className="text-xs"><AccountLink account={r.account} label={accountLabel(r.account)} onOpen={openLedger} /></span>
+                  <span className="tabular-nums">€ {fmt(r.amount)}</span>
+                </div>
+              ))}
+              {guvView.revenues.length === 0 && <p className="px-4 py-2 text-sm text-muted-foreground">—</p>}
+              <div className="px-4 py-2 text-xs font-semibold text-muted-foreground border-b border-t">{t("guv.expenses")}</div>
+              {guvView.expenses.map(e => (
+                <div key={e.account} className="flex justify-between px-4 py-1.5 border-b text-sm">
+                  <span className="text-xs"><AccountLink account={e.account} label={accountLabel(e.account)} onOpen={openLedger} /></span>
+                  <span className="tabular-nums">− € {fmt(e.amount)}</span>
+                </div>
+              ))}
+              {guvView.expenses.length === 0 && <p className="px-4 py-2 text-sm text-muted-foreground">—</p>}
+              <div className="flex justify-between px-4 py-3 border-t bg-muted/30">
+                <span className="font-semibold text-sm">
+                  {guvView.result >= 0 ? t("guv.profit") : t("guv.loss")}
+                </span>
+                <span className={`font-semibold tabular-nums ${guvView.result >= 0 ? "text-green-600" : "text-destructive"}`}>
+                  € {fmt(Math.abs(guvView.result))}
+                </span>
+              </div>
+            </CardContent>
+          )}
         </Card>
       )}
 
+      {/* ── Kapitalflussrechnung ─────────────────────────────────────────── */}
+      {tab === "cashflow" && (
+        <CashFlowStatement statement={cashFlowData} periodLabel={periodLabel}
+          onSelectAccount={acc => openLedger(acc, { propertyId: "" })} />
+      )}
+
+      {/* ── Anlage EÜR ───────────────────────────────────────────────────── */}
+      {tab === "euer" && (
+        <EuerReport
+          lines={allLines}
+          apartments={apartments}
+          year={year}
+          propertyId={propertyFilter}
+          propertyName={properties.find((p: any) => String(p.id) === propertyFilter)?.name ?? t("allProperties")}
+          ownerName={properties.find((p: any) => String(p.id) === propertyFilter)?.["landlord-name"] ?? null}
+          onSelectAccount={acc => openLedger(acc, { wholeYear: true })}
+        />
+      )}
+
+      {/* ── Umsatzsteuer-Voranmeldung ──────────────────────────────────────── */}
+      {tab === "ustva" && (
+        <VatReturn
+          lines={allLines}
+          year={year}
+          properties={properties}
+          apartments={apartments}
+          allCosts={allCosts}
+          onSetCostVatRate={onSetCostVatRate}
+          onSelectAccount={acc => openLedger(acc, { propertyId: "", wholeYear: true })}
+        />
+      )}
+
+      {/* ── Plan/Ist ─────────────────────────────────────────────────────── */}
+      {tab === "plan" && (
+        <Budget
+          key={year}
+          year={year}
+          lines={allLines}
+          properties={properties}
+          budgets={budgets}
+          isReadOnly={isReadOnly}
+          isSaving={isSaving}
+          onSaveBudget={onSaveBudget}
+          onDeleteBudget={onDeleteBudget}
+        />
+      )}
+
+      {/* ── Kontenrahmen und eigene Konten ──────────────────────────────── */}
+      {tab === "kontenrahmen" && (
+        <div className="space-y-4">
+          <ChartSettings
+            chart={accountingSettings?.chart ?? "SKR04"}
+            accrual={!!accountingSettings?.accrual}
+            customAccounts={customAccounts}
+            usedAccounts={[...activeAccounts.map(a => a.number), ...accountMappings.map((m: any) => String(m.account))]}
+            isReadOnly={isReadOnly}
+            isSaving={isSaving}
+            onSaveSettings={onSaveAccountingSettings}
+            onAddAccount={onAddCustomAccount}
+            onDeleteAccount={onDeleteCustomAccount}
+          />
+          <AccountMappings
+            year={year}
+            accountMappings={accountMappings}
+            taxExpenses={taxExpenses}
+            fallbacks={fallbacks}
+            isReadOnly={isReadOnly}
+            isSaving={isSaving}
+            onSaveMapping={onSaveAccountMapping}
+            onDeleteMapping={onDeleteAccountMapping}
+          />
+        </div>
+      )}
+
       {/* ── Bilanz ──────────────────────────────────────────────────────── */}
       {tab === "bilanz" && (
         <div className="grid md:grid-cols-2 gap-4">
@@ -604,7 +1532,10 @@ export default function Accounting({
             <CardContent className="p-0">
               {bilanzData.aktiva.map(a => (
                 <div key={a.account} className="flex justify-between px-4 py-1.5 border-b text-sm">
-                  <span className="text-xs">{accountLabel(a.account)}</span>
+                  <span className="text-xs">
+                    <AccountLink account={a.account} label={accountLabel(a.account)}
+                      onOpen={acc => openLedger(acc, { propertyId: "", wholeYear: true })} />
+                  </span>
                   <span className="tabular-nums">€ {fmt(a.amount)}</span>
                 </div>
               ))}
@@ -622,7 +1553,12 @@ export default function Accounting({
             <CardContent className="p-0">
               {bilanzData.passiva.map((p, i) => (
                 <div key={i} className="flex justify-between px-4 py-1.5 border-b text-sm">
-                  <span className="text-xs">{p.label ?? accountLabel(p.account)}</span>
+                  <span className="text-xs">
+                    {p.label ?? (
+                      <AccountLink account={p.account} label={accountLabel(p.account)}
+                        onOpen={acc => openLedger(acc, { propertyId: "", wholeYear: true })} />
+                    )}
+                  </span>
                   <span className="tabular-nums">€ {fmt(p.amount)}</span>
                 </div>
               ))}
@@ -0,0 +1,105 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { BookOpen } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { BANK_ACCOUNT, accountLabel, bankAccounts, bankLedgerAccounts } from "./chartOfAccounts";
+import { ledger } from "./engine";
+import type { DateRange, JournalLine } from "./engine";
+
+type Props = {
+  lines: JournalLine[];
+  range: DateRange;
+  /** Erfasste Bankkonten (bank-account Entities). */
+  bankAccountList: any[];
+  selectedAccount: string;
+  onSelectAccount: (account: string) => void;
+};
+
+function fmt(n: number): string {
+  return n.toLocaleString("de-DE", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function pNum(v: string): number | null {
+  if (v.trim() === "") return null;
+  const n = parseFloat(v.replace(",", "."));
+  return Number.isFinite(n) ? n : null;
+}
+
+function fmtDate(d: string): string {
+  const [y, m, day] = d.split("-");
+  return `${day}.${m}.${y}`;
+}
+
+/** Bankkonten mit Endsaldo laut Kontenblatt und Abgleich mit dem Kontoauszug. */
+export default function BankLedgers({ lines, range, bankAccountList, selectedAccount, onSelectAccount }: Props) {
+  const { t } = useTranslation("accounting");
+  const [statement, setStatement] = useState<Record<string, string>>({});
+
+  const ibanByAccount = new Map<string, string>();
+  for (const [id, no] of bankLedgerAccounts(bankAccountList)) {
+    const ba = bankAccountList.find(b => String(b.id ?? b["db/id"]) === id);
+    ibanByAccount.set(no, String(ba?.["bank-account/iban"] ?? ba?.iban ?? ""));
+  }
+
+  const rows = bankAccounts().map(no => ({ no, closing: ledger(lines, no, range).closing }));
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{t("banks.title", { date: fmtDate(range.to) })}</CardTitle>
+        <p className="text-xs text-muted-foreground">{t("banks.hint")}</p>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-xs text-muted-foreground">
+                <th className="text-left  font-medium px-4 py-2">{t("banks.account")}</th>
+                <th className="text-left  font-medium px-2 py-2">{t("banks.iban")}</th>
+                <th className="text-right font-medium px-2 py-2">{t("banks.ledgerBalance")}</th>
+                <th className="text-right font-medium px-2 py-2">{t("banks.statementBalance")}</th>
+                <th className="text-right font-medium px-2 py-2">{t("banks.difference")}</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ no, closing }) => {
+                const stmt = pNum(statement[no] ?? "");
+                const diff = stmt === null ? null : closing - stmt;
+                return (
+                  <tr key={no} className={`border-b ${no === selectedAccount ? "bg-muted/40" : ""}`}>
+                    <td className="px-4 py-1.5 text-xs whitespace-nowrap">
+                      {accountLabel(no)}
+                      {no === BANK_ACCOUNT && <span className="ml-2 text-muted-foreground">{t("banks.unassigned")}</span>}
+                    </td>
+                    <td className="px-2 py-1.5 font-mono text-xs whitespace-nowrap">{ibanByAccount.get(no) || "—"}</td>
+                    <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">€ {fmt(closing)}</td>
+                    <td className="px-2 py-1.5 text-right">
+                      <input
+                        className="border rounded px-2 h-7 w-28 text-xs text-right tabular-nums bg-background"
+                        inputMode="decimal"
+                        placeholder="0,00"
+                        value={statement[no] ?? ""}
+                        onChange={e => setStatement(s => ({ ...s, [no]: e.target.value }))}
+                      />
+                    </td>
+                    <td className={`px-2 py-1.5 text-right tabular-nums whitespace-nowrap text-xs ${
+                      diff === null ? "text-muted-foreground" : Math.abs(diff) < 0.005 ? "text-green-700" : "text-destructive"}`}>
+                      {diff === null ? "—" : Math.abs(diff) < 0.005 ? t("banks.reconciled") : `€ ${fmt(diff)}`}
+                    </td>
+                    <td className="px-4 py-1.5 text-right">
+                      <button className="text-muted-foreground hover:text-foreground" title={t("banks.showLedger")}
+                        onClick={() => onSelectAccount(no)}>
+                        <BookOpen className="h-3.5 w-3.5" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
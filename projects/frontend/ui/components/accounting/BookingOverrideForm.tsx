@@ -0,0 +1,96 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { allAccounts, accountLabel } from "./chartOfAccounts";
+import { bookingOverrideError } from "./bookingOverrides";
+import type { BookingOverride } from "./bookingOverrides";
+import type { JournalLine } from "./engine";
+
+type Props = {
+  line: JournalLine;
+  /** Vorhandene Umbuchung dieser Buchung. */
+  override?: BookingOverride;
+  properties: any[];
+  /** Jahr liegt im abgeschlossenen Bereich: Umbuchung wirkt als Korrektur im Folgejahr. */
+  closed?: boolean;
+  isSaving?: boolean;
+  onSave: (data: { lineId: string; debit: string; credit: string; date: string; propertyId: string; note: string }) => void;
+  onDelete?: (id: string) => void;
+  onCancel: () => void;
+};
+
+/** Umbuchung einer abgeleiteten Buchung (Konto, Datum, Immobilie). */
+export default function BookingOverrideForm({ line, override, properties, closed, isSaving, onSave, onDelete, onCancel }: Props) {
+  const { t } = useTranslation("accounting");
+  const { t: tCommon } = useTranslation("common");
+  // Ausgangswerte der Ableitung (bei bestehender Umbuchung die ursprünglichen).
+  const derived = line.overridden ?? line;
+  const [draft, setDraft] = useState({
+    debit: override?.debit ?? "",
+    credit: override?.credit ?? "",
+    date: override?.date ?? "",
+    propertyId: override?.propertyId ?? "",
+    note: override?.note ?? "",
+  });
+  const error = bookingOverrideError(derived, draft);
+  const set = (k: keyof typeof draft) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setDraft(d => ({ ...d, [k]: e.target.value }));
+
+  const accountSelect = (k: "debit" | "credit", current: string) => (
+    <select className="border rounded px-2 h-8 text-sm w-full bg-background" value={draft[k]} onChange={set(k)}>
+      <option value="">{t("override.keep", { value: accountLabel(current) })}</option>
+      {allAccounts().map(a => <option key={a.number} value={a.number}>{accountLabel(a.number)}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="px-4 py-3 space-y-2 bg-muted/30">
+      <p className="text-xs text-muted-foreground">{t("override.hint", { id: line.id })}</p>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs">{t("journal.debit")}</Label>
+          {accountSelect("debit", derived.debit)}
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">{t("journal.credit")}</Label>
+          {accountSelect("credit", derived.credit)}
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">{t("journal.date")}</Label>
+          <Input className="h-8 text-sm" type="date" value={draft.date} placeholder={derived.date} onChange={set("date")} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">{t("journal.property")}</Label>
+          <select className="border rounded px-2 h-8 text-sm w-full bg-background" value={draft.propertyId} onChange={set("propertyId")}>
+            <option value="">
+              {t("override.keep", { value: properties.find((p: any) => String(p.id) === derived.propertyId)?.name ?? "—" })}
+            </option>
+            {properties.map((p: any) => <option key={p.id} value={String(p.id)}>{p.name}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1 col-span-2 sm:col-span-4">
+          <Label className="text-xs">{t("override.note")}</Label>
+          <Input className="h-8 text-sm" placeholder={t("override.notePlaceholder")} value={draft.note} onChange={set("note")} />
+        </div>
+      </div>
+      {error === "sameAccount" && <p className="text-xs text-destructive">{t("journal.sameAccount")}</p>}
+      {closed && <p className="text-xs text-amber-600">{t("override.closedYear", { next: line.year + 1 })}</p>}
+      <div className="flex gap-2 pt-1">
+        <Button size="sm" className="h-7" disabled={error !== null || isSaving}
+          onClick={() => onSave({ lineId: line.id, ...draft, note: draft.note.trim() })}>
+          {t("override.save")}
+        </Button>
+        {override && onDelete && (
+          <Button size="sm" variant="outline" className="h-7" disabled={isSaving} onClick={() => onDelete(override.id)}>
+            {t("override.remove")}
+          </Button>
+        )}
+        <Button size="sm" variant="ghost" className="h-7" onClick={onCancel}>
+          {tCommon("cancel")}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import React, { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "../ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { accountLabel, allAccounts } from "./chartOfAccounts";
+import type { JournalLine } from "./engine";
+import { VARIANCE_THRESHOLD_PCT, planActual, spreadEvenly, toBudget } from "./budgets";
+import type { PlanActualRow } from "./budgets";
+
+type Props = {
+  year: number;
+  lines: JournalLine[];
+  properties: any[];
+  budgets: any[];
+  isReadOnly?: boolean;
+  isSaving?: boolean;
+  onSaveBudget?: (data: { year: number; account: string; propertyId: string; months: number[] }) => void;
+  onDeleteBudget?: (id: string) => void;
+};
+
+type Draft = { account: string; total: string; months: string[] };
+
+const MONTHS = Array.from({ length: 12 }, (_, i) => i + 1);
+
+function fmt(n: number): string {
+  return n.toLocaleString("de-DE", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function pNum(v: any): number {
+  if (v === null || v === undefined || v === "") return 0;
+  return parseFloat(String(v).replace(",", ".")) || 0;
+}
+
+function fmtPct(pct: number | null): string {
+  if (pct === null) return "—";
+  return `${pct >= 0 ? "+" : "−"}${Math.abs(pct).toLocaleString("de-DE", { minimumFractionDigits: 1, maximumFractionDigits: 1 })} %`;
+}
+
+/** Hervorhebung: deutliche Abweichung rot (ungünstig) bzw. grün (günstig). */
+function varianceClass(r: { favorable: boolean; pct: number | null; variance: number }): string {
+  const significant = r.pct === null ? Math.abs(r.variance) > 0.005 : Math.abs(r.pct) >= VARIANCE_THRESHOLD_PCT;
+  if (!significant) return "";
+  return r.favorable ? "text-green-600" : "text-destructive font-medium";
+}
+
+export default function Budget({
+  year,
+  lines,
+  properties,
+  budgets,
+  isReadOnly = false,
+  isSaving = false,
+  onSaveBudget,
+  onDeleteBudget,
+}: Props) {
+  const { t } = useTranslation("accounting");
+  const { t: tCommon } = useTranslation("common");
+
+  const currentYear = new Date().getFullYear();
+  const [propertyId, setPropertyId] = useState("");
+  const [throughMonth, setThroughMonth] = useState(() => year === currentYear ? new Date().getMonth() + 1 : 12);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const all = useMemo(() => budgets.map(toBudget), [budgets]);
+  const report = useMemo(() => planActual(lines, all, year, throughMonth, propertyId || undefined),
+    [lines, all, year, throughMonth, propertyId]);
+  // Erfassung: Budgets genau dieser Immobilie bzw. ohne Immobilie (Portfolio)
+  const entries = all
+    .filter(b => b.year === year && b.propertyId === propertyId)
+    .sort((a, b) => a.account.localeCompare(b.account));
+  const accountOptions = allAccounts().filter(a => a.type === "revenue" || a.type === "expense");
+  const canEdit = !isReadOnly && !!onSaveBudget;
+
+  function editBudget(account: string) {
+    const existing = entries.find(b => b.account === account);
+    const months = existing?.months ?? Array(12).fill(0);
+    setDraft({
+      account,
+      total: months.some(v => v) ? String(months.reduce((s, v) => s + v, 0)) : "",
+      months: months.map(v => (v ? String(v) : "")),
+    });
+  }
+
+  function saveDraft() {
+    if (!draft?.account) return;
+    onSaveBudget?.({ year, account: draft.account, propertyId, months: draft.months.map(pNum) });
+    setDraft(null);
+  }
+
+  const section = (type: "revenue" | "expense", rows: PlanActualRow[]) => (
+    <>
+      <tr className="border-b bg-muted/30">
+        <td colSpan={7} className="px-4 py-1.5 text-xs font-semibold text-muted-foreground">
+          {t(type === "revenue" ? "guv.revenues" : "guv.expenses")}
+        </td>
+      </tr>
+      {rows.map(r => (
+        <tr key={r.account} className="border-b">
+          <td className="px-4 py-1.5 text-xs">{accountLabel(r.account)}</td>
+          <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">€ {fmt(r.plan)}</td>
+          <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">€ {fmt(r.actual)}</td>
+          <td className={`px-2 py-1.5 text-right tabular-nums whitespace-nowrap ${varianceClass(r)}`}>
+            {r.variance < 0 ? "−" : "+"} € {fmt(Math.abs(r.variance))}
+          </td>
+          <td className={`px-2 py-1.5 text-right tabular-nums whitespace-nowrap text-xs ${varianceClass(r)}`}>{fmtPct(r.pct)}</td>
+          <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap text-muted-foreground">€ {fmt(r.planYear)}</td>
+          <td className="px-4 py-1.5 text-right tabular-nums whitespace-nowrap">€ {fmt(r.forecast)}</td>
+        </tr>
+      ))}
+      {rows.length === 0 && (
+        <tr className="border-b"><td colSpan={7} className="px-4 py-1.5 text-sm text-muted-foreground">—</td></tr>
+      )}
+    </>
+  );
+
+  const result = report.result;
+  const resultVariance = result.actual - result.plan;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-2">
+          <div className="flex flex-wrap items-center gap-3">
+            <CardTitle className="text-base">{t("budget.title", { year })}</CardTitle>
+            {properties.length > 0 && (
+              <select className="border rounded px-2 py-1 text-sm bg-background" value={propertyId}
+                onChange={e => { setPropertyId(e.target.value); setDraft(null); }}>
+                <option value="">{t("budget.portfolio")}</option>
+                {properties.map((p: any) => <option key={p.id} value={String(p.id)}>{p.name}</option>)}
+              </select>
+            )}
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              {t("budget.through")}
+              <select className="border rounded px-2 py-1 text-sm bg-background" value={throughMonth}
+                onChange={e => setThroughMonth(Number(e.target.value))}>
+                {MONTHS.map(m => <option key={m} value={m}>{String(m).padStart(2, "0")}/{year}</option>)}
+              </select>
+            </label>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-xs text-muted-foreground">
+                  <th className="text-left  font-medium px-4 py-2">{t("susa.account")}</th>
+                  <th className="text-right font-medium px-2 py-2">{t("budget.plan")}</th>
+                  <th className="text-right font-medium px-2 py-2">{t("budget.actual")}</th>
+                  <th className="text-right font-medium px-2 py-2">{t("period.delta")}</th>
+                  <th className="text-right font-medium px-2 py-2">%</th>
+                  <th className="text-right font-medium px-2 py-2">{t("budget.planYear")}</th>
+                  <th className="text-right font-medium px-4 py-2">{t("budget.forecast")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {section("revenue", report.rows.filter(r => r.type === "revenue"))}
+                {section("expense", report.rows.filter(r => r.type === "expense"))}
+                <tr className="bg-muted/30 font-semibold text-xs">
+                  <td className="px-4 py-2">{t("costCenters.result")}</td>
+                  <td className="px-2 py-2 text-right tabular-nums whitespace-nowrap">€ {fmt(result.plan)}</td>
+                  <td className="px-2 py-2 text-right tabular-nums whitespace-nowrap">€ {fmt(result.actual)}</td>
+                  <td className={`px-2 py-2 text-right tabular-nums whitespace-nowrap ${resultVariance < -0.005 ? "text-destructive" : ""}`}>
+                    {resultVariance < 0 ? "−" : "+"} € {fmt(Math.abs(resultVariance))}
+                  </td>
+                  <td />
+                  <td className="px-2 py-2 text-right tabular-nums whitespace-nowrap">€ {fmt(result.planYear)}</td>
+                  <td className="px-4 py-2 text-right tabular-nums whitespace-nowrap">€ {fmt(result.forecast)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <p className="px-4 py-2 text-xs text-muted-foreground">
+            {t("budget.hint", { threshold: VARIANCE_THRESHOLD_PCT })}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">
+              {t("budget.entryTitle", {
+                scope: properties.find((p: any) => String(p.id) === propertyId)?.name ?? t("budget.portfolio"),
+              })}
+            </CardTitle>
+            {canEdit && !draft && (
+              <Button size="sm" variant="outline" className="h-7 gap-1" onClick={() => editBudget("")}>
+                <Plus className="h-3.5 w-3.5" />
+                {t("budget.add")}
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          {draft && (
+            <div className="border-b px-4 py-3 space-y-2 bg-muted/30">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                <div className="space-y-1 sm:col-span-2">
+                  <Label className="text-xs">{t("susa.account")}</Label>
+                  <select className="border rounded px-2 h-8 text-sm w-full bg-background" value={draft.account}
+                    onChange={e => setDraft(d => d && { ...d, account: e.target.value })}>
+                    <option value="">—</option>
+                    {accountOptions.map(a => <option key={a.number} value={a.number}>{accountLabel(a.number)}</option>)}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">{t("budget.yearAmount")}</Label>
+                  <div className="flex gap-1">
+                    <Input className="h-8 text-sm" inputMode="decimal" value={draft.total}
+                      onChange={e => setDraft(d => d && { ...d, total: e.target.value })} />
+                    <Button size="sm" variant="outline" className="h-8"
+                      onClick={() => setDraft(d => d && { ...d, months: spreadEvenly(pNum(d.total)).map(String) })}>
+                      {t("budget.spread")}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+              <div className="grid grid-cols-4 sm:grid-cols-6 lg:grid-cols-12 gap-1">
+                {MONTHS.map(m => (
+                  <div key={m} className="space-y-0.5">
+                    <Label className="text-[10px] text-muted-foreground">{String(m).padStart(2, "0")}</Label>
+                    <Input className="h-7 text-xs px-1.5" inputMode="decimal" value={draft.months[m - 1]}
+                      onChange={e => setDraft(d => d && { ...d, months: d.months.map((v, i) => i === m - 1 ? e.target.value : v) })} />
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <Button size="sm" className="h-7" disabled={!draft.account || isSaving} onClick={saveDraft}>
+                  {tCommon("save")}
+                </Button>
+                <Button size="sm" variant="ghost" className="h-7" onClick={() => setDraft(null)}>
+                  {tCommon("cancel")}
+                </Button>
+                <span className="ml-auto text-xs text-muted-foreground tabular-nums">
+                  {t("budget.sum")}: € {fmt(draft.months.reduce((s, v) => s + pNum(v), 0))}
+                </span>
+              </div>
+            </div>
+          )}
+          {entries.length === 0 && !draft && (
+            <p className="px-4 py-3 text-sm text-muted-foreground">{t("budget.empty")}</p>
+          )}
+          {entries.map(b => (
+            <div key={b.id ?? b.account} className="flex items-center justify-between px-4 py-1.5 border-b text-sm">
+              <span className="text-xs">{accountLabel(b.account)}</span>
+              <span className="flex items-center gap-3">
+                <span className="tabular-nums">€ {fmt(b.months.reduce((s, v) => s + v, 0))}</span>
+                {canEdit && (
+                  <button className="text-muted-foreground hover:text-foreground" title={t("budget.edit")}
+                    onClick={() => editBudget(b.account)}>
+                    <Pencil className="h-3.5 w-3.5" />
+                  </button>
+                )}
+                {canEdit && onDeleteBudget && b.id && (
+                  <button className="text-muted-foreground hover:text-destructive disabled:opacity-30" disabled={isSaving}
+                    title={t("budget.delete")} onClick={() => onDeleteBudget(b.id!)}>
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
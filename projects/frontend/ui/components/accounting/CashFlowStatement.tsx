@@ -0,0 +1,105 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { accountLabel, bankAccounts } from "./chartOfAccounts";
+import { CASH_FLOW_AREAS } from "./cashFlow";
+import type { CashFlowStatement } from "./cashFlow";
+
+type Props = {
+  statement: CashFlowStatement;
+  periodLabel: string;
+  /** Drill-down ins Kontenblatt des Gegenkontos. */
+  onSelectAccount?: (account: string) => void;
+};
+
+function fmt(n: number): string {
+  return n.toLocaleString("de-DE", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function signed(n: number): string {
+  return `${n < 0 ? "−" : "+"} € ${fmt(Math.abs(n))}`;
+}
+
+export default function CashFlowStatement({ statement, periodLabel, onSelectAccount }: Props) {
+  const { t } = useTranslation("accounting");
+  const reconciled = Math.abs(statement.difference) < 0.005;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{t("cashFlow.title", { year: periodLabel })}</CardTitle>
+        <p className="text-xs text-muted-foreground">{t("cashFlow.hint", { account: bankAccounts().map(accountLabel).join(", ") })}</p>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-xs text-muted-foreground">
+                <th className="text-left  font-medium px-4 py-2">{t("cashFlow.counterAccount")}</th>
+                <th className="text-right font-medium px-2 py-2">{t("cashFlow.inflow")}</th>
+                <th className="text-right font-medium px-2 py-2">{t("cashFlow.outflow")}</th>
+                <th className="text-right font-medium px-4 py-2">{t("cashFlow.net")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b font-medium">
+                <td className="px-4 py-2" colSpan={3}>{t("cashFlow.opening")}</td>
+                <td className="px-4 py-2 text-right tabular-nums whitespace-nowrap">€ {fmt(statement.opening)}</td>
+              </tr>
+              {CASH_FLOW_AREAS.map(area => {
+                const s = statement.sections[area];
+                return (
+                  <React.Fragment key={area}>
+                    <tr className="border-b bg-muted/30">
+                      <td colSpan={4} className="px-4 py-1.5 text-xs font-semibold text-muted-foreground">
+                        {t(`cashFlow.areas.${area}`)}
+                      </td>
+                    </tr>
+                    {s.items.map(it => (
+                      <tr key={it.account} className="border-b">
+                        <td className="px-4 py-1.5 text-xs">
+                          {onSelectAccount ? (
+                            <button className="text-left hover:underline hover:text-primary" onClick={() => onSelectAccount(it.account)}>
+                              {accountLabel(it.account)}
+                            </button>
+                          ) : accountLabel(it.account)}
+                        </td>
+                        <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">{it.inflow > 0.005 ? `€ ${fmt(it.inflow)}` : ""}</td>
+                        <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">{it.outflow > 0.005 ? `€ ${fmt(it.outflow)}` : ""}</td>
+                        <td className="px-4 py-1.5 text-right tabular-nums whitespace-nowrap">{signed(it.net)}</td>
+                      </tr>
+                    ))}
+                    {s.items.length === 0 && (
+                      <tr className="border-b"><td colSpan={4} className="px-4 py-1.5 text-sm text-muted-foreground">—</td></tr>
+                    )}
+                    <tr className="border-b text-xs font-semibold">
+                      <td className="px-4 py-1.5">{t(`cashFlow.totals.${area}`)}</td>
+                      <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">€ {fmt(s.inflow)}</td>
+                      <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">€ {fmt(s.outflow)}</td>
+                      <td className={`px-4 py-1.5 text-right tabular-nums whitespace-nowrap ${s.total < 0 ? "text-destructive" : ""}`}>{signed(s.total)}</td>
+                    </tr>
+                  </React.Fragment>
+                );
+              })}
+              <tr className="border-b font-medium">
+                <td className="px-4 py-2" colSpan={3}>{t("cashFlow.netChange")}</td>
+                <td className={`px-4 py-2 text-right tabular-nums whitespace-nowrap ${statement.netChange < 0 ? "text-destructive" : "text-green-600"}`}>
+                  {signed(statement.netChange)}
+                </td>
+              </tr>
+              <tr className="bg-muted/30 font-semibold">
+                <td className="px-4 py-2" colSpan={3}>{t("cashFlow.closing")}</td>
+                <td className="px-4 py-2 text-right tabular-nums whitespace-nowrap">€ {fmt(statement.closing)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+        <p className={`px-4 py-2 text-xs ${reconciled ? "text-muted-foreground" : "text-destructive"}`}>
+          {reconciled
+            ? t("cashFlow.reconciled")
+            : t("cashFlow.difference", { amount: fmt(statement.difference) })}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
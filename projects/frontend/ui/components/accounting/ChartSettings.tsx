@@ -0,0 +1,152 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "../ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { ACCOUNT_TYPES, CHARTS, customAccountError } from "./chartOfAccounts";
+import type { AccountType, ChartId } from "./chartOfAccounts";
+
+type Props = {
+  chart: ChartId;
+  /** Mieten im Soll-Modus (Forderungen auf 1200) statt nach Zufluss. */
+  accrual: boolean;
+  customAccounts: any[];
+  /** Kontonummern mit Buchungen — diese eigenen Konten können nicht gelöscht werden. */
+  usedAccounts: string[];
+  isReadOnly?: boolean;
+  isSaving?: boolean;
+  onSaveSettings?: (data: { chart?: ChartId; accrual?: boolean }) => void;
+  onAddAccount?: (data: { number: string; name: string; type: AccountType }) => void;
+  onDeleteAccount?: (id: string) => void;
+};
+
+const emptyDraft = { number: "", name: "", type: "expense" as AccountType };
+
+export default function ChartSettings({
+  chart,
+  accrual,
+  customAccounts,
+  usedAccounts,
+  isReadOnly = false,
+  isSaving = false,
+  onSaveSettings,
+  onAddAccount,
+  onDeleteAccount,
+}: Props) {
+  const { t } = useTranslation("accounting");
+  const [draft, setDraft] = useState(emptyDraft);
+
+  const numberError = draft.number ? customAccountError(draft.number) : null;
+  const canAdd = !!draft.number && !numberError && !!draft.name.trim();
+  const sorted = customAccounts.slice().sort((a, b) => String(a.number).localeCompare(String(b.number)));
+
+  function handleAdd() {
+    if (!canAdd) return;
+    onAddAccount?.({ number: draft.number, name: draft.name.trim(), type: draft.type });
+    setDraft(emptyDraft);
+  }
+
+  return (
+    <div className="grid md:grid-cols-2 gap-4">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">{t("kontenrahmen.title")}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-xs text-muted-foreground">{t("kontenrahmen.intro")}</p>
+          <div className="flex rounded-lg border overflow-hidden w-fit">
+            {CHARTS.map(c => (
+              <button
+                key={c}
+                disabled={isReadOnly || isSaving || !onSaveSettings}
+                className={`px-3 py-1.5 text-sm ${chart === c ? "bg-primary text-primary-foreground" : "bg-background hover:bg-muted"}`}
+                onClick={() => c !== chart && onSaveSettings?.({ chart: c })}
+              >
+                {c}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">{t(`kontenrahmen.hint${chart}`)}</p>
+          <div className="pt-2 border-t space-y-2">
+            <Label className="text-sm">{t("kontenrahmen.rentMode")}</Label>
+            <div className="flex rounded-lg border overflow-hidden w-fit">
+              {[false, true].map(mode => (
+                <button
+                  key={String(mode)}
+                  disabled={isReadOnly || isSaving || !onSaveSettings}
+                  className={`px-3 py-1.5 text-sm ${accrual === mode ? "bg-primary text-primary-foreground" : "bg-background hover:bg-muted"}`}
+                  onClick={() => mode !== accrual && onSaveSettings?.({ accrual: mode })}
+                >
+                  {t(mode ? "kontenrahmen.accrual" : "kontenrahmen.cash")}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">{t(accrual ? "kontenrahmen.accrualHint" : "kontenrahmen.cashHint")}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">{t("kontenrahmen.customTitle")}</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {sorted.length === 0 && (
+            <p className="px-4 py-3 text-sm text-muted-foreground">{t("kontenrahmen.customEmpty")}</p>
+          )}
+          {sorted.map(a => {
+            const used = usedAccounts.includes(String(a.number));
+            return (
+              <div key={String(a.id)} className="flex items-center justify-between px-4 py-1.5 border-b text-sm">
+                <span className="text-xs">
+                  {a.number} {a.name}
+                  <span className="ml-2 text-muted-foreground">{t(`kontenrahmen.types.${a.type}`)}</span>
+                </span>
+                {!isReadOnly && onDeleteAccount && (
+                  <button className="text-muted-foreground hover:text-destructive disabled:opacity-30"
+                    disabled={used || isSaving}
+                    title={used ? t("kontenrahmen.inUse") : t("kontenrahmen.delete")}
+                    onClick={() => onDeleteAccount(String(a.id))}>
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+          {!isReadOnly && onAddAccount && (
+            <div className="px-4 py-3 space-y-2 bg-muted/30">
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">{t("kontenrahmen.number")}</Label>
+                  <Input className="h-8 text-sm" inputMode="numeric" value={draft.number}
+                    onChange={e => setDraft(d => ({ ...d, number: e.target.value.trim() }))} />
+                </div>
+                <div className="space-y-1 col-span-2">
+                  <Label className="text-xs">{t("kontenrahmen.name")}</Label>
+                  <Input className="h-8 text-sm" value={draft.name}
+                    onChange={e => setDraft(d => ({ ...d, name: e.target.value }))} />
+                </div>
+                <div className="space-y-1 col-span-2">
+                  <Label className="text-xs">{t("kontenrahmen.type")}</Label>
+                  <select className="border rounded px-2 h-8 text-sm w-full bg-background" value={draft.type}
+                    onChange={e => setDraft(d => ({ ...d, type: e.target.value as AccountType }))}>
+                    {ACCOUNT_TYPES.map(ty => <option key={ty} value={ty}>{t(`kontenrahmen.types.${ty}`)}</option>)}
+                  </select>
+                </div>
+                <div className="flex items-end">
+                  <Button size="sm" className="h-8 w-full gap-1" disabled={!canAdd || isSaving} onClick={handleAdd}>
+                    <Plus className="h-3.5 w-3.5" />
+                    {t("kontenrahmen.add")}
+                  </Button>
+                </div>
+              </div>
+              {numberError && <p className="text-xs text-destructive">{t(`kontenrahmen.error.${numberError}`)}</p>}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
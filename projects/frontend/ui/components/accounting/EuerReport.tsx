@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { AlertTriangle, FileDown, Loader2 } from "lucide-react";
+import { Button } from "../ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { accountLabel } from "./chartOfAccounts";
+import { euer } from "./euer";
+import type { EuerLine } from "./euer";
+import { generateEuerPdf } from "./euerPdf";
+import { downloadPdf } from "../tax/anlageVPdf";
+import type { JournalLine } from "./engine";
+
+type Props = {
+  lines: JournalLine[];
+  /** Einheiten (Steuersätze bei Option nach § 9 UStG). */
+  apartments: any[];
+  year: number;
+  /** "" = alle Immobilien. */
+  propertyId: string;
+  propertyName: string;
+  ownerName?: string | null;
+  /** Drill-down ins Kontenblatt (ganzes Jahr). */
+  onSelectAccount?: (account: string) => void;
+};
+
+function fmt(n: number): string {
+  return n.toLocaleString("de-DE", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/** Anlage EÜR: Zufluss-/Abflussrechnung aus dem Journal, zugeordnet zu den Formularzeilen. */
+export default function EuerReport({ lines, apartments, year, propertyId, propertyName, ownerName, onSelectAccount }: Props) {
+  const { t } = useTranslation("accounting");
+  const [generating, setGenerating] = useState(false);
+
+  const data = useMemo(() => euer(lines, year, propertyId || undefined, apartments),
+    [lines, year, propertyId, apartments]);
+
+  const warnings: string[] = [];
+  if (data.nonCashExpenses >= 0.005) warnings.push(t("euer.warnNonCash", { amount: fmt(data.nonCashExpenses) }));
+  if (data.liabilityPayments >= 0.005) warnings.push(t("euer.warnLiabilities", { amount: fmt(data.liabilityPayments) }));
+
+  async function handleGeneratePdf() {
+    setGenerating(true);
+    try {
+      const pdfLine = (l: EuerLine) => ({
+        zeile: l.zeile, label: l.label, amount: l.amount,
+        accounts: l.accounts.map(a => `${accountLabel(a.account)}: ${fmt(a.amount)}`),
+      });
+      const bytes = await generateEuerPdf({
+        year,
+        ownerName: ownerName ?? null,
+        scope: propertyName,
+        income: data.income.map(pdfLine),
+        totalIncome: data.totalIncome,
+        expenses: data.expenses.map(pdfLine),
+        totalExpenses: data.totalExpenses,
+        result: data.result,
+        warnings,
+      });
+      downloadPdf(bytes, `AnlageEUER_${propertyName.replace(/\s+/g, "_")}_${year}.pdf`);
+    } finally {
+      setGenerating(false);
+    }
+  }
+
+  const section = (title: string, rows: EuerLine[], total: number, totalLabel: string) => (
+    <>
+      <tr className="border-b bg-muted/30">
+        <td colSpan={3} className="px-4 py-1.5 text-xs font-semibold text-muted-foreground">{title}</td>
+      </tr>
+      {rows.length === 0 && (
+        <tr className="border-b">
+          <td colSpan={3} className="px-4 py-1.5 text-xs text-muted-foreground">{t("euer.none")}</td>
+        </tr>
+      )}
+      {rows.map(l => (
+        <React.Fragment key={l.key}>
+          <tr className="border-b">
+            <td className="px-4 py-1.5 text-xs text-muted-foreground whitespace-nowrap">{t("euer.zeile", { zeile: l.zeile })}</td>
+            <td className="px-2 py-1.5">{t(`euer.lines.${l.key}`)}</td>
+            <td className="px-4 py-1.5 text-right tabular-nums whitespace-nowrap">€ {fmt(l.amount)}</td>
+          </tr>
+          {l.accounts.map(a => (
+            <tr key={a.account} className="border-b text-xs text-muted-foreground">
+              <td />
+              <td className="px-2 py-1 pl-6">
+                {onSelectAccount ? (
+                  <button className="hover:underline text-left" title={t("drill.ledger")}
+                    onClick={() => onSelectAccount(a.account)}>
+                    {accountLabel(a.account)}
+                  </button>
+                ) : accountLabel(a.account)}
+              </td>
+              <td className="px-4 py-1 text-right tabular-nums whitespace-nowrap">€ {fmt(a.amount)}</td>
+            </tr>
+          ))}
+        </React.Fragment>
+      ))}
+      <tr className="border-b font-medium">
+        <td />
+        <td className="px-2 py-2">{totalLabel}</td>
+        <td className="px-4 py-2 text-right tabular-nums whitespace-nowrap">€ {fmt(total)}</td>
+      </tr>
+    </>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-base">{t("euer.title", { year })}</CardTitle>
+            <p className="text-xs text-muted-foreground">{t("euer.hint")}</p>
+          </div>
+          <Button size="sm" variant="outline" onClick={handleGeneratePdf}
+            disabled={generating || (data.income.length === 0 && data.expenses.length === 0)}>
+            {generating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileDown className="h-4 w-4 mr-2" />}
+            {t("euer.pdf")}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-xs text-muted-foreground">
+                <th className="text-left  font-medium px-4 py-2 w-16">{t("euer.line")}</th>
+                <th className="text-left  font-medium px-2 py-2">{t("euer.label")}</th>
+                <th className="text-right font-medium px-4 py-2">{t("euer.amount")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {section(t("euer.income"), data.income, data.totalIncome, t("euer.totalIncome"))}
+              {section(t("euer.expenses"), data.expenses, data.totalExpenses, t("euer.totalExpenses"))}
+              <tr className="font-semibold">
+                <td />
+                <td className="px-2 py-2">{data.result >= 0 ? t("euer.profit") : t("euer.loss")}</td>
+                <td className={`px-4 py-2 text-right tabular-nums whitespace-nowrap ${data.result >= 0 ? "" : "text-destructive"}`}>
+                  € {fmt(data.result)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+        {warnings.length > 0 && (
+          <div className="border-t px-4 py-3 space-y-1">
+            {warnings.map(w => (
+              <p key={w} className="flex items-start gap-2 text-xs text-amber-700">
+                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />{w}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
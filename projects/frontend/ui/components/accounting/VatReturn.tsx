@@ -0,0 +1,222 @@
+import React, { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { accountLabel } from "./chartOfAccounts";
+import { VAT_ACCOUNTS, VAT_PREPAYMENT_ACCOUNT, VAT_RATES, costVatRate, inputTaxShare, splitGross, unitVatRate, vatReturn } from "./vat";
+import type { VatInterval } from "./vat";
+import type { JournalLine } from "./engine";
+
+type Props = {
+  lines: JournalLine[];
+  year: number;
+  properties: any[];
+  apartments: any[];
+  allCosts: any[];
+  /** Steuersatz einer Kostenposition setzen (null = ohne Vorsteuer). */
+  onSetCostVatRate?: (costId: string, rate: number | null) => void;
+  onSelectAccount?: (account: string) => void;
+};
+
+function fmt(n: number): string {
+  return n.toLocaleString("de-DE", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function pct(n: number): string {
+  return (Math.round(n * 1000) / 10).toLocaleString("de-DE");
+}
+
+/** Umsatzsteuer-Voranmeldung, Vorsteuerquoten der Immobilien und Steuersätze der Kosten. */
+export default function VatReturn({ lines, year, properties, apartments, allCosts, onSetCostVatRate, onSelectAccount }: Props) {
+  const { t } = useTranslation("accounting");
+  const [interval, setVatInterval] = useState<VatInterval>("quarter");
+
+  const ret = useMemo(() => vatReturn(lines, year, interval), [lines, year, interval]);
+
+  const vatProperties = useMemo(() => properties
+    .map((p: any) => ({
+      property: p,
+      units: apartments.filter((a: any) => String(a["property-id"]) === String(p.id) && unitVatRate(a) !== null),
+      share: inputTaxShare(String(p.id), apartments),
+    }))
+    .filter(x => x.units.length > 0), [properties, apartments]);
+
+  const costs = useMemo(() => {
+    const shares = new Map(vatProperties.map(x => [String(x.property.id), x.share.share]));
+    return allCosts
+      .filter((c: any) => Number(c.year) === year && shares.has(String(c["property-id"])))
+      .map((c: any) => {
+        const rate = costVatRate(c);
+        const share = shares.get(String(c["property-id"])) ?? 0;
+        const gross = Number(c.value) || 0;
+        return { cost: c, rate, gross, inputTax: rate === null ? 0 : Math.round(splitGross(gross, rate).vat * share * 100) / 100 };
+      })
+      .sort((a, b) => String(a.cost.name ?? a.cost.line ?? "").localeCompare(String(b.cost.name ?? b.cost.line ?? "")));
+  }, [allCosts, year, vatProperties]);
+
+  const propertyName = (id: any) => properties.find((p: any) => String(p.id) === String(id))?.name ?? "—";
+  const periodLabel = (i: number) => interval === "month"
+    ? t("period.label.month", { month: String(i).padStart(2, "0"), year })
+    : t("period.label.quarter", { index: i, year });
+
+  const AccountLink = ({ acc }: { acc: string }) => onSelectAccount
+    ? <button className="hover:underline" title={t("drill.ledger")} onClick={() => onSelectAccount(acc)}>{accountLabel(acc)}</button>
+    : <>{accountLabel(acc)}</>;
+
+  const cells = (p: typeof ret.total) => (
+    <>
+      <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">{fmt(p.base19)}</td>
+      <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">{fmt(p.tax19)}</td>
+      <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">{fmt(p.base7)}</td>
+      <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">{fmt(p.tax7)}</td>
+      <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">{fmt(p.inputTax)}</td>
+      <td className={`px-2 py-1.5 text-right tabular-nums whitespace-nowrap font-medium ${p.payable < 0 ? "text-green-700" : ""}`}>{fmt(p.payable)}</td>
+      <td className="px-4 py-1.5 text-right tabular-nums whitespace-nowrap text-muted-foreground">{fmt(p.paid)}</td>
+    </>
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-2">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="text-base">{t("vat.title", { year })}</CardTitle>
+              <p className="text-xs text-muted-foreground">{t("vat.hint", { account: accountLabel(VAT_PREPAYMENT_ACCOUNT) })}</p>
+            </div>
+            <select
+              className="border rounded px-2 py-1.5 text-sm bg-background"
+              value={interval}
+              onChange={e => setVatInterval(e.target.value as VatInterval)}
+            >
+              <option value="month">{t("vat.monthly")}</option>
+              <option value="quarter">{t("vat.quarterly")}</option>
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-xs text-muted-foreground">
+                  <th className="text-left  font-medium px-4 py-2">{t("vat.period")}</th>
+                  <th className="text-right font-medium px-2 py-2">{t("vat.base19")}</th>
+                  <th className="text-right font-medium px-2 py-2">{t("vat.tax19")}</th>
+                  <th className="text-right font-medium px-2 py-2">{t("vat.base7")}</th>
+                  <th className="text-right font-medium px-2 py-2">{t("vat.tax7")}</th>
+                  <th className="text-right font-medium px-2 py-2">{t("vat.inputTax")}</th>
+                  <th className="text-right font-medium px-2 py-2">{t("vat.payable")}</th>
+                  <th className="text-right font-medium px-4 py-2">{t("vat.paid")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ret.periods.map(p => (
+                  <tr key={p.index} className="border-b">
+                    <td className="px-4 py-1.5 whitespace-nowrap">{periodLabel(p.index)}</td>
+                    {cells(p)}
+                  </tr>
+                ))}
+                <tr className="font-semibold">
+                  <td className="px-4 py-2">{t("vat.total")}</td>
+                  {cells(ret.total)}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <div className="border-t px-4 py-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+            {VAT_RATES.flatMap(r => [VAT_ACCOUNTS[r].revenue, VAT_ACCOUNTS[r].output, VAT_ACCOUNTS[r].input])
+              .map(acc => <AccountLink key={acc} acc={acc} />)}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">{t("vat.units.title")}</CardTitle>
+          <p className="text-xs text-muted-foreground">{t("vat.units.hint")}</p>
+        </CardHeader>
+        <CardContent className="p-0">
+          {vatProperties.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-muted-foreground">{t("vat.units.none")}</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-xs text-muted-foreground">
+                  <th className="text-left  font-medium px-4 py-2">{t("vat.units.property")}</th>
+                  <th className="text-left  font-medium px-2 py-2">{t("vat.units.units")}</th>
+                  <th className="text-right font-medium px-4 py-2">{t("vat.units.share")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {vatProperties.map(({ property, units, share }) => (
+                  <tr key={property.id} className="border-b">
+                    <td className="px-4 py-1.5">{property.name}</td>
+                    <td className="px-2 py-1.5 text-xs">
+                      {units.map((u: any) => `${u.code} (${unitVatRate(u)} %)`).join(", ")}
+                    </td>
+                    <td className="px-4 py-1.5 text-right tabular-nums whitespace-nowrap">
+                      {pct(share.share)} %
+                      <span className="block text-xs text-muted-foreground">
+                        {share.basis === "area"
+                          ? t("vat.units.byArea", { vat: share.vatArea.toLocaleString("de-DE"), total: share.totalArea.toLocaleString("de-DE") })
+                          : t("vat.units.byUnits", { vat: share.vatArea, total: share.totalArea })}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {vatProperties.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">{t("vat.costs.title", { year })}</CardTitle>
+            <p className="text-xs text-muted-foreground">{t("vat.costs.hint")}</p>
+          </CardHeader>
+          <CardContent className="p-0">
+            {costs.length === 0 ? (
+              <p className="px-4 py-3 text-sm text-muted-foreground">{t("vat.costs.none")}</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-xs text-muted-foreground">
+                    <th className="text-left  font-medium px-4 py-2">{t("vat.costs.cost")}</th>
+                    <th className="text-left  font-medium px-2 py-2">{t("vat.units.property")}</th>
+                    <th className="text-right font-medium px-2 py-2">{t("vat.costs.gross")}</th>
+                    <th className="text-right font-medium px-2 py-2">{t("vat.costs.rate")}</th>
+                    <th className="text-right font-medium px-4 py-2">{t("vat.costs.inputTax")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {costs.map(({ cost, rate, gross, inputTax }) => (
+                    <tr key={cost.id} className="border-b">
+                      <td className="px-4 py-1.5">{cost.name ?? cost.line ?? "—"}</td>
+                      <td className="px-2 py-1.5 text-xs">{propertyName(cost["property-id"])}</td>
+                      <td className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">€ {fmt(gross)}</td>
+                      <td className="px-2 py-1.5 text-right">
+                        <select
+                          className="border rounded px-1 h-7 text-xs bg-background"
+                          value={rate === null ? "" : String(rate)}
+                          disabled={!onSetCostVatRate}
+                          onChange={e => onSetCostVatRate?.(String(cost.id), e.target.value ? Number(e.target.value) : null)}
+                        >
+                          <option value="">{t("vat.costs.noVat")}</option>
+                          {VAT_RATES.map(r => <option key={r} value={r}>{r} %</option>)}
+                        </select>
+                      </td>
+                      <td className="px-4 py-1.5 text-right tabular-nums whitespace-nowrap">
+                        {inputTax > 0 ? `€ ${fmt(inputTax)}` : "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
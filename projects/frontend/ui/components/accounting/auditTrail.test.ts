@@ -0,0 +1,90 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { GENESIS_HASH, auditExport, auditIssues, hashPayload, sha256Hex, verifyChain } from "./auditTrail.js";
+
+// Sample fixtures — use the real JS data shape (plain keys, not CLJS namespaced keys)
+function entry(number: number, extra: Record<string, any> = {}) {
+  return {
+    id: 100 + number, number, date: `2024-01-0${number}`, description: `Beleg ${number}`, amount: 10 * number,
+    "debit-account": "6300", "credit-account": "1800", "created-at": 1704067200000 + number, "created-by": "a@b.de",
+    ...extra,
+  };
+}
+
+/** Signs the entries in order like the controller does when saving. */
+async function chain(entries: any[]): Promise<any[]> {
+  let prev = GENESIS_HASH;
+  const out = [];
+  for (const e of entries) {
+    const signed: any = { ...e, "prev-hash": prev };
+    signed.hash = await sha256Hex(hashPayload(signed));
+    prev = signed.hash;
+    out.push(signed);
+  }
+  return out;
+}
+
+describe("hashPayload", () => {
+  test("is a JSON array in fixed order with null for missing values", () => {
+    const split = { number: 3, date: "2024-02-01", lines: [{ account: "6300", side: "S", amount: 5 }] };
+    assert.equal(hashPayload(split),
+      '[3,"2024-02-01",null,null,null,null,[["6300","S",5]],null,null,null,null,null,null]');
+  });
+
+  test("hashes with SHA-256", async () => {
+    assert.equal(await sha256Hex("abc"), "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+  });
+});
+
+describe("verifyChain", () => {
+  test("accepts an intact chain", async () => {
+    const result = await verifyChain(await chain([entry(1), entry(2), entry(3)]));
+    assert.equal(result.ok, true);
+    assert.deepEqual(result.entries.map(e => e.status), ["ok", "ok", "ok"]);
+    assert.deepEqual(result.gaps, []);
+  });
+
+  test("detects an entry changed after signing", async () => {
+    const entries = await chain([entry(1), entry(2)]);
+    entries[1].amount = 25;
+    const result = await verifyChain(entries);
+    assert.equal(result.ok, false);
+    assert.deepEqual(auditIssues(result).map(e => [e.number, e.status]), [[2, "altered"]]);
+  });
+
+  test("detects a removed entry as gap and broken link", async () => {
+    const [e1, , e3] = await chain([entry(1), entry(2), entry(3)]);
+    const result = await verifyChain([e1, e3]);
+    assert.deepEqual(result.gaps, [2]);
+    assert.deepEqual(auditIssues(result).map(e => [e.number, e.status]), [[3, "broken-link"]]);
+  });
+
+  test("detects duplicate numbers", async () => {
+    const entries = await chain([entry(1), entry(2)]);
+    const result = await verifyChain([...entries, { ...entries[1], description: "Kopie" }]);
+    assert.deepEqual(auditIssues(result).map(e => [e.number, e.status]), [[2, "duplicate"]]);
+  });
+
+  test("allows unsigned entries only before the first signed one", async () => {
+    const signed = await chain([entry(3), entry(4)]);
+    const legacy = await verifyChain([entry(1), entry(2), ...signed]);
+    assert.equal(legacy.legacy, 2);
+    assert.equal(legacy.ok, true);
+
+    const late = await verifyChain([...(await chain([entry(1)])), entry(2)]);
+    assert.equal(late.ok, false);
+    assert.deepEqual(auditIssues(late).map(e => [e.number, e.status]), [[2, "unsigned"]]);
+  });
+});
+
+describe("auditExport", () => {
+  test("lists the result and every entry of the chain", async () => {
+    const result = await verifyChain(await chain([entry(1), entry(2, { description: 'Rechnung "Maler"' })]));
+    const lines = auditExport(result, "Hausverwaltung").split("\r\n");
+    assert.ok(lines.includes("Organisation: Hausverwaltung"));
+    assert.ok(lines.includes("Ergebnis: Kette vollständig und unverändert"));
+    const row = lines.find(l => l.startsWith("2;"))!.split(";");
+    assert.deepEqual(row.slice(0, 4), ["2", "2024-01-02", "20,00", '"Rechnung ""Maler"""']);
+    assert.equal(row.at(-1), "ok");
+  });
+});
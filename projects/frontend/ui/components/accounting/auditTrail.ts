@@ -0,0 +1,165 @@
+// Prüfkette der manuellen Buchungen (GoBD: Unveränderbarkeit, Vollständigkeit).
+//
+// Jeder manuelle Beleg trägt beim Speichern (Controller) Erfassungszeitpunkt,
+// Benutzer, den Hash des Vorgängers (Belegnummer − 1) und einen SHA-256-Hash
+// über seinen Inhalt einschließlich dieses Vorgänger-Hashes. Die Prüfung
+// rechnet jeden Hash nach und erkennt so
+//  - nachträglich geänderte Belege (Hash stimmt nicht),
+//  - entfernte oder eingeschobene Belege (Kette bzw. Nummernfolge gebrochen).
+// Belege aus der Zeit vor Einführung der Kette sind "nicht signiert".
+//
+// Die kanonische Darstellung muss exakt journal-hash-payload im Controller
+// entsprechen (JSON-Array in fester Reihenfolge, fehlende Werte als null).
+
+export const GENESIS_HASH = "0".repeat(64);
+
+export type AuditStatus = "ok" | "altered" | "broken-link" | "unsigned" | "duplicate";
+
+export type AuditEntry = {
+  number: number;
+  date: string;
+  description: string;
+  amount: number;
+  createdAt?: number;
+  createdBy?: string;
+  prevHash?: string;
+  hash?: string;
+  status: AuditStatus;
+  /** Nicht signiert, aber vor dem ersten signierten Beleg erfasst (zulässig). */
+  legacy?: boolean;
+};
+
+export type AuditResult = {
+  entries: AuditEntry[];
+  /** Fehlende Belegnummern zwischen 1 und der höchsten Nummer. */
+  gaps: number[];
+  /** Belege vor Einführung der Prüfkette (ohne Hash). */
+  legacy: number;
+  ok: boolean;
+  checkedAt: Date;
+};
+
+/** Kanonische Darstellung eines Belegs (siehe journal-hash-payload im Controller). */
+export function hashPayload(j: any): string {
+  const lines = Array.isArray(j.lines) ? j.lines.map((p: any) => [p.account ?? null, p.side ?? null, p.amount ?? null]) : [];
+  return JSON.stringify([
+    j.number ?? null,
+    j.date ?? null,
+    j.description ?? null,
+    j.amount ?? null,
+    j["debit-account"] ?? null,
+    j["credit-account"] ?? null,
+    lines,
+    j["property-id"] ?? null,
+    j.reference ?? null,
+    j["storno-of"] ?? null,
+    j["created-at"] ?? null,
+    j["created-by"] ?? null,
+    j["prev-hash"] ?? null,
+  ]);
+}
+
+export async function sha256Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Prüft Vollständigkeit der Nummernfolge und die Hash-Kette aller manuellen Belege. */
+export async function verifyChain(journalEntries: any[]): Promise<AuditResult> {
+  const sorted = journalEntries.slice().sort((a, b) => Number(a.number) - Number(b.number));
+  const byNumber = new Map<number, any>();
+  const entries: AuditEntry[] = [];
+  let signedSeen = false;
+  let legacy = 0;
+
+  for (const j of sorted) {
+    const number = Number(j.number);
+    const entry: AuditEntry = {
+      number,
+      date: String(j.date ?? ""),
+      description: String(j.description ?? ""),
+      amount: Number(j.amount ?? 0),
+      createdAt: j["created-at"] != null ? Number(j["created-at"]) : undefined,
+      createdBy: j["created-by"] ?? undefined,
+      prevHash: j["prev-hash"] ?? undefined,
+      hash: j.hash ?? undefined,
+      status: "ok",
+    };
+    entries.push(entry);
+    if (byNumber.has(number)) { entry.status = "duplicate"; continue; }
+    byNumber.set(number, j);
+
+    if (!j.hash) {
+      entry.status = "unsigned";
+      if (!signedSeen) { entry.legacy = true; legacy++; }
+      continue;
+    }
+    signedSeen = true;
+    const expectedPrev = byNumber.get(number - 1)?.hash ?? GENESIS_HASH;
+    if (j["prev-hash"] !== expectedPrev) { entry.status = "broken-link"; continue; }
+    if ((await sha256Hex(hashPayload(j))) !== j.hash) entry.status = "altered";
+  }
+
+  const max = sorted.length > 0 ? Number(sorted[sorted.length - 1].number) : 0;
+  const gaps: number[] = [];
+  for (let n = 1; n <= max; n++) if (!byNumber.has(n)) gaps.push(n);
+
+  // Nicht signierte Belege sind nur vor dem ersten signierten Beleg zulässig.
+  const ok = gaps.length === 0 && entries.every(e => e.status === "ok" || e.legacy);
+  return { entries, gaps, legacy, ok, checkedAt: new Date() };
+}
+
+/** Belege mit Befund (ohne zulässige Altbelege). */
+export function auditIssues(result: AuditResult): AuditEntry[] {
+  return result.entries.filter(e => e.status !== "ok" && !e.legacy);
+}
+
+function fmtTs(ms?: number): string {
+  return ms ? new Date(ms).toISOString().replace("T", " ").slice(0, 19) + " UTC" : "";
+}
+
+/** Prüfprotokoll im Stil einer Verfahrensdokumentation (Abschnitt Belegsicherung)
+ *  mit vollständiger Kette als Tabelle (Semikolon-getrennt). */
+export function auditExport(result: AuditResult, orgLabel?: string): string {
+  const out: string[] = [];
+  out.push("Verfahrensdokumentation — Protokoll der manuellen Buchungen");
+  if (orgLabel) out.push(`Organisation: ${orgLabel}`);
+  out.push(`Erstellt: ${fmtTs(result.checkedAt.getTime())}`);
+  out.push("");
+  out.push("1. Verfahren");
+  out.push("Manuelle Buchungssätze werden serverseitig mit fortlaufender, lückenloser Belegnummer gespeichert.");
+  out.push("Gespeicherte Belege sind unveränderlich; Korrekturen erfolgen ausschließlich per Stornobeleg.");
+  out.push("Jeder Beleg enthält Erfassungszeitpunkt, erfassenden Benutzer, den Hash des Vorgängerbelegs");
+  out.push("und einen SHA-256-Hash über Belegnummer, Datum, Buchungstext, Betrag, Konten bzw. Positionen,");
+  out.push("Immobilie, Referenz, Storno-Bezug, Erfassungsdaten und Vorgänger-Hash (JSON-Array in dieser Reihenfolge).");
+  out.push(`Der erste signierte Beleg verweist auf den Genesis-Hash ${GENESIS_HASH}.`);
+  out.push("");
+  out.push("2. Prüfergebnis");
+  out.push(`Belege: ${result.entries.length}`);
+  out.push(`Davon vor Einführung der Prüfkette (nicht signiert): ${result.legacy}`);
+  out.push(`Fehlende Belegnummern: ${result.gaps.length > 0 ? result.gaps.join(", ") : "keine"}`);
+  const issues = auditIssues(result);
+  out.push(`Auffällige Belege: ${issues.length > 0 ? issues.map(e => `${e.number} (${e.status})`).join(", ") : "keine"}`);
+  out.push(`Ergebnis: ${result.ok ? "Kette vollständig und unverändert" : "Kette NICHT intakt"}`);
+  out.push("");
+  out.push("3. Belegkette");
+  out.push(["Beleg", "Datum", "Betrag", "Buchungstext", "Erfasst am", "Erfasst von", "Vorgänger-Hash", "Hash", "Status"].join(";"));
+  for (const e of result.entries) {
+    out.push([
+      e.number, e.date, e.amount.toFixed(2).replace(".", ","),
+      `"${e.description.replace(/"/g, '""')}"`,
+      fmtTs(e.createdAt), e.createdBy ?? "", e.prevHash ?? "", e.hash ?? "", e.status,
+    ].join(";"));
+  }
+  return out.join("\r\n") + "\r\n";
+}
+
+export function downloadAuditExport(text: string, fileName: string): void {
+  const blob = new Blob([text], { type: "text/plain;charset=utf-8" });
+  const url  = URL.createObjectURL(blob);
+  const a    = document.createElement("a");
+  a.href     = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,76 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { applyBookingOverride, bookingOverrideError, overridesByLine, toBookingOverride } from "./bookingOverrides.js";
+import { deriveJournal } from "./engine.js";
+import type { AccountingData } from "./engine.js";
+
+// Sample fixtures — use the real JS data shape (plain keys, not CLJS namespaced keys)
+function data(extra: Partial<AccountingData> = {}): AccountingData {
+  return {
+    properties: [{ id: 10 }, { id: 20 }], apartments: [{ id: 1, "property-id": 10, code: "W1" }], garages: [],
+    allCosts: [], allRentPayments: [], taxConfigs: [], loans: [], maintenances: [], nkSettlements: [],
+    taxIncomes: [], taxExpenses: [], journalEntries: [],
+    ...extra,
+  };
+}
+
+const line = {
+  id: "cost-5", date: "2024-12-31", debit: "6300", credit: "1800", propertyId: "10", apartmentId: "1",
+};
+
+describe("toBookingOverride", () => {
+  test("reads the entity and drops empty fields", () => {
+    assert.deepEqual(toBookingOverride({ id: 7, "line-id": "cost-5", debit: "6450", credit: "", note: "Wartung" }), {
+      id: "7", lineId: "cost-5", debit: "6450", credit: undefined, date: undefined, propertyId: undefined, note: "Wartung",
+    });
+    assert.equal(toBookingOverride({ id: 7, debit: "6450" }), null);
+  });
+
+  test("indexes overrides by line id", () => {
+    const map = overridesByLine([{ id: 7, "line-id": "cost-5" }, { id: 8 }, { id: 9, "line-id": "te-3" }]);
+    assert.deepEqual([...map.keys()], ["cost-5", "te-3"]);
+  });
+});
+
+describe("applyBookingOverride", () => {
+  test("replaces the given fields and keeps the original values", () => {
+    const o = toBookingOverride({ id: 7, "line-id": "cost-5", debit: "6450", date: "2024-11-30", note: "Wartung" })!;
+    assert.deepEqual(applyBookingOverride(line, o), {
+      ...line, debit: "6450", date: "2024-11-30",
+      overridden: { debit: "6300", credit: "1800", date: "2024-12-31", propertyId: "10", note: "Wartung" },
+    });
+  });
+
+  test("drops the cost centre when the property changes", () => {
+    const o = toBookingOverride({ id: 7, "line-id": "cost-5", "property-id": 20 })!;
+    const l = applyBookingOverride(line, o);
+    assert.deepEqual([l.propertyId, l.apartmentId], ["20", undefined]);
+    const same = applyBookingOverride(line, toBookingOverride({ id: 7, "line-id": "cost-5", "property-id": 10 })!);
+    assert.equal(same.apartmentId, "1");
+  });
+
+  test("leaves lines without override unchanged", () => {
+    assert.equal(applyBookingOverride(line, undefined), line);
+  });
+});
+
+describe("bookingOverrideError", () => {
+  test("rejects empty overrides and equal debit and credit", () => {
+    assert.equal(bookingOverrideError(line, {}), "empty");
+    assert.equal(bookingOverrideError(line, { debit: "1800" }), "sameAccount");
+    assert.equal(bookingOverrideError(line, { credit: "6300" }), "sameAccount");
+    assert.equal(bookingOverrideError(line, { debit: "6450" }), null);
+  });
+});
+
+describe("deriveJournal with overrides", () => {
+  test("books the derived line on the overridden account", () => {
+    const lines = deriveJournal(data({
+      allCosts: [{ id: 5, "property-id": 10, year: 2024, line: "aufzug", value: 300 }],
+      bookingOverrides: [{ id: 7, "line-id": "cost-5", debit: "6450" }],
+    }), 2024);
+    const l = lines.find(x => x.id === "cost-5");
+    assert.equal(l?.debit, "6450");
+    assert.equal(l?.overridden?.debit, "6300");
+  });
+});
@@ -0,0 +1,88 @@
+// Umbuchungen automatisch abgeleiteter Buchungen.
+//
+// Landet eine abgeleitete Buchung auf dem falschen Konto (z. B. eine Kosten-
+// position mangels Zuordnung auf 6300 oder eine sonstige Einnahme, die
+// eigentlich eine Nebenkostenerstattung ist), kann sie umgebucht werden, ohne
+// die Quelldaten zu ändern: Die Umbuchung (booking-override Entity) ist über
+// die Buchungs-ID zugeordnet und ersetzt bei jeder Ableitung Soll-/Habenkonto,
+// Belegdatum und/oder Immobilie. Die ursprünglichen Werte bleiben an der
+// Buchung sichtbar (overridden). Betrifft die Umbuchung ein abgeschlossenes
+// Jahr, entsteht wie bei geänderten Quelldaten eine Korrekturbuchung im
+// Folgejahr (applyYearCloses).
+
+/** Gespeicherte Umbuchung: leere Felder übernehmen den abgeleiteten Wert. */
+export type BookingOverride = {
+  id: string;
+  lineId: string;
+  debit?: string;
+  credit?: string;
+  date?: string;
+  propertyId?: string;
+  note?: string;
+};
+
+/** Ursprüngliche Werte einer umgebuchten Buchung. */
+export type OverriddenFrom = {
+  debit: string;
+  credit: string;
+  date: string;
+  propertyId?: string;
+  note?: string;
+};
+
+type Overridable = {
+  id: string;
+  date: string;
+  debit: string;
+  credit: string;
+  propertyId?: string;
+  apartmentId?: string;
+  garageId?: string;
+  overridden?: OverriddenFrom;
+};
+
+export function toBookingOverride(o: any): BookingOverride | null {
+  const lineId = o?.["line-id"];
+  if (!lineId) return null;
+  const str = (v: any) => (v ? String(v) : undefined);
+  return {
+    id: String(o.id), lineId: String(lineId),
+    debit: str(o.debit), credit: str(o.credit), date: str(o.date),
+    propertyId: str(o["property-id"]), note: str(o.note),
+  };
+}
+
+/** Umbuchungen nach Buchungs-ID. */
+export function overridesByLine(overrides: any[]): Map<string, BookingOverride> {
+  const out = new Map<string, BookingOverride>();
+  for (const raw of overrides) {
+    const o = toBookingOverride(raw);
+    if (o) out.set(o.lineId, o);
+  }
+  return out;
+}
+
+/** Wendet eine Umbuchung auf eine abgeleitete Buchung an. Wechselt die
+ *  Immobilie, entfällt die Kostenstelle (Wohnung/Garage) der Quelle. */
+export function applyBookingOverride<T extends Overridable>(line: T, o: BookingOverride | undefined): T {
+  if (!o) return line;
+  const property = o.propertyId && o.propertyId !== line.propertyId ? o.propertyId : undefined;
+  return {
+    ...line,
+    debit: o.debit || line.debit,
+    credit: o.credit || line.credit,
+    date: o.date || line.date,
+    ...(property ? { propertyId: property, apartmentId: undefined, garageId: undefined } : {}),
+    overridden: { debit: line.debit, credit: line.credit, date: line.date, propertyId: line.propertyId, note: o.note },
+  };
+}
+
+/** Prüft eine Umbuchung gegen die abgeleitete Buchung; null = zulässig. */
+export function bookingOverrideError(
+  line: { debit: string; credit: string },
+  o: { debit?: string; credit?: string; date?: string; propertyId?: string },
+): "empty" | "sameAccount" | null {
+  if (!o.debit && !o.credit && !o.date && !o.propertyId) return "empty";
+  if ((o.debit || line.debit) === (o.credit || line.credit)) return "sameAccount";
+  return null;
+}
@@ -0,0 +1,72 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { planActual, spreadEvenly, toBudget } from "./budgets.js";
+import { deriveJournal } from "./engine.js";
+import type { AccountingData } from "./engine.js";
+
+// Sample fixtures — use the real JS data shape (plain keys, not CLJS namespaced keys)
+function data(extra: Partial<AccountingData> = {}): AccountingData {
+  return {
+    properties: [{ id: 10 }, { id: 20 }],
+    apartments: [{ id: 1, "property-id": 10, code: "A1" }, { id: 2, "property-id": 20, code: "B1" }],
+    garages: [], allCosts: [], allRentPayments: [], taxConfigs: [], loans: [], maintenances: [],
+    nkSettlements: [], taxIncomes: [], taxExpenses: [], journalEntries: [],
+    ...extra,
+  };
+}
+
+const rents = [1, 2, 3].flatMap(month => [
+  { id: month, "apartment-id": 1, year: 2024, month, value: 500 },
+  { id: 10 + month, "apartment-id": 2, year: 2024, month, value: 300 },
+]);
+const lines = deriveJournal(data({
+  allRentPayments: rents,
+  taxExpenses: [{ id: 7, year: 2024, date: "2024-02-15", amount: 90, "property-id": 10 }],
+}), 2024);
+
+const budgets = [
+  toBudget({ id: 1, year: 2024, account: "4120", "property-id": 10, months: spreadEvenly(6000) }),
+  toBudget({ id: 2, year: 2024, account: "4120", "property-id": 20, months: spreadEvenly(3600) }),
+  toBudget({ id: 3, year: 2024, account: "6300", "property-id": 10, months: [100, 0, 0] }),
+];
+
+describe("budget input", () => {
+  test("spreads a yearly amount to the cent with the rest in December", () => {
+    const months = spreadEvenly(1000);
+    assert.equal(months[0], 83.33);
+    assert.equal(months[11], 83.37);
+    assert.equal(Math.round(months.reduce((s, v) => s + v, 0) * 100), 100000);
+  });
+
+  test("pads stored budgets to twelve months and reads portfolio budgets", () => {
+    const b = toBudget({ year: "2024", account: 6300, months: ["10,5", 20] });
+    assert.deepEqual(b.months, [10.5, 20, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+    assert.equal(b.propertyId, "");
+    assert.equal(b.account, "6300");
+  });
+});
+
+describe("planActual", () => {
+  test("compares plan and actual up to the month and forecasts the year", () => {
+    const r = planActual(lines, budgets, 2024, 2);
+    assert.deepEqual(r.rows.map(x => [x.account, x.plan, x.actual, x.variance, x.favorable, x.planYear, x.forecast]), [
+      ["4120", 1600, 1600, 0, true, 9600, 9600],
+      ["6300", 100, 90, -10, true, 100, 90],
+    ]);
+    assert.equal(r.rows[1].pct, -10);
+    assert.deepEqual(r.result, { plan: 1500, actual: 1510, planYear: 9500, forecast: 9510 });
+  });
+
+  test("restricts plan and actual to one property", () => {
+    const r = planActual(lines, budgets, 2024, 3, "20");
+    assert.deepEqual(r.rows.map(x => [x.account, x.plan, x.actual]), [["4120", 900, 900]]);
+  });
+
+  test("marks higher expenses and lower revenues as unfavourable and shows unplanned accounts", () => {
+    const r = planActual(lines, [toBudget({ year: 2024, account: "4120", months: spreadEvenly(12000) })], 2024, 3);
+    const revenue = r.rows.find(x => x.account === "4120")!;
+    assert.deepEqual([revenue.variance, revenue.favorable], [-600, false]);
+    const unplanned = r.rows.find(x => x.account === "6300")!;
+    assert.deepEqual([unplanned.plan, unplanned.actual, unplanned.pct, unplanned.favorable], [0, 90, null, false]);
+  });
+});
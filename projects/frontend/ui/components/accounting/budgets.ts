@@ -0,0 +1,128 @@
+// Budgetierung (Plan/Ist) je Erfolgskonto, Immobilie und Monat.
+//
+// Budgets werden je Jahr, Konto und Immobilie mit zwölf Monatswerten erfasst;
+// Budgets ohne Immobilie (propertyId "") gelten für das Portfolio. Der
+// Plan/Ist-Vergleich stellt die Planwerte bis einschließlich eines Monats den
+// GuV-Werten desselben Zeitraums gegenüber. Die Hochrechnung auf das Gesamtjahr
+// ist Ist bis zum Stichmonat plus Plan der Restmonate.
+
+import { guv } from "./engine";
+import type { JournalLine } from "./engine";
+import { account, displayNumber } from "./chartOfAccounts";
+
+export type Budget = {
+  id?: string;
+  year: number;
+  account: string;
+  propertyId: string;
+  months: number[];   // Jan–Dez, positive Beträge
+};
+
+export type PlanActualRow = {
+  account: string;
+  type: "revenue" | "expense";
+  plan: number;          // Plan bis Stichmonat
+  actual: number;        // Ist bis Stichmonat
+  variance: number;      // Ist − Plan
+  pct: number | null;    // Abweichung in % vom Plan
+  favorable: boolean;    // Mehrertrag bzw. Minderaufwand
+  planYear: number;      // Plan Gesamtjahr
+  forecast: number;      // Ist bis Stichmonat + Plan Restmonate
+};
+
+export type PlanActual = {
+  rows: PlanActualRow[];
+  result: { plan: number; actual: number; planYear: number; forecast: number };
+};
+
+/** Abweichungen ab diesem Prozentsatz werden hervorgehoben. */
+export const VARIANCE_THRESHOLD_PCT = 10;
+
+function num(v: any): number {
+  if (v === null || v === undefined || v === "") return 0;
+  return parseFloat(String(v).replace(",", ".")) || 0;
+}
+
+function pad2(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+/** Budget-Entity aus dem Controller in die Frontend-Form bringen. */
+export function toBudget(b: any): Budget {
+  const months = Array.isArray(b.months) ? b.months.map(num) : [];
+  while (months.length < 12) months.push(0);
+  return {
+    id: b.id != null ? String(b.id) : undefined,
+    year: Number(b.year),
+    account: String(b.account),
+    propertyId: b["property-id"] ? String(b["property-id"]) : "",
+    months: months.slice(0, 12),
+  };
+}
+
+/** Jahresbetrag centgenau auf zwölf Monate verteilen (Rest im Dezember). */
+export function spreadEvenly(total: number): number[] {
+  const cents = Math.round(total * 100);
+  const base = Math.floor(cents / 12);
+  return Array.from({ length: 12 }, (_, i) => (i === 11 ? cents - base * 11 : base) / 100);
+}
+
+function sum(values: number[]): number {
+  return values.reduce((s, v) => s + v, 0);
+}
+
+/** Plan/Ist-Vergleich eines Jahres bis einschließlich throughMonth (1–12),
+ *  für eine Immobilie oder (propertyId leer) das gesamte Portfolio. */
+export function planActual(
+  lines: JournalLine[],
+  budgets: Budget[],
+  year: number,
+  throughMonth: number,
+  propertyId?: string,
+): PlanActual {
+  const scoped = budgets.filter(b => b.year === year && (!propertyId || b.propertyId === propertyId));
+  const ytdLines = propertyId ? lines.filter(l => l.propertyId === propertyId) : lines;
+  const lastDay = new Date(Date.UTC(year, throughMonth, 0)).getUTCDate();
+  const actual = guv(ytdLines, { from: `${year}-01-01`, to: `${year}-${pad2(throughMonth)}-${pad2(lastDay)}` });
+
+  const plans = new Map<string, number[]>();
+  for (const b of scoped) {
+    const m = plans.get(b.account) ?? Array(12).fill(0);
+    b.months.forEach((v, i) => { m[i] += v; });
+    plans.set(b.account, m);
+  }
+  const actuals = new Map<string, number>();
+  for (const r of actual.revenues) actuals.set(r.account, r.amount);
+  for (const e of actual.expenses) actuals.set(e.account, e.amount);
+
+  const rows: PlanActualRow[] = [];
+  for (const acc of new Set([...plans.keys(), ...actuals.keys()])) {
+    const t = account(acc).type;
+    if (t !== "revenue" && t !== "expense") continue;
+    const months = plans.get(acc) ?? Array(12).fill(0);
+    const plan = sum(months.slice(0, throughMonth));
+    const act = actuals.get(acc) ?? 0;
+    const variance = act - plan;
+    rows.push({
+      account: acc,
+      type: t,
+      plan,
+      actual: act,
+      variance,
+      pct: Math.abs(plan) > 0.005 ? (variance / plan) * 100 : null,
+      favorable: t === "revenue" ? variance >= 0 : variance <= 0,
+      planYear: sum(months),
+      forecast: act + sum(months.slice(throughMonth)),
+    });
+  }
+  rows.sort((a, b) => a.type === b.type
+    ? displayNumber(a.account).localeCompare(displayNumber(b.account))
+    : a.type === "revenue" ? -1 : 1);
+
+  const net = (pick: (r: PlanActualRow) => number) =>
+    rows.reduce((s, r) => s + (r.type === "revenue" ? pick(r) : -pick(r)), 0);
+  return {
+    rows,
+    result: { plan: net(r => r.plan), actual: net(r => r.actual), planYear: net(r => r.planYear), forecast: net(r => r.forecast) },
+  };
+}
@@ -0,0 +1,80 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildingAfa, buildingAfaForYear, buildingAfaSchedule, suggestedAfaRate, suggestedSwitchYear,
+} from "./buildingAfa.js";
+import type { BuildingAfa } from "./buildingAfa.js";
+
+// Sample fixtures — use the real JS data shape (plain keys, not CLJS namespaced keys)
+function afa(extra: Partial<BuildingAfa> = {}): BuildingAfa {
+  return {
+    basis: 300000, rate: 2, method: "linear", start: "2024-07-10", switchYear: null, sonderBasis: 0,
+    additions: [], ...extra,
+  };
+}
+
+describe("buildingAfa", () => {
+  const property = { id: 10, "year-built": 1960, "acquisition-date": "2024-07-10" };
+  const apartments = [{ id: 1, "property-id": 10, wohnflaeche: 50 }, { id: 2, "property-id": 10, wohnflaeche: 25 }];
+
+  test("suggests the rate by year built", () => {
+    assert.deepEqual([1900, 1960, 2023].map(suggestedAfaRate), [2.5, 2, 3]);
+  });
+
+  test("reads configuration, caps the § 7b basis by living area and collects additions", () => {
+    const cfg = { "building-value": "300000", "afa-method": "degressive", "sonder-afa": true };
+    const maint = [
+      { "property-id": 10, kind: "herstellung", year: 2026, amount: 20000 },
+      { "property-id": 10, kind: "erhaltung", year: 2026, amount: 5000 },
+    ];
+    assert.deepEqual(buildingAfa(cfg, property, apartments, maint), {
+      basis: 300000, rate: 2, method: "degressive", start: "2024-07-10", switchYear: null,
+      sonderBasis: 300000, additions: [{ year: 2026, amount: 20000 }],
+    });
+    const small = buildingAfa(cfg, property, [{ id: 1, "property-id": 10, wohnflaeche: 50 }]);
+    assert.equal(small?.sonderBasis, 200000);
+  });
+
+  test("returns null without building value", () => {
+    assert.equal(buildingAfa({}, property), null);
+  });
+});
+
+describe("buildingAfaSchedule", () => {
+  test("linear: pro rata in the first year", () => {
+    const [first, second] = buildingAfaSchedule(afa(), 2025);
+    assert.deepEqual([first.amount, first.months, first.mode], [3000, 6, "linear"]);
+    assert.equal(second.amount, 6000);
+  });
+
+  test("additions raise the basis from the year of payment", () => {
+    const row = buildingAfaForYear(afa({ additions: [{ year: 2026, amount: 50000 }] }), 2026);
+    assert.deepEqual([row?.additions, row?.amount], [50000, 7000]);
+  });
+
+  test("degressive: 5 % of the residual value, then linear from the switch year", () => {
+    const a = afa({ method: "degressive", start: "2024-01-15" });
+    // 50 years useful life: the remaining life falls below 20 years after 30 years
+    assert.equal(suggestedSwitchYear(a), 2055);
+    const rows = buildingAfaSchedule(a, 2056);
+    assert.deepEqual([rows[0].amount, rows[0].mode], [15000, "degressive"]);
+    assert.deepEqual([rows[1].amount, rows[1].closing], [14250, 270750]);
+    const sw = rows.find(r => r.year === 2055)!;
+    assert.equal(sw.mode, "residual");
+    assert.equal(sw.amount, Math.round(sw.opening / 19 * 100) / 100);
+  });
+
+  test("degressive with a chosen switch year", () => {
+    const rows = buildingAfaSchedule(afa({ method: "degressive", start: "2024-01-15", switchYear: 2026 }), 2026);
+    assert.deepEqual(rows.map(r => r.mode), ["degressive", "degressive", "residual"]);
+    assert.equal(rows[2].amount, Math.round(rows[2].opening / 48 * 100) / 100);
+  });
+
+  test("§ 7b: 5 % extra for four years, then the residual over the remaining life", () => {
+    const rows = buildingAfaSchedule(afa({ start: "2024-01-15", sonderBasis: 200000 }), 2028);
+    assert.deepEqual(rows.slice(0, 4).map(r => [r.regular, r.sonder]), [
+      [6000, 10000], [6000, 10000], [6000, 10000], [6000, 10000],
+    ]);
+    assert.deepEqual([rows[4].mode, rows[4].opening, rows[4].amount], ["residual", 236000, 5130.43]);
+  });
+});
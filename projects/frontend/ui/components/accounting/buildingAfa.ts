@@ -0,0 +1,204 @@
+// Gebäude-AfA: gemeinsame Berechnung für Buchhaltung (deriveJournal) und
+// Anlage V.
+//
+// Methoden:
+//  - linear (§ 7 Abs. 4 EStG): AfA-Satz auf die Bemessungsgrundlage. Der
+//    vorgeschlagene Satz richtet sich nach dem Baujahr: 2,5 % vor 1925, 2 %
+//    ab 1925, 3 % für Fertigstellung ab 2023.
+//  - degressiv (§ 7 Abs. 5a EStG): 5 % vom Restwert für neue Wohngebäude
+//    (Baubeginn 01.10.2023 – 30.09.2029). Ab dem Wechseljahr wird linear
+//    weiter abgeschrieben: Restwert / Restnutzungsdauer (Nutzungsdauer nach
+//    dem linearen Satz). Ohne gewähltes Wechseljahr wird im günstigsten Jahr
+//    gewechselt (suggestedSwitchYear).
+// Im ersten Jahr zählt die AfA zeitanteilig nach Monaten ab dem AfA-Beginn
+// (der Beginnmonat zählt voll).
+//
+// Sonder-AfA (§ 7b EStG): im Jahr der Anschaffung/Herstellung und den drei
+// Folgejahren zusätzlich bis zu 5 % der förderfähigen Bemessungsgrundlage
+// (höchstens 4.000 € je m² Wohnfläche), ohne Zeitanteil. Nach Ablauf des
+// Begünstigungszeitraums wird der Restwert auf die Restnutzungsdauer verteilt
+// (§ 7a Abs. 9 EStG).
+//
+// Nachträgliche Herstellungskosten (Erhaltungsmaßnahmen mit kind
+// "herstellung") erhöhen die Bemessungsgrundlage ab dem Jahr ihrer Zahlung
+// und werden so behandelt, als wären sie zu Beginn des Jahres angefallen
+// (R 7.4 Abs. 9 EStR). Die AfA läuft, bis der Restwert verbraucht ist.
+
+export type AfaMethod = "linear" | "degressive";
+
+export const AFA_METHODS: AfaMethod[] = ["linear", "degressive"];
+
+/** AfA-Satz der degressiven Gebäude-AfA (§ 7 Abs. 5a EStG). */
+export const DEGRESSIVE_RATE = 5;
+/** Sonder-AfA § 7b: Satz, Dauer (Jahre) und Höchstbetrag je m² Wohnfläche. */
+export const SONDER_AFA_RATE = 5;
+export const SONDER_AFA_YEARS = 4;
+export const SONDER_AFA_MAX_PER_SQM = 4000;
+/** Baukostenobergrenze § 7b Abs. 2 (Bauantrag ab 2023) je m² Wohnfläche. */
+export const SONDER_AFA_COST_CAP_PER_SQM = 5200;
+
+/** Längstmögliche Laufzeit einer AfA-Reihe (Schutz vor Endlosschleifen). */
+const MAX_YEARS = 150;
+
+export type BuildingAfa = {
+  basis: number;             // Bemessungsgrundlage (Gebäudewert)
+  rate: number;              // linearer AfA-Satz in %
+  method: AfaMethod;
+  start: string;             // AfA-Beginn (YYYY-MM-DD)
+  switchYear: number | null; // degressiv → linear ab diesem Jahr (null = automatisch)
+  sonderBasis: number;       // förderfähige Bemessungsgrundlage § 7b (0 = keine)
+  /** Nachträgliche Herstellungskosten je Jahr. */
+  additions: { year: number; amount: number }[];
+};
+
+export type BuildingAfaRow = {
+  year: number;
+  opening: number;           // Restwert 01.01. (vor Zugängen)
+  additions: number;         // nachträgliche Herstellungskosten des Jahres
+  regular: number;           // lineare bzw. degressive AfA
+  sonder: number;            // Sonder-AfA § 7b
+  amount: number;            // AfA gesamt
+  closing: number;           // Restwert 31.12.
+  mode: "linear" | "degressive" | "residual";
+  months: number;            // berücksichtigte Monate (erstes Jahr ggf. < 12)
+};
+
+function num(v: any): number {
+  if (v === null || v === undefined || v === "") return 0;
+  return parseFloat(String(v).replace(",", ".")) || 0;
+}
+
+function round2(v: number): number {
+  return Math.round(v * 100) / 100;
+}
+
+/** Vorgeschlagener linearer AfA-Satz nach Baujahr (§ 7 Abs. 4 EStG). */
+export function suggestedAfaRate(yearBuilt: any): number {
+  const y = Math.round(num(yearBuilt));
+  if (y > 0 && y < 1925) return 2.5;
+  if (y >= 2023) return 3;
+  return 2;
+}
+
+/** Linearer AfA-Satz der Konfiguration (Standard: Vorschlag nach Baujahr). */
+export function afaRateOf(cfg: any, property?: any): number {
+  return cfg?.["afa-rate"] !== undefined && cfg?.["afa-rate"] !== null && cfg?.["afa-rate"] !== ""
+    ? num(cfg["afa-rate"])
+    : suggestedAfaRate(property?.["year-built"]);
+}
+
+/** Sonder-AfA-Höchstgrundlage: 4.000 € je m² Wohnfläche der Immobilie (0 = unbekannt). */
+export function sonderAfaCap(propertyId: string, apartments: any[]): number {
+  const area = apartments
+    .filter(a => String(a["property-id"]) === propertyId)
+    .reduce((s, a) => s + num(a.wohnflaeche), 0);
+  return area * SONDER_AFA_MAX_PER_SQM;
+}
+
+/** true, wenn eine Erhaltungsmaßnahme nachträgliche Herstellungskosten sind. */
+export function isHerstellung(m: any): boolean {
+  return m?.kind === "herstellung";
+}
+
+/**
+ * AfA-Parameter einer Immobilie aus Steuerkonfiguration, Einheiten (Wohnfläche
+ * für die Sonder-AfA-Grenze) und Erhaltungsmaßnahmen (nachträgliche
+ * Herstellungskosten). null, wenn Gebäudewert, Satz oder AfA-Beginn fehlen.
+ */
+export function buildingAfa(cfg: any, property: any, apartments: any[] = [], maintenances: any[] = []): BuildingAfa | null {
+  const propertyId = String(property?.id ?? cfg?.["property-id"] ?? "");
+  const basis = num(cfg?.["building-value"]);
+  const rate = afaRateOf(cfg, property);
+  const start = cfg?.["afa-start-date"] || property?.["acquisition-date"];
+  if (!(basis > 0 && rate > 0 && start)) return null;
+  const method: AfaMethod = cfg?.["afa-method"] === "degressive" ? "degressive" : "linear";
+  const switchYear = Math.round(num(cfg?.["afa-switch-year"])) || null;
+  let sonderBasis = 0;
+  if (cfg?.["sonder-afa"]) {
+    const cap = sonderAfaCap(propertyId, apartments);
+    sonderBasis = num(cfg["sonder-afa-basis"]) || basis;
+    if (cap > 0) sonderBasis = Math.min(sonderBasis, cap);
+  }
+  const additions = maintenances
+    .filter(m => String(m["property-id"]) === propertyId && isHerstellung(m))
+    .map(m => ({ year: Number(m.year), amount: num(m.amount) }))
+    .filter(a => a.year > 0 && a.amount > 0);
+  return { basis, rate, method, start, switchYear, sonderBasis, additions };
+}
+
+/** Verstrichene Nutzungsdauer in Jahren zu Beginn des Jahres y. */
+function elapsed(afa: BuildingAfa, y: number): number {
+  const startYear = Number(afa.start.slice(0, 4));
+  const firstMonths = 13 - Number(afa.start.slice(5, 7));
+  return y <= startYear ? 0 : y - startYear - 1 + firstMonths / 12;
+}
+
+/** AfA-Reihe vom AfA-Beginn bis zum Vollabschreiben (höchstens bis untilYear). */
+export function buildingAfaSchedule(afa: BuildingAfa, untilYear = Infinity): BuildingAfaRow[] {
+  const startYear = Number(afa.start.slice(0, 4));
+  const firstMonths = 13 - Number(afa.start.slice(5, 7));
+  const lifetime = 100 / afa.rate;
+  const switchYear = afa.switchYear ?? suggestedSwitchYear(afa);
+  const rows: BuildingAfaRow[] = [];
+  let book = afa.basis;
+  let linearBasis = afa.basis;
+  // Zugänge vor AfA-Beginn erhöhen die Anfangsgrundlage.
+  for (const a of afa.additions) {
+    if (a.year < startYear) { book += a.amount; linearBasis += a.amount; }
+  }
+
+  for (let y = startYear; y <= untilYear && y < startYear + MAX_YEARS; y++) {
+    const opening = book;
+    const added = afa.additions.filter(a => a.year === y).reduce((s, a) => s + a.amount, 0);
+    book += added;
+    linearBasis += added;
+    if (book < 0.005) break;
+
+    const months = y === startYear ? firstMonths : 12;
+    const inSonder = afa.sonderBasis > 0 && y < startYear + SONDER_AFA_YEARS;
+    const afterSonder = afa.sonderBasis > 0 && y >= startYear + SONDER_AFA_YEARS;
+    const degressive = afa.method === "degressive" && y < switchYear;
+
+    let mode: BuildingAfaRow["mode"];
+    let regular: number;
+    if (degressive) {
+      mode = "degressive";
+      regular = (book * DEGRESSIVE_RATE * months) / 1200;
+    } else if (afa.method === "degressive" || afterSonder) {
+      // Restwert auf die Restnutzungsdauer verteilen (Wechsel bzw. § 7a Abs. 9).
+      mode = "residual";
+      regular = book / Math.max(1, lifetime - elapsed(afa, y));
+    } else {
+      mode = "linear";
+      regular = (linearBasis * afa.rate * months) / 1200;
+    }
+    const sonder = inSonder ? (afa.sonderBasis * SONDER_AFA_RATE) / 100 : 0;
+    const amount = round2(Math.min(book, regular + sonder));
+    const sonderPart = round2(Math.min(sonder, amount));
+    rows.push({
+      year: y, opening: round2(opening), additions: round2(added),
+      regular: round2(amount - sonderPart), sonder: sonderPart, amount,
+      closing: round2(book - amount), mode, months,
+    });
+    book = round2(book - amount);
+  }
+  return rows;
+}
+
+/** AfA eines Jahres (Zeile der AfA-Reihe) oder undefined außerhalb der Laufzeit. */
+export function buildingAfaForYear(afa: BuildingAfa, year: number): BuildingAfaRow | undefined {
+  return buildingAfaSchedule(afa, year).find(r => r.year === year);
+}
+
+/**
+ * Erstes Jahr, ab dem der Wechsel von degressiver zu linearer AfA günstiger
+ * ist: Restwert / Restnutzungsdauer übersteigt 5 % des Restwerts, d. h. die
+ * Restnutzungsdauer beträgt weniger als 20 Jahre.
+ */
+export function suggestedSwitchYear(afa: BuildingAfa): number {
+  const startYear = Number(afa.start.slice(0, 4));
+  const lifetime = 100 / afa.rate;
+  let y = startYear + 1;
+  while (lifetime - elapsed(afa, y) >= 100 / DEGRESSIVE_RATE && y < startYear + MAX_YEARS) y++;
+  return y;
+}
@@ -0,0 +1,91 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { cashFlow, cashFlowArea } from "./cashFlow.js";
+import { deriveJournal } from "./engine.js";
+import type { AccountingData } from "./engine.js";
+
+// Sample fixtures — use the real JS data shape (plain keys, not CLJS namespaced keys)
+function data(extra: Partial<AccountingData> = {}): AccountingData {
+  return {
+    properties: [{ id: 10 }], apartments: [{ id: 1, "property-id": 10, code: "W1" }], garages: [],
+    allCosts: [], allRentPayments: [], taxConfigs: [], loans: [], maintenances: [], nkSettlements: [],
+    taxIncomes: [], taxExpenses: [], journalEntries: [],
+    ...extra,
+  };
+}
+
+const areas = (s: ReturnType<typeof cashFlow>) =>
+  Object.fromEntries(Object.entries(s.sections).map(([a, sec]) => [a, sec.items.map(i => [i.account, i.net])]));
+
+describe("cashFlowArea", () => {
+  test("sorts counter accounts by type", () => {
+    assert.equal(cashFlowArea("4120"), "operating");
+    assert.equal(cashFlowArea("7310"), "operating");
+    assert.equal(cashFlowArea("1200"), "operating");
+    assert.equal(cashFlowArea("0215"), "investing");
+    assert.equal(cashFlowArea("3150"), "financing");
+    assert.equal(cashFlowArea("2100"), "financing");
+  });
+});
+
+describe("cashFlow", () => {
+  const loan = {
+    id: 3, "original-amount": 12000, "interest-rate": 3, "repayment-rate": 2,
+    "payout-date": "2024-10-15", "fixed-until": "2034-10-31",
+  };
+  const lines = deriveJournal(data({
+    allRentPayments: [{ id: 1, "apartment-id": 1, year: 2024, month: 3, value: 800 }],
+    allCosts: [{ id: 5, "property-id": 10, year: 2024, line: "Grundsteuer", value: 200 }],
+    loans: [loan],
+    asOf: "2024-12-31",
+    journalEntries: [{ id: 9, number: 1, date: "2024-11-02", description: "Grundstück",
+                       "debit-account": "0215", "credit-account": "1800", amount: 10000 }],
+  }), 2024);
+
+  test("splits bank postings into operating, investing and financing", () => {
+    const s = cashFlow(lines, 2024);
+    assert.deepEqual(areas(s), {
+      operating: [["4120", 800], ["7310", -59.95], ["7680", -200]],
+      investing: [["0215", -10000]],
+      financing: [["3150", 11959.95]],
+    });
+  });
+
+  test("reconciles with the bank balance", () => {
+    const s = cashFlow(lines, 2024);
+    assert.equal(s.opening, 0);
+    assert.equal(Math.round(s.netChange * 100), 250000);
+    assert.equal(Math.round(s.closing * 100), 250000);
+    assert.equal(Math.round(s.difference * 100), 0);
+  });
+
+  test("takes postings before the period into the opening balance", () => {
+    // Costs are booked on 31.12., the payout and the rent fall before November
+    const s = cashFlow(lines, { from: "2024-11-01", to: "2024-12-31" });
+    assert.equal(s.opening, 12800);
+    assert.deepEqual(s.sections.investing.items.map(i => i.net), [-10000]);
+    assert.equal(Math.round(s.difference * 100), 0);
+  });
+});
+
+describe("cashFlow — VAT", () => {
+  test("keeps output and input VAT of an opted-in unit in operating", () => {
+    const lines = deriveJournal(data({
+      apartments: [{ id: 1, "property-id": 10, code: "G1", "vat-option": true }],
+      allRentPayments: [{ id: 1, "apartment-id": 1, year: 2024, month: 3, value: 1190 }],
+      allCosts: [{ id: 5, "property-id": 10, year: 2024, line: "Hausmeister", value: 119, "vat-rate": 19 }],
+    }), 2024);
+    const s = cashFlow(lines, 2024);
+    const accounts = (a: keyof typeof s.sections) => s.sections[a].items.map(i => i.account);
+    assert.ok(accounts("operating").includes("3806"));
+    assert.ok(accounts("operating").includes("1406"));
+    assert.deepEqual(accounts("investing"), []);
+    assert.deepEqual(accounts("financing"), []);
+    assert.equal(s.sections.operating.items.find(i => i.account === "3806")?.net, 190);
+    assert.equal(s.sections.operating.items.find(i => i.account === "1406")?.net, -19);
+  });
+
+  test("counts VAT accounts and prepayments as operating", () => {
+    for (const account of ["3806", "3801", "1406", "1401", "3820"]) assert.equal(cashFlowArea(account), "operating");
+  });
+});
@@ -0,0 +1,96 @@
+// Kapitalflussrechnung (direkte Methode) aus den Buchungen auf den Bankkonten
+// (Sammelkonto 1800 und die Unterkonten der erfassten Bankkonten).
+//
+// Jede Bankbuchung wird nach ihrem Gegenkonto einem Bereich zugeordnet:
+//  - laufende Geschäftstätigkeit: Erträge, Aufwendungen (auch Zinsen),
+//    Forderungen aus Vermietung, Lieferantenverbindlichkeiten,
+//    Umsatzsteuer, Vorsteuer und Zahlungen an das Finanzamt sowie
+//    Umbuchungen einbehaltener Kautionen vom Kautionskonto,
+//  - Investitionstätigkeit: übrige Aktivkonten (Grundstücke, Gebäude, …),
+//  - Finanzierungstätigkeit: Darlehen und übrige Passivkonten sowie
+//    Eigenkapital, Privatentnahmen und -einlagen.
+// Saldovorträge gegen 9000 sind keine Zahlungen; sie gehen in den Anfangsbestand
+// ein. Umbuchungen zwischen zwei Bankkonten sind keine Zahlungen und bleiben
+// außen vor. Anfangsbestand + Summe der Bereiche = Summe der Endbestände laut
+// Kontenblättern der Bankkonten.
+
+import { ledger, periodRange } from "./engine";
+import type { DateRange, JournalLine } from "./engine";
+import { account, bankAccounts, displayNumber, isBankAccount } from "./chartOfAccounts";
+import { INPUT_VAT_ACCOUNTS, OUTPUT_VAT_ACCOUNTS, VAT_PREPAYMENT_ACCOUNT } from "./vat";
+
+export type CashFlowArea = "operating" | "investing" | "financing";
+
+export const CASH_FLOW_AREAS: CashFlowArea[] = ["operating", "investing", "financing"];
+
+/** Zahlungen eines Bereichs je Gegenkonto (Zufluss positiv). */
+export type CashFlowItem = { account: string; inflow: number; outflow: number; net: number };
+
+export type CashFlowSection = { items: CashFlowItem[]; inflow: number; outflow: number; total: number };
+
+export type CashFlowStatement = {
+  sections: Record<CashFlowArea, CashFlowSection>;
+  opening: number;     // Bankbestand zu Beginn (inkl. Saldovorträge im Zeitraum)
+  netChange: number;   // Summe aller Bereiche
+  closing: number;     // Bankbestand am Ende laut Kontenblatt
+  difference: number;  // opening + netChange − closing (0 = abgestimmt)
+};
+
+const OPERATING_BALANCE_ACCOUNTS = new Set([
+  "1200", "1810", "3300",
+  ...OUTPUT_VAT_ACCOUNTS, ...INPUT_VAT_ACCOUNTS, VAT_PREPAYMENT_ACCOUNT,
+]);
+
+/** Bereich einer Zahlung nach Art des Gegenkontos. */
+export function cashFlowArea(counter: string): CashFlowArea {
+  if (OPERATING_BALANCE_ACCOUNTS.has(counter)) return "operating";
+  const t = account(counter).type;
+  if (t === "asset") return "investing";
+  if (t === "liability" || t === "equity") return "financing";
+  return "operating";
+}
+
+function isCarryforward(l: JournalLine): boolean {
+  return l.debit === "9000" || l.credit === "9000";
+}
+
+/** Kapitalflussrechnung eines Geschäftsjahres oder Zeitraums. */
+export function cashFlow(lines: JournalLine[], period: number | DateRange): CashFlowStatement {
+  const range = periodRange(period);
+  const banks = bankAccounts().map(no => ledger(lines, no, range));
+  const items = new Map<string, CashFlowItem>();
+  let opening = banks.reduce((s, b) => s + b.opening, 0);
+
+  for (const l of lines) {
+    const isDebit = isBankAccount(l.debit);
+    if (isDebit === isBankAccount(l.credit)) continue;
+    if (l.sourceType === "closing" || l.date > range.to) continue;
+    if (l.date < range.from || (l.date === range.from && l.sourceType === "carryforward")) continue;
+    if (isCarryforward(l)) {
+      opening += isDebit ? l.amount : -l.amount;
+      continue;
+    }
+    const counter = isDebit ? l.credit : l.debit;
+    let it = items.get(counter);
+    if (!it) { it = { account: counter, inflow: 0, outflow: 0, net: 0 }; items.set(counter, it); }
+    if (isDebit) it.inflow += l.amount;
+    else it.outflow += l.amount;
+  }
+
+  const sections = Object.fromEntries(CASH_FLOW_AREAS.map(a =>
+    [a, { items: [], inflow: 0, outflow: 0, total: 0 } as CashFlowSection])) as Record<CashFlowArea, CashFlowSection>;
+  const sorted = [...items.values()].sort((a, b) => displayNumber(a.account).localeCompare(displayNumber(b.account)));
+  for (const it of sorted) {
+    it.net = it.inflow - it.outflow;
+    if (Math.abs(it.inflow) < 0.005 && Math.abs(it.outflow) < 0.005) continue;
+    const s = sections[cashFlowArea(it.account)];
+    s.items.push(it);
+    s.inflow += it.inflow;
+    s.outflow += it.outflow;
+    s.total += it.net;
+  }
+
+  const netChange = CASH_FLOW_AREAS.reduce((s, a) => s + sections[a].total, 0);
+  const closing = banks.reduce((s, b) => s + b.closing, 0);
+  return { sections, opening, netChange, closing, difference: opening + netChange - closing };
+}
@@ -0,0 +1,105 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import {
+  bankAccountFor, bankLedgerAccounts, configureAccounts, expenseAccountFor, mappedAccount, taxExpenseAccountFor,
+  FALLBACK_EXPENSE_ACCOUNT,
+} from "./chartOfAccounts.js";
+import { deriveJournal, fallbackExpenses } from "./engine.js";
+import type { AccountingData } from "./engine.js";
+
+// Sample fixtures — use the real JS data shape (plain keys, not CLJS namespaced keys)
+function data(extra: Partial<AccountingData> = {}): AccountingData {
+  return {
+    properties: [{ id: 10 }], apartments: [], garages: [],
+    allCosts: [], allRentPayments: [], taxConfigs: [], loans: [], maintenances: [], nkSettlements: [],
+    taxIncomes: [], taxExpenses: [], journalEntries: [],
+    ...extra,
+  };
+}
+
+describe("cost-line mapping", () => {
+  test("suggests accounts by key and name and falls back to 6300", () => {
+    configureAccounts({});
+    assert.equal(expenseAccountFor("grundsteuer"), "7680");
+    assert.equal(expenseAccountFor("custom-1", "Gebäudeversicherung"), "6400");
+    assert.equal(expenseAccountFor("aufzug", "Aufzug"), FALLBACK_EXPENSE_ACCOUNT);
+    assert.equal(taxExpenseAccountFor("Steuerberatung"), "6825");
+    assert.equal(taxExpenseAccountFor("Fahrtkosten"), FALLBACK_EXPENSE_ACCOUNT);
+  });
+
+  test("prefers a stored mapping, matched case-insensitively", () => {
+    configureAccounts({ accountMappings: [
+      { kind: "expense-type", key: "Aufzug", account: "6450" },
+      { kind: "tax-category", key: "fahrtkosten", account: "6855" },
+    ] });
+    assert.equal(expenseAccountFor(" aufzug "), "6450");
+    assert.equal(taxExpenseAccountFor("Fahrtkosten"), "6855");
+    assert.equal(mappedAccount("expense-type", "fahrtkosten"), undefined);
+  });
+
+  test("ignores mappings to unknown accounts and accepts custom ones", () => {
+    configureAccounts({
+      customAccounts: [{ number: "6460", name: "Aufzugswartung", type: "expense" }],
+      accountMappings: [
+        { kind: "expense-type", key: "aufzug", account: "6460" },
+        { kind: "expense-type", key: "grundsteuer", account: "6999" },
+      ],
+    });
+    assert.equal(expenseAccountFor("aufzug"), "6460");
+    assert.equal(expenseAccountFor("grundsteuer"), "7680");
+  });
+
+  test("books costs on the mapped account", () => {
+    const lines = deriveJournal(data({
+      allCosts: [{ id: 5, "property-id": 10, year: 2024, line: "aufzug", value: 300 }],
+      accountMappings: [{ kind: "expense-type", key: "aufzug", account: "6450" }],
+    }), 2024);
+    assert.equal(lines.find(l => l.id === "cost-5")?.debit, "6450");
+  });
+});
+
+describe("fallbackExpenses", () => {
+  test("groups unmapped lines of the year on 6300 by key", () => {
+    const d = data({
+      allCosts: [
+        { id: 1, "property-id": 10, year: 2024, line: "aufzug", value: 300 },
+        { id: 2, "property-id": 10, year: 2024, line: "Aufzug", value: 100 },
+        { id: 3, "property-id": 10, year: 2024, line: "grundsteuer", value: 500 },
+        { id: 4, "property-id": 10, year: 2023, line: "aufzug", value: 900 },
+      ],
+      taxExpenses: [{ id: 6, date: "2024-05-02", category: "Fahrtkosten", amount: 40 }],
+    });
+    assert.deepEqual(fallbackExpenses(d, 2024), [
+      { kind: "expense-type", key: "aufzug", label: "aufzug", count: 2, amount: 400 },
+      { kind: "tax-category", key: "fahrtkosten", label: "Fahrtkosten", count: 1, amount: 40 },
+    ]);
+  });
+
+  test("leaves out mapped lines", () => {
+    const d = data({
+      allCosts: [{ id: 1, "property-id": 10, year: 2024, line: "aufzug", value: 300 }],
+      accountMappings: [{ kind: "expense-type", key: "aufzug", account: "6300" }],
+    });
+    assert.deepEqual(fallbackExpenses(d, 2024), []);
+  });
+});
+
+describe("bankLedgerAccounts", () => {
+  test("takes only the stored sub-account, each number once", () => {
+    const map = bankLedgerAccounts([
+      { id: "b2", "ledger-account": "1802" },
+      { id: "b1", "bank-account/ledger-account": "1801" },
+      { id: "b3", "ledger-account": "1802" },
+      { id: "b4" },
+      { id: "b5", "ledger-account": "1810" },
+    ]);
+    assert.deepEqual([...map], [["b2", "1802"], ["b1", "1801"]]);
+  });
+
+  test("books payments without a known bank account on 1800", () => {
+    configureAccounts({ bankAccounts: [{ id: "b1", "ledger-account": "1803", "bank-name": "GLS" }] });
+    assert.equal(bankAccountFor("b1"), "1803");
+    assert.equal(bankAccountFor("b9"), "1800");
+    assert.equal(bankAccountFor(null), "1800");
+  });
+});
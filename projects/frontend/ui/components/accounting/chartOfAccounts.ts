@@ -1,31 +1,62 @@
 // Kontenrahmen in Anlehnung an SKR04, zugeschnitten auf Wohnungsvermietung.
 // Kontenklassen: 0 Anlagevermögen, 1 Umlaufvermögen, 2 Eigenkapital,
 // 3 Fremdkapital, 4 Erträge, 6/7 Aufwendungen.
+//
+// Intern wird immer mit den SKR04-Nummern gebucht (auch in gespeicherten
+// Buchungssätzen). Ist für die Organisation SKR03 gewählt, werden die Konten
+// nur in der Anzeige und im DATEV-Export auf SKR03-Nummern abgebildet.
+// Eigene Konten der Organisation tragen in beiden Kontenrahmen ihre eigene
+// Nummer und ergänzen die Standardkonten. Jedes erfasste Bankkonto erhält ein
+// eigenes Unterkonto zu 1800 (siehe configureBankAccounts).
 
 export type AccountType = "asset" | "liability" | "equity" | "revenue" | "expense";
 
 export type Account = {
   number: string;
   name: string;
-  type: AccountType;
+  /** "unknown": Nummer ist weder Standard- noch eigenes Konto. */
+  type: AccountType | "unknown";
+  custom?: boolean;
 };
 
+export type ChartId = "SKR04" | "SKR03";
+
+export const CHARTS: ChartId[] = ["SKR04", "SKR03"];
+
+export const ACCOUNT_TYPES: AccountType[] = ["asset", "liability", "equity", "revenue", "expense"];
+
 export const ACCOUNTS: Account[] = [
   { number: "0215", name: "Grundstücke (Grund und Boden)",                    type: "asset" },
   { number: "0240", name: "Gebäude",                                          type: "asset" },
+  { number: "0670", name: "Geringwertige Wirtschaftsgüter",                   type: "asset" },
+  { number: "0675", name: "Wirtschaftsgüter (Sammelposten)",                  type: "asset" },
+  { number: "0690", name: "Sonstige Betriebs- und Geschäftsausstattung",      type: "asset" },
   { number: "1200", name: "Forderungen aus Vermietung",                       type: "asset" },
+  { number: "1401", name: "Abziehbare Vorsteuer 7 %",                         type: "asset" },
+  { number: "1406", name: "Abziehbare Vorsteuer 19 %",                        type: "asset" },
   { number: "1800", name: "Bank",                                             type: "asset" },
+  { number: "1810", name: "Kautionskonto (Mietsicherheiten)",                  type: "asset" },
   { number: "2000", name: "Eigenkapital",                                     type: "equity" },
   { number: "2100", name: "Privatentnahmen",                                  type: "equity" },
   { number: "2180", name: "Privateinlagen",                                   type: "equity" },
+  { number: "2970", name: "Gewinnvortrag vor Verwendung",                     type: "equity" },
   { number: "3150", name: "Verbindlichkeiten gegenüber Kreditinstituten",     type: "liability" },
   { number: "3300", name: "Verbindlichkeiten aus Lieferungen und Leistungen", type: "liability" },
+  { number: "3500", name: "Verbindlichkeiten aus Mietkautionen",              type: "liability" },
+  { number: "3801", name: "Umsatzsteuer 7 %",                                 type: "liability" },
+  { number: "3806", name: "Umsatzsteuer 19 %",                                type: "liability" },
+  { number: "3820", name: "Umsatzsteuer-Vorauszahlungen",                     type: "liability" },
   { number: "4120", name: "Mieterträge (steuerfrei §4 Nr. 12 UStG)",          type: "revenue" },
   { number: "4125", name: "Umlagen Nebenkosten (Vorauszahlungen)",            type: "revenue" },
   { number: "4126", name: "Erlöse aus Nebenkostenabrechnung",                 type: "revenue" },
   { number: "4130", name: "Erlöse Garagen und Stellplätze",                   type: "revenue" },
   { number: "4190", name: "Sonstige Erlöse",                                  type: "revenue" },
+  { number: "4300", name: "Mieterträge 7 % USt (Option § 9 UStG)",            type: "revenue" },
+  { number: "4400", name: "Mieterträge 19 % USt (Option § 9 UStG)",           type: "revenue" },
   { number: "6220", name: "Abschreibungen auf Gebäude (AfA)",                 type: "expense" },
+  { number: "6222", name: "Abschreibungen auf bewegliche Wirtschaftsgüter",   type: "expense" },
+  { number: "6260", name: "Sofortabschreibung geringwertiger Wirtschaftsgüter", type: "expense" },
+  { number: "6264", name: "Abschreibungen auf Sammelposten",                  type: "expense" },
   { number: "6300", name: "Sonstige betriebliche Aufwendungen",               type: "expense" },
   { number: "6325", name: "Gas, Strom, Wasser",                               type: "expense" },
   { number: "6335", name: "Hausmeister, Reinigung, Gartenpflege",             type: "expense" },
@@ -39,19 +70,87 @@ export const ACCOUNTS: Account[] = [
   { number: "9000", name: "Saldenvorträge",                                   type: "equity" },
 ];
 
+/** SKR03-Gegenstücke der Standardkonten (Anzeige- und Exportnummern). */
+const SKR03: Record<string, string> = {
+  "0215": "0085", "0240": "0140", "0670": "0480", "0675": "0485", "0690": "0490", "1200": "1400", "1800": "1200", "1810": "1210",
+  "2000": "0870", "2100": "1800", "2180": "1890", "2970": "0860",
+  "1401": "1571", "1406": "1576",
+  "3150": "0630", "3300": "1600", "3500": "1700", "3801": "1771", "3806": "1776", "3820": "1780",
+  "4120": "8105", "4125": "8106", "4126": "8107", "4130": "8108", "4190": "2700",
+  "4300": "8300", "4400": "8400",
+  "6220": "4831", "6222": "4830", "6260": "4855", "6264": "4862", "6300": "4900", "6325": "4240", "6335": "4250", "6400": "4360",
+  "6450": "4260", "6495": "4280", "6825": "4950", "6855": "4970",
+  "7310": "2120", "7680": "2375", "9000": "9000",
+};
+
 /** Bestandskonten, die in der Eröffnungsbilanz erfasst werden können. */
-export const OPENING_ASSET_ACCOUNTS     = ["0215", "0240", "1200", "1800"];
-export const OPENING_LIABILITY_ACCOUNTS = ["3150", "3300"];
+export const OPENING_ASSET_ACCOUNTS     = ["0215", "0240", "1200", "1800", "1810"];
+export const OPENING_LIABILITY_ACCOUNTS = ["3150", "3300", "3500"];
+
+/** Sammelkonto Bank für Zahlungen ohne Bankkonto-Zuordnung. */
+export const BANK_ACCOUNT = "1800";
+
+/** Unterkonten für erfasste Bankkonten (SKR03: 1201–1209). */
+export const BANK_SUB_ACCOUNTS = ["1801", "1802", "1803", "1804", "1805", "1806", "1807", "1808", "1809"];
 
 const byNumber = new Map(ACCOUNTS.map(a => [a.number, a]));
 
+// Aktive Einstellungen der Organisation (gesetzt über configureChart).
+let activeChart: ChartId = "SKR04";
+let customByNumber = new Map<string, Account>();
+// Bankkonten der Organisation (gesetzt über configureBankAccounts).
+let bankByNumber = new Map<string, Account>();
+let bankAccountById = new Map<string, string>();   // bank-account id → Unterkonto
+
+/** Kontenrahmen und eigene Konten der Organisation übernehmen. */
+export function configureChart(chart: ChartId | null | undefined, custom: any[] = []): void {
+  activeChart = chart === "SKR03" ? "SKR03" : "SKR04";
+  customByNumber = new Map(custom
+    .filter(c => c?.number && !byNumber.has(String(c.number)))
+    .map(c => [String(c.number), {
+      number: String(c.number),
+      name: String(c.name ?? ""),
+      type: ACCOUNT_TYPES.includes(c.type) ? c.type : "expense",
+      custom: true,
+    } as Account]));
+}
+
+export function chartId(): ChartId {
+  return activeChart;
+}
+
+/** Standardkonten und eigene Konten, sortiert nach Anzeigenummer. */
+export function allAccounts(): Account[] {
+  return [...ACCOUNTS, ...bankByNumber.values(), ...customByNumber.values()]
+    .sort((a, b) => displayNumber(a.number).localeCompare(displayNumber(b.number)));
+}
+
+export function isKnownAccount(no: string): boolean {
+  return byNumber.has(no) || bankByNumber.has(no) || customByNumber.has(no);
+}
+
 export function account(no: string): Account {
-  return byNumber.get(no) ?? { number: no, name: `Konto ${no}`, type: "expense" };
+  return byNumber.get(no) ?? bankByNumber.get(no) ?? customByNumber.get(no)
+    ?? { number: no, name: `Unbekanntes Konto ${no}`, type: "unknown" };
+}
+
+/** Kontonummer im gewählten Kontenrahmen (eigene Konten unverändert). */
+export function displayNumber(no: string): string {
+  if (activeChart === "SKR03" && BANK_SUB_ACCOUNTS.includes(no)) return `12${no.slice(2)}`;
+  return activeChart === "SKR03" && SKR03[no] ? SKR03[no] : no;
+}
+
+/** Prüft eine neue eigene Kontonummer: vierstellig und in keinem Kontenrahmen belegt. */
+export function customAccountError(no: string): "format" | "taken" | null {
+  if (!/^\d{4}$/.test(no)) return "format";
+  if (byNumber.has(no) || customByNumber.has(no) || Object.values(SKR03).includes(no)) return "taken";
+  if (BANK_SUB_ACCOUNTS.some(b => b === no || `12${b.slice(2)}` === no)) return "taken";
+  return null;
 }
 
 export function accountLabel(no: string): string {
   const a = account(no);
-  return `${a.number} ${a.name}`;
+  return `${displayNumber(a.number)} ${a.name}`;
 }
 
 /** Soll-Saldo ist der Normalsaldo für Aktiv- und Aufwandskonten. */
@@ -60,8 +159,115 @@ export function isDebitNormal(no: string): boolean {
   return t === "asset" || t === "expense";
 }
 
-/** Map an operating-cost line key/name to its Aufwandskonto. */
-export function expenseAccountFor(lineKey: string | undefined, name?: string): string {
+// ── Bankkonten ──────────────────────────────────────────────────────────────
+// Jedes erfasste Bankkonto bucht auf ein eigenes Unterkonto 1801–1809. Die
+// Nummer wird beim Anlegen des Bankkontos gespeichert (ledger-account); ältere
+// Bankkonten trägt der Controller beim Laden einmalig nach. Hier zählt nur die
+// gespeicherte Nummer. Zahlungen ohne Bankkonto und Bankkonten ohne Nummer
+// bleiben auf dem Sammelkonto 1800.
+
+function bankAccountId(ba: any): string {
+  return String(ba?.id ?? ba?.["db/id"] ?? "");
+}
+
+/** Unterkonto je Bankkonto-ID (gespeicherte Nummer, jede Nummer nur einmal). */
+export function bankLedgerAccounts(bankAccounts: any[] = []): Map<string, string> {
+  const result = new Map<string, string>();
+  const used = new Set<string>();
+  for (const ba of bankAccounts) {
+    const stored = String(ba["bank-account/ledger-account"] ?? ba["ledger-account"] ?? "");
+    if (!bankAccountId(ba) || !BANK_SUB_ACCOUNTS.includes(stored) || used.has(stored)) continue;
+    result.set(bankAccountId(ba), stored);
+    used.add(stored);
+  }
+  return result;
+}
+
+/** Bankkonten der Organisation als Unterkonten zu 1800 übernehmen. */
+export function configureBankAccounts(bankAccounts: any[] = []): void {
+  bankAccountById = bankLedgerAccounts(bankAccounts);
+  bankByNumber = new Map();
+  for (const ba of bankAccounts) {
+    const no = bankAccountById.get(bankAccountId(ba));
+    if (!no) continue;
+    const bank = ba["bank-account/bank-name"] ?? ba["bank-name"] ?? "";
+    const iban = String(ba["bank-account/iban"] ?? ba.iban ?? "").replace(/\s/g, "");
+    const name = ["Bank", bank, iban && `…${iban.slice(-4)}`].filter(Boolean).join(" ");
+    bankByNumber.set(no, { number: no, name, type: "asset" });
+  }
+}
+
+/** Bankkonto (1800 oder Unterkonto) einer Zahlung mit optionaler Bankkonto-ID. */
+export function bankAccountFor(bankAccountIdRef: any): string {
+  if (bankAccountIdRef === null || bankAccountIdRef === undefined || bankAccountIdRef === "") return BANK_ACCOUNT;
+  return bankAccountById.get(String(bankAccountIdRef)) ?? BANK_ACCOUNT;
+}
+
+/** 1800 und die Unterkonten der erfassten Bankkonten. */
+export function bankAccounts(): string[] {
+  return [BANK_ACCOUNT, ...[...bankByNumber.keys()].sort()];
+}
+
+export function isBankAccount(no: string): boolean {
+  return no === BANK_ACCOUNT || bankByNumber.has(no);
+}
+
+/** Eröffnungsbilanz-Aktivkonten einschließlich der Bank-Unterkonten. */
+export function openingAssetAccounts(bankAccountList: any[] = []): string[] {
+  const subs = [...bankLedgerAccounts(bankAccountList).values()].sort();
+  const i = OPENING_ASSET_ACCOUNTS.indexOf(BANK_ACCOUNT);
+  return [...OPENING_ASSET_ACCOUNTS.slice(0, i + 1), ...subs, ...OPENING_ASSET_ACCOUNTS.slice(i + 1)];
+}
+
+// ── Kontenzuordnung für Kosten ──────────────────────────────────────────────
+// Kostenarten (expense-type key) und Kategorien sonstiger Werbungskosten werden
+// über gespeicherte Zuordnungen (account-mapping Entities) einem Aufwandskonto
+// zugewiesen. Ohne Zuordnung gilt ein Vorschlag anhand des Namens; greift auch
+// dieser nicht, landet die Kostenzeile auf dem Sammelkonto 6300.
+
+export const FALLBACK_EXPENSE_ACCOUNT = "6300";
+
+export type MappingKind = "expense-type" | "tax-category";
+
+let mappingByKey = new Map<string, string>();   // "<kind>:<key>" → Konto
+
+/** Normalisierter Schlüssel einer Kostenart bzw. Kategorie. */
+export function mappingKey(key: string | undefined): string {
+  return (key ?? "").trim().toLowerCase();
+}
+
+/** Gespeicherte Kontenzuordnungen der Organisation übernehmen. */
+export function configureAccountMappings(list: any[] = []): void {
+  mappingByKey = new Map(list
+    .filter(m => m?.kind && m?.key && m?.account)
+    .map(m => [`${m.kind}:${mappingKey(m.key)}`, String(m.account)]));
+}
+
+/** Kontenbezogene Einstellungen der Organisation (Auszug aus AccountingData). */
+export type AccountSettings = {
+  chart?: ChartId | null;
+  customAccounts?: any[];
+  bankAccounts?: any[];
+  accountMappings?: any[];
+};
+
+/** Kontenrahmen, eigene Konten, Bankkonten und Kontenzuordnungen auf einmal
+ *  übernehmen. Auswertungen und Exporte rufen dies selbst mit ihren Daten auf,
+ *  damit Kontonummern und -namen nicht vom letzten Aufruf anderswo abhängen. */
+export function configureAccounts(settings: AccountSettings): void {
+  configureChart(settings.chart, settings.customAccounts);
+  configureBankAccounts(settings.bankAccounts);
+  configureAccountMappings(settings.accountMappings);
+}
+
+/** Zugeordnetes Konto; unbekannte Konten (z. B. gelöschte eigene) zählen nicht. */
+export function mappedAccount(kind: MappingKind, key: string | undefined): string | undefined {
+  const no = mappingByKey.get(`${kind}:${mappingKey(key)}`);
+  return no && isKnownAccount(no) ? no : undefined;
+}
+
+/** Vorschlag für eine Kostenart anhand von Schlüssel und Bezeichnung. */
+export function suggestExpenseAccount(lineKey: string | undefined, name?: string): string {
   const k = `${lineKey ?? ""} ${name ?? ""}`.toLowerCase();
   if (/heiz|gas|strom|wasser|abwasser/.test(k))                      return "6325";
   if (/versicherung/.test(k))                                        return "6400";
@@ -69,13 +275,23 @@ export function expenseAccountFor(lineKey: string | undefined, name?: string): s
   if (/hausmeister|reinigung|garten|winterdienst|schornstein|müll|abfall/.test(k)) return "6335";
   if (/verwaltung/.test(k))                                          return "6495";
   if (/instandhaltung|reparatur|wartung/.test(k))                    return "6450";
-  return "6300";
+  return FALLBACK_EXPENSE_ACCOUNT;
 }
 
-/** Map a tax-expense category (sonstige Werbungskosten) to its Aufwandskonto. */
-export function taxExpenseAccountFor(category: string | undefined): string {
+/** Vorschlag für eine Kategorie sonstiger Werbungskosten. */
+export function suggestTaxExpenseAccount(category: string | undefined): string {
   const k = (category ?? "").toLowerCase();
   if (/steuerberat|rechts|beratung/.test(k)) return "6825";
   if (/konto/.test(k))                       return "6855";
-  return "6300";
+  return FALLBACK_EXPENSE_ACCOUNT;
+}
+
+/** Map an operating-cost line key/name to its Aufwandskonto. */
+export function expenseAccountFor(lineKey: string | undefined, name?: string): string {
+  return mappedAccount("expense-type", lineKey) ?? suggestExpenseAccount(lineKey, name);
+}
+
+/** Map a tax-expense category (sonstige Werbungskosten) to its Aufwandskonto. */
+export function taxExpenseAccountFor(category: string | undefined): string {
+  return mappedAccount("tax-category", category) ?? suggestTaxExpenseAccount(category);
 }
@@ -0,0 +1,83 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { allocationShares, costCenterGuv, inCostCenter } from "./costCenters.js";
+import { deriveJournal, guv } from "./engine.js";
+import type { AccountingData } from "./engine.js";
+
+// Sample fixtures — use the real JS data shape (plain keys, not CLJS namespaced keys)
+const properties = [{ id: 10, name: "Haus A" }, { id: 20, name: "Haus B" }];
+const apartments = [
+  { id: 1, "property-id": 10, code: "A1", wohnflaeche: 60 },
+  { id: 2, "property-id": 10, code: "A2", wohnflaeche: 40 },
+  { id: 3, "property-id": 20, code: "B1", wohnflaeche: 100 },
+];
+
+function data(extra: Partial<AccountingData> = {}): AccountingData {
+  return {
+    properties, apartments, garages: [], allCosts: [], allRentPayments: [], taxConfigs: [], loans: [],
+    maintenances: [], nkSettlements: [], taxIncomes: [], taxExpenses: [], journalEntries: [],
+    ...extra,
+  };
+}
+
+const input = data({
+  allRentPayments: [
+    { id: 1, "apartment-id": 1, year: 2024, month: 1, value: 600 },
+    { id: 2, "apartment-id": 3, year: 2024, month: 1, value: 200 },
+  ],
+  allCosts: [{ id: 5, "property-id": 10, year: 2024, line: "Grundsteuer", value: 100 }],
+  // bank fees without a property
+  taxExpenses: [{ id: 7, year: 2024, amount: 33.33 }],
+});
+const lines = deriveJournal(input, 2024);
+
+describe("inCostCenter", () => {
+  test("narrows to property and apartment", () => {
+    const rent = lines.find(l => l.id === "rent-v-1")!;
+    assert.equal(inCostCenter(rent, {}), true);
+    assert.equal(inCostCenter(rent, { propertyId: "10", apartmentId: "1" }), true);
+    assert.equal(inCostCenter(rent, { propertyId: "10", apartmentId: "2" }), false);
+    assert.equal(inCostCenter(rent, { propertyId: "20" }), false);
+  });
+});
+
+describe("costCenterGuv", () => {
+  test("keeps bookings without property in their own column", () => {
+    const r = costCenterGuv(lines, 2024, properties, apartments);
+    assert.deepEqual(r.results, { "10": 500, "20": 200 });
+    assert.equal(r.unassignedResult, -33.33);
+    assert.deepEqual(r.rows.map(x => [x.account, x.byProperty, x.unassigned, x.total]), [
+      ["4120", { "10": 600, "20": 200 }, 0, 800],
+      ["6300", { "10": 0, "20": 0 }, 33.33, 33.33],
+      ["7680", { "10": 100, "20": 0 }, 0, 100],
+    ]);
+  });
+
+  test("consolidation equals the portfolio GuV", () => {
+    for (const key of ["none", "units", "area", "revenue"] as const) {
+      const r = costCenterGuv(lines, 2024, properties, apartments, key);
+      assert.equal(Math.round(r.totalResult * 100), Math.round(guv(lines, 2024).result * 100), key);
+    }
+  });
+
+  test("allocates unassigned amounts to the cent, rest to the last property", () => {
+    const r = costCenterGuv(lines, 2024, properties, apartments, "units");
+    const fees = r.rows.find(x => x.account === "6300")!;
+    assert.deepEqual(fees.byProperty, { "10": 22.22, "20": 11.11 });
+    assert.equal(fees.unassigned, 0);
+    assert.equal(r.unassignedResult, 0);
+  });
+});
+
+describe("allocationShares", () => {
+  test("by units, living area and revenue", () => {
+    assert.deepEqual(allocationShares("units", ["10", "20"], apartments, lines, 2024), { "10": 2 / 3, "20": 1 / 3 });
+    assert.deepEqual(allocationShares("area", ["10", "20"], apartments, lines, 2024), { "10": 0.5, "20": 0.5 });
+    assert.deepEqual(allocationShares("revenue", ["10", "20"], apartments, lines, 2024), { "10": 0.75, "20": 0.25 });
+  });
+
+  test("splits evenly without a basis", () => {
+    const noArea = apartments.map(a => ({ ...a, wohnflaeche: undefined }));
+    assert.deepEqual(allocationShares("area", ["10", "20"], noArea, lines, 2024), { "10": 0.5, "20": 0.5 });
+  });
+});
@@ -0,0 +1,161 @@
+// Kostenstellenrechnung: GuV je Immobilie (Kostenstelle) mit Konsolidierung.
+//
+// Jede Buchung mit propertyId gehört zur Kostenstelle dieser Immobilie;
+// Mieten und Garagenerlöse zusätzlich zur Wohnung bzw. Garage. Buchungen ohne
+// Immobilie (z. B. Kontoführungsgebühren, NK-Nachzahlungen) bleiben entweder
+// als eigene Spalte "nicht zugeordnet" stehen oder werden nach einem
+// Verteilungsschlüssel auf die Immobilien umgelegt. Die Konsolidierung
+// (Summe aller Spalten) entspricht immer der Portfolio-GuV.
+
+import { periodRange } from "./engine";
+import type { DateRange, JournalLine } from "./engine";
+import { account, displayNumber } from "./chartOfAccounts";
+
+export type AllocationKey = "none" | "units" | "area" | "revenue";
+
+export const ALLOCATION_KEYS: AllocationKey[] = ["none", "units", "area", "revenue"];
+
+/** Kostenstelle: Immobilie, optional eingeschränkt auf eine Wohnung oder Garage. */
+export type CostCenter = { propertyId?: string; apartmentId?: string; garageId?: string };
+
+export type CostCenterRow = {
+  account: string;
+  type: "revenue" | "expense";
+  byProperty: Record<string, number>;
+  unassigned: number;
+  total: number;
+};
+
+export type CostCenterGuv = {
+  propertyIds: string[];
+  rows: CostCenterRow[];
+  results: Record<string, number>;
+  unassignedResult: number;
+  totalResult: number;
+};
+
+function num(v: any): number {
+  if (v === null || v === undefined || v === "") return 0;
+  return parseFloat(String(v).replace(",", ".")) || 0;
+}
+
+/** Gehört die Buchung zur Kostenstelle? Ohne Angaben: alle Buchungen. */
+export function inCostCenter(l: JournalLine, cc: CostCenter): boolean {
+  if (cc.propertyId && l.propertyId !== cc.propertyId) return false;
+  if (cc.apartmentId && l.apartmentId !== cc.apartmentId) return false;
+  if (cc.garageId && l.garageId !== cc.garageId) return false;
+  return true;
+}
+
+/** Erfolgswirkung einer Buchung je Erfolgskonto (Erträge und Aufwendungen positiv). */
+function resultPostings(l: JournalLine): { account: string; type: "revenue" | "expense"; amount: number }[] {
+  const out: { account: string; type: "revenue" | "expense"; amount: number }[] = [];
+  for (const [acc, sign] of [[l.debit, 1], [l.credit, -1]] as [string, number][]) {
+    const t = account(acc).type;
+    if (t === "revenue") out.push({ account: acc, type: t, amount: -sign * l.amount });
+    if (t === "expense") out.push({ account: acc, type: t, amount: sign * l.amount });
+  }
+  return out;
+}
+
+/** Anteile je Immobilie laut Verteilungsschlüssel (Summe 1). Ohne Bezugsgröße
+ *  (z. B. keine Wohnflächen erfasst) wird gleichmäßig verteilt. */
+export function allocationShares(
+  key: AllocationKey,
+  propertyIds: string[],
+  apartments: any[],
+  lines: JournalLine[],
+  period: number | DateRange,
+): Record<string, number> {
+  const range = periodRange(period);
+  const basis: Record<string, number> = {};
+  for (const id of propertyIds) basis[id] = 0;
+  if (key === "units" || key === "area") {
+    for (const a of apartments) {
+      const id = String(a["property-id"]);
+      if (!(id in basis)) continue;
+      basis[id] += key === "units" ? 1 : num(a.wohnflaeche);
+    }
+  } else if (key === "revenue") {
+    for (const l of lines) {
+      if (l.date < range.from || l.date > range.to || l.sourceType === "closing") continue;
+      if (!l.propertyId || !(l.propertyId in basis)) continue;
+      for (const p of resultPostings(l)) if (p.type === "revenue") basis[l.propertyId] += p.amount;
+    }
+  }
+  const total = propertyIds.reduce((s, id) => s + Math.max(basis[id], 0), 0);
+  const shares: Record<string, number> = {};
+  for (const id of propertyIds) {
+    shares[id] = total > 0 ? Math.max(basis[id], 0) / total : 1 / propertyIds.length;
+  }
+  return shares;
+}
+
+/** Verteilt einen Betrag centgenau; der Rundungsrest geht an die letzte Immobilie. */
+function distribute(amount: number, propertyIds: string[], shares: Record<string, number>): Record<string, number> {
+  const cents = Math.round(amount * 100);
+  const out: Record<string, number> = {};
+  let rest = cents;
+  propertyIds.forEach((id, i) => {
+    const part = i === propertyIds.length - 1 ? rest : Math.round(cents * shares[id]);
+    out[id] = part / 100;
+    rest -= part;
+  });
+  return out;
+}
+
+/** GuV eines Jahres oder Zeitraums je Immobilie, nicht zugeordnet und konsolidiert. */
+export function costCenterGuv(
+  lines: JournalLine[],
+  period: number | DateRange,
+  properties: any[],
+  apartments: any[],
+  key: AllocationKey = "none",
+): CostCenterGuv {
+  const range = periodRange(period);
+  const propertyIds = properties.map(p => String(p.id));
+  const rows = new Map<string, CostCenterRow>();
+  const row = (acc: string, type: "revenue" | "expense") => {
+    let r = rows.get(acc);
+    if (!r) {
+      r = { account: acc, type, byProperty: Object.fromEntries(propertyIds.map(id => [id, 0])), unassigned: 0, total: 0 };
+      rows.set(acc, r);
+    }
+    return r;
+  };
+  for (const l of lines) {
+    if (l.date < range.from || l.date > range.to || l.sourceType === "closing") continue;
+    for (const p of resultPostings(l)) {
+      const r = row(p.account, p.type);
+      if (l.propertyId && l.propertyId in r.byProperty) r.byProperty[l.propertyId] += p.amount;
+      else r.unassigned += p.amount;
+    }
+  }
+
+  if (key !== "none" && propertyIds.length > 0) {
+    const shares = allocationShares(key, propertyIds, apartments, lines, range);
+    for (const r of rows.values()) {
+      if (Math.abs(r.unassigned) < 0.005) continue;
+      const parts = distribute(r.unassigned, propertyIds, shares);
+      for (const id of propertyIds) r.byProperty[id] += parts[id];
+      r.unassigned = 0;
+    }
+  }
+
+  const results: Record<string, number> = Object.fromEntries(propertyIds.map(id => [id, 0]));
+  let unassignedResult = 0;
+  for (const r of rows.values()) {
+    const sign = r.type === "revenue" ? 1 : -1;
+    r.total = r.unassigned + propertyIds.reduce((s, id) => s + r.byProperty[id], 0);
+    for (const id of propertyIds) results[id] += sign * r.byProperty[id];
+    unassignedResult += sign * r.unassigned;
+  }
+  const totalResult = unassignedResult + propertyIds.reduce((s, id) => s + results[id], 0);
+
+  const sorted = [...rows.values()]
+    .filter(r => Math.abs(r.total) > 0.005 || Object.values(r.byProperty).some(v => Math.abs(v) > 0.005))
+    .sort((a, b) => a.type === b.type
+      ? displayNumber(a.account).localeCompare(displayNumber(b.account))
+      : a.type === "revenue" ? -1 : 1);
+  return { propertyIds, rows: sorted, results, unassignedResult, totalResult };
+}
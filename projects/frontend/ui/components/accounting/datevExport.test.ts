@@ -0,0 +1,50 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { datevBuchungsstapel } from "./datevExport.js";
+import { deriveJournal } from "./engine.js";
+import type { AccountingData } from "./engine.js";
+
+// Sample fixtures — use the real JS data shape (plain keys, not CLJS namespaced keys)
+function data(extra: Partial<AccountingData> = {}): AccountingData {
+  return {
+    properties: [],
+    apartments: [{ id: 1, "property-id": 10, code: "W1" }],
+    garages: [],
+    allCosts: [],
+    allRentPayments: [{ id: 1, "apartment-id": 1, year: 2024, month: 3, value: 500 }],
+    taxConfigs: [],
+    loans: [],
+    maintenances: [],
+    nkSettlements: [],
+    taxIncomes: [],
+    taxExpenses: [],
+    journalEntries: [],
+    ...extra,
+  };
+}
+
+const opts = { year: 2024, beraterNr: "1001", mandantNr: "1", createdAt: new Date(2025, 0, 2) };
+
+function parse(csv: string) {
+  const [header, , ...rows] = csv.trimEnd().split("\r\n").map(r => r.split(";"));
+  return { header, rows };
+}
+
+describe("datevBuchungsstapel", () => {
+  test("exports one record per booking with debit as account and credit as counter account", () => {
+    const input = data();
+    const { rows } = parse(datevBuchungsstapel(deriveJournal(input, 2024), { ...opts, accounts: input }));
+    assert.equal(rows.length, 1);
+    assert.deepEqual([rows[0][0], rows[0][1], rows[0][6], rows[0][7], rows[0][9], rows[0][10]],
+      ["500,00", '"S"', "1800", "4120", "0103", '"A-2024-0001"']);
+  });
+
+  test("uses the chart passed with the export, not the last derived journal", () => {
+    const skr03 = data({ chart: "SKR03" });
+    const lines = deriveJournal(skr03, 2024);
+    deriveJournal(data(), 2024); // derived again with SKR04 in between
+    const { header, rows } = parse(datevBuchungsstapel(lines, { ...opts, accounts: skr03 }));
+    assert.equal(header[26], '"03"');
+    assert.deepEqual([rows[0][6], rows[0][7]], ["1200", "8105"]);
+  });
+});
@@ -0,0 +1,140 @@
+// DATEV-Export der abgeleiteten Buchungen als Buchungsstapel im EXTF-Format
+// (Formatversion 700, Formatkategorie 21 "Buchungsstapel", Version 13).
+//
+// Je Geschäftsjahr entsteht ein Stapel: Zeile 1 ist der Vorlaufsatz (Berater,
+// Mandant, Wirtschaftsjahr, Kontenrahmen), Zeile 2 die Spaltenüberschriften,
+// danach ein Datensatz je Buchung. Kontenrahmen und Kontonummern folgen der
+// Einstellung der Organisation (SKR04 oder SKR03). Jede Buchung wird mit Soll/Haben-Kennzeichen
+// "S" exportiert — Konto ist das Sollkonto, Gegenkonto das Habenkonto.
+//
+// Stornopaare: Sowohl der stornierte Beleg als auch die Stornobuchung werden
+// exportiert. Die Stornobuchung trägt (wie im Journal) getauschte Konten und
+// einen eigenen Beleg, damit Verkehrszahlen beim Steuerberater mit der SuSa
+// übereinstimmen.
+
+import type { JournalLine } from "./engine";
+import { chartId, configureAccounts, displayNumber } from "./chartOfAccounts";
+import type { AccountSettings } from "./chartOfAccounts";
+
+export type DatevOptions = {
+  year: number;
+  beraterNr: string;
+  mandantNr: string;
+  /** Kontenrahmen, eigene Konten und Bankkonten, aus denen die Buchungen stammen. */
+  accounts: AccountSettings;
+  /** Optional: nur Buchungen dieser Immobilie exportieren. */
+  propertyId?: string;
+  /** Bezeichnung des Stapels (max. 30 Zeichen). */
+  label?: string;
+  createdAt?: Date;
+};
+
+/** Spalten des Buchungsstapels (Pflichtfelder und Buchungstext). */
+const COLUMNS = [
+  "Umsatz (ohne Soll/Haben-Kz)",
+  "Soll/Haben-Kennzeichen",
+  "WKZ Umsatz",
+  "Kurs",
+  "Basis-Umsatz",
+  "WKZ Basis-Umsatz",
+  "Konto",
+  "Gegenkonto (ohne BU-Schlüssel)",
+  "BU-Schlüssel",
+  "Belegdatum",
+  "Belegfeld 1",
+  "Belegfeld 2",
+  "Skonto",
+  "Buchungstext",
+];
+
+function pad2(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+/** Textfeld in Anführungszeichen, eingebettete Anführungszeichen verdoppelt. */
+function text(v: string | undefined, max?: number): string {
+  let s = (v ?? "").replace(/[\r\n;]+/g, " ").trim();
+  if (max) s = s.slice(0, max);
+  return `"${s.replace(/"/g, '""')}"`;
+}
+
+function amount(v: number): string {
+  return v.toFixed(2).replace(".", ",");
+}
+
+/** Belegfeld 1 erlaubt nur a-z A-Z 0-9 $ & % * + - / (max. 36 Zeichen). */
+function belegfeld(v: string): string {
+  return v.replace(/[^a-zA-Z0-9$&%*+\-/]/g, "").slice(0, 36);
+}
+
+function timestamp(d: Date): string {
+  return `${d.getFullYear()}${pad2(d.getMonth() + 1)}${pad2(d.getDate())}`
+    + `${pad2(d.getHours())}${pad2(d.getMinutes())}${pad2(d.getSeconds())}`
+    + String(d.getMilliseconds()).padStart(3, "0");
+}
+
+/** Buchungen, die in den Stapel eines Jahres (und ggf. einer Immobilie) gehören.
+ *  Abschluss- und Eröffnungsbuchungen erstellt der Steuerberater selbst. */
+export function datevLines(lines: JournalLine[], year: number, propertyId?: string): JournalLine[] {
+  return lines.filter(l => l.year === year && (!propertyId || l.propertyId === propertyId)
+    && l.sourceType !== "closing" && l.sourceType !== "carryforward");
+}
+
+/** Erzeugt den Buchungsstapel als CSV-Text (Semikolon-getrennt, CRLF). */
+export function datevBuchungsstapel(lines: JournalLine[], opts: DatevOptions): string {
+  const { year } = opts;
+  configureAccounts(opts.accounts);
+  const header = [
+    text("EXTF"), "700", "21", text("Buchungsstapel"), "13",
+    timestamp(opts.createdAt ?? new Date()),
+    "", text("RE"), text(""), text(""),
+    opts.beraterNr, opts.mandantNr,
+    `${year}0101`, "4", `${year}0101`, `${year}1231`,
+    text(opts.label ?? `Buchungen ${year}`, 30), text(""),
+    "1", "0", "0", text("EUR"),
+    "", text(""), "", "", text(chartId() === "SKR03" ? "03" : "04"), "", "", text(""), text(""),
+  ];
+
+  const rows = datevLines(lines, year, opts.propertyId).map(l => {
+    const [, m, d] = l.date.split("-");
+    return [
+      amount(l.amount), text("S"), text("EUR"), "", "", text(""),
+      displayNumber(l.debit), displayNumber(l.credit), text(""),
+      `${d}${m}`,
+      text(belegfeld(l.number)), text(""), "",
+      text(l.description, 60),
+    ].join(";");
+  });
+
+  return [header.join(";"), COLUMNS.join(";"), ...rows].join("\r\n") + "\r\n";
+}
+
+// Windows-1252-Positionen 0x80–0x9F, die von Latin-1 abweichen.
+const CP1252_EXTRA: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "ƒ": 0x83, "„": 0x84, "…": 0x85, "†": 0x86, "‡": 0x87,
+  "ˆ": 0x88, "‰": 0x89, "Š": 0x8a, "‹": 0x8b, "Œ": 0x8c, "Ž": 0x8e,
+  "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97,
+  "˜": 0x98, "™": 0x99, "š": 0x9a, "›": 0x9b, "œ": 0x9c, "ž": 0x9e, "Ÿ": 0x9f,
+};
+
+/** DATEV liest EXTF-Dateien als ANSI (Windows-1252); nicht darstellbare Zeichen werden zu "?". */
+export function encodeWindows1252(s: string): Uint8Array {
+  const out = new Uint8Array(s.length);
+  let i = 0;
+  for (const ch of s) {
+    const code = ch.codePointAt(0)!;
+    if (code < 0x80 || (code >= 0xa0 && code <= 0xff)) out[i++] = code;
+    else out[i++] = CP1252_EXTRA[ch] ?? 0x3f;
+  }
+  return out.slice(0, i);
+}
+
+export function downloadDatev(csv: string, fileName: string): void {
+  const blob = new Blob([encodeWindows1252(csv)], { type: "text/csv;charset=windows-1252" });
+  const url  = URL.createObjectURL(blob);
+  const a    = document.createElement("a");
+  a.href     = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,171 @@
+// Mietkautionen (§ 551 BGB): Zahlung in Raten, Anlage auf einem vom Vermögen
+// des Vermieters getrennten Kautionskonto, Verzinsung zugunsten des Mieters
+// und Abrechnung nach Auszug.
+//
+// Buchhalterisch ist die Kaution eine Verbindlichkeit gegenüber dem Mieter:
+//  - Ratenzahlung:     1810 Kautionskonto an 3500 Verbindlichkeiten Mietkautionen
+//  - Zinsgutschrift:   1810 an 3500 (die Zinsen stehen dem Mieter zu)
+//  - Einbehalt:        3500 an 4126 (NK-Nachzahlung) bzw. 4190 (Schadensersatz,
+//                      Sonstiges) und Umbuchung des Betrags 1800 an 1810
+//  - Auszahlung Rest:  3500 an 1810
+// Zinsen werden taggenau (act/365 bzw. act/366) berechnet und jeweils zum
+// Jahresende dem Kautionskonto gutgeschrieben, bei Abrechnung bis zum
+// Abrechnungstag.
+
+export type DepositPayment = { date: string; amount: number };
+
+export type DeductionKind = "nk" | "damage" | "other";
+
+export const DEDUCTION_KINDS: DeductionKind[] = ["nk", "damage", "other"];
+
+/** Ertragskonto eines Einbehalts. */
+export const DEDUCTION_ACCOUNTS: Record<DeductionKind, string> = {
+  nk: "4126",
+  damage: "4190",
+  other: "4190",
+};
+
+export type DepositDeduction = { kind: DeductionKind; description: string; amount: number };
+
+export type Deposit = {
+  id?: string;
+  tenantId: string;
+  apartmentId?: string;
+  amount: number;          // vereinbarte Kaution (max. drei Nettokaltmieten)
+  account: string;         // Bezeichnung/IBAN des Kautionskontos
+  interestRate: number;    // Zinssatz in % p. a.
+  payments: DepositPayment[];
+  status: "open" | "settled";
+  settledOn?: string;
+  deductions: DepositDeduction[];
+};
+
+export type InterestCredit = { date: string; amount: number; partial: boolean };
+
+export type DepositSettlement = {
+  paid: number;            // eingezahlte Raten
+  interest: number;        // Zinsen bis zum Abrechnungstag
+  balance: number;         // Guthaben des Mieters
+  deductions: number;      // geltend gemachte Einbehalte
+  retained: number;        // tatsächlich einbehalten (höchstens Guthaben)
+  payout: number;          // Auszahlung an den Mieter
+  openClaim: number;       // durch die Kaution nicht gedeckte Forderung
+};
+
+function num(v: any): number {
+  if (v === null || v === undefined || v === "") return 0;
+  return parseFloat(String(v).replace(",", ".")) || 0;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function days(from: string, to: string): number {
+  return Math.round((Date.parse(to + "T00:00:00Z") - Date.parse(from + "T00:00:00Z")) / 86400000);
+}
+
+function daysInYear(y: number): number {
+  return (y % 4 === 0 && y % 100 !== 0) || y % 400 === 0 ? 366 : 365;
+}
+
+/** Kautions-Entity aus dem Controller in die Frontend-Form bringen. */
+export function toDeposit(d: any): Deposit {
+  const list = (v: any) => (Array.isArray(v) ? v : []);
+  return {
+    id: d.id != null ? String(d.id) : undefined,
+    tenantId: String(d["tenant-id"] ?? ""),
+    apartmentId: d["apartment-id"] ? String(d["apartment-id"]) : undefined,
+    amount: num(d.amount),
+    account: d.account ?? "",
+    interestRate: num(d["interest-rate"]),
+    payments: list(d.payments)
+      .map((p: any) => ({ date: String(p.date ?? ""), amount: num(p.amount) }))
+      .filter((p: DepositPayment) => p.date && p.amount > 0)
+      .sort((a: DepositPayment, b: DepositPayment) => a.date.localeCompare(b.date)),
+    status: d.status === "settled" ? "settled" : "open",
+    settledOn: d["settled-on"] || undefined,
+    deductions: list(d.deductions).map((x: any) => ({
+      kind: DEDUCTION_KINDS.includes(x.kind) ? x.kind : "other",
+      description: String(x.description ?? ""),
+      amount: num(x.amount),
+    })),
+  };
+}
+
+export function paidAmount(d: Deposit, until?: string): number {
+  return d.payments.filter(p => !until || p.date <= until).reduce((s, p) => s + p.amount, 0);
+}
+
+/** Zinsgutschriften bis zum Stichtag (ausschließlich). Volle Jahre werden zum
+ *  31.12. gutgeschrieben; das angebrochene letzte Jahr ist "partial". */
+export function depositInterest(d: Deposit, until: string): InterestCredit[] {
+  if (d.interestRate <= 0 || d.payments.length === 0) return [];
+  const out: InterestCredit[] = [];
+  const first = parseInt(d.payments[0].date.slice(0, 4), 10);
+  const last = parseInt(until.slice(0, 4), 10);
+  let balance = 0;
+  for (let y = first; y <= last; y++) {
+    const end = `${y + 1}-01-01` <= until ? `${y + 1}-01-01` : until;
+    let cursor = `${y}-01-01`;
+    let interest = 0;
+    for (const p of d.payments) {
+      if (p.date < cursor || p.date >= end) continue;
+      interest += (balance * d.interestRate / 100) * days(cursor, p.date) / daysInYear(y);
+      balance += p.amount;
+      cursor = p.date;
+    }
+    interest += (balance * d.interestRate / 100) * days(cursor, end) / daysInYear(y);
+    const partial = end !== `${y + 1}-01-01`;
+    const amount = round2(interest);
+    if (amount > 0) {
+      out.push({ date: partial ? end : `${y}-12-31`, amount, partial });
+      balance += amount;
+    }
+    if (partial) break;
+  }
+  return out;
+}
+
+/** Kautionsabrechnung zum Abrechnungstag. Einbehalte werden höchstens bis zur
+ *  Höhe des Guthabens verrechnet; der Rest bleibt als offene Forderung. */
+export function depositSettlement(d: Deposit, date: string, deductions: DepositDeduction[] = d.deductions): DepositSettlement {
+  const paid = paidAmount(d, date);
+  const interest = round2(depositInterest(d, date).reduce((s, c) => s + c.amount, 0));
+  const balance = round2(paid + interest);
+  const total = round2(deductions.reduce((s, x) => s + Math.max(x.amount, 0), 0));
+  const retained = Math.min(total, balance);
+  return {
+    paid, interest, balance, deductions: total, retained,
+    payout: round2(balance - retained),
+    openClaim: round2(total - retained),
+  };
+}
+
+/** Einbehalte in Reihenfolge, gekürzt auf das verfügbare Guthaben. */
+export function cappedDeductions(deductions: DepositDeduction[], balance: number): DepositDeduction[] {
+  let rest = balance;
+  const out: DepositDeduction[] = [];
+  for (const x of deductions) {
+    const amount = round2(Math.min(Math.max(x.amount, 0), rest));
+    if (amount <= 0) continue;
+    out.push({ ...x, amount });
+    rest -= amount;
+  }
+  return out;
+}
+
+/** Offene NK-Nachzahlungen eines Mieters (Markierung abzüglich erfasster Zahlungen). */
+export function openNkClaims(tenantId: string, nkOutstandings: any[], nkSettlements: any[]): { year: number; amount: number }[] {
+  return nkOutstandings
+    .filter(o => String(o["tenant-id"]) === tenantId)
+    .map(o => {
+      const year = Number(o.year);
+      const settled = nkSettlements
+        .filter(s => String(s["tenant-id"]) === tenantId && Number(s.year) === year)
+        .reduce((s, x) => s + num(x.amount), 0);
+      return { year, amount: round2(num(o.amount) - settled) };
+    })
+    .filter(c => c.amount > 0.005)
+    .sort((a, b) => a.year - b.year);
+}
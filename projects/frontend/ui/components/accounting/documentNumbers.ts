@@ -0,0 +1,89 @@
+// Belegnummern für automatisch abgeleitete Buchungen.
+//
+// Abgeleitete Buchungen werden bei jedem Aufruf neu berechnet. Damit ihre
+// Belegnummern trotzdem stabil bleiben (z. B. für an den Steuerberater
+// übergebene Journale), wird jede Nummer beim Export bzw. Jahresabschluss
+// einmalig vergeben und gespeichert (document-number Entity): je
+// Geschäftsjahr eine lückenlose Folge, zugeordnet über Buchungs-ID und Jahr.
+// Die Buchungs-ID verweist auf die Quelle (sources.ts).
+//
+// Noch nicht gespeicherte Buchungen erhalten vorläufig die nächsten freien
+// Nummern ihres Jahres in Datumsfolge — in derselben Reihenfolge vergibt sie
+// der Server beim Festschreiben. Wandert eine Buchung in ein anderes Jahr,
+// bekommt sie dort eine neue Nummer; die alte bleibt als entfallen bestehen.
+
+import type { JournalLine } from "./engine";
+
+/** Gespeicherte Belegnummer: [{year, number, line-id, source-type, assigned-at}] */
+export type DocumentNumber = {
+  year: number;
+  number: number;
+  lineId: string;
+  sourceType?: string;
+};
+
+/** Noch festzuschreibende Belegnummer (Auftrag an den Server). */
+export type PendingDocumentNumber = {
+  lineId: string;
+  year: number;
+  sourceType?: string;
+};
+
+function key(year: number, lineId: string): string {
+  return `${year}|${lineId}`;
+}
+
+export function formatDocumentNumber(year: number, number: number): string {
+  return `A-${year}-${String(number).padStart(4, "0")}`;
+}
+
+export function toDocumentNumber(d: any): DocumentNumber | null {
+  const year = Number(d?.year);
+  const number = Number(d?.number);
+  const lineId = d?.["line-id"];
+  if (!Number.isInteger(year) || !(number > 0) || !lineId) return null;
+  return { year, number, lineId: String(lineId), sourceType: d["source-type"] || undefined };
+}
+
+/** Vergibt Belegnummern an abgeleitete Buchungen (Reihenfolge der Liste =
+ *  Vergabereihenfolge). Buchungen ohne gespeicherte Nummer werden als
+ *  vorläufig (numberPending) markiert. */
+export function assignDocumentNumbers(lines: JournalLine[], stored: any[]): void {
+  const byKey = new Map<string, number>();
+  const next = new Map<number, number>();
+  for (const raw of stored) {
+    const d = toDocumentNumber(raw);
+    if (!d) continue;
+    byKey.set(key(d.year, d.lineId), d.number);
+    next.set(d.year, Math.max(next.get(d.year) ?? 0, d.number));
+  }
+  for (const l of lines) {
+    const known = byKey.get(key(l.year, l.id));
+    if (known !== undefined) {
+      l.number = formatDocumentNumber(l.year, known);
+      continue;
+    }
+    const n = (next.get(l.year) ?? 0) + 1;
+    next.set(l.year, n);
+    l.number = formatDocumentNumber(l.year, n);
+    l.numberPending = true;
+  }
+}
+
+/** Festzuschreibende Belegnummern in Vergabereihenfolge (Jahr, dann Nummer). */
+export function pendingDocumentNumbers(lines: JournalLine[]): PendingDocumentNumber[] {
+  return lines
+    .filter(l => l.source === "auto" && l.numberPending)
+    .sort((a, b) => a.year - b.year || (a.number < b.number ? -1 : a.number > b.number ? 1 : 0))
+    .map(l => ({ lineId: l.id, year: l.year, sourceType: l.sourceType }));
+}
+
+/** Gespeicherte Belegnummern eines Jahres, zu denen es keine Buchung mehr gibt
+ *  (Quelle gelöscht oder in ein anderes Jahr verschoben). */
+export function vacatedDocumentNumbers(lines: JournalLine[], stored: any[], year: number): DocumentNumber[] {
+  const present = new Set(lines.filter(l => l.source === "auto").map(l => key(l.year, l.id)));
+  return stored
+    .map(toDocumentNumber)
+    .filter((d): d is DocumentNumber => d !== null && d.year === year && !present.has(key(d.year, d.lineId)))
+    .sort((a, b) => a.number - b.number);
+}
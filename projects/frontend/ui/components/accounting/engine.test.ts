@@ -0,0 +1,287 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { closingEntries, decomposeSplit, deriveJournal, frozenLines, splitTotals, trialBalance, guv } from "./engine.js";
+import type { AccountingData, SplitPosting } from "./engine.js";
+import { pendingDocumentNumbers } from "./documentNumbers.js";
+
+// Sample fixtures — use the real JS data shape (plain keys, not CLJS namespaced keys)
+function data(extra: Partial<AccountingData> = {}): AccountingData {
+  return {
+    properties: [{ id: 10, name: "Haus A" }],
+    apartments: [{ id: 1, "property-id": 10, code: "W1" }],
+    garages: [],
+    allCosts: [],
+    allRentPayments: [],
+    taxConfigs: [],
+    loans: [],
+    maintenances: [],
+    nkSettlements: [],
+    taxIncomes: [],
+    taxExpenses: [],
+    journalEntries: [],
+    ...extra,
+  };
+}
+
+const rent = { id: 1, "apartment-id": 1, year: 2024, month: 3, kaltmiete: 500, "nebenkosten-warm": 100 };
+const cost = { id: 5, "property-id": 10, year: 2024, line: "Grundsteuer", value: 300 };
+
+function balances(postings: { debit: string; credit: string; amount: number }[]): Map<string, number> {
+  const bal = new Map<string, number>();
+  for (const p of postings) {
+    bal.set(p.debit, Math.round(((bal.get(p.debit) ?? 0) + p.amount) * 100) / 100);
+    bal.set(p.credit, Math.round(((bal.get(p.credit) ?? 0) - p.amount) * 100) / 100);
+  }
+  return bal;
+}
+
+describe("decomposeSplit", () => {
+  test("splits one debit against several credits", () => {
+    const postings: SplitPosting[] = [
+      { account: "1800", side: "S", amount: 600 },
+      { account: "4120", side: "H", amount: 500 },
+      { account: "4125", side: "H", amount: 100 },
+    ];
+    assert.deepEqual(decomposeSplit(postings), [
+      { debit: "1800", credit: "4120", amount: 500 },
+      { debit: "1800", credit: "4125", amount: 100 },
+    ]);
+  });
+
+  test("needs at most N + M - 1 pairs and keeps every account balance", () => {
+    const postings: SplitPosting[] = [
+      { account: "6300", side: "S", amount: 70 },
+      { account: "7680", side: "S", amount: 30.1 },
+      { account: "1800", side: "H", amount: 50.05 },
+      { account: "1801", side: "H", amount: 50.05 },
+    ];
+    const out = decomposeSplit(postings);
+    assert.ok(out.length <= 3);
+    assert.deepEqual(balances(out), new Map([["6300", 70], ["1800", -50.05], ["7680", 30.1], ["1801", -50.05]]));
+  });
+
+  test("ignores empty positions", () => {
+    const postings: SplitPosting[] = [
+      { account: "6300", side: "S", amount: 0 },
+      { account: "7680", side: "S", amount: 20 },
+      { account: "1800", side: "H", amount: 20 },
+    ];
+    assert.deepEqual(decomposeSplit(postings), [{ debit: "7680", credit: "1800", amount: 20 }]);
+  });
+
+  test("splitTotals sums both sides", () => {
+    assert.deepEqual(splitTotals([
+      { account: "6300", side: "S", amount: 70 },
+      { account: "7680", side: "S", amount: 30 },
+      { account: "1800", side: "H", amount: 100 },
+    ]), { soll: 100, haben: 100 });
+  });
+});
+
+describe("deriveJournal", () => {
+  test("books rent payments as bank to rental income and NK advance payments", () => {
+    const lines = deriveJournal(data({ allRentPayments: [rent] }), 2024);
+    assert.deepEqual(lines.map(l => [l.id, l.date, l.debit, l.credit, l.amount]), [
+      ["rent-k-1", "2024-03-01", "1800", "4120", 500],
+      ["rent-n-1", "2024-03-01", "1800", "4125", 100],
+    ]);
+    assert.ok(lines.every(l => l.source === "auto" && l.sourceType === "rent-payment"));
+    assert.ok(lines.every(l => l.propertyId === "10" && l.apartmentId === "1"));
+  });
+
+  test("books costs on the mapped expense account at year end", () => {
+    const [line] = deriveJournal(data({ allCosts: [cost] }), 2024);
+    assert.equal(line.id, "cost-5");
+    assert.equal(line.date, "2024-12-31");
+    assert.equal(line.debit, "7680");
+    assert.equal(line.credit, "1800");
+    assert.equal(line.amount, 300);
+  });
+
+  test("leaves out bookings after the given year", () => {
+    const later = { ...rent, id: 2, year: 2025, month: 1 };
+    const lines = deriveJournal(data({ allRentPayments: [rent, later] }), 2024);
+    assert.ok(lines.every(l => l.year === 2024));
+  });
+
+  test("numbers derived bookings per year in date order, pending until stored", () => {
+    const lines = deriveJournal(data({ allRentPayments: [rent], allCosts: [cost] }), 2024);
+    assert.deepEqual(lines.map(l => l.number), ["A-2024-0001", "A-2024-0002", "A-2024-0003"]);
+    assert.ok(lines.every(l => l.numberPending));
+    assert.deepEqual(pendingDocumentNumbers(lines).map(p => p.lineId), ["rent-k-1", "rent-n-1", "cost-5"]);
+  });
+
+  test("keeps stored document numbers", () => {
+    const documentNumbers = [{ year: 2024, number: 1, "line-id": "cost-5" }];
+    const lines = deriveJournal(data({ allRentPayments: [rent], allCosts: [cost], documentNumbers }), 2024);
+    const byId = new Map(lines.map(l => [l.id, l]));
+    assert.equal(byId.get("cost-5")?.number, "A-2024-0001");
+    assert.equal(byId.get("cost-5")?.numberPending, undefined);
+    assert.equal(byId.get("rent-k-1")?.number, "A-2024-0002");
+  });
+
+  test("decomposes manual split entries under one document number", () => {
+    const entry = {
+      id: 7, number: 1, date: "2024-05-02", description: "Reparatur",
+      lines: [
+        { account: "6300", side: "S", amount: 100 },
+        { account: "7680", side: "S", amount: 50 },
+        { account: "1800", side: "H", amount: 150 },
+      ],
+    };
+    const lines = deriveJournal(data({ journalEntries: [entry] }), 2024);
+    assert.deepEqual(lines.map(l => [l.id, l.number, l.debit, l.credit, l.amount, l.split]), [
+      ["man-7-0", "M-1", "6300", "1800", 100, true],
+      ["man-7-1", "M-1", "7680", "1800", 50, true],
+    ]);
+    assert.ok(lines.every(l => l.source === "manual" && l.entityId === "7"));
+  });
+});
+
+describe("journal evaluations", () => {
+  const lines = deriveJournal(data({ allRentPayments: [rent], allCosts: [cost] }), 2024);
+
+  test("trial balance is balanced and shows the bank movements", () => {
+    const rows = trialBalance(lines, 2024);
+    const bank = rows.find(r => r.account === "1800");
+    assert.deepEqual(bank, { account: "1800", opening: 0, debit: 600, credit: 300, closing: 300 });
+    assert.equal(Math.round(rows.reduce((s, r) => s + r.closing, 0) * 100), 0);
+  });
+
+  test("GuV result is income minus expenses", () => {
+    const result = guv(lines, 2024);
+    assert.deepEqual(result.revenues, [{ account: "4120", amount: 500 }, { account: "4125", amount: 100 }]);
+    assert.deepEqual(result.expenses, [{ account: "7680", amount: 300 }]);
+    assert.equal(result.result, 300);
+  });
+});
+
+describe("loans", () => {
+  const loan = {
+    id: 3, "lender-name": "Sparkasse", "original-amount": 120000, "interest-rate": 3,
+    "repayment-rate": 2, "payout-date": "2024-01-15", "fixed-until": "2024-12-31",
+  };
+
+  test("books payout, interest and principal of each instalment against the bank", () => {
+    const lines = deriveJournal(data({ loans: [loan], asOf: "2024-03-31" }), 2024);
+    assert.deepEqual(lines.map(l => [l.id, l.date, l.debit, l.credit, l.amount]), [
+      ["loan-out-3", "2024-01-15", "1800", "3150", 120000],
+      ["loan-int-3-2024-02", "2024-02-29", "7310", "1800", 300],
+      ["loan-tilg-3-2024-02", "2024-02-29", "3150", "1800", 200],
+      ["loan-int-3-2024-03", "2024-03-31", "7310", "1800", 299.5],
+      ["loan-tilg-3-2024-03", "2024-03-31", "3150", "1800", 200.5],
+    ]);
+  });
+
+  test("leaves out instalments after the reference date", () => {
+    const lines = deriveJournal(data({ loans: [loan], asOf: "2024-04-15" }), 2024);
+    assert.equal(lines.at(-1)?.date, "2024-03-31");
+    assert.equal(deriveJournal(data({ loans: [loan], asOf: "2024-01-10" }), 2024).length, 0);
+  });
+
+  test("leaves out the forecast after the fixed-rate period", () => {
+    const lines = deriveJournal(data({ loans: [{ ...loan, "fixed-until": "2024-05-31" }], asOf: "2025-06-30" }), 2025);
+    assert.equal(lines.at(-1)?.id, "loan-tilg-3-2024-05");
+  });
+
+  test("books the recorded annual interest of loans without conditions", () => {
+    const [line] = deriveJournal(data({ loans: [{ id: 4, year: 2024, "annual-interest": 1200 }] }), 2024);
+    assert.deepEqual([line.id, line.date, line.debit, line.credit, line.amount], ["int-4", "2024-12-31", "7310", "1800", 1200]);
+  });
+});
+
+describe("accrual rents", () => {
+  const tenant = {
+    id: 7, "apartment-id": 1, "first-name": "Anna", "last-name": "Müller", "start-date": "2024-02-10",
+    kaltmiete: 500, "nebenkosten-warm": 100,
+  };
+  const payments = [
+    { id: 1, "apartment-id": 1, year: 2024, month: 1, kaltmiete: 450 },
+    { id: 2, "apartment-id": 1, year: 2024, month: 3, kaltmiete: 500, "nebenkosten-warm": 100 },
+  ];
+  const accrual = (extra: Partial<AccountingData> = {}) =>
+    data({ accrual: true, tenants: [tenant], allRentPayments: payments, asOf: "2024-04-15", ...extra });
+
+  test("books the contractual rent of each month from move-in up to the reference date on 1200", () => {
+    const soll = deriveJournal(accrual(), 2024).filter(l => l.sourceType === "rent-receivable");
+    assert.deepEqual(soll.map(l => [l.id, l.date, l.debit, l.credit, l.amount]), [
+      ["soll-k-7-2024-02", "2024-02-01", "1200", "4120", 500],
+      ["soll-n-7-2024-02", "2024-02-01", "1200", "4125", 100],
+      ["soll-k-7-2024-03", "2024-03-01", "1200", "4120", 500],
+      ["soll-n-7-2024-03", "2024-03-01", "1200", "4125", 100],
+      ["soll-k-7-2024-04", "2024-04-01", "1200", "4120", 500],
+      ["soll-n-7-2024-04", "2024-04-01", "1200", "4125", 100],
+    ]);
+  });
+
+  test("settles receivables with payments and keeps payments without receivable as income", () => {
+    const lines = deriveJournal(accrual(), 2024);
+    const paid = lines.filter(l => l.sourceType === "rent-payment");
+    assert.deepEqual(paid.map(l => [l.id, l.credit, l.amount]), [
+      ["rent-k-1", "4120", 450],
+      ["rent-k-2", "1200", 500],
+      ["rent-n-2", "1200", 100],
+    ]);
+    assert.equal(balances(lines).get("1200"), 1200);
+  });
+
+  test("takes the yearly contract rent and stops at move-out", () => {
+    const lines = deriveJournal(accrual({
+      tenants: [{ ...tenant, "end-date": "2025-02-28" }],
+      tenantMieten: [{ "tenant-id": 7, year: 2025, kaltmiete: 550 }],
+      asOf: "2025-12-31",
+    }), 2025);
+    const kalt = lines.filter(l => l.id.startsWith("soll-k-") && l.year === 2025);
+    assert.deepEqual(kalt.map(l => [l.date, l.amount]), [["2025-01-01", 550], ["2025-02-01", 550]]);
+  });
+
+  test("books nothing on 1200 without accrual mode", () => {
+    const lines = deriveJournal(accrual({ accrual: false }), 2024);
+    assert.ok(!lines.some(l => l.debit === "1200" || l.credit === "1200"));
+  });
+});
+
+describe("year closes", () => {
+  const rents = [
+    { id: 1, "apartment-id": 1, year: 2023, month: 3, value: 500 },
+    { id: 2, "apartment-id": 1, year: 2024, month: 3, value: 600 },
+  ];
+  // Same as closing a year in Accounting.tsx: snapshot plus closing entries.
+  function close(input: AccountingData, year: number) {
+    const lines = deriveJournal(input, year);
+    return { year, lines: frozenLines(lines, year), "closing-lines": closingEntries(lines, year) };
+  }
+  function closeTwoYears(input: AccountingData) {
+    const c2023 = close(input, 2023);
+    const c2024 = close({ ...input, yearCloses: [c2023] }, 2024);
+    return [c2023, c2024];
+  }
+
+  test("closing two consecutive years carries the bank balance forward unchanged", () => {
+    const input = data({ allRentPayments: rents });
+    const lines = deriveJournal({ ...input, yearCloses: closeTwoYears(input) }, 2025);
+    const bank = trialBalance(lines, 2025).find(r => r.account === "1800");
+    assert.deepEqual(bank, { account: "1800", opening: 1100, debit: 0, credit: 0, closing: 1100 });
+    assert.ok(lines.every(l => l.sourceType !== "correction"));
+  });
+
+  test("the snapshot leaves out closing and carryforward entries", () => {
+    const input = data({ allRentPayments: rents });
+    const [, c2024] = closeTwoYears(input);
+    assert.deepEqual(c2024.lines.map(l => l.id), ["rent-v-2"]);
+  });
+
+  test("later changes to a closed year are corrected once in the next open year", () => {
+    const input = data({ allRentPayments: rents });
+    const yearCloses = closeTwoYears(input);
+    const changed = data({ allRentPayments: [{ ...rents[0], value: 550 }, rents[1]], yearCloses });
+    const lines = deriveJournal(changed, 2025);
+    const corrections = lines.filter(l => l.sourceType === "correction");
+    assert.deepEqual(corrections.map(l => [l.date, l.debit, l.credit, l.amount]), [
+      ["2025-01-01", "1800", "4120", 550],
+      ["2025-01-01", "4120", "1800", 500],
+    ]);
+    const bank = trialBalance(lines, 2025).find(r => r.account === "1800");
+    assert.equal(bank?.closing, 1150);
+  });
+});
@@ -2,22 +2,73 @@
 //
 // Buchungen entstehen auf zwei Wegen:
 //  1. Automatisch abgeleitet aus den vorhandenen Stamm- und Bewegungsdaten
-//     (Mietzahlungen, Kosten, Darlehen, AfA, Erhaltungsaufwand, NK-Nachzahlungen,
+//     (Mietzahlungen, Garagenmieten, Kosten, Darlehen inkl. Tilgung, AfA, Erhaltungsaufwand, NK-Nachzahlungen,
 //     sonstige Einnahmen/Ausgaben). Diese werden nicht gespeichert, sondern
 //     deterministisch berechnet — die Quelldaten bleiben führend.
 //  2. Manuell erfasste Buchungssätze (journal-entry Entities). Diese sind
-//     GoBD-konform unveränderlich; Korrektur nur per Storno.
+//     GoBD-konform unveränderlich; Korrektur nur per Storno. Eine Hash-Kette
+//     über alle Belege macht Änderungen und Lücken nachweisbar (auditTrail.ts).
+//
+// Mieten: Standardmäßig nach Zufluss (Bank an Mieterträge). Im Soll-Modus
+// (data.accrual) wird die vertragliche Miete jedes Mieters zum Monatsersten als
+// Forderung eingebucht (1200 an 4120/4125) und durch die Mietzahlung
+// ausgeglichen (1800 an 1200). Der Saldo von 1200 zeigt die Mietrückstände.
+//
+// Bank: Mietzahlungen und Kosten mit Bankkonto-Zuordnung (bank-account-id aus
+// dem Kontoauszug-Import) laufen über das Unterkonto dieses Bankkontos
+// (1801–1809), alle übrigen Zahlungen über das Sammelkonto 1800.
+//
+// Umsatzsteuer: Für Einheiten mit Option nach § 9 UStG werden die erfassten
+// (Brutto-)Mieten in Nettoentgelt (4400/4300) und Umsatzsteuer (3806/3801)
+// geteilt; Kosten mit Steuersatz buchen den abziehbaren Vorsteueranteil auf
+// 1406/1401, siehe vat.ts.
+//
+// Bewegliche Wirtschaftsgüter aus dem Anlagenverzeichnis werden bei Anschaffung
+// aktiviert (Anlagekonto an Bank) und jährlich zum 31.12. abgeschrieben
+// (linear, GWG-Sofortabschreibung oder Sammelposten), siehe fixedAssets.ts.
+//
+// Mietkautionen sind Verbindlichkeiten gegenüber dem Mieter (3500) auf einem
+// getrennten Kautionskonto (1810), siehe deposits.ts.
+//
+// Jahresabschluss: Für abgeschlossene Jahre gelten die beim Abschluss
+// gespeicherten Buchungen (year-close Entity) statt der neu abgeleiteten.
+// Spätere Änderungen an Quelldaten eines abgeschlossenen Jahres werden als
+// Korrekturbuchungen zum 01.01. des Folgejahres eingebucht (siehe
+// applyYearCloses). Abschlussbuchungen ("closing") stehen am 31.12., die
+// Eröffnungsbuchungen ("carryforward") am 01.01. des Folgejahres.
+//
+// Umbuchungen: Konto, Datum oder Immobilie einer abgeleiteten Buchung lassen
+// sich über ihre Buchungs-ID überschreiben, ohne die Quelldaten zu ändern,
+// siehe bookingOverrides.ts.
+//
+// Belegnummern: Abgeleitete Buchungen erhalten je Geschäftsjahr fortlaufende,
+// einmal vergebene und gespeicherte Nummern (A-2024-0001 …), siehe
+// documentNumbers.ts.
 //
 // Jede Buchung ist ein einfacher Buchungssatz (ein Sollkonto an ein Habenkonto),
 // dadurch ist jede Buchung in sich ausgeglichen und Bilanz/GuV stimmen per
-// Konstruktion überein.
-
-import { account, expenseAccountFor, taxExpenseAccountFor, isDebitNormal, ACCOUNTS } from "./chartOfAccounts";
-import type { AccountType } from "./chartOfAccounts";
+// Konstruktion überein. Splitbuchungen (zusammengesetzte Buchungssätze mit
+// mehreren Soll- und Habenkonten) werden dafür in einfache Buchungssätze unter
+// derselben Belegnummer zerlegt (siehe decomposeSplit).
+
+import {
+  account, allAccounts, bankAccountFor, configureAccounts, displayNumber, expenseAccountFor,
+  isKnownAccount, mappedAccount, mappingKey, taxExpenseAccountFor, isDebitNormal, FALLBACK_EXPENSE_ACCOUNT,
+} from "./chartOfAccounts";
+import type { AccountType, ChartId, MappingKind } from "./chartOfAccounts";
+import { loanTerms, loanSchedule } from "./loanSchedule";
+import { garageRentYear, garageTenancy } from "./garageRents";
+import { DEDUCTION_ACCOUNTS, cappedDeductions, depositInterest, depositSettlement, toDeposit } from "./deposits";
+import { VAT_ACCOUNTS, costVatRate, inputTaxShare, splitGross, unitVatRate } from "./vat";
+import { ASSET_ACCOUNTS, depreciationSchedule, toFixedAsset } from "./fixedAssets";
+import { buildingAfa, buildingAfaSchedule, isHerstellung } from "./buildingAfa";
+import { assignDocumentNumbers } from "./documentNumbers";
+import { applyBookingOverride, overridesByLine } from "./bookingOverrides";
+import type { OverriddenFrom } from "./bookingOverrides";
 
 export type JournalLine = {
   id: string;
-  number: string;        // Belegnummer ("A-…" automatisch, "M-…" manuell)
+  number: string;        // Belegnummer ("A-<Jahr>-…" automatisch, "M-…" manuell)
   date: string;          // YYYY-MM-DD (Belegdatum)
   year: number;
   description: string;
@@ -27,20 +78,32 @@ export type JournalLine = {
   source: "auto" | "manual";
   sourceType?: string;
   propertyId?: string;
+  apartmentId?: string;  // Kostenstelle unterhalb der Immobilie (Wohnung)
+  garageId?: string;     // Kostenstelle unterhalb der Immobilie (Garage)
   stornoed?: boolean;    // wurde durch Storno neutralisiert
   isStorno?: boolean;    // ist selbst eine Stornobuchung
   entityId?: string;     // db-id für manuelle Buchungen (Storno-Ziel)
+  split?: boolean;       // Teil einer Splitbuchung (gemeinsamer Beleg)
+  numberPending?: boolean; // Belegnummer vorläufig (noch nicht festgeschrieben)
+  overridden?: OverriddenFrom; // umgebucht: ursprüngliche Werte (bookingOverrides.ts)
 };
 
+/** Einzelposition eines zusammengesetzten Buchungssatzes. */
+export type SplitPosting = { account: string; side: "S" | "H"; amount: number };
+
 export type AccountingData = {
   properties: any[];
   apartments: any[];
   garages: any[];
+  /** Erfasste Garagenmieten: [{garage-id, year, month, value, date?}] */
+  garagePayments?: any[];
   allCosts: any[];
   allRentPayments: any[];
   taxConfigs: any[];
   loans: any[];
   maintenances: any[];
+  /** Anlagenverzeichnis bewegliche Wirtschaftsgüter (fixed-asset Entities). */
+  fixedAssets?: any[];
   nkSettlements: any[];
   taxIncomes: any[];
   taxExpenses: any[];
@@ -49,6 +112,42 @@ export type AccountingData = {
   onboarding?: { date: string } | null;
   /** Saldenvorträge: [{account, side "S"|"H", amount}] */
   openingBalances?: any[];
+  /** Kontenrahmen der Organisation (Standard SKR04) und eigene Konten. */
+  chart?: ChartId | null;
+  customAccounts?: any[];
+  /** Kontenzuordnungen für Kostenarten und Werbungskosten-Kategorien: [{kind, key, account}] */
+  accountMappings?: any[];
+  /** Erfasste Bankkonten (Unterkonten zu 1800, siehe configureBankAccounts). */
+  bankAccounts?: any[];
+  /** Jahresabschlüsse: [{year, lines, "closing-lines", "closed-at", snapshot}] */
+  yearCloses?: any[];
+  /** Festgeschriebene Belegnummern abgeleiteter Buchungen (documentNumbers.ts). */
+  documentNumbers?: any[];
+  /** Umbuchungen abgeleiteter Buchungen nach Buchungs-ID (bookingOverrides.ts). */
+  bookingOverrides?: any[];
+  /** Soll-Modus für Mieten: Sollstellung je Mieter und Monat auf 1200. */
+  accrual?: boolean;
+  tenants?: any[];
+  /** Miethöhen je Mieter und Jahr: [{tenant-id, year, kaltmiete, nebenkosten-warm}] */
+  tenantMieten?: any[];
+  /** Stichtag (YYYY-MM-DD), bis zu dem Sollmieten und Darlehensraten eingebucht werden (Standard: heute). */
+  asOf?: string;
+  /** Mietkautionen je Mieter (deposit Entities, siehe deposits.ts). */
+  deposits?: any[];
+};
+
+/** Gespeicherte Form einer abgeleiteten Buchung (Jahresabschluss-Snapshot). */
+export type FrozenLine = {
+  id: string;
+  date: string;
+  description: string;
+  debit: string;
+  credit: string;
+  amount: number;
+  sourceType?: string;
+  propertyId?: string;
+  apartmentId?: string;
+  garageId?: string;
 };
 
 function num(v: any): number {
@@ -60,7 +159,52 @@ function pad2(n: number): string {
   return String(n).padStart(2, "0");
 }
 
-/** Kleinstes Jahr, in dem Bewegungsdaten existieren (für rechnerische Garagenerlöse). */
+/** Summe der Soll- und Habenpositionen einer Splitbuchung. */
+export function splitTotals(postings: SplitPosting[]): { soll: number; haben: number } {
+  let soll = 0;
+  let haben = 0;
+  for (const p of postings) {
+    if (p.side === "S") soll += p.amount;
+    else haben += p.amount;
+  }
+  return { soll, haben };
+}
+
+/** Zerlegt eine ausgeglichene Splitbuchung in einfache Buchungssätze
+ *  (höchstens N + M − 1 Paare). Die Kontensalden bleiben exakt erhalten. */
+export function decomposeSplit(postings: SplitPosting[]): { debit: string; credit: string; amount: number }[] {
+  const cents = (v: number) => Math.round(v * 100);
+  const debits  = postings.filter(p => p.side === "S" && p.amount > 0).map(p => ({ account: p.account, rest: cents(p.amount) }));
+  const credits = postings.filter(p => p.side === "H" && p.amount > 0).map(p => ({ account: p.account, rest: cents(p.amount) }));
+  const out: { debit: string; credit: string; amount: number }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < debits.length && j < credits.length) {
+    const take = Math.min(debits[i].rest, credits[j].rest);
+    if (take > 0) out.push({ debit: debits[i].account, credit: credits[j].account, amount: take / 100 });
+    debits[i].rest -= take;
+    credits[j].rest -= take;
+    if (debits[i].rest === 0) i++;
+    if (credits[j].rest === 0) j++;
+  }
+  return out;
+}
+
+/** Vertragliche Monatsmiete eines Mieters im Jahr: Jahreswert, sonst letzter
+ *  Vorjahreswert, sonst die beim Mieter hinterlegte Miete. */
+function contractRent(tenant: any, year: number, mieten: any[]): { kalt: number; nk: number } {
+  const own = mieten.filter(m => String(m["tenant-id"]) === String(tenant.id));
+  const exact = own.find(m => Number(m.year) === year);
+  const prev = own
+    .filter(m => Number(m.year) < year)
+    .sort((a, b) => Number(b.year) - Number(a.year))[0];
+  const pick = (key: string) =>
+    num(exact?.[key] ?? prev?.[key] ?? tenant[key]);
+  return { kalt: pick("kaltmiete"), nk: pick("nebenkosten-warm") };
+}
+
+/** Kleinstes Jahr, in dem Bewegungsdaten existieren (für rechnerische Garagenerlöse
+ *  belegter Garagen ohne bekannten Mietbeginn). */
 function minDataYear(data: AccountingData, fallback: number): number {
   let min = Infinity;
   for (const p of data.allRentPayments) if (Number(p.year) > 1900) min = Math.min(min, Number(p.year));
@@ -70,6 +214,7 @@ function minDataYear(data: AccountingData, fallback: number): number {
 
 /** Alle Buchungen (automatisch + manuell) mit Belegdatum bis einschließlich 31.12. maxYear. */
 export function deriveJournal(data: AccountingData, maxYear: number): JournalLine[] {
+  configureAccounts(data);
   const lines: JournalLine[] = [];
   const cutoff = `${maxYear}-12-31`;
   const aptById = new Map(data.apartments.map(a => [String(a.id), a]));
@@ -79,7 +224,9 @@ export function deriveJournal(data: AccountingData, maxYear: number): JournalLin
   // ihr Effekt steckt bereits in den Saldenvorträgen.
   const openingDate = data.onboarding?.date ?? null;
 
-  const push = (l: Omit<JournalLine, "number" | "year" | "source">) => {
+  const overrides = overridesByLine(data.bookingOverrides ?? []);
+  const push = (derived: Omit<JournalLine, "number" | "year" | "source">) => {
+    const l = applyBookingOverride(derived, overrides.get(derived.id));
     if (l.date > cutoff || l.amount <= 0) return;
     if (openingDate && l.date < openingDate && l.sourceType !== "opening") return;
     lines.push({ ...l, number: "", year: parseInt(l.date.slice(0, 4), 10), source: "auto" });
@@ -119,25 +266,78 @@ export function deriveJournal(data: AccountingData, maxYear: number): JournalLin
     }
   }
 
-  // ── AfA je Immobilie und Jahr (zeitanteilig im ersten Jahr, Deckelung) ────
+  // ── AfA je Immobilie und Jahr (linear/degressiv, Sonder-AfA, siehe buildingAfa.ts) ──
   for (const p of data.properties) {
     const cfg = data.taxConfigs.find(c => String(c["property-id"]) === String(p.id));
-    const buildingValue = num(cfg?.["building-value"]);
-    const rate = cfg?.["afa-rate"] !== undefined && cfg?.["afa-rate"] !== "" ? num(cfg["afa-rate"]) : 2;
-    const startStr = cfg?.["afa-start-date"];
-    if (!(buildingValue > 0 && rate > 0 && startStr)) continue;
-    const start = new Date(startStr + "T00:00:00");
-    const startYear = start.getFullYear();
-    const lifetime = Math.ceil(100 / rate);
-    const fullAfa = (buildingValue * rate) / 100;
-    for (let y = startYear; y <= maxYear && y < startYear + lifetime; y++) {
-      const amount = y === startYear ? (fullAfa * (12 - start.getMonth())) / 12 : fullAfa;
-      push({ id: `afa-${p.id}-${y}`, date: `${y}-12-31`, description: `AfA Gebäude ${y} — ${p.name}`,
-             debit: "6220", credit: "0240", amount, sourceType: "afa", propertyId: String(p.id) });
+    const afa = buildingAfa(cfg, p, data.apartments, data.maintenances);
+    if (!afa) continue;
+    for (const r of buildingAfaSchedule(afa, maxYear)) {
+      const kind = r.sonder > 0 ? "AfA Gebäude inkl. Sonder-AfA § 7b" : "AfA Gebäude";
+      push({ id: `afa-${p.id}-${r.year}`, date: `${r.year}-12-31`, description: `${kind} ${r.year} — ${p.name}`,
+             debit: "6220", credit: "0240", amount: r.amount, sourceType: "afa", propertyId: String(p.id) });
+    }
+  }
+
+  // ── Bewegliche Wirtschaftsgüter: Anschaffung und Abschreibung ─────────────
+  for (const raw of data.fixedAssets ?? []) {
+    const a = toFixedAsset(raw);
+    if (!a) continue;
+    const accs = ASSET_ACCOUNTS[a.method];
+    const ref = { propertyId: a.propertyId || undefined, apartmentId: a.apartmentId };
+    push({ id: `fa-acq-${a.id}`, date: a.acquisitionDate, description: `Anschaffung ${a.name}`,
+           debit: accs.asset, credit: "1800", amount: a.cost, sourceType: "asset-acquisition", ...ref });
+    for (const r of depreciationSchedule(a)) {
+      if (r.year > maxYear) break;
+      push({ id: `fa-afa-${a.id}-${r.year}`, date: `${r.year}-12-31`, description: `Abschreibung ${r.year} — ${a.name}`,
+             debit: accs.expense, credit: accs.asset, amount: r.amount, sourceType: "asset-depreciation", ...ref });
+    }
+  }
+
+  // ── Sollmieten (Soll-Modus): Forderung an Mieterträge / NK-Umlagen ───────
+  //    Je Mietmonat zwischen Einzug und Auszug die volle Monatsmiete, höchstens
+  //    bis zum Stichtag — künftige Monate sind noch nicht fällig.
+  const receivables = new Set<string>();   // "<apartment-id>-<Jahr>-<Monat>"
+  if (data.accrual) {
+    const until = [cutoff, data.asOf ?? new Date().toISOString().slice(0, 10)].sort()[0];
+    const mieten = data.tenantMieten ?? [];
+    for (const tn of data.tenants ?? []) {
+      const start = tn["start-date"];
+      const apt = aptById.get(String(tn["apartment-id"]));
+      if (!start || !apt) continue;
+      const end = tn["end-date"] || until;
+      const code = apt.code ? ` Whg. ${apt.code}` : "";
+      const name = [tn["first-name"], tn["last-name"]].filter(Boolean).join(" ");
+      const propertyId = String(apt["property-id"]);
+      const vatRate = unitVatRate(apt);
+      let y = parseInt(String(start).slice(0, 4), 10);
+      let m = parseInt(String(start).slice(5, 7), 10);
+      for (;;) {
+        const date = `${y}-${pad2(m)}-01`;
+        if (date > until || date > end) break;
+        const { kalt, nk } = contractRent(tn, y, mieten);
+        const ref = `${tn.id}-${y}-${pad2(m)}`;
+        const soll = (kind: "k" | "n", gross: number, revenue: string, text: string) => {
+          const base = { date, debit: "1200", sourceType: "rent-receivable", propertyId, apartmentId: String(apt.id) };
+          if (vatRate === null) {
+            push({ ...base, id: `soll-${kind}-${ref}`, description: text, credit: revenue, amount: gross });
+            return;
+          }
+          const { net, vat } = splitGross(gross, vatRate);
+          push({ ...base, id: `soll-${kind}-${ref}`, description: `${text} (netto)`, credit: VAT_ACCOUNTS[vatRate].revenue, amount: net });
+          push({ ...base, id: `soll-${kind}u-${ref}`, description: `${text} (USt ${vatRate} %)`, credit: VAT_ACCOUNTS[vatRate].output, amount: vat });
+        };
+        soll("k", kalt, "4120", `Sollmiete ${pad2(m)}/${y}${code} — ${name}`);
+        soll("n", nk, "4125", `NK-Vorauszahlung Soll ${pad2(m)}/${y}${code} — ${name}`);
+        if (kalt > 0 || nk > 0) receivables.add(`${apt.id}-${y}-${m}`);
+        m++;
+        if (m > 12) { m = 1; y++; }
+      }
     }
   }
 
   // ── Mietzahlungen: Bank an Mieterträge / NK-Umlagen ───────────────────────
+  //    Im Soll-Modus gleichen Zahlungen die Forderung aus (Bank an 1200);
+  //    Zahlungen ohne Sollstellung (kein Mieter erfasst) bleiben Zuflussbuchungen.
   for (const r of data.allRentPayments) {
     const y = Number(r.year);
     const m = Number(r.month);
@@ -145,57 +345,122 @@ export function deriveJournal(data: AccountingData, maxYear: number): JournalLin
     const apt = aptById.get(String(r["apartment-id"]));
     const code = apt?.code ? ` Whg. ${apt.code}` : "";
     const propertyId = apt ? String(apt["property-id"]) : undefined;
+    const apartmentId = apt ? String(apt.id) : undefined;
     const kalt = num(r.kaltmiete);
     const nk   = num(r["nebenkosten-warm"]);
-    if (kalt > 0) {
-      push({ id: `rent-k-${r.id}`, date, description: `Kaltmiete ${pad2(m)}/${y}${code}`,
-             debit: "1800", credit: "4120", amount: kalt, sourceType: "rent-payment", propertyId });
-    }
-    if (nk > 0) {
-      push({ id: `rent-n-${r.id}`, date, description: `NK-Vorauszahlung ${pad2(m)}/${y}${code}`,
-             debit: "1800", credit: "4125", amount: nk, sourceType: "rent-payment", propertyId });
-    }
-    if (kalt <= 0 && nk <= 0 && num(r.value) > 0) {
-      push({ id: `rent-v-${r.id}`, date, description: `Miete ${pad2(m)}/${y}${code}`,
-             debit: "1800", credit: "4120", amount: num(r.value), sourceType: "rent-payment", propertyId });
-    }
+    const open = receivables.has(`${r["apartment-id"]}-${y}-${m}`);
+    const bank = bankAccountFor(r["bank-account-id"]);
+    const vatRate = unitVatRate(apt);
+    // Offene Forderung: Zahlung gleicht die Sollstellung brutto aus (Bank an 1200).
+    const rent = (kind: "k" | "n" | "v", gross: number, revenue: string, text: string) => {
+      const base = { date, debit: bank, sourceType: "rent-payment", propertyId, apartmentId };
+      if (open || vatRate === null) {
+        push({ ...base, id: `rent-${kind}-${r.id}`, description: text, credit: open ? "1200" : revenue, amount: gross });
+        return;
+      }
+      const { net, vat } = splitGross(gross, vatRate);
+      push({ ...base, id: `rent-${kind}-${r.id}`, description: `${text} (netto)`, credit: VAT_ACCOUNTS[vatRate].revenue, amount: net });
+      push({ ...base, id: `rent-${kind}u-${r.id}`, description: `${text} (USt ${vatRate} %)`, credit: VAT_ACCOUNTS[vatRate].output, amount: vat });
+    };
+    if (kalt > 0) rent("k", kalt, "4120", `Kaltmiete ${pad2(m)}/${y}${code}`);
+    if (nk > 0) rent("n", nk, "4125", `NK-Vorauszahlung ${pad2(m)}/${y}${code}`);
+    if (kalt <= 0 && nk <= 0 && num(r.value) > 0) rent("v", num(r.value), "4120", `Miete ${pad2(m)}/${y}${code}`);
   }
 
-  // ── Garagen: rechnerische Jahreserlöse (12 × Monatsmiete) ─────────────────
+  // ── Garagen: erfasste Garagenmieten, sonst rechnerisch je Mietmonat ──────
+  //    Zahlungen werden im Zahlungsmonat gebucht. Jahre ohne erfasste Zahlung
+  //    erhalten einen als "rechnerisch" gekennzeichneten Ersatzwert für die
+  //    vermieteten, fälligen Monate; Leerstand bleibt ohne Erlös.
+  const garageById = new Map(data.garages.map(g => [String(g.id), g]));
+  for (const p of data.garagePayments ?? []) {
+    const g = garageById.get(String(p["garage-id"]));
+    const y = Number(p.year);
+    const m = Number(p.month);
+    const date = p.date || (m >= 1 && m <= 12 ? `${y}-${pad2(m)}-01` : `${y}-12-31`);
+    push({ id: `garp-${p.id}`, date, description: `Garagenmiete ${pad2(m)}/${y} ${g?.code ?? ""}`.trim(),
+           debit: bankAccountFor(p["bank-account-id"]), credit: "4130", amount: num(p.value), sourceType: "garage-payment",
+           propertyId: g?.["property-id"] ? String(g["property-id"]) : undefined,
+           garageId: g ? String(g.id) : undefined });
+  }
   const firstYear = minDataYear(data, maxYear);
+  const asOf = data.asOf ?? new Date().toISOString().slice(0, 10);
   for (const g of data.garages) {
-    const monthly = num(g["monthly-rent"]);
-    if (monthly <= 0) continue;
-    for (let y = firstYear; y <= maxYear; y++) {
+    const from = garageTenancy(g, data.tenants)?.from;
+    const startYear = from ? parseInt(from.slice(0, 4), 10) : firstYear;
+    for (let y = startYear; y <= maxYear; y++) {
+      const r = garageRentYear(g, y, data.garagePayments, data.tenants, asOf);
+      if (!r.estimated) continue;
       push({ id: `gar-${g.id}-${y}`, date: `${y}-12-31`,
-             description: `Garagenmiete ${g.code ?? ""} ${y} (rechnerisch 12 × ${monthly.toFixed(2)})`.trim(),
-             debit: "1800", credit: "4130", amount: monthly * 12,
-             sourceType: "garage", propertyId: g["property-id"] ? String(g["property-id"]) : undefined });
+             description: `Garagenmiete ${g.code ?? ""} ${y} (rechnerisch ${r.expectedMonths.length} × ${r.monthly.toFixed(2)}, keine Zahlungen erfasst)`.trim(),
+             debit: "1800", credit: "4130", amount: r.expected,
+             sourceType: "garage-estimate", propertyId: r.propertyId, garageId: String(g.id) });
     }
   }
 
   // ── Betriebskosten der Immobilie ──────────────────────────────────────────
+  //    Kosten mit Steuersatz: abziehbarer Vorsteueranteil (Flächenschlüssel der
+  //    optierten Einheiten) auf 1406/1401, der Rest bleibt Aufwand.
+  const taxShares = new Map<string, number>();
   for (const c of data.allCosts) {
     const y = Number(c.year);
-    push({ id: `cost-${c.id}`, date: `${y}-12-31`, description: `${c.name ?? c.line ?? "Kosten"} ${y}`,
-           debit: expenseAccountFor(c.line, c.name), credit: "1800", amount: num(c.value),
-           sourceType: "cost", propertyId: c["property-id"] ? String(c["property-id"]) : undefined });
+    const propertyId = c["property-id"] ? String(c["property-id"]) : undefined;
+    const gross = num(c.value);
+    const rate = costVatRate(c);
+    if (propertyId && rate !== null && !taxShares.has(propertyId)) {
+      taxShares.set(propertyId, inputTaxShare(propertyId, data.apartments).share);
+    }
+    const share = propertyId && rate !== null ? taxShares.get(propertyId)! : 0;
+    const inputTax = rate !== null && share > 0 ? Math.round(splitGross(gross, rate).vat * share * 100) / 100 : 0;
+    const description = `${c.name ?? c.line ?? "Kosten"} ${y}`;
+    const credit = bankAccountFor(c["bank-account-id"]);
+    push({ id: `cost-${c.id}`, date: `${y}-12-31`, description,
+           debit: expenseAccountFor(c.line, c.name), credit, amount: gross - inputTax,
+           sourceType: "cost", propertyId });
+    if (inputTax > 0) {
+      push({ id: `vst-${c.id}`, date: `${y}-12-31`,
+             description: `Vorsteuer ${rate} % (${Math.round(share * 1000) / 10} % abziehbar) — ${description}`,
+             debit: VAT_ACCOUNTS[rate!].input, credit, amount: inputTax, sourceType: "cost", propertyId });
+    }
   }
 
   // ── Erhaltungsaufwand (handelsrechtlich sofort im Zahlungsjahr) ───────────
+  //    Nachträgliche Herstellungskosten werden auf dem Gebäude aktiviert und
+  //    über die Gebäude-AfA abgeschrieben.
   for (const m of data.maintenances) {
     const y = Number(m.year);
-    push({ id: `maint-${m.id}`, date: `${y}-12-31`, description: `${m.description ?? "Erhaltungsaufwand"} ${y}`,
-           debit: "6450", credit: "1800", amount: num(m.amount),
+    const herstellung = isHerstellung(m);
+    push({ id: `maint-${m.id}`, date: `${y}-12-31`,
+           description: `${m.description ?? (herstellung ? "Nachträgliche Herstellungskosten" : "Erhaltungsaufwand")} ${y}`,
+           debit: herstellung ? "0240" : "6450", credit: "1800", amount: num(m.amount),
            sourceType: "maintenance", propertyId: m["property-id"] ? String(m["property-id"]) : undefined });
   }
 
-  // ── Schuldzinsen ──────────────────────────────────────────────────────────
+  // ── Darlehen: Auszahlung, Zinsen und Tilgung laut Tilgungsplan ────────────
+  //    Gebucht werden nur Raten bis zum Stichtag und innerhalb der Zinsbindung;
+  //    spätere Raten und die Prognose danach zeigt nur der Tilgungsplan.
+  //    Darlehen ohne Konditionen liefern nur die erfassten Jahreszinsen.
   for (const l of data.loans) {
+    const lender = l["lender-name"] ?? "Darlehen";
+    const propertyId = l["property-id"] ? String(l["property-id"]) : undefined;
+    const terms = loanTerms(l);
+    if (terms) {
+      if (terms.payoutDate > asOf) continue;
+      push({ id: `loan-out-${l.id}`, date: terms.payoutDate, description: `Auszahlung ${lender}`,
+             debit: "1800", credit: "3150", amount: terms.amount, sourceType: "loan-payout", propertyId });
+      for (const r of loanSchedule(terms, maxYear)) {
+        if (r.date > asOf || r.afterFixed) break;
+        const period = `${pad2(r.month)}/${r.year}`;
+        push({ id: `loan-int-${l.id}-${r.year}-${pad2(r.month)}`, date: r.date, description: `Zinsen ${lender} ${period}`,
+               debit: "7310", credit: "1800", amount: r.interest, sourceType: "loan-interest", propertyId });
+        push({ id: `loan-tilg-${l.id}-${r.year}-${pad2(r.month)}`, date: r.date, description: `Tilgung ${lender} ${period}`,
+               debit: "3150", credit: "1800", amount: r.principal, sourceType: "loan-principal", propertyId });
+      }
+      continue;
+    }
     const y = Number(l.year);
-    push({ id: `int-${l.id}`, date: `${y}-12-31`, description: `Zinsen ${l["lender-name"] ?? "Darlehen"} ${y}`,
+    push({ id: `int-${l.id}`, date: `${y}-12-31`, description: `Zinsen ${lender} ${y}`,
            debit: "7310", credit: "1800", amount: num(l["annual-interest"]),
-           sourceType: "loan-interest", propertyId: l["property-id"] ? String(l["property-id"]) : undefined });
+           sourceType: "loan-interest", propertyId });
   }
 
   // ── NK-Nachzahlungen (Zahlungseingang aus Abrechnung) ─────────────────────
@@ -205,6 +470,41 @@ export function deriveJournal(data: AccountingData, maxYear: number): JournalLin
            debit: "1800", credit: "4126", amount: num(s.amount), sourceType: "nk-settlement" });
   }
 
+  // ── Mietkautionen: Verbindlichkeit gegenüber dem Mieter (Kautionskonto) ───
+  //    Zinsen bis heute nur für abgelaufene Jahre, bei Abrechnung bis zum
+  //    Abrechnungstag; danach Einbehalte und Auszahlung des Restguthabens.
+  const tenantById = new Map((data.tenants ?? []).map(tn => [String(tn.id), tn]));
+  for (const raw of data.deposits ?? []) {
+    const d = toDeposit(raw);
+    const tn = tenantById.get(d.tenantId);
+    const apt = aptById.get(String(d.apartmentId ?? tn?.["apartment-id"] ?? ""));
+    const name = [tn?.["first-name"], tn?.["last-name"]].filter(Boolean).join(" ");
+    const who = `${apt?.code ? ` Whg. ${apt.code}` : ""}${name ? ` — ${name}` : ""}`;
+    const ref = { propertyId: apt ? String(apt["property-id"]) : undefined, apartmentId: apt ? String(apt.id) : undefined };
+    const settled = d.status === "settled" && d.settledOn ? d.settledOn : null;
+    d.payments.forEach((p, i) => {
+      if (settled && p.date > settled) return;
+      push({ id: `dep-${d.id}-${i}`, date: p.date, description: `Mietkaution${d.payments.length > 1 ? ` Rate ${i + 1}` : ""}${who}`,
+             debit: "1810", credit: "3500", amount: p.amount, sourceType: "deposit", ...ref });
+    });
+    const until = settled ?? data.asOf ?? new Date().toISOString().slice(0, 10);
+    for (const c of depositInterest(d, until)) {
+      if (c.partial && !settled) continue;
+      push({ id: `dep-int-${d.id}-${c.date.slice(0, 4)}`, date: c.date, description: `Zinsen Mietkaution ${c.date.slice(0, 4)}${who}`,
+             debit: "1810", credit: "3500", amount: c.amount, sourceType: "deposit-interest", ...ref });
+    }
+    if (!settled) continue;
+    const result = depositSettlement(d, settled);
+    cappedDeductions(d.deductions, result.balance).forEach((x, i) => {
+      push({ id: `dep-ded-${d.id}-${i}`, date: settled, description: `Einbehalt Kaution: ${x.description || x.kind}${who}`,
+             debit: "3500", credit: DEDUCTION_ACCOUNTS[x.kind], amount: x.amount, sourceType: "deposit-settlement", ...ref });
+      push({ id: `dep-tr-${d.id}-${i}`, date: settled, description: `Umbuchung Einbehalt Kautionskonto${who}`,
+             debit: "1800", credit: "1810", amount: x.amount, sourceType: "deposit-settlement", ...ref });
+    });
+    push({ id: `dep-out-${d.id}`, date: settled, description: `Auszahlung Mietkaution${who}`,
+           debit: "3500", credit: "1810", amount: result.payout, sourceType: "deposit-settlement", ...ref });
+  }
+
   // ── Sonstige Einnahmen / sonstige Werbungskosten ──────────────────────────
   for (const i of data.taxIncomes) {
     const date = i.date || `${Number(i.year)}-12-31`;
@@ -219,37 +519,229 @@ export function deriveJournal(data: AccountingData, maxYear: number): JournalLin
            sourceType: "tax-expense", propertyId: e["property-id"] ? String(e["property-id"]) : undefined });
   }
 
+  // ── Abgeschlossene Jahre einfrieren, Änderungen als Korrektur buchen ──────
+  applyYearCloses(lines, data.yearCloses ?? [], cutoff);
+
   // ── Sortieren + Belegnummern für abgeleitete Buchungen ────────────────────
   lines.sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : a.id < b.id ? -1 : 1));
-  lines.forEach((l, i) => { l.number = `A-${String(i + 1).padStart(4, "0")}`; });
+  assignDocumentNumbers(lines, data.documentNumbers ?? []);
 
   // ── Manuelle Buchungen aus der Datenbank ──────────────────────────────────
   for (const j of data.journalEntries) {
     const date = j.date ?? "";
     if (!date || date > cutoff) continue;
-    lines.push({
-      id: `man-${j.id}`,
+    const base = {
       entityId: String(j.id),
       number: `M-${j.number}`,
       date,
       year: Number(j.year ?? parseInt(date.slice(0, 4), 10)),
       description: j.description ?? "",
-      debit: String(j["debit-account"]),
-      credit: String(j["credit-account"]),
-      amount: num(j.amount),
-      source: "manual",
+      source: "manual" as const,
       propertyId: j["property-id"] ? String(j["property-id"]) : undefined,
       stornoed: !!j.stornoed,
       isStorno: j["storno-of"] != null,
+    };
+    if (Array.isArray(j.lines) && j.lines.length > 0) {
+      const postings: SplitPosting[] = j.lines.map((p: any) => ({
+        account: String(p.account), side: p.side === "H" ? "H" : "S", amount: num(p.amount),
+      }));
+      decomposeSplit(postings).forEach((p, i) => {
+        lines.push({ ...base, id: `man-${j.id}-${i}`, ...p, split: true });
+      });
+      continue;
+    }
+    lines.push({
+      ...base,
+      id: `man-${j.id}`,
+      debit: String(j["debit-account"]),
+      credit: String(j["credit-account"]),
+      amount: num(j.amount),
     });
   }
 
-  lines.sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : a.number < b.number ? -1 : 1));
+  // Stabil sortieren, damit die Teile einer Splitbuchung zusammenbleiben.
+  lines.sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : a.number < b.number ? -1 : a.number > b.number ? 1 : 0));
   return lines;
 }
 
+function frozen(f: any, year: number): JournalLine {
+  return {
+    id: String(f.id), number: "", date: String(f.date), year, description: f.description ?? "",
+    debit: String(f.debit), credit: String(f.credit), amount: num(f.amount), source: "auto",
+    sourceType: f.sourceType, propertyId: f.propertyId ? String(f.propertyId) : undefined,
+    apartmentId: f.apartmentId ? String(f.apartmentId) : undefined,
+    garageId: f.garageId ? String(f.garageId) : undefined,
+  };
+}
+
+/** Abschluss- und Eröffnungsbuchungen stammen aus den "closing-lines" eines
+ *  Abschlusses und gehören nicht zum Snapshot der abgeleiteten Buchungen. */
+function isCloseEntry(l: JournalLine): boolean {
+  return l.sourceType === "closing" || l.sourceType === "carryforward";
+}
+
+/** Snapshot eines Jahres für den Abschluss: die abgeleiteten Buchungen inkl.
+ *  der Korrekturen aus früheren Abschlüssen, ohne Abschluss-/Eröffnungsbuchungen. */
+export function frozenLines(lines: JournalLine[], year: number): FrozenLine[] {
+  return lines
+    .filter(l => l.year === year && l.source === "auto" && !isCloseEntry(l))
+    .map(l => ({
+      id: l.id, date: l.date, description: l.description, debit: l.debit, credit: l.credit,
+      amount: l.amount, sourceType: l.sourceType, propertyId: l.propertyId,
+      apartmentId: l.apartmentId, garageId: l.garageId,
+    }));
+}
+
+/** Ersetzt die abgeleiteten Buchungen abgeschlossener Jahre durch den Snapshot.
+ *  Abweichungen (neue, geänderte, entfallene Buchungen) werden zum 01.01. des
+ *  Folgejahres storniert bzw. neu gebucht; liegt dieses ebenfalls im
+ *  abgeschlossenen Bereich, wandert die Korrektur weiter ins nächste Jahr.
+ *  Abschluss- und Eröffnungsbuchungen früherer Abschlüsse bleiben unverändert
+ *  stehen (sie sind wie in frozenLines nicht Teil des Snapshots). */
+function applyYearCloses(lines: JournalLine[], closes: any[], cutoff: string): void {
+  if (closes.length === 0) return;
+  const sorted = closes.slice().sort((a, b) => Number(a.year) - Number(b.year));
+  const same = (a: JournalLine, b: JournalLine) =>
+    a.debit === b.debit && a.credit === b.credit && Math.round(a.amount * 100) === Math.round(b.amount * 100);
+  for (const c of sorted) {
+    const year = Number(c.year);
+    const fresh = new Map<string, JournalLine>();
+    for (let i = lines.length - 1; i >= 0; i--) {
+      if (lines[i].year === year && !isCloseEntry(lines[i])) { fresh.set(lines[i].id, lines[i]); lines.splice(i, 1); }
+    }
+    const corrDate = `${year + 1}-01-01`;
+    const correction = (l: JournalLine, reverse: boolean): JournalLine => ({
+      ...l,
+      id: `corr-${l.id}${reverse ? "-s" : ""}`,
+      date: corrDate,
+      year: year + 1,
+      description: `Korrektur ${year}: ${reverse ? "Storno " : ""}${l.description}`,
+      debit: reverse ? l.credit : l.debit,
+      credit: reverse ? l.debit : l.credit,
+      sourceType: "correction",
+    });
+    const snapshot = new Map<string, JournalLine>();
+    for (const f of c.lines ?? []) {
+      const l = frozen(f, year);
+      snapshot.set(l.id, l);
+      if (l.date <= cutoff) lines.push(l);
+    }
+    for (const f of c["closing-lines"] ?? []) {
+      const l = frozen(f, parseInt(String(f.date).slice(0, 4), 10));
+      if (l.date <= cutoff) lines.push(l);
+    }
+    if (corrDate > cutoff) continue;
+    for (const [id, old] of snapshot) {
+      const now = fresh.get(id);
+      if (now && same(old, now)) continue;
+      lines.push(correction(old, true));
+      if (now) lines.push(correction(now, false));
+    }
+    for (const [id, now] of fresh) {
+      if (!snapshot.has(id)) lines.push(correction(now, false));
+    }
+  }
+}
+
+/** Abschlussbuchungen eines Geschäftsjahres: Erfolgskonten über 2970 ins
+ *  Eigenkapital, Bestandskonten über 9000 in die Schlussbilanz und deren
+ *  Wiedereröffnung zum 01.01. des Folgejahres. */
+export function closingEntries(lines: JournalLine[], year: number): FrozenLine[] {
+  const bal = new Map<string, number>(); // Soll positiv
+  for (const l of lines) {
+    if (l.year > year) continue;
+    bal.set(l.debit, (bal.get(l.debit) ?? 0) + l.amount);
+    bal.set(l.credit, (bal.get(l.credit) ?? 0) - l.amount);
+  }
+  const out: FrozenLine[] = [];
+  const add = (id: string, date: string, description: string, acc: string, counter: string, v: number, sourceType: string) => {
+    const cents = Math.round(v * 100);
+    if (cents === 0) return;
+    out.push({ id, date, description,
+               debit: cents > 0 ? counter : acc, credit: cents > 0 ? acc : counter,
+               amount: Math.abs(cents) / 100, sourceType });
+  };
+  const end = `${year}-12-31`;
+  const next = `${year + 1}-01-01`;
+  for (const [acc, v] of [...bal.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    const t = account(acc).type;
+    if (t !== "revenue" && t !== "expense") continue;
+    add(`close-${year}-${acc}`, end, `Abschluss ${year} ${account(acc).name}`, acc, "2970", v, "closing");
+    bal.set("2970", (bal.get("2970") ?? 0) + v);
+    bal.set(acc, 0);
+  }
+  for (const [acc, v] of [...bal.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    const t = account(acc).type;
+    if (acc === "9000" || (t !== "asset" && t !== "liability" && t !== "equity")) continue;
+    add(`sbk-${year}-${acc}`, end, `Schlussbilanz ${year} ${account(acc).name}`, acc, "9000", v, "closing");
+    add(`ebk-${year + 1}-${acc}`, next, `Saldovortrag ${account(acc).name}`, "9000", acc, v, "carryforward");
+  }
+  return out;
+}
+
+/** Kontonummern, die weder im Kontenrahmen noch unter den eigenen Konten existieren
+ *  (z. B. Altbuchungen nach Löschen eines Kontos). Die SuSa zeigt sie mit ihren Salden;
+ *  in GuV und Bilanz fließen sie nicht ein, da sie keiner Kontenart angehören. */
+export function unknownAccounts(lines: JournalLine[]): string[] {
+  const out = new Set<string>();
+  for (const l of lines) {
+    if (!isKnownAccount(l.debit)) out.add(l.debit);
+    if (!isKnownAccount(l.credit)) out.add(l.credit);
+  }
+  return [...out].sort();
+}
+
+/** Kostenzeilen einer Kostenart/Kategorie, die mangels Zuordnung auf 6300 landen
+ *  (ausdrücklich auf 6300 zugeordnete Kostenarten zählen nicht). */
+export type FallbackExpense = {
+  kind: MappingKind;
+  key: string;        // normalisierter Schlüssel ("" = ohne Kostenart/Kategorie)
+  label: string;
+  count: number;
+  amount: number;
+};
+
+/** Bericht: Kosten und sonstige Werbungskosten eines Jahres auf dem Sammelkonto 6300. */
+export function fallbackExpenses(data: AccountingData, year: number): FallbackExpense[] {
+  configureAccounts(data);
+  const out = new Map<string, FallbackExpense>();
+  const add = (kind: MappingKind, rawKey: string | undefined, label: string, amount: number) => {
+    const key = mappingKey(rawKey);
+    const id = `${kind}:${key}`;
+    const f = out.get(id) ?? { kind, key, label, count: 0, amount: 0 };
+    f.count++;
+    f.amount += amount;
+    out.set(id, f);
+  };
+  for (const c of data.allCosts) {
+    if (Number(c.year) !== year || mappedAccount("expense-type", c.line)) continue;
+    if (expenseAccountFor(c.line, c.name) !== FALLBACK_EXPENSE_ACCOUNT) continue;
+    add("expense-type", c.line, c.line || c.name || "", num(c.value));
+  }
+  for (const e of data.taxExpenses) {
+    const y = e.date ? parseInt(String(e.date).slice(0, 4), 10) : Number(e.year);
+    if (y !== year || mappedAccount("tax-category", e.category)) continue;
+    if (taxExpenseAccountFor(e.category) !== FALLBACK_EXPENSE_ACCOUNT) continue;
+    add("tax-category", e.category, e.category || e.description || "", num(e.amount));
+  }
+  return [...out.values()].sort((a, b) => b.amount - a.amount);
+}
+
 // ── Auswertungen ──────────────────────────────────────────────────────────────
 
+/** Auswertungszeitraum (Belegdatum von/bis einschließlich, YYYY-MM-DD). */
+export type DateRange = { from: string; to: string };
+
+/** Ein Geschäftsjahr oder ein beliebiger Zeitraum (Monat, Quartal, bis heute). */
+export function periodRange(period: number | DateRange): DateRange {
+  return typeof period === "number" ? { from: `${period}-01-01`, to: `${period}-12-31` } : period;
+}
+
+/** Vortrag in den Zeitraum: alles davor sowie die Eröffnungsbuchungen zu dessen Beginn. */
+function isBeforePeriod(l: JournalLine, r: DateRange): boolean {
+  return l.date < r.from || (l.date === r.from && l.sourceType === "carryforward");
+}
+
 export type TrialBalanceRow = {
   account: string;
   opening: number;      // Saldo Vorjahre (Soll positiv)
@@ -258,8 +750,20 @@ export type TrialBalanceRow = {
   closing: number;      // Endsaldo (Soll positiv)
 };
 
-/** Summen- und Saldenliste für ein Geschäftsjahr. */
-export function trialBalance(lines: JournalLine[], year: number): TrialBalanceRow[] {
+/** Abschlussbuchungen des Jahres selbst bleiben in dessen Auswertungen außen vor
+ *  (SuSa, GuV und Bilanz zeigen den Stand vor Abschluss). */
+function isOwnClosing(l: JournalLine, year: number): boolean {
+  return l.sourceType === "closing" && l.year === year;
+}
+
+function isClosingIn(l: JournalLine, r: DateRange): boolean {
+  return l.sourceType === "closing" && l.date >= r.from && l.date <= r.to;
+}
+
+/** Summen- und Saldenliste für ein Geschäftsjahr oder einen Zeitraum
+ *  (Eröffnungsbuchungen und Bewegungen davor als EB-Wert). */
+export function trialBalance(lines: JournalLine[], period: number | DateRange): TrialBalanceRow[] {
+  const range = periodRange(period);
   const rows = new Map<string, TrialBalanceRow>();
   const row = (acc: string) => {
     let r = rows.get(acc);
@@ -267,10 +771,11 @@ export function trialBalance(lines: JournalLine[], year: number): TrialBalanceRo
     return r;
   };
   for (const l of lines) {
-    if (l.year < year) {
+    if (isClosingIn(l, range)) continue;
+    if (isBeforePeriod(l, range)) {
       row(l.debit).opening += l.amount;
       row(l.credit).opening -= l.amount;
-    } else if (l.year === year) {
+    } else if (l.date <= range.to) {
       row(l.debit).debit += l.amount;
       row(l.credit).credit += l.amount;
     }
@@ -278,17 +783,18 @@ export function trialBalance(lines: JournalLine[], year: number): TrialBalanceRo
   for (const r of rows.values()) r.closing = r.opening + r.debit - r.credit;
   return [...rows.values()]
     .filter(r => Math.abs(r.opening) > 0.005 || r.debit > 0.005 || r.credit > 0.005)
-    .sort((a, b) => a.account.localeCompare(b.account));
+    .sort((a, b) => displayNumber(a.account).localeCompare(displayNumber(b.account)));
 }
 
 export type GuvSection = { account: string; amount: number }[];
 
-/** Gewinn- und Verlustrechnung eines Jahres. */
-export function guv(lines: JournalLine[], year: number): { revenues: GuvSection; expenses: GuvSection; result: number } {
+/** Gewinn- und Verlustrechnung eines Jahres oder Zeitraums. */
+export function guv(lines: JournalLine[], period: number | DateRange): { revenues: GuvSection; expenses: GuvSection; result: number } {
+  const range = periodRange(period);
   const rev = new Map<string, number>();
   const exp = new Map<string, number>();
   for (const l of lines) {
-    if (l.year !== year) continue;
+    if (l.date < range.from || l.date > range.to || l.sourceType === "closing") continue;
     for (const [acc, sign] of [[l.debit, 1], [l.credit, -1]] as [string, number][]) {
       const t = account(acc).type;
       if (t === "revenue") rev.set(acc, (rev.get(acc) ?? 0) - sign * l.amount);
@@ -298,7 +804,7 @@ export function guv(lines: JournalLine[], year: number): { revenues: GuvSection;
   const toSection = (m: Map<string, number>): GuvSection =>
     [...m.entries()].filter(([, v]) => Math.abs(v) > 0.005)
       .map(([acc, amount]) => ({ account: acc, amount }))
-      .sort((a, b) => a.account.localeCompare(b.account));
+      .sort((a, b) => displayNumber(a.account).localeCompare(displayNumber(b.account)));
   const revenues = toSection(rev);
   const expenses = toSection(exp);
   const result = revenues.reduce((s, r) => s + r.amount, 0) - expenses.reduce((s, e) => s + e.amount, 0);
@@ -316,7 +822,7 @@ export function bilanz(lines: JournalLine[], year: number): {
   let cumResult = 0;   // kumulierter Erfolg bis Jahresende
   let priorResult = 0; // Erfolg der Vorjahre (Gewinn-/Verlustvortrag)
   for (const l of lines) {
-    if (l.year > year) continue;
+    if (l.year > year || isOwnClosing(l, year)) continue;
     for (const [acc, sign] of [[l.debit, 1], [l.credit, -1]] as [string, number][]) {
       const t = account(acc).type;
       if (t === "asset" || t === "liability" || t === "equity") {
@@ -336,7 +842,7 @@ export function bilanz(lines: JournalLine[], year: number): {
 
   const aktiva: BilanzSide = [];
   const passiva: BilanzSide = [];
-  for (const acc of ACCOUNTS) {
+  for (const acc of allAccounts()) {
     const v = bal.get(acc.number) ?? 0;
     if (Math.abs(v) < 0.005) continue;
     if (acc.type === "asset") {
@@ -355,10 +861,14 @@ export function bilanz(lines: JournalLine[], year: number): {
   return { aktiva, passiva, totalAktiva, totalPassiva, jahresueberschuss, gewinnvortrag: priorResult };
 }
 
-export type LedgerRow = { line: JournalLine; side: "S" | "H"; counter: string; balance: number };
+export type LedgerRow = { line: JournalLine; side: "S" | "H"; counter: string; amount: number; balance: number };
 
-/** Kontenblatt (Hauptbuch) eines Kontos mit laufendem Saldo, EB aus Vorjahren. */
-export function ledger(lines: JournalLine[], acc: string, year: number): { opening: number; rows: LedgerRow[]; closing: number } {
+/** Kontenblatt (Hauptbuch) eines Kontos mit laufendem Saldo, EB aus Vorjahren
+ *  bzw. aus der Zeit vor dem Zeitraum.
+ *  Teile einer Splitbuchung auf derselben Kontoseite erscheinen als eine Zeile;
+ *  mehrere Gegenkonten werden kommagetrennt aufgeführt. */
+export function ledger(lines: JournalLine[], acc: string, period: number | DateRange): { opening: number; rows: LedgerRow[]; closing: number } {
+  const range = periodRange(period);
   let opening = 0;
   const rows: LedgerRow[] = [];
   const sign = isDebitNormal(acc) ? 1 : -1;
@@ -366,14 +876,23 @@ export function ledger(lines: JournalLine[], acc: string, year: number): { openi
     const touchesDebit = l.debit === acc;
     const touchesCredit = l.credit === acc;
     if (!touchesDebit && !touchesCredit) continue;
+    if (isClosingIn(l, range)) continue;
     const delta = (touchesDebit ? l.amount : 0) - (touchesCredit ? l.amount : 0);
-    if (l.year < year) { opening += sign * delta; continue; }
-    if (l.year > year) continue;
-    rows.push({ line: l, side: touchesDebit ? "S" : "H", counter: touchesDebit ? l.credit : l.debit, balance: 0 });
+    if (isBeforePeriod(l, range)) { opening += sign * delta; continue; }
+    if (l.date > range.to) continue;
+    const side = touchesDebit ? "S" : "H";
+    const counter = touchesDebit ? l.credit : l.debit;
+    const prev = rows[rows.length - 1];
+    if (l.split && prev && prev.line.split && prev.line.number === l.number && prev.side === side) {
+      prev.amount += l.amount;
+      if (!prev.counter.split(", ").includes(counter)) prev.counter += `, ${counter}`;
+      continue;
+    }
+    rows.push({ line: l, side, counter, amount: l.amount, balance: 0 });
   }
   let running = opening;
   for (const r of rows) {
-    running += sign * ((r.side === "S" ? r.line.amount : 0) - (r.side === "H" ? r.line.amount : 0));
+    running += sign * ((r.side === "S" ? r.amount : 0) - (r.side === "H" ? r.amount : 0));
     r.balance = running;
   }
   return { opening, rows, closing: running };
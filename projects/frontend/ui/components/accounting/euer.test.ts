@@ -0,0 +1,70 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { configureAccounts } from "./chartOfAccounts.js";
+import { euer, euerLineFor } from "./euer.js";
+import type { JournalLine } from "./engine.js";
+
+// Sample fixtures — use the real JS data shape (plain keys, not CLJS namespaced keys)
+let seq = 0;
+function line(debit: string, credit: string, amount: number, extra: Partial<JournalLine> = {}): JournalLine {
+  seq++;
+  return {
+    id: `l-${seq}`, number: `A-2024-${seq}`, date: "2024-06-30", year: 2024, description: "",
+    debit, credit, amount, source: "auto", propertyId: "10", ...extra,
+  };
+}
+
+const byKey = (rows: { key: string; amount: number }[]) => Object.fromEntries(rows.map(r => [r.key, r.amount]));
+
+describe("euerLineFor", () => {
+  test("maps standard accounts and falls back by account type", () => {
+    configureAccounts({ customAccounts: [{ number: "4999", name: "Sonstige Erlöse", type: "revenue" }] });
+    assert.equal(euerLineFor("4120"), "ust-frei");
+    assert.equal(euerLineFor("7680"), "grundstueck");
+    assert.equal(euerLineFor("4999"), "ust-frei");
+    assert.equal(euerLineFor("3150"), null);
+  });
+});
+
+describe("euer", () => {
+  test("counts payments, depreciation and deposit deductions in the year", () => {
+    configureAccounts({});
+    const r = euer([
+      line("1800", "4120", 9600),
+      line("4120", "1800", 100, { description: "Rückzahlung" }),
+      line("7680", "1800", 400),
+      line("7310", "1800", 1200),
+      line("6220", "0240", 3000, { sourceType: "depreciation" }),
+      line("3500", "4130", 150),
+      line("1800", "3150", 50000),
+      line("1800", "4120", 800, { year: 2023, date: "2023-12-31" }),
+      line("4120", "9000", 9500, { sourceType: "closing" }),
+    ], 2024);
+    assert.deepEqual(byKey(r.income), { "ust-frei": 9650 });
+    assert.deepEqual(byKey(r.expenses), { "afa-gebaeude": 3000, grundstueck: 400, schuldzinsen: 1200 });
+    assert.equal(r.result, 9650 - 4600);
+  });
+
+  test("leaves unpaid expenses out and reports payments on liabilities", () => {
+    configureAccounts({});
+    const r = euer([
+      line("6450", "3300", 500),
+      line("3300", "1800", 500),
+    ], 2024);
+    assert.deepEqual(r.expenses, []);
+    assert.equal(r.nonCashExpenses, 500);
+    assert.equal(r.liabilityPayments, 500);
+  });
+
+  test("filters by property", () => {
+    configureAccounts({});
+    const r = euer([line("1800", "4120", 700), line("1800", "4120", 300, { propertyId: "20" })], 2024, "20");
+    assert.equal(r.totalIncome, 300);
+  });
+
+  test("ignores transfers between bank accounts", () => {
+    configureAccounts({ bankAccounts: [{ id: "b1", "ledger-account": "1801" }] });
+    const r = euer([line("1801", "1800", 1000)], 2024);
+    assert.deepEqual([r.income, r.expenses], [[], []]);
+  });
+});
@@ -0,0 +1,172 @@
+// Einnahmen-Überschuss-Rechnung (§ 4 Abs. 3 EStG) und Zuordnung zur Anlage EÜR.
+//
+// Grundlage ist das abgeleitete Journal. Es gilt das Zufluss-/Abflussprinzip
+// (§ 11 EStG): Einnahmen und Ausgaben zählen im Jahr der Zahlung, d. h. jede
+// Buchung zwischen einem Bankkonto (1800 und Unterkonten) und einem Erfolgskonto
+// wird der Zeile des Erfolgskontos zugeordnet. Zahlungen auf Forderungen aus
+// Vermietung (1200, Soll-Modus) sind Mieteinnahmen im Zahlungszeitpunkt.
+// Nicht zahlungswirksam, aber zu erfassen sind:
+//  - die AfA aus dem Journal (6220 an 0240) und die Abschreibungen beweglicher
+//    Wirtschaftsgüter (Anlagenverzeichnis, siehe fixedAssets.ts); deren
+//    Anschaffung (Anlagekonto an Bank) ist keine Betriebsausgabe,
+//  - Einbehalte aus Mietkautionen (3500 an Ertragskonto): Zufluss durch
+//    Verrechnung mit dem Rückzahlungsanspruch des Mieters.
+// Umsatzsteuer (Option nach § 9 UStG, siehe vat.ts): Nettoerlöse sind
+// umsatzsteuerpflichtige Einnahmen, vereinnahmte Umsatzsteuer und gezahlte
+// Vorsteuer sind Betriebseinnahmen bzw. -ausgaben, ebenso Zahlungen an und
+// Erstattungen vom Finanzamt (3820). Im Soll-Modus werden Zahlungen auf
+// Forderungen optierter Einheiten entsprechend in Entgelt und Steuer geteilt.
+// Darlehen, Kautionen, Privatvorgänge und Umbuchungen zwischen Bankkonten sind
+// keine Betriebseinnahmen/-ausgaben. Übrige nicht zahlungswirksame Aufwendungen
+// (z. B. manuell gebuchte Verbindlichkeiten) werden erst bei Zahlung erfasst;
+// Zahlungen auf Verbindlichkeiten (3300) lassen sich keinem Aufwandskonto
+// zuordnen und werden als Hinweis ausgewiesen.
+//
+// Zeilennummern nach dem Vordruck Anlage EÜR 2023; in anderen Jahren können
+// die Nummern abweichen, die Bezeichnungen bleiben gleich.
+
+import { account, isBankAccount } from "./chartOfAccounts";
+import type { JournalLine } from "./engine";
+import { INPUT_VAT_ACCOUNTS, OUTPUT_VAT_ACCOUNTS, VAT_ACCOUNTS, VAT_PREPAYMENT_ACCOUNT, splitGross, unitVatRate } from "./vat";
+
+export type EuerSection = "income" | "expense";
+
+export type EuerLineDef = { key: string; zeile: string; label: string; section: EuerSection };
+
+export const EUER_LINES: EuerLineDef[] = [
+  { key: "ust-frei",    zeile: "14", section: "income",  label: "Umsatzsteuerfreie Betriebseinnahmen (§ 4 Nr. 12 UStG)" },
+  { key: "ust-pflichtig", zeile: "15", section: "income", label: "Umsatzsteuerpflichtige Betriebseinnahmen (netto)" },
+  { key: "ust-vereinnahmt", zeile: "17", section: "income", label: "Vereinnahmte Umsatzsteuer" },
+  { key: "ust-erstattet", zeile: "18", section: "income", label: "Vom Finanzamt erstattete Umsatzsteuer" },
+  { key: "afa-gebaeude", zeile: "29", section: "expense", label: "AfA auf unbewegliche Wirtschaftsgüter" },
+  { key: "afa-beweglich", zeile: "30", section: "expense", label: "AfA auf bewegliche Wirtschaftsgüter" },
+  { key: "gwg",         zeile: "33", section: "expense", label: "Aufwendungen für geringwertige Wirtschaftsgüter" },
+  { key: "sammelposten", zeile: "34", section: "expense", label: "Auflösung Sammelposten" },
+  { key: "grundstueck", zeile: "39", section: "expense", label: "Sonstige Aufwendungen für betrieblich genutzte Grundstücke" },
+  { key: "beratung",    zeile: "43", section: "expense", label: "Rechts- und Steuerberatung, Buchführung" },
+  { key: "abgaben",     zeile: "45", section: "expense", label: "Beiträge, Gebühren, Abgaben und Versicherungen" },
+  { key: "schuldzinsen", zeile: "49", section: "expense", label: "Schuldzinsen für die Anschaffung von Anlagevermögen" },
+  { key: "vorsteuer",   zeile: "57", section: "expense", label: "Gezahlte Vorsteuerbeträge" },
+  { key: "ust-gezahlt", zeile: "58", section: "expense", label: "An das Finanzamt gezahlte Umsatzsteuer" },
+  { key: "uebrige",     zeile: "60", section: "expense", label: "Übrige unbeschränkt abziehbare Betriebsausgaben" },
+];
+
+/** Zeile der Anlage EÜR je Standardkonto; eigene Konten nach Kontotyp. */
+const ACCOUNT_LINES: Record<string, string> = {
+  "1200": "ust-frei",
+  "1401": "vorsteuer", "1406": "vorsteuer", "3801": "ust-vereinnahmt", "3806": "ust-vereinnahmt",
+  "4300": "ust-pflichtig", "4400": "ust-pflichtig",
+  "4120": "ust-frei", "4125": "ust-frei", "4126": "ust-frei", "4130": "ust-frei", "4190": "ust-frei",
+  "6220": "afa-gebaeude", "6222": "afa-beweglich", "6260": "gwg", "6264": "sammelposten",
+  "6325": "grundstueck", "6335": "grundstueck", "6450": "grundstueck", "7680": "grundstueck",
+  "6825": "beratung",
+  "6400": "abgaben",
+  "7310": "schuldzinsen",
+  "6300": "uebrige", "6495": "uebrige", "6855": "uebrige",
+};
+
+export type EuerLine = EuerLineDef & {
+  amount: number;
+  /** Beteiligte Konten mit ihrem Anteil (für Drill-down und Nachweis). */
+  accounts: { account: string; amount: number }[];
+};
+
+export type Euer = {
+  year: number;
+  income: EuerLine[];
+  totalIncome: number;
+  expenses: EuerLine[];
+  totalExpenses: number;
+  result: number;
+  /** Aufwand ohne Zahlung im Jahr (außer AfA) — in der EÜR erst bei Zahlung. */
+  nonCashExpenses: number;
+  /** Zahlungen auf Verbindlichkeiten (3300) ohne Aufwandszuordnung. */
+  liabilityPayments: number;
+};
+
+/** Zeile der Anlage EÜR für ein Konto (null = nicht EÜR-wirksam). */
+export function euerLineFor(acc: string): string | null {
+  if (ACCOUNT_LINES[acc]) return ACCOUNT_LINES[acc];
+  const t = account(acc).type;
+  if (t === "revenue") return "ust-frei";
+  if (t === "expense") return "uebrige";
+  return null;
+}
+
+/** Abschreibungskonten: nicht zahlungswirksam, aber Betriebsausgabe des Jahres. */
+const DEPRECIATION_ACCOUNTS = ["6220", "6222", "6260", "6264"];
+
+function isResultAccount(acc: string): boolean {
+  const t = account(acc).type;
+  return t === "revenue" || t === "expense";
+}
+
+/** EÜR eines Kalenderjahres, optional nur für eine Immobilie. Die Einheiten
+ *  liefern die Steuersätze optierter Wohnungen (Soll-Modus, siehe oben). */
+export function euer(lines: JournalLine[], year: number, propertyId?: string, apartments: any[] = []): Euer {
+  const vatRates = new Map(apartments.map(a => [String(a.id), unitVatRate(a)]));
+  const sums = new Map<string, Map<string, number>>();   // Zeile → Konto → Betrag
+  let nonCashExpenses = 0;
+  let liabilityPayments = 0;
+
+  // Betriebseinnahmen positiv, Betriebsausgaben positiv; Erstattungen mindern.
+  const add = (acc: string, amount: number, key = euerLineFor(acc)) => {
+    if (!key) return;
+    const byAccount = sums.get(key) ?? new Map<string, number>();
+    byAccount.set(acc, (byAccount.get(acc) ?? 0) + amount);
+    sums.set(key, byAccount);
+  };
+  const sign = (acc: string) => (account(acc).type === "expense" ? 1 : -1);
+
+  for (const l of lines) {
+    if (l.year !== year) continue;
+    if (l.sourceType === "closing" || l.sourceType === "carryforward" || l.sourceType === "opening") continue;
+    if (propertyId && l.propertyId !== propertyId) continue;
+    const bankDebit = isBankAccount(l.debit);
+    const bankCredit = isBankAccount(l.credit);
+    if (bankDebit && bankCredit) continue;
+
+    if (bankDebit || bankCredit) {
+      const counter = bankDebit ? l.credit : l.debit;
+      // Zufluss auf dem Bankkonto: Soll Bank; Abfluss: Haben Bank.
+      const inflow = bankDebit ? l.amount : -l.amount;
+      const rate = counter === "1200" && l.apartmentId ? vatRates.get(l.apartmentId) : null;
+      if (rate) {
+        const { net, vat } = splitGross(l.amount, rate);
+        const s = bankDebit ? 1 : -1;
+        add(VAT_ACCOUNTS[rate].revenue, s * net);
+        add(VAT_ACCOUNTS[rate].output, s * vat);
+      } else if (counter === "1200") add("1200", inflow);
+      else if (isResultAccount(counter)) add(counter, sign(counter) * -inflow);
+      else if (OUTPUT_VAT_ACCOUNTS.includes(counter)) add(counter, inflow);
+      else if (INPUT_VAT_ACCOUNTS.includes(counter)) add(counter, -inflow);
+      else if (counter === VAT_PREPAYMENT_ACCOUNT) add(counter, Math.abs(inflow), inflow > 0 ? "ust-erstattet" : "ust-gezahlt");
+      else if (counter === "3300" && !bankDebit) liabilityPayments += l.amount;
+      continue;
+    }
+
+    if (DEPRECIATION_ACCOUNTS.includes(l.debit)) { add(l.debit, l.amount); continue; }
+    if (l.debit === "3500" && account(l.credit).type === "revenue") { add(l.credit, l.amount); continue; }
+    if (account(l.debit).type === "expense" && !isResultAccount(l.credit)) nonCashExpenses += l.amount;
+  }
+
+  const build = (section: EuerSection): EuerLine[] => EUER_LINES
+    .filter(d => d.section === section)
+    .map(d => {
+      const accounts = [...(sums.get(d.key) ?? new Map()).entries()]
+        .map(([acc, amount]) => ({ account: acc, amount }))
+        .filter(a => Math.abs(a.amount) >= 0.005)
+        .sort((a, b) => a.account.localeCompare(b.account));
+      return { ...d, amount: accounts.reduce((s, a) => s + a.amount, 0), accounts };
+    })
+    .filter(l => l.accounts.length > 0);
+
+  const income = build("income");
+  const expenses = build("expense");
+  const totalIncome = income.reduce((s, l) => s + l.amount, 0);
+  const totalExpenses = expenses.reduce((s, l) => s + l.amount, 0);
+  return {
+    year, income, totalIncome, expenses, totalExpenses, result: totalIncome - totalExpenses,
+    nonCashExpenses, liabilityPayments,
+  };
+}
@@ -0,0 +1,192 @@
+// PDF generation for the Anlage EÜR (Einnahmen-Überschuss-Rechnung) summary
+// using pdf-lib loaded from CDN. Mirrors the Anlage V export: a line-mapped
+// overview to transcribe into ELSTER, not the official form itself.
+
+import { loadPdfLib } from "../../lib/pdfLib";
+
+export interface EuerPdfLine {
+  /** Official Anlage EÜR line number, e.g. "14", "29", "60". */
+  zeile: string;
+  label: string;
+  amount: number;
+  /** Contributing accounts, printed in gray below the line (e.g. "4120 Mieterträge"). */
+  accounts?: string[];
+}
+
+export interface EuerPdfData {
+  year: number;
+  ownerName?: string | null;
+  taxNumber?: string | null;
+  /** Scope of the statement: "Alle Immobilien" or a single property name. */
+  scope: string;
+  income: EuerPdfLine[];
+  totalIncome: number;
+  expenses: EuerPdfLine[];
+  totalExpenses: number;
+  result: number;
+  warnings?: string[];
+}
+
+function formatEur(v: number): string {
+  return v.toLocaleString("de-DE", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function germanDate(): string {
+  return new Intl.DateTimeFormat("de-DE", { day: "numeric", month: "long", year: "numeric" }).format(new Date());
+}
+
+export async function generateEuerPdf(data: EuerPdfData): Promise<Uint8Array> {
+  const PDFLib = await loadPdfLib();
+  const { PDFDocument, StandardFonts, rgb } = PDFLib;
+
+  const doc  = await PDFDocument.create();
+  const page = doc.addPage([595.28, 841.89]); // A4
+
+  const fontR = await doc.embedFont(StandardFonts.Helvetica);
+  const fontB = await doc.embedFont(StandardFonts.HelveticaBold);
+
+  const { width, height } = page.getSize();
+  const L = 57;
+  const R = width - 55;
+  const colAmt = R;
+  const colZeile = L;
+  const colLabel = L + 42;
+
+  const gray      = rgb(0.5, 0.5, 0.5);
+  const lightGray = rgb(0.78, 0.78, 0.78);
+  const black     = rgb(0, 0, 0);
+  const blue      = rgb(0.1, 0.25, 0.6);
+  const lightBlue = rgb(0.88, 0.92, 0.97);
+  const amber     = rgb(0.6, 0.4, 0.05);
+  const green     = rgb(0.1, 0.45, 0.2);
+
+  const drawRight = (text: string, x: number, y: number, font: any, size: number, color: any) => {
+    const w = font.widthOfTextAtSize(text, size);
+    page.drawText(text, { x: x - w, y, font, size, color });
+  };
+
+  // ── Header ────────────────────────────────────────────────────────────────
+  let y = height - 56;
+  page.drawText("Anlage EÜR", { x: L, y, font: fontB, size: 18, color: blue });
+  drawRight(germanDate(), R, y + 2, fontR, 9, black);
+  y -= 18;
+  page.drawText(`Einnahmen-Überschuss-Rechnung nach § 4 Abs. 3 EStG — ${data.year}`, { x: L, y, font: fontR, size: 10, color: gray });
+  y -= 10;
+  page.drawLine({ start: { x: L, y }, end: { x: R, y }, thickness: 0.6, color: lightGray });
+  y -= 22;
+
+  // ── Owner block ─────────────────────────────────────────────────────────────
+  const infoRow = (label: string, value: string) => {
+    page.drawText(label, { x: L, y, font: fontR, size: 8.5, color: gray });
+    page.drawText(value, { x: L + 120, y, font: fontB, size: 9, color: black });
+    y -= 14;
+  };
+  infoRow("Umfang", data.scope);
+  if (data.ownerName) infoRow("Steuerpflichtige/r", data.ownerName);
+  if (data.taxNumber) infoRow("Steuernummer", data.taxNumber);
+  infoRow("Zeitraum", `01.01.${data.year} – 31.12.${data.year}`);
+  y -= 6;
+
+  // ── Section renderer ────────────────────────────────────────────────────────
+  const sectionHeader = (title: string) => {
+    page.drawRectangle({ x: L, y: y - 4, width: R - L, height: 18, color: lightBlue });
+    page.drawText(title, { x: L + 4, y: y + 1, font: fontB, size: 9.5, color: blue });
+    drawRight("Betrag (€)", R - 4, y + 1, fontB, 8, blue);
+    y -= 24;
+  };
+
+  const lineRow = (line: EuerPdfLine) => {
+    page.drawText(`Z. ${line.zeile}`, { x: colZeile, y, font: fontR, size: 7.5, color: gray });
+    for (const [i, ln] of wrapText(line.label, fontR, 9, colAmt - colLabel - 90).entries()) {
+      page.drawText(ln, { x: colLabel, y, font: fontR, size: 9, color: black });
+      if (i === 0) drawRight(formatEur(line.amount), colAmt - 4, y, fontR, 9, black);
+      y -= 12;
+    }
+    for (const acc of line.accounts ?? []) {
+      page.drawText(acc, { x: colLabel + 8, y, font: fontR, size: 7.5, color: gray });
+      y -= 10;
+    }
+    y -= 4;
+  };
+
+  const totalRow = (label: string, amount: number, color = black) => {
+    page.drawLine({ start: { x: colLabel, y: y + 11 }, end: { x: R, y: y + 11 }, thickness: 0.4, color: lightGray });
+    page.drawText(label, { x: colLabel, y, font: fontB, size: 9.5, color });
+    drawRight(`€ ${formatEur(amount)}`, colAmt - 4, y, fontB, 9.5, color);
+    y -= 20;
+  };
+
+  // ── Income ──────────────────────────────────────────────────────────────────
+  sectionHeader("Betriebseinnahmen");
+  if (data.income.length === 0) {
+    page.drawText("Keine Betriebseinnahmen erfasst.", { x: colLabel, y, font: fontR, size: 9, color: gray });
+    y -= 15;
+  } else {
+    data.income.forEach(lineRow);
+  }
+  totalRow("Summe Betriebseinnahmen (Z. 23)", data.totalIncome, blue);
+
+  // ── Expenses ────────────────────────────────────────────────────────────────
+  sectionHeader("Betriebsausgaben");
+  if (data.expenses.length === 0) {
+    page.drawText("Keine Betriebsausgaben erfasst.", { x: colLabel, y, font: fontR, size: 9, color: gray });
+    y -= 15;
+  } else {
+    data.expenses.forEach(lineRow);
+  }
+  totalRow("Summe Betriebsausgaben (Z. 75)", data.totalExpenses, blue);
+
+  // ── Result ──────────────────────────────────────────────────────────────────
+  y -= 4;
+  const resultPositive = data.result >= 0;
+  page.drawRectangle({
+    x: L, y: y - 22, width: R - L, height: 30,
+    color: resultPositive ? rgb(0.99, 0.97, 0.9) : rgb(0.92, 0.97, 0.93),
+    borderColor: resultPositive ? amber : green, borderWidth: 0.8,
+  });
+  page.drawText(resultPositive ? "Gewinn (Z. 93)" : "Verlust (Z. 93)", {
+    x: L + 6, y: y - 12, font: fontB, size: 10.5, color: resultPositive ? amber : green,
+  });
+  drawRight(`€ ${formatEur(data.result)}`, R - 6, y - 12, fontB, 12, resultPositive ? amber : green);
+  y -= 34;
+
+  // ── Warnings ────────────────────────────────────────────────────────────────
+  if (data.warnings && data.warnings.length > 0) {
+    y -= 6;
+    page.drawText("Hinweise", { x: L, y, font: fontB, size: 9, color: amber });
+    y -= 14;
+    for (const wn of data.warnings) {
+      const wrapped = wrapText(wn, fontR, 8.5, R - L - 12);
+      for (const ln of wrapped) {
+        page.drawText(`• ${ln}`, { x: L + 2, y, font: fontR, size: 8.5, color: amber });
+        y -= 12;
+      }
+    }
+  }
+
+  // ── Footer ──────────────────────────────────────────────────────────────────
+  page.drawLine({ start: { x: L, y: 60 }, end: { x: R, y: 60 }, thickness: 0.4, color: lightGray });
+  page.drawText(
+    "Unverbindliche Aufstellung — ersetzt keine Steuerberatung. Zeilen nach Vordruck 2023, in anderen Jahren ggf. abweichend.",
+    { x: L, y: 48, font: fontR, size: 7, color: gray },
+  );
+
+  return await doc.save();
+}
+
+function wrapText(text: string, font: any, size: number, maxWidth: number): string[] {
+  const words = text.split(/\s+/);
+  const lines: string[] = [];
+  let current = "";
+  for (const word of words) {
+    const test = current ? `${current} ${word}` : word;
+    if (font.widthOfTextAtSize(test, size) > maxWidth && current) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = test;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
@@ -0,0 +1,67 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { assetMethodError, depreciationForYear, depreciationSchedule, toFixedAsset } from "./fixedAssets.js";
+import type { FixedAsset } from "./fixedAssets.js";
+
+// Sample fixtures — use the real JS data shape (plain keys, not CLJS namespaced keys)
+function asset(extra: Partial<FixedAsset> = {}): FixedAsset {
+  return {
+    id: "1", propertyId: "10", name: "Einbauküche", acquisitionDate: "2024-04-15",
+    cost: 6000, usefulLife: 10, method: "linear", ...extra,
+  };
+}
+
+describe("toFixedAsset", () => {
+  test("reads the stored entity", () => {
+    assert.deepEqual(toFixedAsset({
+      id: 1, "property-id": 10, "apartment-id": 5, name: "Küche", "acquisition-date": "2024-04-15",
+      cost: "6000,00", "useful-life": "10", method: "linear",
+    }), {
+      id: "1", propertyId: "10", apartmentId: "5", name: "Küche", acquisitionDate: "2024-04-15",
+      cost: 6000, usefulLife: 10, method: "linear",
+    });
+  });
+
+  test("returns null without method, date or cost", () => {
+    assert.equal(toFixedAsset({ id: 1, "acquisition-date": "2024-04-15", cost: 100, method: "other" }), null);
+    assert.equal(toFixedAsset({ id: 1, "acquisition-date": "15.04.2024", cost: 100, method: "gwg" }), null);
+    assert.equal(toFixedAsset({ id: 1, "acquisition-date": "2024-04-15", cost: 0, method: "gwg" }), null);
+  });
+});
+
+describe("assetMethodError", () => {
+  test("checks the GWG and pool limits and the useful life", () => {
+    assert.equal(assetMethodError(800, "gwg", 0), null);
+    assert.equal(assetMethodError(800.01, "gwg", 0), "gwg-limit");
+    assert.equal(assetMethodError(250, "pool", 0), "pool-range");
+    assert.equal(assetMethodError(1000, "pool", 0), null);
+    assert.equal(assetMethodError(6000, "linear", 0), "useful-life");
+  });
+});
+
+describe("depreciationSchedule", () => {
+  test("linear: pro rata by month in the first year, remainder in the last", () => {
+    const rows = depreciationSchedule(asset());
+    assert.equal(rows.length, 11);
+    assert.deepEqual(rows[0], { year: 2024, opening: 6000, amount: 450, closing: 5550 });
+    assert.deepEqual(rows[1], { year: 2025, opening: 5550, amount: 600, closing: 4950 });
+    assert.deepEqual(rows.at(-1), { year: 2034, opening: 150, amount: 150, closing: 0 });
+  });
+
+  test("GWG: written off in the year of acquisition", () => {
+    assert.deepEqual(depreciationSchedule(asset({ cost: 749, method: "gwg" })),
+                     [{ year: 2024, opening: 749, amount: 749, closing: 0 }]);
+  });
+
+  test("pool: five equal years without pro rata", () => {
+    const rows = depreciationSchedule(asset({ cost: 999.99, method: "pool", acquisitionDate: "2024-12-01" }));
+    assert.deepEqual(rows.map(r => r.amount), [200, 200, 200, 200, 199.99]);
+    assert.equal(rows.at(-1)?.closing, 0);
+  });
+
+  test("sums the depreciation of a year over all assets", () => {
+    const assets = [asset(), asset({ id: "2", cost: 500, method: "gwg" }), asset({ id: "3", acquisitionDate: "2025-01-10" })];
+    assert.equal(depreciationForYear(assets, 2024), 950);
+    assert.equal(depreciationForYear(assets, 2025), 1200);
+  });
+});
@@ -0,0 +1,126 @@
+// Anlagenverzeichnis für bewegliche Wirtschaftsgüter (Einbauküche, Heizung,
+// Möblierung usw.) und deren Abschreibung.
+//
+// Jedes Anlagegut gehört zu einer Immobilie, optional zu einer Wohnung
+// (Kostenstelle). Die Anschaffungskosten werden aktiviert (Anlagekonto an
+// Bank) und nach der gewählten Methode abgeschrieben:
+//  - linear (§ 7 Abs. 1 EStG): Anschaffungskosten / Nutzungsdauer je Jahr, im
+//    Anschaffungsjahr zeitanteilig nach Monaten (der Anschaffungsmonat zählt
+//    voll); der Restbuchwert fällt in das letzte Jahr.
+//  - GWG (§ 6 Abs. 2 EStG): Sofortabschreibung im Anschaffungsjahr, nur bis
+//    800 € netto.
+//  - Sammelposten (§ 6 Abs. 2a EStG): Wirtschaftsgüter über 250 € bis
+//    1.000 € netto, gleichmäßig über fünf Jahre ab dem Anschaffungsjahr, ohne
+//    Zeitanteil.
+//
+// Die Abschreibungen sind Werbungskosten der Anlage V und Betriebsausgaben
+// der EÜR (nicht zahlungswirksam, wie die Gebäude-AfA).
+
+export type AssetMethod = "linear" | "gwg" | "pool";
+
+export const ASSET_METHODS: AssetMethod[] = ["linear", "gwg", "pool"];
+
+/** Grenze für die Sofortabschreibung geringwertiger Wirtschaftsgüter (netto). */
+export const GWG_LIMIT = 800;
+/** Wertgrenzen für den Sammelposten (netto, untere Grenze ausschließlich). */
+export const POOL_MIN = 250;
+export const POOL_MAX = 1000;
+/** Auflösungszeitraum des Sammelpostens in Jahren. */
+export const POOL_YEARS = 5;
+
+/** Konten je Methode: Anlagekonto und Abschreibungskonto. */
+export const ASSET_ACCOUNTS: Record<AssetMethod, { asset: string; expense: string }> = {
+  linear: { asset: "0690", expense: "6222" },
+  gwg:    { asset: "0670", expense: "6260" },
+  pool:   { asset: "0675", expense: "6264" },
+};
+
+export type FixedAsset = {
+  id: string;
+  propertyId: string;
+  apartmentId?: string;
+  name: string;
+  acquisitionDate: string;   // YYYY-MM-DD
+  cost: number;              // Anschaffungskosten (netto bzw. ohne abziehbare Vorsteuer)
+  usefulLife: number;        // Nutzungsdauer in Jahren (nur linear)
+  method: AssetMethod;
+};
+
+export type DepreciationRow = {
+  year: number;
+  opening: number;           // Buchwert zum 01.01. (bzw. Anschaffung)
+  amount: number;            // Abschreibung des Jahres
+  closing: number;           // Buchwert zum 31.12.
+};
+
+function num(v: any): number {
+  if (v === null || v === undefined || v === "") return 0;
+  return parseFloat(String(v).replace(",", ".")) || 0;
+}
+
+function round2(v: number): number {
+  return Math.round(v * 100) / 100;
+}
+
+/** Anlagegut aus der gespeicherten Entity (fixed-asset) oder null bei fehlenden Angaben. */
+export function toFixedAsset(a: any): FixedAsset | null {
+  const method = ASSET_METHODS.includes(a?.method) ? (a.method as AssetMethod) : null;
+  const date = String(a?.["acquisition-date"] ?? "");
+  const cost = num(a?.cost);
+  if (!method || !/^\d{4}-\d{2}-\d{2}$/.test(date) || !(cost > 0)) return null;
+  return {
+    id: String(a.id),
+    propertyId: String(a["property-id"] ?? ""),
+    apartmentId: a["apartment-id"] ? String(a["apartment-id"]) : undefined,
+    name: String(a.name ?? ""),
+    acquisitionDate: date,
+    cost,
+    usefulLife: Math.max(0, Math.round(num(a["useful-life"]))),
+    method,
+  };
+}
+
+/** Prüft Methode und Betragsgrenzen; null = zulässig. */
+export function assetMethodError(cost: number, method: AssetMethod, usefulLife: number):
+  "gwg-limit" | "pool-range" | "useful-life" | null {
+  if (method === "gwg" && cost > GWG_LIMIT) return "gwg-limit";
+  if (method === "pool" && (cost <= POOL_MIN || cost > POOL_MAX)) return "pool-range";
+  if (method === "linear" && !(usefulLife > 0)) return "useful-life";
+  return null;
+}
+
+/** Abschreibungsplan eines Anlageguts vom Anschaffungsjahr bis zum Vollabschreiben. */
+export function depreciationSchedule(asset: FixedAsset): DepreciationRow[] {
+  const startYear = Number(asset.acquisitionDate.slice(0, 4));
+  const month = Number(asset.acquisitionDate.slice(5, 7));
+  const rows: DepreciationRow[] = [];
+  let book = asset.cost;
+  const push = (year: number, amount: number) => {
+    const a = round2(Math.min(book, amount));
+    rows.push({ year, opening: round2(book), amount: a, closing: round2(book - a) });
+    book = round2(book - a);
+  };
+
+  if (asset.method === "gwg") {
+    push(startYear, asset.cost);
+  } else if (asset.method === "pool") {
+    const annual = asset.cost / POOL_YEARS;
+    for (let i = 0; i < POOL_YEARS; i++) push(startYear + i, i === POOL_YEARS - 1 ? book : annual);
+  } else if (asset.usefulLife > 0) {
+    const annual = asset.cost / asset.usefulLife;
+    push(startYear, (annual * (13 - month)) / 12);
+    for (let y = startYear + 1; book > 0; y++) {
+      push(y, y >= startYear + asset.usefulLife ? book : annual);
+    }
+  }
+  return rows;
+}
+
+/** Abschreibung eines Jahres über mehrere Anlagegüter. */
+export function depreciationForYear(assets: FixedAsset[], year: number): number {
+  let sum = 0;
+  for (const a of assets) {
+    sum += depreciationSchedule(a).find(r => r.year === year)?.amount ?? 0;
+  }
+  return round2(sum);
+}
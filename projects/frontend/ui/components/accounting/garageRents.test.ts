@@ -0,0 +1,71 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { garageRentDifferences, garageRentYear, garageRents, garageTenancy } from "./garageRents.js";
+
+// Sample fixtures — use the real JS data shape (plain keys, not CLJS namespaced keys)
+const tenants = [{ id: 7, "start-date": "2024-03-15", "end-date": "2024-08-31" }];
+
+const garages = [
+  { id: 1, "property-id": 10, code: "G1", "monthly-rent": 50, "tenant-id": 7 },
+  { id: 2, "property-id": 10, code: "G2", "monthly-rent": "45,50", occupied: true },
+  { id: 3, "property-id": 20, code: "G3", "monthly-rent": 60 },
+];
+
+describe("garageTenancy", () => {
+  test("takes the tenancy of the assigned tenant", () => {
+    assert.deepEqual(garageTenancy(garages[0], tenants), { from: "2024-03-15", to: "2024-08-31" });
+  });
+
+  test("treats occupied garages without tenant as unlimited and empty garages as null", () => {
+    assert.deepEqual(garageTenancy(garages[1], tenants), { from: null, to: null });
+    assert.equal(garageTenancy(garages[2], tenants), null);
+  });
+});
+
+describe("garageRentYear", () => {
+  test("expects the months of the tenancy and reports missing payments", () => {
+    const payments = [
+      { "garage-id": 1, year: 2024, month: 3, value: 50 },
+      { "garage-id": 1, year: 2024, month: 4, value: 50 },
+      { "garage-id": 1, year: 2023, month: 12, value: 50 },
+    ];
+    const r = garageRentYear(garages[0], 2024, payments, tenants, "2024-12-31");
+    assert.deepEqual(r.expectedMonths, [3, 4, 5, 6, 7, 8]);
+    assert.equal(r.expected, 300);
+    assert.equal(r.received, 100);
+    assert.deepEqual(r.paidMonths, [3, 4]);
+    assert.deepEqual(r.missingMonths, [5, 6, 7, 8]);
+    assert.equal(r.estimated, false);
+    assert.equal(r.income, 100);
+    assert.equal(r.difference, -200);
+  });
+
+  test("expects months only up to the cut-off date", () => {
+    const r = garageRentYear(garages[1], 2024, [], tenants, "2024-04-10");
+    assert.deepEqual(r.expectedMonths, [1, 2, 3, 4]);
+    assert.equal(r.expected, 182);
+  });
+
+  test("estimates the expected rent when no payment is recorded", () => {
+    const r = garageRentYear(garages[1], 2024, [], tenants, "2024-12-31");
+    assert.equal(r.estimated, true);
+    assert.equal(r.income, 546);
+    assert.equal(r.difference, 0);
+    assert.deepEqual(r.missingMonths, []);
+  });
+
+  test("expects nothing from an empty garage", () => {
+    const r = garageRentYear(garages[2], 2024, [], tenants, "2024-12-31");
+    assert.equal(r.expected, 0);
+    assert.equal(r.estimated, false);
+  });
+});
+
+describe("garageRents", () => {
+  test("filters by property and lists only garages with differences", () => {
+    const payments = [{ "garage-id": 2, year: 2024, month: 1, value: 45.5 }];
+    const rows = garageRents(garages, 2024, payments, tenants, "2024-02-15", "10");
+    assert.deepEqual(rows.map(r => r.code), ["G1", "G2"]);
+    assert.deepEqual(garageRentDifferences(rows).map(r => [r.code, r.missingMonths]), [["G2", [2]]]);
+  });
+});
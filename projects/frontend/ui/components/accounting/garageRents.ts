@@ -0,0 +1,111 @@
+// Garagenmieten aus den tatsächlich erfassten Zahlungen (garage-payment).
+//
+// Erwartet ist die Monatsmiete für jeden fälligen Monat, in dem die Garage
+// vermietet ist: Mietzeitraum des zugeordneten Mieters (Einzug bis Auszug),
+// bei Garagen ohne Mieterzuordnung aber "belegt" ohne zeitliche Grenze.
+// Leerstehende Garagen erwarten nichts. Im laufenden Jahr zählen nur Monate
+// bis zum Stichtag.
+//
+// Sind für eine Garage in einem Jahr keine Zahlungen erfasst, wird die erwartete
+// Miete als rechnerischer Ersatzwert ausgewiesen (estimated). Abweichungen
+// zwischen erwarteter und erhaltener Miete werden je Garage und Jahr gemeldet.
+
+export type GarageRentYear = {
+  garageId: string;
+  propertyId?: string;
+  code: string;
+  year: number;
+  monthly: number;
+  expectedMonths: number[];  // vermietete, fällige Monate
+  expected: number;
+  paidMonths: number[];
+  received: number;          // Summe der erfassten Zahlungen
+  missingMonths: number[];   // erwartet, aber ohne Zahlung
+  estimated: boolean;        // keine Zahlungen erfasst → rechnerischer Wert
+  income: number;            // anzusetzender Erlös (received bzw. expected)
+  difference: number;        // received − expected (0 bei estimated)
+};
+
+export type GarageTenancy = { from: string | null; to: string | null };
+
+function num(v: any): number {
+  if (v === null || v === undefined || v === "") return 0;
+  return parseFloat(String(v).replace(",", ".")) || 0;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function pad2(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/** Mietzeitraum einer Garage; null = leerstehend. */
+export function garageTenancy(g: any, tenants: any[] = []): GarageTenancy | null {
+  const tenantId = g["tenant-id"];
+  if (!tenantId && !g.occupied) return null;
+  const tn = tenantId ? tenants.find(t => String(t.id) === String(tenantId)) : undefined;
+  return { from: tn?.["start-date"] || null, to: tn?.["end-date"] || null };
+}
+
+/** Erfasste Zahlungen einer Garage in einem Jahr. */
+export function garagePaymentsOf(garageId: string, year: number, payments: any[] = []): any[] {
+  return payments.filter(p => String(p["garage-id"]) === garageId && Number(p.year) === year);
+}
+
+/** Soll/Ist der Garagenmiete eines Jahres. */
+export function garageRentYear(g: any, year: number, payments: any[] = [], tenants: any[] = [],
+                               asOf: string = today()): GarageRentYear {
+  const garageId = String(g.id);
+  const monthly = num(g["monthly-rent"]);
+  const tenancy = garageTenancy(g, tenants);
+  const expectedMonths: number[] = [];
+  if (tenancy && monthly > 0) {
+    for (let m = 1; m <= 12; m++) {
+      const first = `${year}-${pad2(m)}-01`;
+      const last = `${year}-${pad2(m)}-31`;
+      if (first > asOf) break;
+      if (tenancy.from && tenancy.from > last) continue;
+      if (tenancy.to && tenancy.to < first) continue;
+      expectedMonths.push(m);
+    }
+  }
+  const own = garagePaymentsOf(garageId, year, payments);
+  const received = round2(own.reduce((s, p) => s + num(p.value), 0));
+  const paidMonths = [...new Set(own.filter(p => num(p.value) > 0).map(p => Number(p.month)))].sort((a, b) => a - b);
+  const expected = round2(expectedMonths.length * monthly);
+  const estimated = own.length === 0 && expected > 0;
+  return {
+    garageId,
+    propertyId: g["property-id"] ? String(g["property-id"]) : undefined,
+    code: g.code || garageId,
+    year,
+    monthly,
+    expectedMonths,
+    expected,
+    paidMonths,
+    received,
+    missingMonths: estimated ? [] : expectedMonths.filter(m => !paidMonths.includes(m)),
+    estimated,
+    income: estimated ? expected : received,
+    difference: estimated ? 0 : round2(received - expected),
+  };
+}
+
+/** Soll/Ist aller Garagen eines Jahres (optional nur einer Immobilie). */
+export function garageRents(garages: any[], year: number, payments: any[] = [], tenants: any[] = [],
+                            asOf: string = today(), propertyId?: string): GarageRentYear[] {
+  return garages
+    .filter(g => !propertyId || String(g["property-id"]) === propertyId)
+    .map(g => garageRentYear(g, year, payments, tenants, asOf));
+}
+
+/** Garagen-Jahre mit Abweichung zwischen erwarteter und erhaltener Miete. */
+export function garageRentDifferences(rows: GarageRentYear[]): GarageRentYear[] {
+  return rows.filter(r => !r.estimated && (Math.abs(r.difference) > 0.005 || r.missingMonths.length > 0));
+}
@@ -0,0 +1,61 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { balanceAtFixedEnd, loanInterestForYear, loanSchedule, loanTerms, loanYears, monthlyPayment } from "./loanSchedule.js";
+
+// Sample fixtures — use the real JS data shape (plain keys, not CLJS namespaced keys)
+const loan = {
+  id: 3, "lender-name": "Sparkasse", "original-amount": 120000, "interest-rate": 3,
+  "repayment-rate": 2, "payout-date": "2024-01-15", "fixed-until": "2024-06-30",
+};
+
+describe("loanTerms", () => {
+  test("reads the loan conditions", () => {
+    assert.deepEqual(loanTerms(loan), {
+      amount: 120000, rate: 3, repayment: 2, payoutDate: "2024-01-15", fixedUntil: "2024-06-30",
+    });
+  });
+
+  test("returns null for loans with annual interest only", () => {
+    assert.equal(loanTerms({ id: 4, year: 2024, "annual-interest": 1200 }), null);
+  });
+});
+
+describe("loanSchedule", () => {
+  const terms = loanTerms(loan)!;
+  const rows = loanSchedule(terms, 2024);
+
+  test("pays the first instalment at the end of the month after the payout", () => {
+    assert.equal(monthlyPayment(terms), 500);
+    assert.deepEqual(rows[0], {
+      date: "2024-02-29", year: 2024, month: 2, opening: 120000, interest: 300, principal: 200,
+      payment: 500, closing: 119800, afterFixed: false,
+    });
+    assert.deepEqual([rows[1].interest, rows[1].principal, rows[1].closing], [299.5, 200.5, 119599.5]);
+  });
+
+  test("stops at the end of the given year and flags rows after the fixed-rate period", () => {
+    assert.equal(rows.length, 11);
+    assert.equal(rows.at(-1)?.date, "2024-12-31");
+    assert.deepEqual(rows.filter(r => !r.afterFixed).map(r => r.month), [2, 3, 4, 5, 6]);
+  });
+
+  test("runs until the loan is repaid without a year limit", () => {
+    const all = loanSchedule({ amount: 1000, rate: 0, repayment: 50, payoutDate: "2024-01-01" });
+    assert.equal(all.length, 24);
+    assert.equal(all.at(-1)?.closing, 0);
+  });
+
+  test("sums years and reports the balance at the end of the fixed-rate period", () => {
+    const [year] = loanYears(rows);
+    assert.equal(year.year, 2024);
+    assert.equal(year.payment, 5500);
+    assert.equal(year.closing, rows.at(-1)?.closing);
+    assert.equal(balanceAtFixedEnd(terms, rows), rows[4].closing);
+  });
+
+  test("takes the interest of a year from the schedule or the recorded annual interest", () => {
+    assert.equal(loanInterestForYear(loan, 2024), rows.reduce((s, r) => s + r.interest, 0));
+    assert.equal(loanInterestForYear({ year: 2024, "annual-interest": "1200,50" }, 2024), 1200.5);
+    assert.equal(loanInterestForYear({ year: 2023, "annual-interest": 900 }, 2024), 0);
+  });
+});
@@ -0,0 +1,137 @@
+// Tilgungsplan für Annuitätendarlehen.
+//
+// Ein Darlehen mit Darlehensbetrag, Sollzins, anfänglicher Tilgung und
+// Auszahlungsdatum wird monatlich abgerechnet: Rate = Betrag × (Zins + Tilgung)
+// / 12, Zinsanteil = Restschuld × Zins / 12, der Rest tilgt. Die erste Rate ist
+// am Ende des auf die Auszahlung folgenden Monats fällig. Nach Ablauf der
+// Zinsbindung wird mit unverändertem Zins fortgerechnet (Prognose).
+//
+// Darlehen ohne diese Angaben (nur "annual-interest" je Jahr) bleiben
+// reine Zinserfassung ohne Tilgungsplan.
+
+export type LoanTerms = {
+  amount: number;        // Darlehensbetrag
+  rate: number;          // Sollzins in % p.a.
+  repayment: number;     // anfängliche Tilgung in % p.a. (0 = endfällig)
+  payoutDate: string;    // YYYY-MM-DD
+  fixedUntil?: string;   // Ende der Zinsbindung (YYYY-MM-DD)
+};
+
+export type LoanScheduleRow = {
+  date: string;          // Fälligkeit (Monatsletzter)
+  year: number;
+  month: number;
+  opening: number;       // Restschuld vor der Rate
+  interest: number;
+  principal: number;
+  payment: number;
+  closing: number;       // Restschuld nach der Rate
+  afterFixed: boolean;   // nach Ende der Zinsbindung (Prognose)
+};
+
+export type LoanYearRow = {
+  year: number;
+  interest: number;
+  principal: number;
+  payment: number;
+  closing: number;
+  afterFixed: boolean;
+};
+
+/** Höchstlaufzeit, falls das Darlehen nicht getilgt wird. */
+const MAX_MONTHS = 50 * 12;
+
+function num(v: any): number {
+  if (v === null || v === undefined || v === "") return 0;
+  return parseFloat(String(v).replace(",", ".")) || 0;
+}
+
+function round2(v: number): number {
+  return Math.round(v * 100) / 100;
+}
+
+function monthEnd(y: number, m: number): string {
+  const last = new Date(Date.UTC(y, m, 0)).getUTCDate();
+  return `${y}-${String(m).padStart(2, "0")}-${String(last).padStart(2, "0")}`;
+}
+
+/** Konditionen eines Darlehens oder null, wenn nur Jahreszinsen erfasst sind. */
+export function loanTerms(loan: any): LoanTerms | null {
+  const amount = num(loan?.["original-amount"]);
+  const payoutDate = loan?.["payout-date"];
+  if (!(amount > 0) || !payoutDate) return null;
+  return {
+    amount,
+    rate: num(loan["interest-rate"]),
+    repayment: num(loan["repayment-rate"]),
+    payoutDate: String(payoutDate),
+    fixedUntil: loan["fixed-until"] ? String(loan["fixed-until"]) : undefined,
+  };
+}
+
+/** Monatliche Rate (Zins + anfängliche Tilgung). */
+export function monthlyPayment(terms: LoanTerms): number {
+  return round2((terms.amount * (terms.rate + terms.repayment)) / 1200);
+}
+
+/** Monatlicher Tilgungsplan bis zur vollständigen Tilgung bzw. bis Ende untilYear. */
+export function loanSchedule(terms: LoanTerms, untilYear?: number): LoanScheduleRow[] {
+  const rows: LoanScheduleRow[] = [];
+  const payment = monthlyPayment(terms);
+  let y = parseInt(terms.payoutDate.slice(0, 4), 10);
+  let m = parseInt(terms.payoutDate.slice(5, 7), 10);
+  let balance = round2(terms.amount);
+  for (let i = 0; i < MAX_MONTHS && balance > 0; i++) {
+    m++;
+    if (m > 12) { m = 1; y++; }
+    if (untilYear !== undefined && y > untilYear) break;
+    const date = monthEnd(y, m);
+    const interest = round2((balance * terms.rate) / 1200);
+    const principal = round2(Math.min(Math.max(payment - interest, 0), balance));
+    const closing = round2(balance - principal);
+    rows.push({
+      date, year: y, month: m, opening: balance, interest, principal,
+      payment: round2(interest + principal), closing,
+      afterFixed: !!terms.fixedUntil && date > terms.fixedUntil,
+    });
+    balance = closing;
+  }
+  return rows;
+}
+
+/** Jahressummen des Tilgungsplans (Restschuld jeweils zum Jahresende). */
+export function loanYears(rows: LoanScheduleRow[]): LoanYearRow[] {
+  const out: LoanYearRow[] = [];
+  for (const r of rows) {
+    let last = out[out.length - 1];
+    if (!last || last.year !== r.year) {
+      last = { year: r.year, interest: 0, principal: 0, payment: 0, closing: 0, afterFixed: r.afterFixed };
+      out.push(last);
+    }
+    last.interest = round2(last.interest + r.interest);
+    last.principal = round2(last.principal + r.principal);
+    last.payment = round2(last.payment + r.payment);
+    last.closing = r.closing;
+  }
+  return out;
+}
+
+/** Restschuld am Ende der Zinsbindung (undefined ohne Zinsbindung). */
+export function balanceAtFixedEnd(terms: LoanTerms, rows: LoanScheduleRow[]): number | undefined {
+  if (!terms.fixedUntil) return undefined;
+  let balance = round2(terms.amount);
+  for (const r of rows) {
+    if (r.date > terms.fixedUntil) break;
+    balance = r.closing;
+  }
+  return balance;
+}
+
+/** Schuldzinsen eines Jahres: Tilgungsplan oder erfasster Jahreszins. */
+export function loanInterestForYear(loan: any, year: number): number {
+  const terms = loanTerms(loan);
+  if (!terms) return Number(loan?.year) === year ? num(loan["annual-interest"]) : 0;
+  return loanSchedule(terms, year)
+    .filter(r => r.year === year)
+    .reduce((s, r) => s + r.interest, 0);
+}
@@ -0,0 +1,76 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { compareResult, compareSection, compareTrialBalance, defaultIndex, periodDates, periodIndexCount, priorPeriod } from "./periods.js";
+import { deriveJournal, guv, trialBalance } from "./engine.js";
+import type { AccountingData } from "./engine.js";
+
+// Sample fixtures — use the real JS data shape (plain keys, not CLJS namespaced keys)
+function data(extra: Partial<AccountingData> = {}): AccountingData {
+  return {
+    properties: [], apartments: [{ id: 1, "property-id": 10, code: "W1" }], garages: [], allCosts: [],
+    allRentPayments: [], taxConfigs: [], loans: [], maintenances: [], nkSettlements: [],
+    taxIncomes: [], taxExpenses: [], journalEntries: [],
+    ...extra,
+  };
+}
+
+const byNumber = (acc: string) => acc;
+
+describe("periodDates", () => {
+  test("covers months, quarters, year-to-date and the full year", () => {
+    assert.deepEqual(periodDates({ kind: "month", year: 2024, index: 2 }), { from: "2024-02-01", to: "2024-02-29" });
+    assert.deepEqual(periodDates({ kind: "quarter", year: 2024, index: 4 }), { from: "2024-10-01", to: "2024-12-31" });
+    assert.deepEqual(periodDates({ kind: "ytd", year: 2024, index: 6 }), { from: "2024-01-01", to: "2024-06-30" });
+    assert.deepEqual(periodDates({ kind: "year", year: 2024, index: 0 }), { from: "2024-01-01", to: "2024-12-31" });
+  });
+
+  test("moves the February month end to the prior year's month end", () => {
+    const prior = priorPeriod({ kind: "month", year: 2024, index: 2 });
+    assert.deepEqual(periodDates(prior), { from: "2023-02-01", to: "2023-02-28" });
+  });
+});
+
+describe("period selection", () => {
+  test("offers quarters and months", () => {
+    assert.deepEqual([periodIndexCount("year"), periodIndexCount("quarter"), periodIndexCount("month"), periodIndexCount("ytd")],
+      [0, 4, 12, 12]);
+  });
+
+  test("defaults to the running month or quarter in the current year, else to December", () => {
+    const today = new Date(2024, 4, 15);
+    assert.equal(defaultIndex("month", 2024, today), 5);
+    assert.equal(defaultIndex("quarter", 2024, today), 2);
+    assert.equal(defaultIndex("quarter", 2023, today), 4);
+  });
+});
+
+describe("prior-year comparison", () => {
+  const rents = [
+    { id: 1, "apartment-id": 1, year: 2023, month: 3, value: 400 },
+    { id: 2, "apartment-id": 1, year: 2024, month: 3, value: 500 },
+    { id: 3, "apartment-id": 1, year: 2024, month: 4, value: 500 },
+  ];
+  const lines = deriveJournal(data({ allRentPayments: rents, taxExpenses: [{ id: 7, year: 2023, amount: 50 }] }), 2024);
+  const current = periodDates({ kind: "quarter", year: 2024, index: 1 });
+  const prior = periodDates(priorPeriod({ kind: "quarter", year: 2024, index: 1 }));
+
+  test("compares GuV sections per account with delta and percentage", () => {
+    const rows = compareSection(guv(lines, current).revenues, guv(lines, prior).revenues, byNumber);
+    assert.deepEqual(rows, [{ account: "4120", current: 500, prior: 400, delta: 100, pct: 25 }]);
+  });
+
+  test("keeps accounts with values in only one of the periods", () => {
+    const rows = compareSection(guv(lines, current).expenses, guv(lines, 2023).expenses, byNumber);
+    assert.deepEqual(rows.map(r => [r.account, r.current, r.prior, r.pct]), [["6300", 0, 50, -100]]);
+  });
+
+  test("compares trial balance closing balances at the end of both periods", () => {
+    const rows = compareTrialBalance(trialBalance(lines, current), trialBalance(lines, prior), byNumber);
+    assert.deepEqual(rows.find(r => r.account === "1800"), { account: "1800", current: 850, prior: 400, delta: 450, pct: 112.5 });
+  });
+
+  test("has no percentage without a prior-year value", () => {
+    assert.deepEqual(compareResult(300, 0), { delta: 300, pct: null });
+    assert.deepEqual(compareResult(-50, 200), { delta: -250, pct: -125 });
+  });
+});
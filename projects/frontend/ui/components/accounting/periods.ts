@@ -0,0 +1,103 @@
+// Unterjährige Auswertungszeiträume (Monat, Quartal, Jahr bis Monatsende) und
+// Vorjahresvergleich für GuV und SuSa.
+//
+// Der Vergleichszeitraum ist derselbe Zeitraum ein Jahr früher; ein Monatsende
+// im Februar wird dabei auf das Monatsende des Vorjahres gelegt.
+
+import type { DateRange, GuvSection, TrialBalanceRow } from "./engine";
+
+export type PeriodKind = "year" | "quarter" | "month" | "ytd";
+
+export const PERIOD_KINDS: PeriodKind[] = ["year", "quarter", "month", "ytd"];
+
+/** Zeitraum im Geschäftsjahr: index ist Quartal (1–4) bzw. Monat (1–12, bei ytd der letzte Monat). */
+export type Period = { kind: PeriodKind; year: number; index: number };
+
+export type ComparisonRow = {
+  account: string;
+  current: number;
+  prior: number;
+  delta: number;
+  /** Abweichung in % des Vorjahreswerts; null ohne Vorjahreswert. */
+  pct: number | null;
+};
+
+function pad2(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function monthEnd(year: number, month: number): string {
+  const last = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return `${year}-${pad2(month)}-${pad2(last)}`;
+}
+
+export function periodDates(p: Period): DateRange {
+  switch (p.kind) {
+    case "quarter": {
+      const first = (p.index - 1) * 3 + 1;
+      return { from: `${p.year}-${pad2(first)}-01`, to: monthEnd(p.year, first + 2) };
+    }
+    case "month":
+      return { from: `${p.year}-${pad2(p.index)}-01`, to: monthEnd(p.year, p.index) };
+    case "ytd":
+      return { from: `${p.year}-01-01`, to: monthEnd(p.year, p.index) };
+    default:
+      return { from: `${p.year}-01-01`, to: `${p.year}-12-31` };
+  }
+}
+
+/** Derselbe Zeitraum im Vorjahr. */
+export function priorPeriod(p: Period): Period {
+  return { ...p, year: p.year - 1 };
+}
+
+/** Anzahl wählbarer Unterzeiträume je Art (Quartale bzw. Monate). */
+export function periodIndexCount(kind: PeriodKind): number {
+  return kind === "quarter" ? 4 : kind === "year" ? 0 : 12;
+}
+
+/** Sinnvoller Standard beim Wechsel der Zeitraumart: laufender Monat/Quartal im aktuellen Jahr. */
+export function defaultIndex(kind: PeriodKind, year: number, today: Date = new Date()): number {
+  const month = year === today.getFullYear() ? today.getMonth() + 1 : 12;
+  return kind === "quarter" ? Math.ceil(month / 3) : month;
+}
+
+function deviation(current: number, prior: number): { delta: number; pct: number | null } {
+  const delta = current - prior;
+  return { delta, pct: Math.abs(prior) > 0.005 ? (delta / Math.abs(prior)) * 100 : null };
+}
+
+function merge(current: Map<string, number>, prior: Map<string, number>, sortKey: (acc: string) => string): ComparisonRow[] {
+  const accounts = new Set([...current.keys(), ...prior.keys()]);
+  return [...accounts]
+    .map(account => {
+      const c = current.get(account) ?? 0;
+      const p = prior.get(account) ?? 0;
+      return { account, current: c, prior: p, ...deviation(c, p) };
+    })
+    .filter(r => Math.abs(r.current) > 0.005 || Math.abs(r.prior) > 0.005)
+    .sort((a, b) => sortKey(a.account).localeCompare(sortKey(b.account)));
+}
+
+/** GuV-Abschnitt (Erträge oder Aufwendungen) mit Vorjahreswerten. */
+export function compareSection(current: GuvSection, prior: GuvSection, sortKey: (acc: string) => string): ComparisonRow[] {
+  return merge(
+    new Map(current.map(r => [r.account, r.amount])),
+    new Map(prior.map(r => [r.account, r.amount])),
+    sortKey,
+  );
+}
+
+/** SuSa-Endsalden mit den Endsalden zum Ende des Vorjahreszeitraums. */
+export function compareTrialBalance(current: TrialBalanceRow[], prior: TrialBalanceRow[], sortKey: (acc: string) => string): ComparisonRow[] {
+  return merge(
+    new Map(current.map(r => [r.account, r.closing])),
+    new Map(prior.map(r => [r.account, r.closing])),
+    sortKey,
+  );
+}
+
+/** Ergebnis-Abweichung (Gewinn/Verlust) zum Vorjahreszeitraum. */
+export function compareResult(current: number, prior: number): { delta: number; pct: number | null } {
+  return deviation(current, prior);
+}
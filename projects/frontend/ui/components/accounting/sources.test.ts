@@ -0,0 +1,92 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { filterJournal, lineSource, sourceTarget, EMPTY_JOURNAL_FILTER } from "./sources.js";
+import type { AccountingData, JournalLine } from "./engine.js";
+
+// Sample fixtures — use the real JS data shape (plain keys, not CLJS namespaced keys)
+const U = "3f2a9c1e-7b4d-4e2a-9c1e-202405311234";
+const V = "0b8e2d4f-1a2b-4c3d-8e9f-000000002024";
+
+function line(id: string, extra: Partial<JournalLine> = {}): JournalLine {
+  return {
+    id, number: "A-2024-0001", date: "2024-03-01", year: 2024, description: "Miete 03/2024",
+    debit: "1800", credit: "4120", amount: 850, source: "auto", ...extra,
+  };
+}
+
+const source = (id: string) => lineSource(line(id));
+
+describe("lineSource", () => {
+  test("reads UUID ids with hyphens", () => {
+    assert.deepEqual(source(`rent-k-${U}`), { kind: "rent-payment", id: U });
+    assert.deepEqual(source(`garp-${U}`), { kind: "garage-payment", id: U });
+    assert.deepEqual(source(`cost-${U}`), { kind: "cost", id: U });
+    assert.deepEqual(source(`loan-out-${U}`), { kind: "loan", id: U });
+    assert.deepEqual(source(`int-${U}`), { kind: "loan", id: U });
+    assert.deepEqual(source(`ob-1800`), { kind: "opening", id: "1800" });
+  });
+
+  test("strips year, month and index suffixes, even after digit-only UUID groups", () => {
+    assert.deepEqual(source(`soll-k-${U}-2024-03`), { kind: "tenant", id: U });
+    assert.deepEqual(source(`gar-${V}-2024`), { kind: "garage", id: V });
+    assert.deepEqual(source(`loan-tilg-${V}-2024-12`), { kind: "loan", id: V });
+    assert.deepEqual(source(`afa-${V}-2024`), { kind: "property", id: V });
+    assert.deepEqual(source(`dep-${V}-0`), { kind: "deposit", id: V });
+    assert.deepEqual(source(`dep-int-${V}-2024`), { kind: "deposit", id: V });
+    assert.deepEqual(source(`dep-ded-${U}-1`), { kind: "deposit", id: U });
+    assert.deepEqual(source(`dep-out-${U}`), { kind: "deposit", id: U });
+  });
+
+  test("reads the VAT lines of opted-in units", () => {
+    assert.deepEqual(source(`rent-ku-${U}`), { kind: "rent-payment", id: U });
+    assert.deepEqual(source(`soll-nu-${U}-2024-03`), { kind: "tenant", id: U });
+    assert.deepEqual(source(`vst-${V}`), { kind: "cost", id: V });
+  });
+
+  test("reads fixed-asset acquisitions and depreciation", () => {
+    assert.deepEqual(source(`fa-acq-${U}`), { kind: "fixed-asset", id: U });
+    assert.deepEqual(source(`fa-afa-${V}-2025`), { kind: "fixed-asset", id: V });
+  });
+
+  test("follows corrections back to the original booking", () => {
+    assert.deepEqual(source(`corr-cost-${U}`), { kind: "cost", id: U });
+    assert.deepEqual(source(`corr-rent-n-${U}-s`), { kind: "rent-payment", id: U });
+  });
+
+  test("takes the entity of manual bookings and knows no source for closing lines", () => {
+    assert.deepEqual(lineSource(line(`man-${U}`, { source: "manual", entityId: U })), { kind: "journal-entry", id: U });
+    assert.equal(source("close-2024-4120"), null);
+  });
+});
+
+describe("sourceTarget", () => {
+  const data = {
+    allRentPayments: [{ id: U, "apartment-id": 5 }],
+    allCosts: [{ id: V, "property-id": 10 }],
+  } as unknown as AccountingData;
+
+  test("jumps to the apartment of a rent payment and the property of a cost", () => {
+    assert.deepEqual(sourceTarget({ kind: "rent-payment", id: U }, data),
+                     { tab: "apartments", context: { aptId: "5", aptTab: "rent" } });
+    assert.deepEqual(sourceTarget({ kind: "cost", id: V }, data), { tab: "abrechnung", context: { propertyId: "10" } });
+  });
+
+  test("returns null without a target", () => {
+    assert.equal(sourceTarget({ kind: "rent-payment", id: "x" }, data), null);
+    assert.equal(sourceTarget({ kind: "opening", id: "1800" }, data), null);
+  });
+});
+
+describe("filterJournal", () => {
+  const lines = [
+    line(`rent-k-${U}`),
+    line(`cost-${V}`, { date: "2024-12-31", description: "Grundsteuer", debit: "7680", credit: "1800", amount: 1234.5 }),
+  ];
+
+  test("matches all words against date, text, accounts, amount and source", () => {
+    assert.equal(filterJournal(lines, EMPTY_JOURNAL_FILTER).length, 2);
+    assert.deepEqual(filterJournal(lines, { ...EMPTY_JOURNAL_FILTER, text: "31.12.2024 1.234,50" }).map(l => l.id), [`cost-${V}`]);
+    assert.deepEqual(filterJournal(lines, { ...EMPTY_JOURNAL_FILTER, text: `rent-payment ${U}` }).map(l => l.id), [`rent-k-${U}`]);
+    assert.deepEqual(filterJournal(lines, { ...EMPTY_JOURNAL_FILTER, account: "7680" }).map(l => l.id), [`cost-${V}`]);
+  });
+});
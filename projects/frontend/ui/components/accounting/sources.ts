@@ -0,0 +1,146 @@
+// Herkunft von Buchungen: Rückverfolgung zur Quell-Entity und Sprungziel in
+// der Anwendung (Drill-down vom Kontenblatt bzw. Journal zu den Stammdaten).
+//
+// Automatisch abgeleitete Buchungen tragen ihre Herkunft in der Buchungs-ID
+// (z. B. "rent-k-123" → Mietzahlung 123, "cost-45" → Kosten 45). Die IDs sind
+// deterministisch und stehen auch in den Jahresabschluss-Snapshots, daher
+// lassen sich auch eingefrorene Buchungen und Korrekturen ("corr-…")
+// zurückverfolgen.
+//
+// Die Volltextsuche im Journal durchsucht Belegnummer, Datum, Text, Konten
+// (Nummer und Bezeichnung), Betrag und Herkunft; alle Suchwörter müssen passen.
+
+import { accountLabel } from "./chartOfAccounts";
+import type { AccountingData, JournalLine } from "./engine";
+
+export type SourceKind =
+  | "rent-payment" | "tenant" | "garage-payment" | "garage" | "cost" | "maintenance" | "loan"
+  | "nk-settlement" | "deposit" | "tax-income" | "tax-expense" | "property" | "fixed-asset" | "opening"
+  | "journal-entry";
+
+export type SourceRef = { kind: SourceKind; id: string };
+
+/** Navigationsziel im Dashboard (Tab und Kontext wie bei den Aufgaben-Widgets). */
+export type SourceTarget = {
+  tab: string;
+  context?: { propertyId?: string; aptId?: string; aptTab?: string; tenantId?: string };
+};
+
+// Reihenfolge beachten: spezifischere Präfixe vor allgemeineren.
+const PATTERNS: [RegExp, SourceKind][] = [
+  [/^rent-[knv]u?-(.+)$/,               "rent-payment"],
+  [/^soll-[kn]u?-(.+)-\d{4}-\d{2}$/,    "tenant"],
+  [/^garp-(.+)$/,                       "garage-payment"],
+  [/^gar-(.+)-\d{4}$/,                  "garage"],
+  [/^cost-(.+)$/,                       "cost"],
+  [/^vst-(.+)$/,                        "cost"],
+  [/^maint-(.+)$/,                      "maintenance"],
+  [/^loan-out-(.+)$/,                   "loan"],
+  [/^loan-(?:int|tilg)-(.+)-\d{4}-\d{2}$/, "loan"],
+  [/^int-(.+)$/,                        "loan"],
+  [/^nks-(.+)$/,                        "nk-settlement"],
+  [/^dep-int-(.+)-\d{4}$/,              "deposit"],
+  [/^dep-(?:ded|tr)-(.+)-\d+$/,         "deposit"],
+  [/^dep-out-(.+)$/,                    "deposit"],
+  [/^dep-(.+)-\d+$/,                    "deposit"],
+  [/^ti-(.+)$/,                         "tax-income"],
+  [/^te-(.+)$/,                         "tax-expense"],
+  [/^acq-[bl]-(.+)$/,                   "property"],
+  [/^afa-(.+)-\d{4}$/,                  "property"],
+  [/^fa-acq-(.+)$/,                     "fixed-asset"],
+  [/^fa-afa-(.+)-\d{4}$/,               "fixed-asset"],
+  [/^ob-(.+)$/,                         "opening"],
+];
+
+/** Quell-Entity einer Buchung; null für Abschluss- und Eröffnungsbuchungen ohne Quelle. */
+export function lineSource(l: JournalLine): SourceRef | null {
+  if (l.source === "manual") return l.entityId ? { kind: "journal-entry", id: l.entityId } : null;
+  const id = l.id.startsWith("corr-") ? l.id.slice(5).replace(/-s$/, "") : l.id;
+  for (const [re, kind] of PATTERNS) {
+    const m = re.exec(id);
+    if (m) return { kind, id: m[1] };
+  }
+  return null;
+}
+
+function byId(list: any[] | undefined, id: string): any {
+  return (list ?? []).find(x => String(x.id) === id);
+}
+
+function str(v: any): string | undefined {
+  return v === null || v === undefined || v === "" ? undefined : String(v);
+}
+
+/** Sprungziel zur Quell-Entity; null, wenn sie nur in der Buchhaltung selbst lebt. */
+export function sourceTarget(ref: SourceRef, data: AccountingData): SourceTarget | null {
+  switch (ref.kind) {
+    case "rent-payment": {
+      const aptId = str(byId(data.allRentPayments, ref.id)?.["apartment-id"]);
+      return aptId ? { tab: "apartments", context: { aptId, aptTab: "rent" } } : null;
+    }
+    case "tenant":
+      return { tab: "tenants", context: { tenantId: ref.id } };
+    case "deposit": {
+      const d = byId(data.deposits, ref.id);
+      const tenantId = str(d?.["tenant-id"]);
+      return tenantId ? { tab: "tenants", context: { tenantId } } : { tab: "tenants" };
+    }
+    case "garage-payment": {
+      const p = byId(data.garagePayments, ref.id);
+      const propertyId = str(byId(data.garages, String(p?.["garage-id"]))?.["property-id"]);
+      return { tab: "properties", context: { propertyId } };
+    }
+    case "garage":
+      return { tab: "properties", context: { propertyId: str(byId(data.garages, ref.id)?.["property-id"]) } };
+    case "cost":
+      return { tab: "abrechnung", context: { propertyId: str(byId(data.allCosts, ref.id)?.["property-id"]) } };
+    case "nk-settlement":
+      return { tab: "abrechnung", context: { propertyId: str(byId(data.nkSettlements, ref.id)?.["property-id"]) } };
+    case "maintenance":
+    case "loan":
+    case "property":
+    case "fixed-asset":
+      return { tab: "tax" };
+    case "tax-income":
+    case "tax-expense":
+      return { tab: "finances" };
+    default:
+      return null;
+  }
+}
+
+// ── Suche und Filter im Journal ─────────────────────────────────────────────
+
+export type JournalFilter = {
+  text: string;
+  account: string;   // "" = alle; sonst Soll- oder Habenkonto
+  type: string;      // "" = alle, "manual" oder sourceType
+};
+
+export const EMPTY_JOURNAL_FILTER: JournalFilter = { text: "", account: "", type: "" };
+
+function searchText(l: JournalLine): string {
+  const [y, m, d] = l.date.split("-");
+  const ref = lineSource(l);
+  return [
+    l.number, l.date, `${d}.${m}.${y}`, l.description,
+    accountLabel(l.debit), accountLabel(l.credit), l.debit, l.credit,
+    l.amount.toFixed(2), l.amount.toLocaleString("de-DE", { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+    l.sourceType ?? "", l.id, ref ? `${ref.kind} ${ref.id}` : "",
+  ].join(" ").toLowerCase();
+}
+
+export function isJournalFilterActive(f: JournalFilter): boolean {
+  return !!(f.text.trim() || f.account || f.type);
+}
+
+export function filterJournal(lines: JournalLine[], f: JournalFilter): JournalLine[] {
+  const words = f.text.toLowerCase().split(/\s+/).filter(Boolean);
+  return lines.filter(l => {
+    if (f.account && l.debit !== f.account && l.credit !== f.account) return false;
+    if (f.type === "manual" ? l.source !== "manual" : f.type && l.sourceType !== f.type) return false;
+    if (words.length === 0) return true;
+    const text = searchText(l);
+    return words.every(w => text.includes(w));
+  });
+}
@@ -0,0 +1,177 @@
+// Umsatzsteuer bei Option nach § 9 UStG für einzelne Einheiten.
+//
+// Wohnraumvermietung ist nach § 4 Nr. 12 UStG steuerfrei. Bei gewerblich
+// vermieteten Einheiten kann der Vermieter zur Steuerpflicht optieren; dann
+// gilt für die Einheit ein Steuersatz (19 % bzw. 7 %) und die Miete
+// einschließlich Nebenkosten-Vorauszahlungen ist umsatzsteuerpflichtig.
+//
+// Erfasste Mieten optierter Einheiten sind Bruttobeträge. Die Buchhaltung
+// teilt sie in das Nettoentgelt (Erlöskonto des Steuersatzes) und die
+// Umsatzsteuer. Kosten der Immobilie tragen optional den enthaltenen
+// Steuersatz; die darin enthaltene Vorsteuer ist nur anteilig abziehbar
+// (§ 15 Abs. 4 UStG): Aufteilung nach dem Flächenschlüssel, d. h. Wohnfläche
+// der optierten Einheiten an der Gesamtwohnfläche der Immobilie. Fehlen
+// Flächenangaben, wird nach der Zahl der Einheiten aufgeteilt. Der nicht
+// abziehbare Teil bleibt Aufwand.
+//
+// Die Umsatzsteuer-Voranmeldung wird aus den Buchungen auf den Erlös-,
+// Umsatzsteuer- und Vorsteuerkonten abgeleitet; manuelle Buchungen auf diesen
+// Konten fließen damit ebenfalls ein. Zahlungen an das Finanzamt werden
+// manuell auf 3820 gebucht (3820 an Bank).
+
+import type { JournalLine } from "./engine";
+
+export const VAT_RATES = [19, 7] as const;
+export type VatRate = typeof VAT_RATES[number];
+
+/** Konten je Steuersatz: Erlöse, Umsatzsteuer, abziehbare Vorsteuer. */
+export const VAT_ACCOUNTS: Record<VatRate, { revenue: string; output: string; input: string }> = {
+  19: { revenue: "4400", output: "3806", input: "1406" },
+  7:  { revenue: "4300", output: "3801", input: "1401" },
+};
+
+/** Umsatzsteuer-Vorauszahlungen (Zahlungen an/Erstattungen vom Finanzamt). */
+export const VAT_PREPAYMENT_ACCOUNT = "3820";
+
+export const OUTPUT_VAT_ACCOUNTS = VAT_RATES.map(r => VAT_ACCOUNTS[r].output);
+export const INPUT_VAT_ACCOUNTS  = VAT_RATES.map(r => VAT_ACCOUNTS[r].input);
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function toRate(v: any): VatRate | null {
+  const n = Number(v);
+  return (VAT_RATES as readonly number[]).includes(n) ? (n as VatRate) : null;
+}
+
+/** Steuersatz einer Einheit mit Option nach § 9 UStG, sonst null (steuerfrei). */
+export function unitVatRate(apt: any): VatRate | null {
+  if (!apt?.["vat-option"]) return null;
+  return toRate(apt["vat-rate"]) ?? 19;
+}
+
+/** In einer Kostenposition enthaltener Steuersatz (null = keine Vorsteuer). */
+export function costVatRate(cost: any): VatRate | null {
+  return toRate(cost?.["vat-rate"]);
+}
+
+/** Bruttobetrag in Nettoentgelt und Umsatzsteuer aufteilen. */
+export function splitGross(gross: number, rate: number): { net: number; vat: number } {
+  const vat = round2((gross * rate) / (100 + rate));
+  return { net: round2(gross - vat), vat };
+}
+
+export type InputTaxShare = {
+  /** Abziehbarer Anteil der Vorsteuer (0–1). */
+  share: number;
+  basis: "area" | "units";
+  vatArea: number;
+  totalArea: number;
+};
+
+/** Vorsteuerabzugsquote einer Immobilie (Flächenschlüssel, ersatzweise Einheiten). */
+export function inputTaxShare(propertyId: string, apartments: any[]): InputTaxShare {
+  const own = apartments.filter(a => String(a["property-id"]) === propertyId);
+  const vatUnits = own.filter(a => unitVatRate(a) !== null);
+  const area = (list: any[]) => list.reduce((s, a) => s + (Number(a.wohnflaeche) || 0), 0);
+  const hasAreas = own.length > 0 && own.every(a => Number(a.wohnflaeche) > 0);
+  if (hasAreas) {
+    const total = area(own);
+    return { share: area(vatUnits) / total, basis: "area", vatArea: area(vatUnits), totalArea: total };
+  }
+  return {
+    share: own.length > 0 ? vatUnits.length / own.length : 0,
+    basis: "units", vatArea: vatUnits.length, totalArea: own.length,
+  };
+}
+
+// ── Umsatzsteuer-Voranmeldung ───────────────────────────────────────────────
+
+export type VatInterval = "month" | "quarter";
+
+export type VatPeriod = {
+  /** 1–12 (Monat) bzw. 1–4 (Quartal). */
+  index: number;
+  from: string;
+  to: string;
+  /** Kz. 81: steuerpflichtige Umsätze 19 % (Bemessungsgrundlage). */
+  base19: number;
+  tax19: number;
+  /** Kz. 86: steuerpflichtige Umsätze 7 % (Bemessungsgrundlage). */
+  base7: number;
+  tax7: number;
+  /** Kz. 66: abziehbare Vorsteuer. */
+  inputTax: number;
+  /** Kz. 83: Vorauszahlung (negativ = Erstattung). */
+  payable: number;
+  /** Im Zeitraum gebuchte Zahlungen an das Finanzamt (3820, Erstattungen negativ). */
+  paid: number;
+};
+
+export type VatReturn = {
+  year: number;
+  interval: VatInterval;
+  periods: VatPeriod[];
+  total: Omit<VatPeriod, "index" | "from" | "to">;
+};
+
+function lastDay(year: number, month: number): string {
+  const d = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return `${year}-${String(month).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+}
+
+/** Saldo eines Kontos in der Buchungsmenge (Soll positiv). */
+function balance(lines: JournalLine[], acc: string, sign: 1 | -1): number {
+  let s = 0;
+  for (const l of lines) {
+    // Umbuchungen gegen 3820 (Verrechnung der Zahllast) sind keine Umsätze/Vorsteuer.
+    if (l.debit === VAT_PREPAYMENT_ACCOUNT || l.credit === VAT_PREPAYMENT_ACCOUNT) continue;
+    if (l.debit === acc) s += l.amount;
+    if (l.credit === acc) s -= l.amount;
+  }
+  return round2(sign * s) || 0;
+}
+
+/** Umsatzsteuer-Voranmeldungen eines Jahres (monatlich oder vierteljährlich). */
+export function vatReturn(lines: JournalLine[], year: number, interval: VatInterval): VatReturn {
+  const inYear = lines.filter(l => l.year === year && l.sourceType !== "closing" && l.sourceType !== "carryforward");
+  const months = interval === "month" ? 1 : 3;
+  const periods: VatPeriod[] = [];
+  for (let i = 1; i <= 12 / months; i++) {
+    const from = `${year}-${String((i - 1) * months + 1).padStart(2, "0")}-01`;
+    const to = lastDay(year, i * months);
+    const inPeriod = inYear.filter(l => l.date >= from && l.date <= to);
+    const base19 = balance(inPeriod, VAT_ACCOUNTS[19].revenue, -1);
+    const tax19  = balance(inPeriod, VAT_ACCOUNTS[19].output, -1);
+    const base7  = balance(inPeriod, VAT_ACCOUNTS[7].revenue, -1);
+    const tax7   = balance(inPeriod, VAT_ACCOUNTS[7].output, -1);
+    const inputTax = round2(INPUT_VAT_ACCOUNTS.reduce((s, a) => s + balance(inPeriod, a, 1), 0));
+    let paid = 0;
+    for (const l of inPeriod) {
+      if (l.debit === VAT_PREPAYMENT_ACCOUNT) paid += l.amount;
+      if (l.credit === VAT_PREPAYMENT_ACCOUNT) paid -= l.amount;
+    }
+    periods.push({
+      index: i, from, to, base19, tax19, base7, tax7, inputTax,
+      payable: round2(tax19 + tax7 - inputTax), paid: round2(paid),
+    });
+  }
+  const sum = (k: keyof VatPeriod) => round2(periods.reduce((s, p) => s + (p[k] as number), 0));
+  return {
+    year, interval, periods,
+    total: {
+      base19: sum("base19"), tax19: sum("tax19"), base7: sum("base7"), tax7: sum("tax7"),
+      inputTax: sum("inputTax"), payable: sum("payable"), paid: sum("paid"),
+    },
+  };
+}
+
+/** true, wenn im Journal Umsatzsteuer- oder Vorsteuerkonten bebucht sind. */
+export function hasVatBookings(lines: JournalLine[]): boolean {
+  const accs = new Set<string>([
+    ...OUTPUT_VAT_ACCOUNTS, ...INPUT_VAT_ACCOUNTS, VAT_PREPAYMENT_ACCOUNT,
+    ...VAT_RATES.map(r => VAT_ACCOUNTS[r].revenue),
+  ]);
+  return lines.some(l => accs.has(l.debit) || accs.has(l.credit));
+}
@@ -33,6 +33,8 @@ type Apartment = {
   "market-rent"?: number | string | null;
   "strom-zaehler-nr"?: string | null;
   "wasser-zaehler-nrn"?: string[] | null;
+  "vat-option"?: boolean | null;
+  "vat-rate"?: number | null;
 };
 
 type OnboardingStatus = {
@@ -140,7 +142,7 @@ type Props = {
   mieteSaving?: boolean;
   onUpsertTenantMiete?: (data: { tenantId: string; year: number; kaltmiete: number; nebenkostenWarm: number }) => void;
   onDeleteTenantMiete?: (id: string) => void;
-  onUpdateApartment?: (id: string, data: { code?: string; wohnflaeche?: number; marketRent?: number; stromZaehlerNr?: string | null; wasserZaehlerNrn?: string[] }) => void;
+  onUpdateApartment?: (id: string, data: { code?: string; wohnflaeche?: number; marketRent?: number; stromZaehlerNr?: string | null; wasserZaehlerNrn?: string[]; vatOption?: boolean; vatRate?: number }) => void;
   onLoadCosts?: (propertyId: string) => void;
   onEditProperty?: (id: string, data: any) => void;
   propertySaving?: boolean;
@@ -353,7 +355,7 @@ export default function ApartmentView({
     });
   };
   const [confirmDelete, setConfirmDelete] = useState(false);
-  const [aptEdit, setAptEdit] = useState<{ code: string; wohnflaeche: string; marketRent: string; stromZaehlerNr: string; wasserZaehlerNrn: string[] } | null>(null);
+  const [aptEdit, setAptEdit] = useState<{ code: string; wohnflaeche: string; marketRent: string; stromZaehlerNr: string; wasserZaehlerNrn: string[]; vatOption: boolean; vatRate: string } | null>(null);
   const [activeTab, setActiveTabState] = useState<"tenants" | "rent" | "costs" | "nebenkosten" | "settings">(initialTab ?? "tenants");
   const setActiveTab = (tab: "tenants" | "rent" | "costs" | "nebenkosten" | "settings") => {
     setActiveTabState(tab);
@@ -1309,6 +1311,8 @@ export default function ApartmentView({
                     marketRent: apartment["market-rent"] != null ? String(apartment["market-rent"]) : "",
                     stromZaehlerNr: apartment["strom-zaehler-nr"] ?? "",
                     wasserZaehlerNrn: Array.isArray(apartment["wasser-zaehler-nrn"]) ? apartment["wasser-zaehler-nrn"] : [],
+                    vatOption: !!apartment["vat-option"],
+                    vatRate: String(apartment["vat-rate"] ?? 19),
                   });
                   setActiveTab("settings");
                 }}
@@ -2263,6 +2267,8 @@ export default function ApartmentView({
                     marketRent: apartment?.["market-rent"] != null ? String(apartment["market-rent"]) : "",
                     stromZaehlerNr: apartment?.["strom-zaehler-nr"] ?? "",
                     wasserZaehlerNrn: Array.isArray(apartment?.["wasser-zaehler-nrn"]) ? apartment!["wasser-zaehler-nrn"]! : [],
+                    vatOption: !!apartment?.["vat-option"],
+                    vatRate: String(apartment?.["vat-rate"] ?? 19),
                   })}
                   disabled={isSaving}
                 >
@@ -2321,6 +2327,32 @@ export default function ApartmentView({
                     </p>
                   </div>
 
+                  {/* Umsatzsteuer-Option (§ 9 UStG) */}
+                  <div className="space-y-1.5">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="apt-vat-edit"
+                        checked={aptEdit.vatOption}
+                        onCheckedChange={(checked) => setAptEdit((f) => f ? { ...f, vatOption: !!checked } : f)}
+                        disabled={isSaving}
+                      />
+                      <Label htmlFor="apt-vat-edit">{t("fields.vatOption")}</Label>
+                      {aptEdit.vatOption && (
+                        <select
+                          className="ml-auto border rounded px-2 h-8 text-sm bg-background"
+                          aria-label={t("fields.vatRate")}
+                          value={aptEdit.vatRate}
+                          onChange={(e) => setAptEdit((f) => f ? { ...f, vatRate: e.target.value } : f)}
+                          disabled={isSaving}
+                        >
+                          <option value="19">19 %</option>
+                          <option value="7">7 %</option>
+                        </select>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{t("fields.vatOptionHint")}</p>
+                  </div>
+
                   {/* Stromzählernummer (single) */}
                   <div className="space-y-1.5">
                     <Label htmlFor="apt-strom-edit">
@@ -2380,7 +2412,7 @@ export default function ApartmentView({
                     size="sm"
                     disabled={isSaving || !aptEdit.code.trim()}
                     onClick={() => {
-                      const data: { code?: string; wohnflaeche?: number; marketRent?: number; stromZaehlerNr?: string | null; wasserZaehlerNrn?: string[] } = {};
+                      const data: { code?: string; wohnflaeche?: number; marketRent?: number; stromZaehlerNr?: string | null; wasserZaehlerNrn?: string[]; vatOption?: boolean; vatRate?: number } = {};
                       if (aptEdit.code.trim()) data.code = aptEdit.code.trim();
                       const w = parseFloat(aptEdit.wohnflaeche);
                       if (!isNaN(w)) {
@@ -2392,6 +2424,8 @@ export default function ApartmentView({
                       if (!isNaN(mr)) data.marketRent = mr;
                       data.stromZaehlerNr = aptEdit.stromZaehlerNr.trim();
                       data.wasserZaehlerNrn = aptEdit.wasserZaehlerNrn.map((s) => s.trim()).filter(Boolean);
+                      data.vatOption = aptEdit.vatOption;
+                      data.vatRate = Number(aptEdit.vatRate);
                       onUpdateApartment?.(String(apartment!.id), data);
                       setAptEdit(null);
                     }}
@@ -2427,6 +2461,12 @@ export default function ApartmentView({
                       : "—"}
                   </span>
                 </div>
+                <div className="flex justify-between text-sm gap-4">
+                  <span className="text-muted-foreground shrink-0">{t("fields.vatOption")}</span>
+                  <span className="font-medium text-right">
+                    {apartment?.["vat-option"] ? `${t("fields.vatRate")} ${apartment["vat-rate"] ?? 19} %` : t("fields.vatExempt")}
+                  </span>
+                </div>
                 <div className="flex justify-between text-sm gap-4">
                   <span className="text-muted-foreground shrink-0">{t("fields.stromZaehlerNr", { defaultValue: "Stromzählernummer" })}</span>
                   <span className="font-medium text-right">{apartment?.["strom-zaehler-nr"] || "—"}</span>
@@ -10,6 +10,18 @@ import { Popover, PopoverContent, PopoverTrigger } from "../ui/popover";
 import { Input } from "../ui/input";
 import { Label } from "../ui/label";
 import { cn } from "../../lib/utils";
+import { isCamt, parseCamt } from "./camt";
+import { isMt940, parseMt940 } from "./mt940";
+import {
+  BUILTIN_CSV_PROFILES, CUSTOM_CSV_PROFILE_ID, csvColumns, detectCsvProfile,
+  loadCustomCsvProfile, parseCsvStatement, saveCustomCsvProfile,
+} from "./csvImport";
+import type { CsvProfile } from "./csvImport";
+import CsvProfileForm from "./CsvProfileForm";
+import { HIGH_CONFIDENCE, matchTransactions } from "./matching";
+import type { MatchReason, RowState, TxCategory, TxMatch } from "./matching";
+import { readText } from "./statement";
+import type { StatementMeta, Transaction } from "./statement";
 
 // ── PDF.js CDN ────────────────────────────────────────────────────────────────
 
@@ -155,8 +167,6 @@ function mergeItems(parts: string[]): string[] {
 
 // ── PDF meta (IBAN, bank name, owner) ────────────────────────────────────────
 
-interface PdfMeta { iban: string; bankName: string; owner?: string; }
-
 // BLZ (chars 4-11 of a German IBAN) → canonical bank name
 const BLZ_TO_BANK: Record<string, string> = {
   "30060601": "Deutsche Apotheker- und Ärztebank",
@@ -248,7 +258,7 @@ function extractIban(text: string): string | null {
   return null;
 }
 
-function extractMetaFromParts(parts: string[]): PdfMeta | null {
+function extractMetaFromParts(parts: string[]): StatementMeta | null {
   const fullText = parts.map(cleanStr).join(" ");
   const iban = extractIban(fullText);
   if (!iban) return null;
@@ -259,7 +269,7 @@ function extractMetaFromParts(parts: string[]): PdfMeta | null {
   };
 }
 
-async function extractPdf(file: File): Promise<{ transactions: Transaction[]; meta: PdfMeta | null }> {
+async function extractPdf(file: File): Promise<{ transactions: Transaction[]; meta: StatementMeta | null }> {
   const pdfjsLib = await loadPdfJs();
   const buffer   = await file.arrayBuffer();
   const pdf      = await pdfjsLib.getDocument({ data: buffer }).promise;
@@ -276,18 +286,41 @@ async function extractPdf(file: File): Promise<{ transactions: Transaction[]; me
   return { transactions, meta };
 }
 
-// ── Domain types ──────────────────────────────────────────────────────────────
+// ── CAMT.053 / CAMT.052 (XML), MT940, CSV ────────────────────────────────────
 
-interface Transaction {
-  date: string; description: string; amount: number; year: number; month: number;
+type Extracted = { transactions: Transaction[]; meta: StatementMeta | null };
+
+/** Textformate: CAMT (.xml), MT940 (.sta, .mt940, .940, .txt) und CSV. */
+function isTextFile(file: File): boolean {
+  return /xml|text|csv/.test(file.type) || /\.(xml|sta|mt940|940|txt|csv)$/i.test(file.name);
 }
 
-type TxCategory  = "miete" | "nebenkosten" | "expense" | "skip";
-interface RowState {
-  category: TxCategory; aptId: string; propertyId: string;
-  year: number; month: number; expenseLine: string;
+function extractCamt(xml: string): Extracted {
+  const { transactions, meta } = parseCamt(xml);
+  // Institut bevorzugt aus der BLZ, sonst aus dem Namen laut Datei.
+  if (meta) meta.bankName = detectBankName(meta.iban, meta.bankName) || meta.bankName;
+  return { transactions, meta };
+}
+
+function extractMt940(text: string): Extracted {
+  const { transactions, meta } = parseMt940(text);
+  if (meta) meta.bankName = detectBankName(meta.iban, "");
+  return { transactions, meta };
 }
 
+/** CSV mit Importprofil; IBAN aus der Kontospalte, sonst aus den Kontoangaben
+ *  vor der Kopfzeile (wie bei PDFs). */
+function extractCsv(text: string, profile: CsvProfile): Extracted {
+  const { transactions, iban, preamble } = parseCsvStatement(text, profile);
+  const fromPreamble = extractMetaFromParts(preamble);
+  const meta: StatementMeta | null = iban
+    ? { iban, bankName: detectBankName(iban, `${profile.name} ${preamble.join(" ")}`), owner: fromPreamble?.owner }
+    : fromPreamble && { ...fromPreamble, bankName: fromPreamble.bankName || detectBankName(fromPreamble.iban, profile.name) };
+  return { transactions, meta };
+}
+
+// ── Domain types ──────────────────────────────────────────────────────────────
+
 type Apartment   = { id: number | string; code: string };
 type Property    = { id: number | string; name: string };
 type ExpenseType = { key: string; "name-de"?: string; "name-en"?: string };
@@ -320,6 +353,8 @@ type Props = {
     apartmentId: string; year: number; month: number; value: number;
     date: string; description: string; sourceFile: string; recordedAt: string;
     bankAccountId?: string;
+    /** IBAN des Zahlers, für künftige Zuordnungsvorschläge. */
+    payerIban?: string;
   }) => void;
   onRecordExpense?: (data: {
     type: "expense";
@@ -392,7 +427,11 @@ export default function BankStatement({
   const [historyOpen, setHistoryOpen]   = useState(false);
 
   // Detected bank account from PDF
-  const [detectedMeta, setDetectedMeta]     = useState<PdfMeta | null>(null);
+  const [detectedMeta, setDetectedMeta]     = useState<StatementMeta | null>(null);
+  // CSV: Dateiinhalt und Importprofil (wechselbar ohne erneutes Hochladen)
+  const [csvText, setCsvText]               = useState<string | null>(null);
+  const [csvProfileId, setCsvProfileId]     = useState("");
+  const [customProfile, setCustomProfile]   = useState<CsvProfile>(loadCustomCsvProfile);
   const [newAccOwner, setNewAccOwner]       = useState("");
   const [newAccBankName, setNewAccBankName] = useState("");
   const [newAccDesc, setNewAccDesc]         = useState("");
@@ -474,6 +513,17 @@ export default function BankStatement({
 
   const fileAlreadyImported = fileName ? importedFileNames.has(fileName) : false;
 
+  // ── Statement balances (CAMT) ─────────────────────────────────────────────
+
+  // Anfangssaldo + Umsätze muss den Endsaldo ergeben, sonst fehlen Umsätze.
+  const balanceDiff = useMemo<number | null>(() => {
+    const opening = detectedMeta?.opening;
+    const closing = detectedMeta?.closing;
+    if (!opening || !closing) return null;
+    const sum = transactions.reduce((s, tx) => s + tx.amount, 0);
+    return Math.round((opening.amount + sum - closing.amount) * 100) / 100;
+  }, [detectedMeta, transactions]);
+
   const isDuplicateTx = useCallback((tx: Transaction): boolean => {
     if (!fileName) return false;
     const rentMatch = allRentPayments.some(rp => {
@@ -535,41 +585,122 @@ export default function BankStatement({
     return map;
   }, [bankAccounts, allRentPayments, allCosts]);
 
+  // ── Matching suggestions ──────────────────────────────────────────────────
+
+  const matches = useMemo<Record<number, TxMatch>>(
+    () => matchTransactions(transactions, { apartments, tenants, allRentPayments }),
+    [transactions, apartments, tenants, allRentPayments]);
+
+  const reasonText = (r: MatchReason): string => {
+    switch (r.kind) {
+      case "iban":           return t("match.iban");
+      case "name":           return t("match.name", { name: r.name });
+      case "expectedAmount": return t("match.expectedAmount", { amount: fmtAbs(r.amount) });
+      case "previousAmount": return t("match.previousAmount", { amount: fmtAbs(r.amount) });
+      case "apartmentCode":  return t("match.apartmentCode", { code: r.code });
+      case "monthHint":      return t("match.monthHint", { month: MONTH_LABELS[r.month - 1], year: r.year });
+      case "advancePayment": return t("match.advancePayment");
+      case "ambiguous":      return t("match.ambiguous", { count: r.count });
+      case "monthRecorded":  return t("match.monthRecorded");
+      case "monthTwice":     return t("match.monthTwice");
+    }
+  };
+
   // ── Row state helpers ─────────────────────────────────────────────────────
 
-  const defaultRow = (tx: Transaction): RowState => ({
+  // Vorbelegung aus dem Zuordnungsvorschlag, sonst nach Vorzeichen.
+  const defaultRow = (tx: Transaction, idx: number): RowState => matches[idx]?.row ?? {
     category: tx.amount < 0 ? "expense" : "miete",
     aptId: "", propertyId: "", year: tx.year, month: tx.month, expenseLine: "",
-  });
+  };
 
-  const getRow   = (idx: number) => rowStates[idx] ?? defaultRow(transactions[idx]);
+  const getRow   = (idx: number) => rowStates[idx] ?? defaultRow(transactions[idx], idx);
   const patchRow = (idx: number, patch: Partial<RowState>) =>
-    setRowStates(prev => ({ ...prev, [idx]: { ...(prev[idx] ?? defaultRow(transactions[idx])), ...patch } }));
+    setRowStates(prev => ({ ...prev, [idx]: { ...(prev[idx] ?? defaultRow(transactions[idx], idx)), ...patch } }));
 
   // ── File handling ─────────────────────────────────────────────────────────
 
+  const showExtracted = useCallback(({ transactions: txs, meta }: Extracted) => {
+    setTransactions(txs); setRowStates({}); setSavedRows({}); setAptPickerOpen({});
+    setDetectedMeta(meta); setAccSaved(false); setAccBannerOpen(!!meta);
+    if (meta) {
+      setNewAccBankName(meta.bankName);
+      setNewAccOwner(meta.owner ?? "");
+    }
+    setError(txs.length === 0 ? t("noTransactions") : null);
+  }, [t]);
+
+  const applyCsvProfile = useCallback((text: string, profile: CsvProfile) => {
+    setCsvProfileId(profile.id);
+    try {
+      showExtracted(extractCsv(text, profile));
+    } catch {
+      showExtracted({ transactions: [], meta: null });
+      setError(t("csv.headerNotFound"));
+    }
+  }, [showExtracted, t]);
+
   const handleFile = useCallback(async (file: File) => {
-    if (file.type !== "application/pdf") { setError(t("invalidFile")); return; }
+    const pdf = file.type === "application/pdf";
+    if (!pdf && !isTextFile(file)) { setError(t("invalidFile")); return; }
     setError(null); setParsing(true);
     setTransactions([]); setRowStates({}); setSavedRows({}); setAptPickerOpen({});
     setDetectedMeta(null); setAccSaved(false); setAccBannerOpen(false);
+    setCsvText(null); setCsvProfileId("");
     setFileName(file.name);
     try {
-      const { transactions: txs, meta } = await extractPdf(file);
-      setTransactions(txs);
-      if (meta) {
-        setDetectedMeta(meta);
-        setNewAccBankName(meta.bankName);
-        setNewAccOwner(meta.owner ?? "");
-        setAccBannerOpen(true);
+      if (pdf) { showExtracted(await extractPdf(file)); return; }
+      const text = await readText(file);
+      if (isCamt(text)) showExtracted(extractCamt(text));
+      else if (isMt940(text)) showExtracted(extractMt940(text));
+      else {
+        // CSV: eingebautes Profil anhand der Kopfzeile, sonst das eigene Profil.
+        setCsvText(text);
+        const profile = detectCsvProfile(text) ?? (customProfile.dateColumn && customProfile.amountColumn ? customProfile : null);
+        if (profile) applyCsvProfile(text, profile);
+        else { setCsvProfileId(CUSTOM_CSV_PROFILE_ID); setError(t("csv.noProfile")); }
       }
-      if (txs.length === 0) setError(t("noTransactions"));
     } catch {
       setError(t("parseError"));
     } finally {
       setParsing(false);
     }
-  }, [t]);
+  }, [t, showExtracted, applyCsvProfile, customProfile]);
+
+  const handleCustomProfile = (profile: CsvProfile) => {
+    saveCustomCsvProfile(profile);
+    setCustomProfile(profile);
+    if (csvText !== null) applyCsvProfile(csvText, profile);
+  };
+
+  const csvProfileSelect = (
+    <select className="border rounded px-2 h-8 text-sm bg-background" value={csvProfileId}
+      onChange={e => {
+        const id = e.target.value;
+        const profile = id === CUSTOM_CSV_PROFILE_ID ? customProfile : BUILTIN_CSV_PROFILES.find(p => p.id === id);
+        if (csvText === null || !profile) return;
+        if (id === CUSTOM_CSV_PROFILE_ID && !(profile.dateColumn && profile.amountColumn)) setCsvProfileId(id);
+        else applyCsvProfile(csvText, profile);
+      }}>
+      {BUILTIN_CSV_PROFILES.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      <option value={CUSTOM_CSV_PROFILE_ID}>{customProfile.name || t("csv.customProfile")}</option>
+    </select>
+  );
+
+  const csvProfilePanel = csvText !== null && (
+    <Card>
+      <CardContent className="pt-4 pb-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Label className="text-sm">{t("csv.profile")}</Label>
+          {csvProfileSelect}
+        </div>
+        {csvProfileId === CUSTOM_CSV_PROFILE_ID && (
+          <CsvProfileForm key={customProfile.name + customProfile.dateColumn} profile={customProfile}
+            columns={csvColumns(csvText, customProfile.delimiter)} onApply={handleCustomProfile} />
+        )}
+      </CardContent>
+    </Card>
+  );
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -596,7 +727,7 @@ export default function BankStatement({
 
   const bankAccountId = matchedBankAccount ? baId(matchedBankAccount) : undefined;
 
-  const handleSave = (idx: number, tx: Transaction) => {
+  const saveRow = (idx: number, tx: Transaction) => {
     const row = getRow(idx);
     if (row.category === "skip") { setSavedRows(p => ({ ...p, [idx]: true })); return; }
     const recordedAt = new Date().toISOString();
@@ -615,9 +746,14 @@ export default function BankStatement({
         value: tx.amount, date: tx.date, description: tx.description,
         sourceFile: fileName, recordedAt,
         ...(bankAccountId ? { bankAccountId } : {}),
+        ...(tx.counterpartyIban ? { payerIban: tx.counterpartyIban } : {}),
       });
     }
     setSavedRows(p => ({ ...p, [idx]: true }));
+  };
+
+  const handleSave = (idx: number, tx: Transaction) => {
+    saveRow(idx, tx);
     toast({ title: tCom("saved") });
   };
 
@@ -628,10 +764,22 @@ export default function BankStatement({
     return !!row.aptId;
   };
 
+  // Offene Umsätze mit sicherem Vorschlag (unverändert oder vom Nutzer angepasst).
+  const highConfidenceRows = transactions
+    .map((tx, idx) => ({ tx, idx }))
+    .filter(({ tx, idx }) => (matches[idx]?.confidence ?? 0) >= HIGH_CONFIDENCE
+      && !savedRows[idx] && !isDuplicateTx(tx) && canSave(idx));
+
+  const handleAcceptHighConfidence = () => {
+    for (const { tx, idx } of highConfidenceRows) saveRow(idx, tx);
+    toast({ title: t("match.accepted", { count: highConfidenceRows.length }) });
+  };
+
   const reset = () => {
     setTransactions([]); setError(null); setRowStates({}); setSavedRows({});
     setAptPickerOpen({}); setFileName("");
     setDetectedMeta(null); setAccSaved(false); setAccBannerOpen(false);
+    setCsvText(null); setCsvProfileId("");
     if (fileRef.current) fileRef.current.value = "";
   };
 
@@ -674,7 +822,7 @@ export default function BankStatement({
                 </Button>
               )}
             </div>
-            <input ref={fileRef} type="file" accept="application/pdf" className="hidden"
+            <input ref={fileRef} type="file" accept="application/pdf,.xml,application/xml,text/xml,.sta,.mt940,.940,.txt,.csv,text/csv" className="hidden"
               disabled={parsing}
               onChange={e => { const f = e.target.files?.[0]; if (f) handleFile(f); }} />
             {error && <p className="text-sm text-destructive mt-3 text-center">{error}</p>}
@@ -682,6 +830,9 @@ export default function BankStatement({
         </Card>
       )}
 
+      {/* CSV import profile */}
+      {csvProfilePanel}
+
       {/* Transaction list */}
       {transactions.length > 0 && (
         <div className="space-y-3">
@@ -691,8 +842,32 @@ export default function BankStatement({
               {fileName && (
                 <p className="text-xs text-muted-foreground font-mono mt-0.5 truncate max-w-xs">{fileName}</p>
               )}
+              {(detectedMeta?.opening || detectedMeta?.closing) && (
+                <p className="text-xs text-muted-foreground mt-0.5 tabular-nums">
+                  {detectedMeta.opening && (
+                    <>{t("openingBalance", { date: detectedMeta.opening.date })}: {detectedMeta.opening.amount < 0 ? "−" : ""}&#8364; {fmtAbs(detectedMeta.opening.amount)}</>
+                  )}
+                  {detectedMeta.opening && detectedMeta.closing && " · "}
+                  {detectedMeta.closing && (
+                    <>{t("closingBalance", { date: detectedMeta.closing.date })}: {detectedMeta.closing.amount < 0 ? "−" : ""}&#8364; {fmtAbs(detectedMeta.closing.amount)}</>
+                  )}
+                  {balanceDiff !== null && (
+                    balanceDiff === 0
+                      ? <span className="ml-1 text-green-700">✓ {t("balanceOk")}</span>
+                      : <span className="ml-1 text-amber-600">{t("balanceMismatch", { diff: fmtAbs(balanceDiff) })}</span>
+                  )}
+                </p>
+              )}
+            </div>
+            <div className="flex flex-wrap justify-end gap-2">
+              {!isReadOnly && highConfidenceRows.length > 0 && (
+                <Button size="sm" disabled={isSaving} onClick={handleAcceptHighConfidence}>
+                  <Check className="h-4 w-4 mr-1" />
+                  {t("match.acceptAll", { count: highConfidenceRows.length })}
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={reset}>{t("uploadNew")}</Button>
             </div>
-            <Button variant="outline" size="sm" onClick={reset}>{t("uploadNew")}</Button>
           </div>
 
           {/* Detected bank account banner */}
@@ -759,6 +934,7 @@ export default function BankStatement({
               const isDupe     = isDuplicateTx(tx);
               const pickerOpen = !!aptPickerOpen[idx];
               const selectedApt = aptOptions.find(a => a.id === row.aptId);
+              const match      = matches[idx];
 
               return (
                 <Card key={idx} className={cn("overflow-hidden", (saved || isDupe) && "opacity-50")}>
@@ -769,6 +945,15 @@ export default function BankStatement({
                       <div className="min-w-0 flex-1">
                         <p className="text-xs tabular-nums text-muted-foreground">{tx.date}</p>
                         <p className="text-sm mt-0.5 truncate">{tx.description}</p>
+                        {(tx.counterpartyName || tx.counterpartyIban || tx.endToEndId) && (
+                          <p className="text-xs text-muted-foreground mt-0.5 truncate">
+                            {[
+                              tx.counterpartyName,
+                              tx.counterpartyIban && formatIban(tx.counterpartyIban),
+                              tx.endToEndId && t("endToEnd", { ref: tx.endToEndId }),
+                            ].filter(Boolean).join(" · ")}
+                          </p>
+                        )}
                       </div>
                       <p className={cn("text-sm font-semibold tabular-nums shrink-0",
                         debit ? "text-red-600" : "text-green-700")}>
@@ -791,6 +976,18 @@ export default function BankStatement({
                     ) : (
                       <div className="space-y-2">
 
+                        {/* Matching suggestion */}
+                        {match && (
+                          <p className="text-xs text-muted-foreground">
+                            <span className={cn("mr-1.5 px-1.5 py-0.5 rounded font-medium tabular-nums",
+                              match.confidence >= HIGH_CONFIDENCE ? "bg-green-100 text-green-800"
+                                : match.confidence >= 0.5 ? "bg-amber-100 text-amber-800" : "bg-muted text-muted-foreground")}>
+                              {t("match.confidence", { percent: Math.round(match.confidence * 100) })}
+                            </span>
+                            {match.reasons.map(reasonText).join(" · ")}
+                          </p>
+                        )}
+
                         {/* Category pills */}
                         <div className="flex flex-wrap gap-1">
                           {CATS.map(cat => (
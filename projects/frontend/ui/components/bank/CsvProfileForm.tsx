@@ -0,0 +1,108 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import type { CsvDateFormat, CsvProfile, CsvSignConvention } from "./csvImport";
+
+type Props = {
+  profile: CsvProfile;
+  /** Spaltennamen der geladenen Datei (Vorschläge für die Zuordnung). */
+  columns: string[];
+  onApply: (profile: CsvProfile) => void;
+};
+
+const DATE_FORMATS: CsvDateFormat[] = ["DD.MM.YYYY", "DD.MM.YY", "YYYY-MM-DD", "MM/DD/YYYY"];
+const SIGNS: CsvSignConvention[] = ["signed", "inverted", "indicator"];
+
+const splitList = (s: string) => s.split(",").map(v => v.trim()).filter(Boolean);
+
+/** Eigenes CSV-Importprofil: Spaltenzuordnung, Datums- und Zahlenformat. */
+export default function CsvProfileForm({ profile, columns, onApply }: Props) {
+  const { t } = useTranslation("bank");
+  const [draft, setDraft] = useState({
+    ...profile,
+    descriptionColumns: profile.descriptionColumns.join(", "),
+    debitMarkers: (profile.debitMarkers ?? []).join(", "),
+  });
+  const set = (k: keyof typeof draft) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setDraft(d => ({ ...d, [k]: e.target.value }));
+  const valid = draft.dateColumn.trim() !== "" && draft.amountColumn.trim() !== ""
+    && (draft.sign !== "indicator" || (draft.indicatorColumn ?? "").trim() !== "");
+
+  const select = "border rounded px-2 h-8 text-sm w-full bg-background";
+  const column = (k: "dateColumn" | "amountColumn" | "indicatorColumn" | "counterpartyColumn" | "counterpartyIbanColumn", label: string) => (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Input className="h-8 text-sm" list="csv-profile-columns" value={draft[k] ?? ""} onChange={set(k)} />
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">{t("csv.customHint")}</p>
+      <datalist id="csv-profile-columns">
+        {columns.map(c => <option key={c} value={c} />)}
+      </datalist>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <div className="space-y-1 col-span-2">
+          <Label className="text-xs">{t("csv.profileName")}</Label>
+          <Input className="h-8 text-sm" value={draft.name} onChange={set("name")} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">{t("csv.delimiter")}</Label>
+          <select className={select} value={draft.delimiter} onChange={set("delimiter")}>
+            <option value=";">{t("csv.delimiterSemicolon")}</option>
+            <option value=",">{t("csv.delimiterComma")}</option>
+            <option value={"\t"}>{t("csv.delimiterTab")}</option>
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">{t("csv.decimal")}</Label>
+          <select className={select} value={draft.decimal} onChange={set("decimal")}>
+            <option value=",">{t("csv.decimalComma")}</option>
+            <option value=".">{t("csv.decimalPoint")}</option>
+          </select>
+        </div>
+        {column("dateColumn", t("csv.dateColumn"))}
+        <div className="space-y-1">
+          <Label className="text-xs">{t("csv.dateFormat")}</Label>
+          <select className={select} value={draft.dateFormat} onChange={set("dateFormat")}>
+            {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+          </select>
+        </div>
+        {column("amountColumn", t("csv.amountColumn"))}
+        <div className="space-y-1">
+          <Label className="text-xs">{t("csv.sign")}</Label>
+          <select className={select} value={draft.sign} onChange={set("sign")}>
+            {SIGNS.map(s => <option key={s} value={s}>{t(`csv.sign_${s}`)}</option>)}
+          </select>
+        </div>
+        {draft.sign === "indicator" && (
+          <>
+            {column("indicatorColumn", t("csv.indicatorColumn"))}
+            <div className="space-y-1">
+              <Label className="text-xs">{t("csv.debitMarkers")}</Label>
+              <Input className="h-8 text-sm" value={draft.debitMarkers} onChange={set("debitMarkers")} />
+            </div>
+          </>
+        )}
+        <div className="space-y-1 col-span-2">
+          <Label className="text-xs">{t("csv.descriptionColumns")}</Label>
+          <Input className="h-8 text-sm" list="csv-profile-columns" value={draft.descriptionColumns} onChange={set("descriptionColumns")} />
+        </div>
+        {column("counterpartyColumn", t("csv.counterpartyColumn"))}
+        {column("counterpartyIbanColumn", t("csv.counterpartyIbanColumn"))}
+      </div>
+      <Button size="sm" className="h-7" disabled={!valid}
+        onClick={() => onApply({
+          ...draft,
+          name: draft.name.trim(),
+          descriptionColumns: splitList(draft.descriptionColumns),
+          debitMarkers: splitList(draft.debitMarkers),
+        })}>
+        {t("csv.apply")}
+      </Button>
+    </div>
+  );
+}
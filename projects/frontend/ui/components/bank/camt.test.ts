@@ -0,0 +1,186 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { DOMParser } from "@xmldom/xmldom";
+import { isCamt, parseCamt } from "./camt.js";
+
+// Node has no DOMParser; the browser provides it for parseCamt.
+globalThis.DOMParser = DOMParser as unknown as typeof globalThis.DOMParser;
+
+const CAMT053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <GrpHdr><MsgId>053D2024-03-05</MsgId><CreDtTm>2024-03-05T06:00:00</CreDtTm></GrpHdr>
+    <Stmt>
+      <Id>2024-03-04</Id>
+      <Acct>
+        <Id><IBAN>DE02 1203 0000 0000 2020 51</IBAN></Id>
+        <Ownr><Nm>Hausverwaltung Beispiel</Nm></Ownr>
+        <Svcr><FinInstnId><BIC>BYLADEM1001</BIC><Nm>Deutsche Kreditbank</Nm></FinInstnId></Svcr>
+      </Acct>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>PRCD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">1500.00</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2024-03-01</Dt></Dt>
+      </Bal>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">2046.00</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2024-03-04</Dt></Dt>
+      </Bal>
+      <Ntry>
+        <Amt Ccy="EUR">850.00</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2024-03-01</Dt></BookgDt><ValDt><Dt>2024-03-01</Dt></ValDt>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>MIETE-2024-03-W1</EndToEndId></Refs>
+          <RltdPties>
+            <Dbtr><Nm>Anna Müller</Nm></Dbtr>
+            <DbtrAcct><Id><IBAN>DE89 3704 0044 0532 0130 00</IBAN></Id></DbtrAcct>
+            <Cdtr><Nm>Hausverwaltung Beispiel</Nm></Cdtr>
+          </RltdPties>
+          <RmtInf><Ustrd>Miete März</Ustrd><Ustrd>Whg. W1</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">54.00</Amt><CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2024-03-02</Dt></BookgDt>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+          <RltdPties>
+            <Cdtr><Nm>Stadtwerke</Nm></Cdtr>
+            <CdtrAcct><Id><IBAN>DE12500105170648489890</IBAN></Id></CdtrAcct>
+          </RltdPties>
+          <RmtInf><Ustrd>Abschlag Strom</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">250.00</Amt><CdtDbtInd>DBIT</CdtDbtInd>
+        <RvslInd>true</RvslInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2024-03-04</Dt></BookgDt>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>NK-2023-W2</EndToEndId></Refs>
+          <RltdPties>
+            <Dbtr><Nm>Jonas Weber</Nm></Dbtr>
+            <DbtrAcct><Id><IBAN>DE75512108001245126199</IBAN></Id></DbtrAcct>
+            <Cdtr><Nm>Hausverwaltung Beispiel</Nm></Cdtr>
+          </RltdPties>
+          <RmtInf><Ustrd>Ruecklastschrift NK-Nachzahlung 2023</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">99.00</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2024-03-04</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+const CAMT052 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.052.001.08">
+  <BkToCstmrAcctRpt>
+    <Rpt>
+      <Acct><Id><IBAN>DE02120300000000202051</IBAN></Id></Acct>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">20.00</Amt><CdtDbtInd>DBIT</CdtDbtInd>
+        <Dt><DtTm>2024-04-02T00:00:00</DtTm></Dt>
+      </Bal>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>ITBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">1180.00</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><DtTm>2024-04-02T12:00:00</DtTm></Dt>
+      </Bal>
+      <Ntry>
+        <Amt Ccy="EUR">1200.00</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><DtTm>2024-04-02T09:30:00</DtTm></BookgDt>
+        <AddtlNtryInf>SAMMELGUTSCHRIFT</AddtlNtryInf>
+        <NtryDtls>
+          <TxDtls>
+            <Amt Ccy="EUR">700.00</Amt>
+            <RltdPties><Dbtr><Pty><Nm>Can Yilmaz</Nm></Pty></Dbtr></RltdPties>
+            <RmtInf><Ustrd>Miete 04/24 Whg W3</Ustrd></RmtInf>
+          </TxDtls>
+          <TxDtls>
+            <Amt Ccy="EUR">500.00</Amt>
+            <RltdPties><UltmtDbtr><Nm>Eva Schulz</Nm></UltmtDbtr></RltdPties>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+    </Rpt>
+  </BkToCstmrAcctRpt>
+</Document>`;
+
+describe("isCamt", () => {
+  test("recognises statements and account reports", () => {
+    assert.equal(isCamt(CAMT053), true);
+    assert.equal(isCamt(CAMT052), true);
+    assert.equal(isCamt("<Document><Other/></Document>"), false);
+  });
+});
+
+describe("parseCamt — CAMT.053", () => {
+  const { transactions, meta } = parseCamt(CAMT053);
+
+  test("reads account, bank, owner and opening/closing balances", () => {
+    assert.deepEqual(meta, {
+      iban: "DE02120300000000202051",
+      bankName: "Deutsche Kreditbank",
+      owner: "Hausverwaltung Beispiel",
+      opening: { date: "2024-03-01", amount: 1500 },
+      closing: { date: "2024-03-04", amount: 2046 },
+    });
+  });
+
+  test("skips pending entries", () => {
+    assert.equal(transactions.length, 3);
+  });
+
+  test("takes the payer of a credit as counterparty, with IBAN and end-to-end ID", () => {
+    assert.deepEqual(transactions[0], {
+      date: "2024-03-01", amount: 850, description: "Miete März Whg. W1", year: 2024, month: 3,
+      counterpartyName: "Anna Müller", counterpartyIban: "DE89370400440532013000", endToEndId: "MIETE-2024-03-W1",
+    });
+  });
+
+  test("takes the payee of a debit as counterparty and drops NOTPROVIDED", () => {
+    const t = transactions[1];
+    assert.equal(t.amount, -54);
+    assert.equal(t.counterpartyName, "Stadtwerke");
+    assert.equal(t.counterpartyIban, "DE12500105170648489890");
+    assert.equal(t.endToEndId, undefined);
+  });
+
+  test("books a reversal in its own direction with the original counterparty", () => {
+    const t = transactions[2];
+    assert.equal(t.amount, -250);
+    assert.equal(t.counterpartyName, "Jonas Weber");
+    assert.equal(t.counterpartyIban, "DE75512108001245126199");
+    assert.equal(t.endToEndId, "NK-2023-W2");
+  });
+});
+
+describe("parseCamt — CAMT.052", () => {
+  const { transactions, meta } = parseCamt(CAMT052);
+
+  test("uses the booked opening and the interim balance as closing", () => {
+    assert.deepEqual(meta?.opening, { date: "2024-04-02", amount: -20 });
+    assert.deepEqual(meta?.closing, { date: "2024-04-02", amount: 1180 });
+  });
+
+  test("splits a batch entry into its transaction details", () => {
+    assert.deepEqual(transactions.map(t => [t.date, t.amount, t.counterpartyName, t.description]), [
+      ["2024-04-02", 700, "Can Yilmaz", "Miete 04/24 Whg W3"],
+      ["2024-04-02", 500, "Eva Schulz", "SAMMELGUTSCHRIFT"],
+    ]);
+  });
+});
+
+describe("parseCamt — errors", () => {
+  test("rejects other XML documents", () => {
+    assert.throws(() => parseCamt("<Document><Other/></Document>"), /Not a CAMT/);
+  });
+});
@@ -0,0 +1,147 @@
+// CAMT.053 (Tagesauszug) und CAMT.052 (untertägiger Kontoreport) nach ISO 20022.
+//
+// Gelesen werden alle Versionen (camt.053.001.02 ff.): Elemente werden über
+// ihren lokalen Namen gesucht, der Namespace spielt keine Rolle. Je Auszug
+// (Stmt bzw. Rpt) liefert der Parser Konto, Inhaber, Anfangs-/Endsaldo und
+// die gebuchten Umsätze (Ntry). Sammelbuchungen mit mehreren TxDtls werden in
+// Einzelumsätze aufgeteilt, sofern jeder Einzelumsatz einen Betrag trägt.
+// Vorgemerkte Umsätze (Status PDNG/INFO) werden übersprungen. Bei Storni
+// (RvslInd) gibt CdtDbtInd die Richtung der Stornobuchung an; Gegenpartei ist
+// die des ursprünglichen Umsatzes (z. B. der Zahler einer Rücklastschrift).
+
+import { toTransaction } from "./statement";
+import type { StatementBalance, StatementMeta, Transaction } from "./statement";
+
+/** Saldentypen: Anfangssaldo (Vortag bzw. gebucht) und Endsaldo (gebucht;
+ *  im untertägigen CAMT.052 ersatzweise der Zwischensaldo ITBD). */
+const OPENING_BALANCE_CODES = ["PRCD", "OPBD"];
+const CLOSING_BALANCE_CODES = ["CLBD", "ITBD"];
+
+function kids(el: Element | null | undefined, name: string): Element[] {
+  if (!el) return [];
+  return Array.from(el.children).filter(c => c.localName === name);
+}
+
+/** Erstes Element entlang eines Pfads lokaler Namen. */
+function at(el: Element | null | undefined, ...path: string[]): Element | null {
+  let cur: Element | null | undefined = el;
+  for (const name of path) {
+    cur = kids(cur, name)[0];
+    if (!cur) return null;
+  }
+  return cur ?? null;
+}
+
+function text(el: Element | null | undefined, ...path: string[]): string {
+  return (at(el, ...path)?.textContent ?? "").replace(/\s+/g, " ").trim();
+}
+
+/** Betrag mit Vorzeichen aus Amt und CdtDbtInd (DBIT = negativ). */
+function signedAmount(amt: Element | null, indicator: string): number {
+  const v = parseFloat(amt?.textContent ?? "");
+  if (!Number.isFinite(v)) return NaN;
+  return indicator === "DBIT" ? -v : v;
+}
+
+/** Datum aus <Dt> oder <DtTm> (YYYY-MM-DD). */
+function dateOf(el: Element | null): string {
+  return (text(el, "Dt") || text(el, "DtTm")).slice(0, 10);
+}
+
+/** Name einer Partei (camt.053.001.02: Dbtr/Nm, ab .08: Dbtr/Pty/Nm). */
+function partyName(party: Element | null): string {
+  return text(party, "Nm") || text(party, "Pty", "Nm");
+}
+
+function balance(stmt: Element, codes: string[]): StatementBalance | undefined {
+  for (const code of codes) {
+    const bal = kids(stmt, "Bal").find(b => text(b, "Tp", "CdOrPrtry", "Cd") === code);
+    if (!bal) continue;
+    const amount = signedAmount(at(bal, "Amt"), text(bal, "CdtDbtInd"));
+    if (Number.isFinite(amount)) return { date: dateOf(at(bal, "Dt")), amount };
+  }
+  return undefined;
+}
+
+/** Umsätze eines Eintrags (Ntry), bei Sammelbuchungen je TxDtls einer. */
+function entryTransactions(entry: Element): Transaction[] {
+  const status = text(entry, "Sts", "Cd") || text(entry, "Sts");
+  if (status && status !== "BOOK") return [];
+  const indicator = text(entry, "CdtDbtInd");
+  const amount = signedAmount(at(entry, "Amt"), indicator);
+  const date = dateOf(at(entry, "BookgDt")) || dateOf(at(entry, "ValDt"));
+  if (!Number.isFinite(amount) || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return [];
+  const entryInfo = text(entry, "AddtlNtryInf");
+  const reversal = text(entry, "RvslInd") === "true";
+
+  const details = kids(entry, "NtryDtls").flatMap(d => kids(d, "TxDtls"));
+  const detailAmount = (tx: Element) => {
+    const amt = at(tx, "AmtDtls", "TxAmt", "Amt") ?? at(tx, "Amt");
+    return amt ? signedAmount(amt, text(tx, "CdtDbtInd") || indicator) : NaN;
+  };
+  const split = details.length > 1 && details.every(tx => Number.isFinite(detailAmount(tx)));
+
+  const describe = (tx: Element | undefined): Transaction => {
+    // Gegenpartei: bei Gutschriften der Zahler, bei Belastungen der Empfänger
+    // (bei Storni bezogen auf den ursprünglichen Umsatz).
+    const incoming = (indicator !== "DBIT") !== reversal;
+    const parties = at(tx, "RltdPties");
+    const name = partyName(at(parties, incoming ? "Dbtr" : "Cdtr"))
+      || partyName(at(parties, incoming ? "UltmtDbtr" : "UltmtCdtr"));
+    const iban = text(parties, incoming ? "DbtrAcct" : "CdtrAcct", "Id", "IBAN");
+    const remittance = kids(at(tx, "RmtInf"), "Ustrd").map(u => (u.textContent ?? "").trim()).filter(Boolean).join(" ");
+    const e2e = text(tx, "Refs", "EndToEndId");
+    const description = remittance || text(tx, "AddtlTxInf") || entryInfo || name;
+    return toTransaction(date, split && tx ? detailAmount(tx) : amount, description.replace(/\s+/g, " ").trim(), {
+      ...(name ? { counterpartyName: name } : {}),
+      ...(iban ? { counterpartyIban: iban.replace(/\s/g, "") } : {}),
+      ...(e2e && e2e !== "NOTPROVIDED" ? { endToEndId: e2e } : {}),
+    });
+  };
+
+  return split ? details.map(describe) : [describe(details[0])];
+}
+
+export type CamtStatement = {
+  transactions: Transaction[];
+  /** Kontoangaben; bankName ist der Name des kontoführenden Instituts laut Datei (ggf. leer). */
+  meta: StatementMeta | null;
+};
+
+/** true, wenn der Text ein CAMT.052/053-Dokument ist. */
+export function isCamt(xml: string): boolean {
+  return /<(?:\w+:)?(BkToCstmrStmt|BkToCstmrAcctRpt)\b/.test(xml);
+}
+
+/** Liest ein CAMT.053- oder CAMT.052-Dokument. Mehrere Auszüge werden
+ *  zusammengefasst: Anfangssaldo des ersten, Endsaldo des letzten Auszugs. */
+export function parseCamt(xml: string): CamtStatement {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) throw new Error("Invalid XML");
+  const root = doc.documentElement;
+  const container = at(root, "BkToCstmrStmt") ?? at(root, "BkToCstmrAcctRpt");
+  if (!container) throw new Error("Not a CAMT.052/053 document");
+  const statements = [...kids(container, "Stmt"), ...kids(container, "Rpt")];
+
+  const transactions: Transaction[] = [];
+  let meta: StatementMeta | null = null;
+  for (const stmt of statements) {
+    for (const entry of kids(stmt, "Ntry")) transactions.push(...entryTransactions(entry));
+    const iban = text(stmt, "Acct", "Id", "IBAN").replace(/\s/g, "");
+    const opening = balance(stmt, OPENING_BALANCE_CODES);
+    const closing = balance(stmt, CLOSING_BALANCE_CODES);
+    if (!meta && iban) {
+      meta = {
+        iban,
+        bankName: text(stmt, "Acct", "Svcr", "FinInstnId", "Nm"),
+        owner: text(stmt, "Acct", "Ownr", "Nm") || undefined,
+        opening,
+        closing,
+      };
+    } else if (meta && closing) {
+      meta.closing = closing;
+    }
+  }
+  transactions.sort((a, b) => a.date.localeCompare(b.date));
+  return { transactions, meta };
+}
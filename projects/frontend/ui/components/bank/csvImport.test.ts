@@ -0,0 +1,158 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_CUSTOM_CSV_PROFILE,
+  detectCsvProfile,
+  parseCsvAmount,
+  parseCsvDate,
+  parseCsvRows,
+  parseCsvStatement,
+} from "./csvImport.js";
+
+// Export samples, shortened to the columns and rows each bank actually writes
+const SPARKASSE = [
+  '"Auftragskonto";"Buchungstag";"Valutadatum";"Buchungstext";"Verwendungszweck";"Kundenreferenz (End-to-End)";"Beguenstigter/Zahlungspflichtiger";"Kontonummer/IBAN";"BIC (SWIFT-Code)";"Betrag";"Waehrung";"Info"',
+  '"DE02120300000000202051";"01.03.24";"01.03.24";"GUTSCHR. UEBERW.";"Miete März Whg. W1";"MIETE-2024-03";"Anna Müller";"DE89 3704 0044 0532 0130 00";"COBADEFFXXX";"850,00";"EUR";"Umsatz gebucht"',
+  '"DE02120300000000202051";"04.03.24";"04.03.24";"LASTSCHRIFT";"Abschlag Strom";"NOTPROVIDED";"Stadtwerke";"DE12500105170648489890";"INGDDEFFXXX";"-54,00";"EUR";"Umsatz vorgemerkt"',
+].join("\r\n");
+
+const ING = [
+  "Umsatzanzeige;Datei erstellt am: 05.03.2024 10:00",
+  "IBAN;DE12 5001 0517 0648 4898 90",
+  "",
+  "Buchung;Valuta;Auftraggeber/Empfänger;Buchungstext;Verwendungszweck;Saldo;Währung;Betrag;Währung",
+  "01.03.2024;01.03.2024;Anna Müller;Gutschrift;Miete März;2.350,00;EUR;850,00;EUR",
+  "02.03.2024;02.03.2024;Stadtwerke;Lastschrift;Abschlag Strom;2.296,00;EUR;-54,00;EUR",
+].join("\n");
+
+const DKB = [
+  '"Girokonto";"DE75512108001245126199"',
+  '"Zeitraum:";"01.03.2024 - 05.03.2024"',
+  '""',
+  '"Buchungsdatum";"Wertstellung";"Status";"Zahlungspflichtige*r";"Zahlungsempfänger*in";"Verwendungszweck";"Umsatztyp";"IBAN";"Betrag (€)";"Gläubiger-ID";"Mandatsreferenz";"Kundenreferenz"',
+  '"01.03.24";"01.03.24";"Gebucht";"Anna Müller";"Hausverwaltung";"Miete März";"Eingang";"DE89370400440532013000";"1.850,00 €";"";"";"MIETE-2024-03"',
+  '"02.03.24";"02.03.24";"Gebucht";"Hausverwaltung";"Stadtwerke";"Abschlag Strom";"Ausgang";"DE12500105170648489890";"-54,00 €";"";"";""',
+  '"05.03.24";"05.03.24";"Vorgemerkt";"Jonas Weber";"Hausverwaltung";"Miete April";"Eingang";"";"700,00 €";"";"";""',
+].join("\n");
+
+const COMDIRECT = [
+  ';',
+  '"Umsätze Girokonto";"Zeitraum: 30 Tage";',
+  '"Neuer Kontostand";"2.296,00 EUR";',
+  '',
+  '"Buchungstag";"Wertstellung (Valuta)";"Vorgang";"Buchungstext";"Umsatz in EUR";',
+  '"offen";"--";"Lastschrift / Belastung";"Versicherung";"-12,00";',
+  '"01.03.2024";"01.03.2024";"Übertrag / Überweisung";"Auftraggeber: Anna Müller Buchungstext: Miete März";"850,00";',
+  '"02.03.2024";"02.03.2024";"Lastschrift / Belastung";"Empfänger: Stadtwerke Buchungstext: Abschlag Strom";"-54,00";',
+  '',
+  '"Alter Kontostand";"1.500,00 EUR";',
+].join("\r\n");
+
+describe("parseCsvRows", () => {
+  test("handles quotes, escaped quotes and line breaks inside quotes", () => {
+    assert.deepEqual(parseCsvRows('a;"b ""c""";"d\ne"\r\nf;g', ";"), [["a", 'b "c"', "d\ne"], ["f", "g"]]);
+  });
+});
+
+describe("parseCsvDate", () => {
+  test("reads all profile date formats", () => {
+    assert.equal(parseCsvDate("01.03.2024", "DD.MM.YYYY"), "2024-03-01");
+    assert.equal(parseCsvDate("1.3.24", "DD.MM.YY"), "2024-03-01");
+    assert.equal(parseCsvDate("01.03.2024", "DD.MM.YY"), "2024-03-01");
+    assert.equal(parseCsvDate("2024-03-01", "YYYY-MM-DD"), "2024-03-01");
+    assert.equal(parseCsvDate("03/01/2024", "MM/DD/YYYY"), "2024-03-01");
+  });
+
+  test("returns an empty string for invalid or mismatching dates", () => {
+    assert.equal(parseCsvDate("offen", "DD.MM.YYYY"), "");
+    assert.equal(parseCsvDate("01.13.2024", "DD.MM.YYYY"), "");
+    assert.equal(parseCsvDate("2024-03-01", "DD.MM.YYYY"), "");
+    assert.equal(parseCsvDate("01.03.24", "DD.MM.YYYY"), "");
+  });
+});
+
+describe("parseCsvAmount", () => {
+  test("reads decimal comma with thousands separator and currency", () => {
+    assert.equal(parseCsvAmount("1.850,00 €", ","), 1850);
+    assert.equal(parseCsvAmount("-54,00", ","), -54);
+    assert.equal(parseCsvAmount("2.296,00 EUR", ","), 2296);
+  });
+
+  test("reads decimal point with thousands separator", () => {
+    assert.equal(parseCsvAmount("1,850.50", "."), 1850.5);
+    assert.equal(parseCsvAmount("+12.5", "."), 12.5);
+  });
+
+  test("treats a trailing minus as negative", () => {
+    assert.equal(parseCsvAmount("12,50-", ","), -12.5);
+    assert.equal(parseCsvAmount("1.234,56-", ","), -1234.56);
+    assert.equal(parseCsvAmount("99.90-", "."), -99.9);
+  });
+
+  test("returns NaN for text", () => {
+    assert.ok(Number.isNaN(parseCsvAmount("Betrag", ",")));
+    assert.ok(Number.isNaN(parseCsvAmount("", ",")));
+  });
+});
+
+describe("detectCsvProfile", () => {
+  test("recognises the built-in bank exports by their header", () => {
+    assert.equal(detectCsvProfile(SPARKASSE)?.id, "sparkasse");
+    assert.equal(detectCsvProfile(ING)?.id, "ing");
+    assert.equal(detectCsvProfile(DKB)?.id, "dkb");
+    assert.equal(detectCsvProfile(COMDIRECT)?.id, "comdirect");
+  });
+
+  test("returns null for unknown layouts", () => {
+    assert.equal(detectCsvProfile("Datum;Text;Wert\n01.03.2024;Miete;850,00"), null);
+  });
+});
+
+describe("parseCsvStatement", () => {
+  const parse = (text: string) => parseCsvStatement(text, detectCsvProfile(text)!);
+
+  test("Sparkasse: own IBAN, counterparty, end-to-end ID and pending rows skipped", () => {
+    const { transactions, iban } = parse(SPARKASSE);
+    assert.equal(iban, "DE02120300000000202051");
+    assert.deepEqual(transactions, [{
+      date: "2024-03-01", amount: 850, description: "Miete März Whg. W1", year: 2024, month: 3,
+      counterpartyName: "Anna Müller", counterpartyIban: "DE89370400440532013000", endToEndId: "MIETE-2024-03",
+    }]);
+  });
+
+  test("ING: preamble with the account lines before the header", () => {
+    const { transactions, preamble } = parse(ING);
+    assert.deepEqual(preamble, ["Umsatzanzeige Datei erstellt am: 05.03.2024 10:00", "IBAN DE12 5001 0517 0648 4898 90"]);
+    assert.deepEqual(transactions.map(t => [t.date, t.amount, t.counterpartyName]), [
+      ["2024-03-01", 850, "Anna Müller"],
+      ["2024-03-02", -54, "Stadtwerke"],
+    ]);
+  });
+
+  test("DKB: payer for credits, payee for debits, pending rows skipped", () => {
+    const { transactions } = parse(DKB);
+    assert.deepEqual(transactions.map(t => [t.amount, t.counterpartyName, t.endToEndId]), [
+      [1850, "Anna Müller", "MIETE-2024-03"],
+      [-54, "Stadtwerke", undefined],
+    ]);
+  });
+
+  test("comdirect: open rows and balance lines are skipped", () => {
+    const { transactions } = parse(COMDIRECT);
+    assert.deepEqual(transactions.map(t => [t.date, t.amount]), [["2024-03-01", 850], ["2024-03-02", -54]]);
+  });
+
+  test("custom profile with column numbers and debit indicator", () => {
+    const profile = {
+      ...DEFAULT_CUSTOM_CSV_PROFILE,
+      sign: "indicator" as const,
+      dateColumn: "1", amountColumn: "3", indicatorColumn: "4", descriptionColumns: ["2"],
+    };
+    const { transactions } = parseCsvStatement("01.03.2024;Miete;850,00;H\n02.03.2024;Strom;54,00;S\n", profile);
+    assert.deepEqual(transactions.map(t => [t.description, t.amount]), [["Miete", 850], ["Strom", -54]]);
+  });
+
+  test("throws without a header containing date and amount", () => {
+    assert.throws(() => parseCsvStatement("a;b\n1;2", DEFAULT_CUSTOM_CSV_PROFILE), /header/);
+  });
+});
@@ -0,0 +1,302 @@
+// CSV-Umsatzexporte der Banken.
+//
+// Jede Bank exportiert anders: Trennzeichen, Spaltennamen, Datumsformat,
+// Dezimaltrennzeichen und die Darstellung von Belastungen unterscheiden sich.
+// Ein Importprofil beschreibt diese Unterschiede; für Sparkasse (CSV-CAMT),
+// ING, DKB und comdirect sind Profile eingebaut und werden an der Kopfzeile
+// erkannt. Für andere Banken legt der Nutzer ein eigenes Profil mit der
+// Spaltenzuordnung an (im Browser gespeichert wie die DATEV-Einstellungen).
+//
+// Spalten werden über den Namen in der Kopfzeile (Groß-/Kleinschreibung egal)
+// oder über ihre Nummer (ab 1) angegeben. Zeilen vor der Kopfzeile (ING, DKB:
+// Kontoangaben) werden für die IBAN-Erkennung zurückgegeben; Zeilen ohne
+// gültiges Datum oder Betrag (Summen, "offen", Leerzeilen) werden übergangen.
+
+import { toTransaction } from "./statement";
+import type { Transaction } from "./statement";
+
+export type CsvDateFormat = "DD.MM.YYYY" | "DD.MM.YY" | "YYYY-MM-DD" | "MM/DD/YYYY";
+
+/** Vorzeichen der Beträge: mit Vorzeichen (Belastung negativ), umgekehrt
+ *  (Belastung positiv) oder über eine Soll/Haben-Kennzeichenspalte. */
+export type CsvSignConvention = "signed" | "inverted" | "indicator";
+
+export type CsvProfile = {
+  id: string;
+  name: string;
+  delimiter: ";" | "," | "\t";
+  decimal: "," | ".";
+  dateFormat: CsvDateFormat;
+  sign: CsvSignConvention;
+  dateColumn: string;
+  amountColumn: string;
+  /** Soll/Haben-Kennzeichen (nur sign = "indicator") und die Werte, die eine Belastung markieren. */
+  indicatorColumn?: string;
+  debitMarkers?: string[];
+  /** Spalten des Buchungstexts, in dieser Reihenfolge zusammengesetzt. */
+  descriptionColumns: string[];
+  /** Auftraggeber bzw. Empfänger; bei getrennten Spalten (DKB) gilt
+   *  counterpartyDebitColumn für Belastungen. */
+  counterpartyColumn?: string;
+  counterpartyDebitColumn?: string;
+  counterpartyIbanColumn?: string;
+  endToEndColumn?: string;
+  /** Spalte mit der eigenen IBAN (Sparkasse: Auftragskonto). */
+  accountColumn?: string;
+  /** Vorgemerkte Umsätze überspringen (Spalte und Werte). */
+  skipColumn?: string;
+  skipValues?: string[];
+};
+
+export const CUSTOM_CSV_PROFILE_ID = "custom";
+
+export const BUILTIN_CSV_PROFILES: CsvProfile[] = [
+  {
+    id: "sparkasse",
+    name: "Sparkasse (CSV-CAMT)",
+    delimiter: ";",
+    decimal: ",",
+    dateFormat: "DD.MM.YY",
+    sign: "signed",
+    dateColumn: "Buchungstag",
+    amountColumn: "Betrag",
+    descriptionColumns: ["Verwendungszweck"],
+    counterpartyColumn: "Beguenstigter/Zahlungspflichtiger",
+    counterpartyIbanColumn: "Kontonummer/IBAN",
+    endToEndColumn: "Kundenreferenz (End-to-End)",
+    accountColumn: "Auftragskonto",
+    skipColumn: "Info",
+    skipValues: ["Umsatz vorgemerkt"],
+  },
+  {
+    id: "ing",
+    name: "ING",
+    delimiter: ";",
+    decimal: ",",
+    dateFormat: "DD.MM.YYYY",
+    sign: "signed",
+    dateColumn: "Buchung",
+    amountColumn: "Betrag",
+    descriptionColumns: ["Verwendungszweck"],
+    counterpartyColumn: "Auftraggeber/Empfänger",
+  },
+  {
+    id: "dkb",
+    name: "DKB",
+    delimiter: ";",
+    decimal: ",",
+    dateFormat: "DD.MM.YY",
+    sign: "signed",
+    dateColumn: "Buchungsdatum",
+    amountColumn: "Betrag (€)",
+    descriptionColumns: ["Verwendungszweck"],
+    counterpartyColumn: "Zahlungspflichtige*r",
+    counterpartyDebitColumn: "Zahlungsempfänger*in",
+    counterpartyIbanColumn: "IBAN",
+    endToEndColumn: "Kundenreferenz",
+    skipColumn: "Status",
+    skipValues: ["Vorgemerkt"],
+  },
+  {
+    id: "comdirect",
+    name: "comdirect",
+    delimiter: ";",
+    decimal: ",",
+    dateFormat: "DD.MM.YYYY",
+    sign: "signed",
+    dateColumn: "Buchungstag",
+    amountColumn: "Umsatz in EUR",
+    descriptionColumns: ["Buchungstext"],
+  },
+];
+
+/** Vorlage für ein eigenes Profil. */
+export const DEFAULT_CUSTOM_CSV_PROFILE: CsvProfile = {
+  id: CUSTOM_CSV_PROFILE_ID,
+  name: "",
+  delimiter: ";",
+  decimal: ",",
+  dateFormat: "DD.MM.YYYY",
+  sign: "signed",
+  dateColumn: "",
+  amountColumn: "",
+  indicatorColumn: "",
+  debitMarkers: ["S", "Soll", "D"],
+  descriptionColumns: [],
+};
+
+const CUSTOM_PROFILE_KEY = "bank-csv-custom-profile";
+
+export function loadCustomCsvProfile(): CsvProfile {
+  try {
+    const raw = localStorage.getItem(CUSTOM_PROFILE_KEY);
+    if (raw) return { ...DEFAULT_CUSTOM_CSV_PROFILE, ...JSON.parse(raw), id: CUSTOM_CSV_PROFILE_ID };
+  } catch { /* ignore */ }
+  return DEFAULT_CUSTOM_CSV_PROFILE;
+}
+
+export function saveCustomCsvProfile(profile: CsvProfile): void {
+  localStorage.setItem(CUSTOM_PROFILE_KEY, JSON.stringify({ ...profile, id: CUSTOM_CSV_PROFILE_ID }));
+}
+
+/** Zerlegt CSV-Text in Zeilen und Felder (Anführungszeichen, "" als Escape,
+ *  Zeilenumbrüche innerhalb von Anführungszeichen). */
+export function parseCsvRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field); field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field); field = "";
+      rows.push(row); row = [];
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) { row.push(field); rows.push(row); }
+  return rows.map(r => r.map(f => f.trim()));
+}
+
+/** Datum im Profilformat → YYYY-MM-DD ("" wenn ungültig). */
+export function parseCsvDate(s: string, format: CsvDateFormat): string {
+  const v = s.trim();
+  let m: RegExpMatchArray | null = null;
+  let y = 0, mo = 0, d = 0;
+  if (format === "YYYY-MM-DD" && (m = v.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/))) [y, mo, d] = [+m[1], +m[2], +m[3]];
+  else if (format === "MM/DD/YYYY" && (m = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/))) [y, mo, d] = [+m[3], +m[1], +m[2]];
+  else if (format === "DD.MM.YYYY" && (m = v.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/))) [y, mo, d] = [+m[3], +m[2], +m[1]];
+  else if (format === "DD.MM.YY" && (m = v.match(/^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/))) {
+    [y, mo, d] = [+m[3], +m[2], +m[1]];
+    if (m[3].length === 2) y += 2000;
+  }
+  if (!m || mo < 1 || mo > 12 || d < 1 || d > 31) return "";
+  return `${y}-${String(mo).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+}
+
+/** Betrag mit Dezimaltrennzeichen des Profils; Währungszeichen und
+ *  nachgestelltes Minus ("12,50-") werden berücksichtigt. */
+export function parseCsvAmount(s: string, decimal: "," | "."): number {
+  let v = s.replace(/[\s€]|EUR/g, "");
+  const trailingMinus = /^[\d.,]+-$/.test(v);
+  if (trailingMinus) v = `-${v.slice(0, -1)}`;
+  v = decimal === "," ? v.replace(/\./g, "").replace(",", ".") : v.replace(/,/g, "");
+  if (!/^[+-]?\d+(\.\d+)?$/.test(v)) return NaN;
+  return parseFloat(v);
+}
+
+/** Index einer Spalte über Name oder Nummer (ab 1); -1 wenn nicht vorhanden. */
+function columnIndex(header: string[] | null, column: string | undefined): number {
+  const c = (column ?? "").trim();
+  if (!c) return -1;
+  if (/^\d+$/.test(c)) return parseInt(c, 10) - 1;
+  if (!header) return -1;
+  return header.findIndex(h => h.toLowerCase() === c.toLowerCase());
+}
+
+/** Kopfzeile: erste Zeile mit Datums- und Betragsspalte. null, wenn das Profil
+ *  nur Spaltennummern verwendet (Datei ohne Kopfzeile). */
+function findHeader(rows: string[][], profile: CsvProfile): number | null {
+  const byNumber = (c: string) => /^\d+$/.test(c.trim());
+  if (byNumber(profile.dateColumn) && byNumber(profile.amountColumn)) return null;
+  const index = rows.findIndex(r =>
+    columnIndex(r, profile.dateColumn) >= 0 && columnIndex(r, profile.amountColumn) >= 0);
+  return index;
+}
+
+/** true, wenn die Datei zum Profil passt (Kopfzeile mit allen Pflichtspalten). */
+function matches(rows: string[][], profile: CsvProfile): boolean {
+  const index = findHeader(rows, profile);
+  if (index === null || index < 0) return false;
+  const header = rows[index];
+  return profile.descriptionColumns.every(c => columnIndex(header, c) >= 0)
+    && [profile.counterpartyColumn, profile.counterpartyDebitColumn, profile.accountColumn]
+      .every(c => !c || columnIndex(header, c) >= 0);
+}
+
+/** Eingebautes Profil anhand der Kopfzeile erkennen. */
+export function detectCsvProfile(text: string): CsvProfile | null {
+  for (const profile of BUILTIN_CSV_PROFILES) {
+    if (matches(parseCsvRows(text, profile.delimiter), profile)) return profile;
+  }
+  return null;
+}
+
+/** Vermutliche Kopfzeile (Zeile mit den meisten Feldern unter den ersten 30),
+ *  als Vorschlag für die Spaltenzuordnung eines eigenen Profils. */
+export function csvColumns(text: string, delimiter: string): string[] {
+  const rows = parseCsvRows(text, delimiter).slice(0, 30);
+  const filled = (r: string[]) => r.filter(Boolean).length;
+  const header = rows.reduce<string[]>((best, r) => (filled(r) > filled(best) ? r : best), []);
+  return header.filter(Boolean);
+}
+
+export type CsvStatement = {
+  transactions: Transaction[];
+  /** Eigene IBAN aus der Kontospalte des Profils ("" wenn nicht enthalten). */
+  iban: string;
+  /** Zeilen vor der Kopfzeile (Kontoangaben bei ING, DKB), für die IBAN-Erkennung. */
+  preamble: string[];
+};
+
+/** Liest einen CSV-Export mit dem angegebenen Profil. Wirft einen Fehler,
+ *  wenn die Kopfzeile mit Datums- und Betragsspalte fehlt. */
+export function parseCsvStatement(text: string, profile: CsvProfile): CsvStatement {
+  const rows = parseCsvRows(text, profile.delimiter);
+  const headerIndex = findHeader(rows, profile);
+  if (headerIndex !== null && headerIndex < 0) throw new Error("CSV header not found");
+  const header = headerIndex === null ? null : rows[headerIndex];
+  const col = (name: string | undefined) => columnIndex(header, name);
+  const dateCol = col(profile.dateColumn);
+  const amountCol = col(profile.amountColumn);
+  const indicatorCol = col(profile.indicatorColumn);
+  const descriptionCols = profile.descriptionColumns.map(col).filter(i => i >= 0);
+  const counterpartyCol = col(profile.counterpartyColumn);
+  const counterpartyDebitCol = col(profile.counterpartyDebitColumn);
+  const ibanCol = col(profile.counterpartyIbanColumn);
+  const e2eCol = col(profile.endToEndColumn);
+  const accountCol = col(profile.accountColumn);
+  const skipCol = col(profile.skipColumn);
+  const debitMarkers = (profile.debitMarkers ?? []).map(m => m.trim().toLowerCase()).filter(Boolean);
+  const skipValues = (profile.skipValues ?? []).map(v => v.toLowerCase());
+
+  const transactions: Transaction[] = [];
+  let iban = "";
+  for (const row of rows.slice((headerIndex ?? -1) + 1)) {
+    const cell = (i: number) => (i >= 0 ? row[i] ?? "" : "");
+    const date = parseCsvDate(cell(dateCol), profile.dateFormat);
+    let amount = parseCsvAmount(cell(amountCol), profile.decimal);
+    if (!date || !Number.isFinite(amount)) continue;
+    if (skipCol >= 0 && skipValues.includes(cell(skipCol).toLowerCase())) continue;
+    if (profile.sign === "inverted") amount = -amount;
+    if (profile.sign === "indicator") {
+      amount = debitMarkers.includes(cell(indicatorCol).toLowerCase()) ? -Math.abs(amount) : Math.abs(amount);
+    }
+    const name = cell(amount < 0 && counterpartyDebitCol >= 0 ? counterpartyDebitCol : counterpartyCol);
+    const counterpartyIban = cell(ibanCol).replace(/\s/g, "");
+    const e2e = cell(e2eCol);
+    const description = descriptionCols.map(cell).filter(Boolean).join(" ").replace(/\s+/g, " ").trim() || name;
+    if (!iban) iban = cell(accountCol).replace(/\s/g, "");
+    transactions.push(toTransaction(date, amount, description, {
+      ...(name ? { counterpartyName: name } : {}),
+      ...(/^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/.test(counterpartyIban) ? { counterpartyIban } : {}),
+      ...(e2e && e2e !== "NOTPROVIDED" ? { endToEndId: e2e } : {}),
+    }));
+  }
+  transactions.sort((a, b) => a.date.localeCompare(b.date));
+  return {
+    transactions,
+    iban: /^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/.test(iban) ? iban : "",
+    preamble: headerIndex ? rows.slice(0, headerIndex).map(r => r.filter(Boolean).join(" ")).filter(Boolean) : [],
+  };
+}
@@ -0,0 +1,135 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { HIGH_CONFIDENCE, MIN_CONFIDENCE, matchTransaction, matchTransactions, monthHint } from "./matching.js";
+import { toTransaction } from "./statement.js";
+import type { Transaction } from "./statement.js";
+
+// Sample fixtures — use the real JS data shape (plain keys, not CLJS namespaced keys)
+const apartments = [
+  { id: 1, "property-id": 10, code: "W1" },
+  { id: 2, "property-id": 10, code: "W2" },
+];
+
+// Both tenants pay the same rent (700 + 150)
+const tenants = [
+  { id: 11, "apartment-id": 1, "first-name": "Anna", "last-name": "Müller", kaltmiete: 700, "nebenkosten-warm": 150, "start-date": "2020-01-01" },
+  { id: 12, "apartment-id": 2, "first-name": "Jonas", "last-name": "Weber", kaltmiete: 700, "nebenkosten-warm": 150, "start-date": "2020-01-01" },
+];
+
+const allRentPayments = [
+  { id: 1, "apartment-id": 2, year: 2024, month: 1, value: 850, "payer-iban": "DE75512108001245126199" },
+];
+
+const input = { apartments, tenants, allRentPayments };
+
+function tx(date: string, amount: number, description: string, extra: Partial<Transaction> = {}): Transaction {
+  return toTransaction(date, amount, description, extra);
+}
+
+const kinds = (m: { reasons: { kind: string }[] } | null | undefined) => m?.reasons.map(r => r.kind);
+
+describe("monthHint", () => {
+  test("reads month names with and without year", () => {
+    assert.deepEqual(monthHint("Miete März 2024", 2023), { month: 3, year: 2024 });
+    assert.deepEqual(monthHint("Miete Maerz", 2024), { month: 3, year: 2024 });
+    assert.deepEqual(monthHint("Miete Dez 23", 2024), { month: 12, year: 2023 });
+  });
+
+  test("reads numeric months", () => {
+    assert.deepEqual(monthHint("Miete 04/24 Whg W3", 2023), { month: 4, year: 2024 });
+    assert.deepEqual(monthHint("Miete 3.2024", 2023), { month: 3, year: 2024 });
+  });
+
+  test("ignores dates and amounts", () => {
+    assert.equal(monthHint("Überweisung vom 01.03.2024 Betrag 12.50", 2024), null);
+    assert.equal(monthHint("Miete", 2024), null);
+  });
+});
+
+describe("matchTransaction", () => {
+  test("scores a known payer IBAN alone with high confidence", () => {
+    const m = matchTransaction(tx("2024-03-03", 120, "Überweisung", { counterpartyIban: "DE75512108001245126199" }), input);
+    assert.equal(m?.row.aptId, "2");
+    assert.equal(m?.confidence, HIGH_CONFIDENCE);
+    assert.deepEqual(kinds(m), ["iban"]);
+  });
+
+  test("combines full name and expected amount", () => {
+    const m = matchTransaction(tx("2024-03-03", 850, "Miete", { counterpartyName: "Anna Müller" }), input);
+    assert.equal(m?.row.aptId, "1");
+    // 1 − (1 − 0.6) · (1 − 0.5 / 2): the amount fits both apartments
+    assert.equal(m?.confidence, 0.7);
+    assert.deepEqual(kinds(m), ["name", "expectedAmount"]);
+  });
+
+  test("weights the last name alone lower than the full name", () => {
+    const m = matchTransaction(tx("2024-03-03", 850, "Miete", { counterpartyName: "A. Müller" }), input);
+    assert.equal(m?.confidence, 0.55);
+    assert.deepEqual(m?.reasons[0], { kind: "name", name: "Müller" });
+  });
+
+  test("splits the amount between tenants with the same rent and marks it ambiguous", () => {
+    const m = matchTransaction(tx("2024-03-03", 850, "Miete"), input);
+    // 0.5 / 2 per apartment, minus half of the equally scored second candidate
+    assert.equal(m?.confidence, 0.13);
+    assert.ok(m!.confidence < MIN_CONFIDENCE);
+    assert.deepEqual(m?.reasons.at(-1), { kind: "ambiguous", count: 2 });
+  });
+
+  test("counts the apartment code in the purpose", () => {
+    const m = matchTransaction(tx("2024-03-03", 850, "Miete Whg W2", { counterpartyName: "Jonas Weber" }), input);
+    assert.equal(m?.row.aptId, "2");
+    assert.ok(kinds(m)?.includes("apartmentCode"));
+  });
+
+  test("takes the month from the purpose before the booking date", () => {
+    const m = matchTransaction(tx("2024-02-27", 850, "Miete April", { counterpartyName: "Anna Müller" }), input);
+    assert.deepEqual([m?.row.year, m?.row.month], [2024, 4]);
+    assert.ok(kinds(m)?.includes("monthHint"));
+  });
+
+  test("treats payments from the 25th as advance payment for the next month", () => {
+    const before = matchTransaction(tx("2024-02-24", 850, "Miete", { counterpartyName: "Anna Müller" }), input);
+    assert.deepEqual([before?.row.year, before?.row.month], [2024, 2]);
+    const from = matchTransaction(tx("2024-02-25", 850, "Miete", { counterpartyName: "Anna Müller" }), input);
+    assert.deepEqual([from?.row.year, from?.row.month], [2024, 3]);
+    assert.ok(kinds(from)?.includes("advancePayment"));
+    const december = matchTransaction(tx("2024-12-28", 850, "Miete", { counterpartyName: "Anna Müller" }), input);
+    assert.deepEqual([december?.row.year, december?.row.month], [2025, 1]);
+  });
+
+  test("does not shift utility payments", () => {
+    const m = matchTransaction(tx("2024-02-26", 300, "Nebenkosten Nachzahlung", { counterpartyName: "Jonas Weber" }), input);
+    assert.equal(m?.row.category, "nebenkosten");
+    assert.equal(m?.row.month, 2);
+    assert.ok(!kinds(m)?.includes("advancePayment"));
+  });
+
+  test("downgrades a month that is already recorded", () => {
+    const m = matchTransaction(tx("2024-01-05", 850, "Miete", { counterpartyName: "Jonas Weber" }), input);
+    assert.equal(m?.confidence, 0.4);
+    assert.ok(kinds(m)?.includes("monthRecorded"));
+  });
+
+  test("ignores debits", () => {
+    assert.equal(matchTransaction(tx("2024-03-03", -850, "Miete"), input), null);
+  });
+});
+
+describe("matchTransactions", () => {
+  test("downgrades all but the most confident suggestion for the same month", () => {
+    const matches = matchTransactions([
+      tx("2024-03-01", 850, "Miete", { counterpartyName: "Anna Müller" }),
+      tx("2024-03-02", 850, "Miete März", { counterpartyName: "Anna Müller" }),
+    ], input);
+    assert.equal(matches[0].confidence, 0.7);
+    assert.ok(!kinds(matches[0])?.includes("monthTwice"));
+    assert.equal(matches[1].confidence, 0.4);
+    assert.equal(matches[1].reasons.at(-1)?.kind, "monthTwice");
+  });
+
+  test("leaves out suggestions below the minimum confidence", () => {
+    const matches = matchTransactions([tx("2024-03-03", 850, "Miete")], input);
+    assert.deepEqual(matches, {});
+  });
+});
@@ -0,0 +1,256 @@
+// Zuordnungsvorschläge für Kontoumsätze.
+//
+// Für jede Gutschrift wird jede Wohnung mit zum Buchungsdatum aktivem Mieter
+// bewertet. Signale (mit Gewicht):
+//   - Zahler-IBAN wurde früher schon dieser Wohnung zugeordnet   0,8
+//   - Name des Mieters im Auftraggeber bzw. Verwendungszweck     0,6 (nur Nachname 0,4)
+//   - Betrag = Kaltmiete + NK-Vorauszahlung des Mieters          0,5
+//   - Betrag = zuletzt erfasste Mietzahlung dieser Wohnung       0,3
+//   - Wohnungsbezeichnung im Verwendungszweck                    0,2
+// Passt der Betrag zu mehreren Wohnungen (gleiche Miete), wird sein Gewicht
+// auf diese aufgeteilt. Die Gewichte werden wie unabhängige Wahrscheinlich-
+// keiten kombiniert (1 − Π(1 − w)). Liegt ein zweiter Kandidat nahezu gleichauf,
+// sinkt die Sicherheit um die Hälfte seiner Bewertung.
+//
+// Der Monat kommt aus dem Verwendungszweck ("Miete März 2024", "03/24"),
+// sonst aus dem Buchungsdatum; ab dem 25. gilt die Zahlung als Vorauszahlung
+// für den Folgemonat. Ist der Monat für die Wohnung bereits erfasst oder im
+// selben Auszug schon vergeben, wird der Vorschlag abgewertet.
+
+import type { Transaction } from "./statement";
+
+export type TxCategory = "miete" | "nebenkosten" | "expense" | "skip";
+
+export interface RowState {
+  category: TxCategory; aptId: string; propertyId: string;
+  year: number; month: number; expenseLine: string;
+}
+
+export type MatchReason =
+  | { kind: "iban"; iban: string }
+  | { kind: "name"; name: string }
+  | { kind: "expectedAmount"; amount: number }
+  | { kind: "previousAmount"; amount: number }
+  | { kind: "apartmentCode"; code: string }
+  | { kind: "monthHint"; month: number; year: number }
+  | { kind: "advancePayment" }
+  | { kind: "ambiguous"; count: number }
+  | { kind: "monthRecorded" }
+  | { kind: "monthTwice" };
+
+export type TxMatch = {
+  row: RowState;
+  /** 0–1 */
+  confidence: number;
+  reasons: MatchReason[];
+};
+
+/** Ab dieser Sicherheit werden Vorschläge mit einem Klick übernommen. */
+export const HIGH_CONFIDENCE = 0.8;
+/** Darunter wird kein Vorschlag vorbelegt. */
+export const MIN_CONFIDENCE = 0.3;
+
+type MatchInput = {
+  apartments: any[];
+  tenants: any[];
+  allRentPayments: any[];
+};
+
+const MONTH_NAMES: [RegExp, number][] = [
+  [/\bjan(uar)?\b|\bjän(ner)?\b/i, 1], [/\bfeb(ruar)?\b/i, 2], [/\bm(ä|ae)rz\b|\bmrz\b/i, 3],
+  [/\bapr(il)?\b/i, 4], [/\bmai\b/i, 5], [/\bjuni?\b/i, 6], [/\bjuli?\b/i, 7],
+  [/\baug(ust)?\b/i, 8], [/\bsep(t|tember)?\b/i, 9], [/\bokt(ober)?\b/i, 10],
+  [/\bnov(ember)?\b/i, 11], [/\bdez(ember)?\b/i, 12],
+];
+
+function idOf(raw: any): string {
+  if (raw == null) return "";
+  return typeof raw === "object" ? String(raw.id ?? raw["db/id"] ?? "") : String(raw);
+}
+
+function num(v: any): number {
+  return parseFloat(String(v ?? 0).replace(",", ".")) || 0;
+}
+
+/** Kleinbuchstaben, Umlaute ausgeschrieben, Satzzeichen als Leerzeichen. */
+function normalize(s: string): string {
+  return ` ${s.toLowerCase()
+    .replace(/ä/g, "ae").replace(/ö/g, "oe").replace(/ü/g, "ue").replace(/ß/g, "ss")
+    .replace(/[^a-z0-9]+/g, " ")} `;
+}
+
+function containsWord(haystack: string, word: string, minLength = 3): boolean {
+  const w = normalize(word).trim();
+  return w.length >= minLength && haystack.includes(` ${w} `);
+}
+
+function sameAmount(a: number, b: number): boolean {
+  return b > 0 && Math.abs(a - b) < 0.01;
+}
+
+/** Monatsangabe im Verwendungszweck (Monatsname oder MM/JJ(JJ)). */
+export function monthHint(text: string, fallbackYear: number): { month: number; year: number } | null {
+  // "03/2024", "3.2024", "03/24" — nicht Teil eines Datums oder Betrags.
+  const numeric = text.match(/(?<![\d./-])(0?[1-9]|1[0-2])\s*(?:[/.-]\s*(20\d{2})|\/\s*(\d{2}))(?![./-]?\d)/);
+  if (numeric) {
+    const y = parseInt(numeric[2] ?? numeric[3], 10);
+    return { month: parseInt(numeric[1], 10), year: y < 100 ? 2000 + y : y };
+  }
+  for (const [rx, month] of MONTH_NAMES) {
+    const m = text.match(rx);
+    if (!m) continue;
+    const after = text.slice((m.index ?? 0) + m[0].length).match(/^\s*(20\d{2}|\d{2})\b/);
+    const y = after ? parseInt(after[1], 10) : fallbackYear;
+    return { month, year: y < 100 ? 2000 + y : y };
+  }
+  return null;
+}
+
+/** Mieter, deren Mietverhältnis das Datum einschließt, nach Wohnung. */
+function tenantsAt(tenants: any[], date: string): Map<string, any> {
+  const out = new Map<string, any>();
+  for (const tn of tenants) {
+    const start = tn["start-date"] ?? ""; const end = tn["end-date"] ?? "";
+    if ((start && start > date) || (end && end < date)) continue;
+    const aptId = idOf(tn["apartment-id"]);
+    if (aptId && !out.has(aptId)) out.set(aptId, tn);
+  }
+  return out;
+}
+
+function combine(weights: number[]): number {
+  return 1 - weights.reduce((p, w) => p * (1 - w), 1);
+}
+
+type Candidate = { aptId: string; score: number; reasons: MatchReason[] };
+
+/** Sollmiete des Mieters und zuletzt erfasste Mietzahlung der Wohnung. */
+function rentAmounts(tenant: any, payments: any[]): { expected: number; latest: number } {
+  const latest = payments
+    .filter(p => (p["payment-type"] ?? "miete") === "miete")
+    .sort((a, b) => (Number(b.year) - Number(a.year)) || (Number(b.month) - Number(a.month)))[0];
+  return { expected: num(tenant.kaltmiete) + num(tenant["nebenkosten-warm"]), latest: num(latest?.value) };
+}
+
+function scoreApartment(tx: Transaction, apt: any, tenant: any, payments: any[], sameRent: number): Candidate {
+  const aptId = idOf(apt.id ?? apt["db/id"]);
+  const text = normalize(`${tx.counterpartyName ?? ""} ${tx.description}`);
+  const weights: number[] = [];
+  const reasons: MatchReason[] = [];
+
+  const iban = tx.counterpartyIban;
+  if (iban && payments.some(p => (p["payer-iban"] ?? "") === iban)) {
+    weights.push(0.8); reasons.push({ kind: "iban", iban });
+  }
+
+  const first = tenant["first-name"] ?? ""; const last = tenant["last-name"] ?? tenant.name ?? "";
+  if (containsWord(text, last)) {
+    const full = first && containsWord(text, first);
+    weights.push(full ? 0.6 : 0.4);
+    reasons.push({ kind: "name", name: full ? `${first} ${last}` : last });
+  }
+
+  const { expected, latest } = rentAmounts(tenant, payments);
+  if (sameAmount(tx.amount, expected)) {
+    weights.push(0.5 / sameRent); reasons.push({ kind: "expectedAmount", amount: expected });
+  } else if (sameAmount(tx.amount, latest)) {
+    weights.push(0.3 / sameRent); reasons.push({ kind: "previousAmount", amount: latest });
+  }
+
+  const code = String(apt.code ?? "");
+  if (/\d/.test(code) && containsWord(text, code, 2)) {
+    weights.push(0.2); reasons.push({ kind: "apartmentCode", code });
+  }
+
+  return { aptId, score: combine(weights), reasons };
+}
+
+/** Vorschlag für eine Gutschrift; null bei Belastungen oder ohne Kandidat. */
+export function matchTransaction(tx: Transaction, input: MatchInput): TxMatch | null {
+  if (tx.amount <= 0) return null;
+  const active = tenantsAt(input.tenants, tx.date);
+  const paymentsByApt = new Map<string, any[]>();
+  for (const p of input.allRentPayments) {
+    const aptId = idOf(p["apartment-id"]);
+    paymentsByApt.set(aptId, [...(paymentsByApt.get(aptId) ?? []), p]);
+  }
+
+  const occupied = input.apartments
+    .map(apt => ({ apt, aptId: idOf(apt.id ?? apt["db/id"]) }))
+    .filter(({ aptId }) => active.has(aptId));
+  const sameRent = Math.max(1, occupied.filter(({ aptId }) => {
+    const { expected, latest } = rentAmounts(active.get(aptId), paymentsByApt.get(aptId) ?? []);
+    return sameAmount(tx.amount, expected) || sameAmount(tx.amount, latest);
+  }).length);
+
+  const candidates = occupied
+    .map(({ apt, aptId }) => scoreApartment(tx, apt, active.get(aptId), paymentsByApt.get(aptId) ?? [], sameRent))
+    .filter(c => c.score > 0)
+    .sort((a, b) => b.score - a.score);
+  if (candidates.length === 0) return null;
+
+  const [best] = candidates;
+  const reasons = [...best.reasons];
+  let confidence = best.score;
+  const close = candidates.filter(c => best.score - c.score < 0.1);
+  if (close.length > 1) {
+    confidence -= close[1].score / 2;
+    reasons.push({ kind: "ambiguous", count: close.length });
+  }
+
+  const nebenkosten = /nebenkosten|betriebskosten|nk[- ]?(abrechnung|nachzahlung)/i.test(tx.description);
+  const hint = monthHint(tx.description, tx.year);
+  let { year, month } = tx;
+  if (hint) {
+    ({ year, month } = hint);
+    reasons.push({ kind: "monthHint", ...hint });
+  } else if (!nebenkosten && parseInt(tx.date.slice(8, 10), 10) >= 25) {
+    month = month === 12 ? 1 : month + 1;
+    if (month === 1) year += 1;
+    reasons.push({ kind: "advancePayment" });
+  }
+
+  const recorded = (paymentsByApt.get(best.aptId) ?? []).some(p =>
+    Number(p.year) === year && Number(p.month) === month
+    && (p["payment-type"] ?? "miete") === (nebenkosten ? "nebenkosten" : "miete"));
+  if (recorded) {
+    confidence -= 0.3;
+    reasons.push({ kind: "monthRecorded" });
+  }
+
+  return {
+    row: {
+      category: nebenkosten ? "nebenkosten" : "miete",
+      aptId: best.aptId, propertyId: "", year, month, expenseLine: "",
+    },
+    confidence: Math.max(0, Math.min(1, Math.round(confidence * 100) / 100)),
+    reasons,
+  };
+}
+
+/** Vorschläge für alle Umsätze (Index → Vorschlag). Wird derselbe Mietmonat
+ *  einer Wohnung mehrfach vorgeschlagen, behält der sicherste Vorschlag seine
+ *  Bewertung, die übrigen werden abgewertet. */
+export function matchTransactions(transactions: Transaction[], input: MatchInput): Record<number, TxMatch> {
+  const out: Record<number, TxMatch> = {};
+  transactions.forEach((tx, idx) => {
+    const m = matchTransaction(tx, input);
+    if (m && m.confidence >= MIN_CONFIDENCE) out[idx] = m;
+  });
+  const bySlot = new Map<string, number[]>();
+  for (const [idx, m] of Object.entries(out)) {
+    const slot = `${m.row.category}|${m.row.aptId}|${m.row.year}|${m.row.month}`;
+    bySlot.set(slot, [...(bySlot.get(slot) ?? []), Number(idx)]);
+  }
+  for (const idxs of bySlot.values()) {
+    idxs.sort((a, b) => out[b].confidence - out[a].confidence);
+    for (const idx of idxs.slice(1)) {
+      out[idx] = {
+        ...out[idx],
+        confidence: Math.max(0, Math.round((out[idx].confidence - 0.3) * 100) / 100),
+        reasons: [...out[idx].reasons, { kind: "monthTwice" }],
+      };
+    }
+  }
+  return out;
+}
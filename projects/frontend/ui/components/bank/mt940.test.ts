@@ -0,0 +1,91 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { isMt940, parseMt940 } from "./mt940.js";
+
+const STATEMENT = [
+  ":20:STARTUMSE",
+  ":25:12030000/202051",
+  ":28C:00001/001",
+  ":60F:C231228EUR1500,00",
+  // value date 29.12.2023, booked 29.12. — SEPA credit with structured :86:
+  ":61:2312291229C850,00NMSCNONREF",
+  ":86:166?00GUTSCHR. UEBERWEISUNG?109310?20EREF+MIETE-2024-01?21SVWZ+Miete Januar 2024 W?22hg. W1",
+  "?30BYLADEM1001?31DE89370400440532013000?32Anna Müller",
+  // value date 31.12.2023, booked on 02.01.2024
+  ":61:2312310102D54,00NDDTNONREF",
+  ":86:105?00BASISLASTSCHRIFT?20EREF+NOTPROVIDED?21SVWZ+Abschlag Strom?32Stadtwerke",
+  // value date 02.01.2024, booked on 29.12.2023
+  ":61:2401021229C12,50NMSCNONREF",
+  ":86:Zinsgutschrift",
+  ":62F:C240102EUR2308,50",
+  "-",
+  ":20:STARTUMSE",
+  ":25:12030000/202051",
+  ":28C:00002/001",
+  ":60F:C240102EUR2308,50",
+  // reversal of a credit (RC) and of a debit (RD)
+  ":61:240103RC850,00NRTINONREF",
+  ":86:159?00RUECKUEBERWEISUNG?20SVWZ+Rueckgabe Miete?32Anna Müller",
+  ":61:240103RD54,00NRTINONREF",
+  ":86:109?00RUECKLASTSCHRIFT?20Abschlag Strom?21Januar?32Stadtwerke",
+  ":62F:C240103EUR1512,50",
+  "-",
+].join("\r\n");
+
+describe("isMt940", () => {
+  test("recognises MT940 statements", () => {
+    assert.equal(isMt940(STATEMENT), true);
+    assert.equal(isMt940("Buchungstag;Betrag\n01.01.2024;5,00"), false);
+  });
+});
+
+describe("parseMt940", () => {
+  const { transactions, meta } = parseMt940(STATEMENT);
+
+  test("computes the IBAN from BLZ/account and merges the balances of all statements", () => {
+    assert.deepEqual(meta, {
+      iban: "DE02120300000000202051",
+      bankName: "",
+      opening: { date: "2023-12-28", amount: 1500 },
+      closing: { date: "2024-01-03", amount: 1512.5 },
+    });
+  });
+
+  test("reads SEPA subfields across ?2x lines, counterparty and IBAN from :86:", () => {
+    assert.deepEqual(transactions[0], {
+      date: "2023-12-29", amount: 850, description: "Miete Januar 2024 Whg. W1", year: 2023, month: 12,
+      counterpartyName: "Anna Müller", counterpartyIban: "DE89370400440532013000", endToEndId: "MIETE-2024-01",
+    });
+  });
+
+  test("moves the booking date into the next year when it follows a December value date", () => {
+    const t = transactions.find(x => x.amount === -54);
+    assert.equal(t?.date, "2024-01-02");
+    assert.equal(t?.description, "Abschlag Strom");
+    assert.equal(t?.counterpartyName, "Stadtwerke");
+    assert.equal(t?.endToEndId, undefined);
+  });
+
+  test("moves the booking date into the previous year when it precedes a January value date", () => {
+    const t = transactions.find(x => x.amount === 12.5);
+    assert.equal(t?.date, "2023-12-29");
+    assert.equal(t?.description, "Zinsgutschrift");
+  });
+
+  test("books RC as debit and RD as credit", () => {
+    const reversals = transactions.filter(x => x.date === "2024-01-03");
+    assert.deepEqual(reversals.map(x => [x.amount, x.description]), [
+      [-850, "Rueckgabe Miete"],
+      [54, "Abschlag Strom Januar"],
+    ]);
+  });
+
+  test("sorts transactions by date", () => {
+    const dates = transactions.map(x => x.date);
+    assert.deepEqual(dates, [...dates].sort());
+  });
+
+  test("rejects files without statement lines or balances", () => {
+    assert.throws(() => parseMt940(":20:X\n:25:12030000/202051\n"), /Not an MT940/);
+  });
+});
@@ -0,0 +1,180 @@
+// MT940 (SWIFT-Kontoauszug), wie ihn ältere Konten und viele Banken per
+// Online-Banking als .sta-Datei liefern.
+//
+// Ausgewertet werden je Auszug :25: (Kontobezeichnung: IBAN oder BLZ/Konto-
+// nummer, aus der die IBAN berechnet wird), :60F:/:60M: (Anfangssaldo),
+// :61: (Umsatzzeile) mit dem zugehörigen :86: (Mehrzweckfeld) und :62F:/:62M:
+// (Endsaldo). Das :86:-Feld wird im deutschen strukturierten Format (?00
+// Buchungstext, ?20–?29/?60–?63 Verwendungszweck, ?31 IBAN, ?32/?33 Name)
+// gelesen; SEPA-Kennungen (EREF+, SVWZ+ …) im Verwendungszweck werden zerlegt.
+// Nicht strukturierte :86:-Felder werden als Buchungstext übernommen.
+
+import { germanIban, toTransaction } from "./statement";
+import type { StatementBalance, StatementMeta, Transaction } from "./statement";
+
+/** SEPA-Kennungen im Verwendungszweck (DFÜ-Abkommen, Anlage 3). */
+const SEPA_TAGS = ["EREF", "KREF", "MREF", "CRED", "DEBT", "SVWZ", "ABWA", "ABWE", "IBAN", "BIC"];
+const SEPA_TAG_RE = new RegExp(`(${SEPA_TAGS.join("|")})\\+`);
+
+type Field = { tag: string; value: string };
+
+/** Zerlegt die Datei in Felder (:TAG:Inhalt, Folgezeilen gehören zum Feld). */
+function fields(text: string): Field[] {
+  const out: Field[] = [];
+  for (const line of text.replace(/\r\n?/g, "\n").split("\n")) {
+    const m = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (m) out.push({ tag: m[1], value: m[2] });
+    else if (out.length > 0 && !/^-\s*$/.test(line)) out[out.length - 1].value += `\n${line}`;
+  }
+  return out;
+}
+
+/** JJMMTT → YYYY-MM-DD (Jahre 00–79 = 20xx). */
+function swiftDate(yymmdd: string): string {
+  const yy = parseInt(yymmdd.slice(0, 2), 10);
+  return `${yy < 80 ? 2000 + yy : 1900 + yy}-${yymmdd.slice(2, 4)}-${yymmdd.slice(4, 6)}`;
+}
+
+function swiftAmount(s: string): number {
+  return parseFloat(s.replace(",", "."));
+}
+
+/** Saldo aus :60x:/:62x: — C/D, Datum, Währung, Betrag. */
+function parseBalance(value: string): StatementBalance | undefined {
+  const m = value.trim().match(/^([CD])(\d{6})[A-Z]{3}([\d,]+)/);
+  if (!m) return undefined;
+  const amount = swiftAmount(m[3]);
+  return Number.isFinite(amount) ? { date: swiftDate(m[2]), amount: m[1] === "D" ? -amount : amount } : undefined;
+}
+
+/** IBAN aus :25: ("DE02120300000000202051", ggf. mit Währung, oder "BLZ/Konto"). */
+function accountIban(value: string): string {
+  const v = value.replace(/\s/g, "");
+  const iban = v.match(/^([A-Z]{2}\d{2}[A-Z0-9]{10,30}?)(?:[A-Z]{3})?$/);
+  if (iban && !v.includes("/")) return iban[1].startsWith("DE") ? iban[1].slice(0, 22) : iban[1];
+  const legacy = v.match(/^(\d{8})\/(\d{1,10})/);
+  return (legacy && germanIban(legacy[1], legacy[2])) || "";
+}
+
+/** Buchungsdatum der :61:-Zeile; das Buchungsdatum (MMTT) kann über den
+ *  Jahreswechsel vom Valutadatum abweichen. */
+function bookingDate(valueDate: string, entry: string | undefined): string {
+  if (!entry) return valueDate;
+  let year = parseInt(valueDate.slice(0, 4), 10);
+  const valueMonth = parseInt(valueDate.slice(5, 7), 10);
+  const entryMonth = parseInt(entry.slice(0, 2), 10);
+  if (valueMonth === 12 && entryMonth === 1) year += 1;
+  if (valueMonth === 1 && entryMonth === 12) year -= 1;
+  return `${year}-${entry.slice(0, 2)}-${entry.slice(2, 4)}`;
+}
+
+/** Betrag der :61:-Zeile; RC/RD (Storno) kehren das Vorzeichen um. */
+function parseStatementLine(value: string): { date: string; amount: number; reference: string } | null {
+  const m = value.replace(/\n/g, "").match(/^(\d{6})(\d{4})?(RC|RD|C|D)[A-Z]?(\d+,\d{0,2})(.*)$/);
+  if (!m) return null;
+  const amount = swiftAmount(m[4]);
+  if (!Number.isFinite(amount)) return null;
+  const negative = m[3] === "D" || m[3] === "RC";
+  return { date: bookingDate(swiftDate(m[1]), m[2]), amount: negative ? -amount : amount, reference: m[5] };
+}
+
+/** Subfelder eines strukturierten :86:-Felds (?00 … ?63). */
+function subfields(value: string): Map<string, string[]> | null {
+  const flat = value.replace(/\n/g, "");
+  if (!/^\d{3}\?\d{2}/.test(flat)) return null;
+  const out = new Map<string, string[]>();
+  for (const m of flat.slice(3).matchAll(/\?(\d{2})([^?]*)/g)) {
+    out.set(m[1], [...(out.get(m[1]) ?? []), m[2]]);
+  }
+  return out;
+}
+
+/** SEPA-Kennungen aus dem Verwendungszweck; Text vor der ersten Kennung unter "". */
+function sepaParts(purpose: string): Map<string, string> {
+  const out = new Map<string, string>();
+  const parts = purpose.split(SEPA_TAG_RE);
+  if (parts[0].trim()) out.set("", parts[0].trim());
+  for (let i = 1; i < parts.length; i += 2) out.set(parts[i], parts[i + 1].trim());
+  return out;
+}
+
+function describe(line: { date: string; amount: number; reference: string }, info: string | undefined): Transaction {
+  const sub = info !== undefined ? subfields(info) : null;
+  if (!sub) {
+    const text = (info ?? line.reference).replace(/\s+/g, " ").trim();
+    return toTransaction(line.date, line.amount, text);
+  }
+  const get = (...keys: string[]) => keys.flatMap(k => sub.get(k) ?? []);
+  const purposeLines = get("20", "21", "22", "23", "24", "25", "26", "27", "28", "29", "60", "61", "62", "63");
+  // SEPA-Kennungen laufen über Zeilengrenzen: dann ohne Trennzeichen zusammensetzen.
+  const sepa = purposeLines.some(p => SEPA_TAG_RE.test(p));
+  const purpose = purposeLines.join(sepa ? "" : " ");
+  const parts = sepa ? sepaParts(purpose) : new Map([["", purpose]]);
+  const name = get("32", "33").join("").replace(/\s+/g, " ").trim();
+  const account = get("31").join("").replace(/\s/g, "");
+  const e2e = parts.get("EREF");
+  const description = parts.get("SVWZ") || parts.get("") || get("00").join(" ") || name;
+  return toTransaction(line.date, line.amount, description.replace(/\s+/g, " ").trim(), {
+    ...(name ? { counterpartyName: name } : {}),
+    ...(/^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/.test(account) ? { counterpartyIban: account } : {}),
+    ...(e2e && e2e !== "NOTPROVIDED" ? { endToEndId: e2e } : {}),
+  });
+}
+
+export type Mt940Statement = {
+  transactions: Transaction[];
+  /** Kontoangaben; bankName bleibt leer (MT940 enthält nur die BLZ bzw. IBAN). */
+  meta: StatementMeta | null;
+};
+
+/** true, wenn der Text ein MT940-Auszug ist. */
+export function isMt940(text: string): boolean {
+  return /^:20:/m.test(text) && /^:25:/m.test(text) && /^:6[01][FM]?:/m.test(text);
+}
+
+/** Liest eine MT940-Datei. Mehrere Auszüge (auch Folgeseiten mit :60M:/:62M:)
+ *  werden zusammengefasst: Anfangssaldo des ersten, Endsaldo des letzten. */
+export function parseMt940(text: string): Mt940Statement {
+  const transactions: Transaction[] = [];
+  let meta: StatementMeta | null = null;
+  let opening: StatementBalance | undefined;
+  let closing: StatementBalance | undefined;
+  let iban = "";
+  let pending: { date: string; amount: number; reference: string } | null = null;
+
+  const flush = (info?: string) => {
+    if (pending) transactions.push(describe(pending, info));
+    pending = null;
+  };
+
+  for (const { tag, value } of fields(text)) {
+    switch (tag) {
+      case "25":
+        if (!iban) iban = accountIban(value);
+        break;
+      case "60F":
+      case "60M":
+        opening ??= parseBalance(value);
+        break;
+      case "61":
+        flush();
+        pending = parseStatementLine(value);
+        break;
+      case "86":
+        flush(value);
+        break;
+      case "62F":
+      case "62M":
+        flush();
+        closing = parseBalance(value) ?? closing;
+        break;
+      default:
+        flush();
+    }
+  }
+  flush();
+  if (transactions.length === 0 && !opening) throw new Error("Not an MT940 statement");
+  if (iban) meta = { iban, bankName: "", opening, closing };
+  transactions.sort((a, b) => a.date.localeCompare(b.date));
+  return { transactions, meta };
+}
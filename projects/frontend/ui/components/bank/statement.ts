@@ -0,0 +1,60 @@
+// Gemeinsame Typen und Hilfen der Kontoauszug-Importe (PDF, CAMT, MT940, CSV).
+
+/** Ein Umsatz des Kontoauszugs (Betrag positiv = Gutschrift, negativ = Belastung). */
+export interface Transaction {
+  date: string;
+  description: string;
+  amount: number;
+  year: number;
+  month: number;
+  /** Auftraggeber (Gutschrift) bzw. Empfänger (Belastung), soweit im Format enthalten. */
+  counterpartyName?: string;
+  counterpartyIban?: string;
+  /** SEPA End-to-End-Referenz ("NOTPROVIDED" wird ausgelassen). */
+  endToEndId?: string;
+}
+
+/** Saldo zu einem Stichtag (positiv = Guthaben). */
+export interface StatementBalance {
+  date: string;
+  amount: number;
+}
+
+/** Kontoangaben und Salden eines Auszugs. */
+export interface StatementMeta {
+  iban: string;
+  bankName: string;
+  owner?: string;
+  opening?: StatementBalance;
+  closing?: StatementBalance;
+}
+
+/** Umsatz aus Datum (YYYY-MM-DD), Betrag und Text; Jahr/Monat aus dem Datum. */
+export function toTransaction(date: string, amount: number, description: string, extra: Partial<Transaction> = {}): Transaction {
+  return {
+    date, amount, description,
+    year: parseInt(date.slice(0, 4), 10),
+    month: parseInt(date.slice(5, 7), 10),
+    ...extra,
+  };
+}
+
+/** Textdatei lesen: UTF-8, ersatzweise Windows-1252 (Sparkasse, comdirect und
+ *  viele MT940-Dateien sind nicht UTF-8-kodiert). */
+export async function readText(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer).replace(/^﻿/, "");
+  } catch {
+    return new TextDecoder("windows-1252").decode(buffer);
+  }
+}
+
+/** Deutsche IBAN aus Bankleitzahl und Kontonummer (Prüfziffer nach ISO 7064). */
+export function germanIban(blz: string, account: string): string | null {
+  if (!/^\d{8}$/.test(blz) || !/^\d{1,10}$/.test(account)) return null;
+  const bban = blz + account.padStart(10, "0");
+  let rest = 0;
+  for (const ch of `${bban}131400`) rest = (rest * 10 + Number(ch)) % 97;
+  return `DE${String(98 - rest).padStart(2, "0")}${bban}`;
+}
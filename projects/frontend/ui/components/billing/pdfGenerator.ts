@@ -1,24 +1,6 @@
 // PDF generation for Nebenkostenabrechnung using pdf-lib loaded from CDN.
-// pdf-lib UMD build exposes window.PDFLib.
-
-const PDF_LIB_VERSION = "1.17.1";
-const PDF_LIB_CDN = `https://cdn.jsdelivr.net/npm/pdf-lib@${PDF_LIB_VERSION}/dist/pdf-lib.min.js`;
-
-let pdfLibPromise: Promise<any> | null = null;
-
-function loadPdfLib(): Promise<any> {
-  if (pdfLibPromise) return pdfLibPromise;
-  const w = window as any;
-  if (w.PDFLib) return Promise.resolve(w.PDFLib);
-  pdfLibPromise = new Promise((resolve, reject) => {
-    const script = document.createElement("script");
-    script.src = PDF_LIB_CDN;
-    script.onload = () => resolve((window as any).PDFLib);
-    script.onerror = () => reject(new Error("Failed to load pdf-lib"));
-    document.head.appendChild(script);
-  });
-  return pdfLibPromise;
-}
+
+import { loadPdfLib } from "../../lib/pdfLib";
 
 export interface CostLineItem {
   name: string;
@@ -10,6 +10,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
 import { Button } from "../ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../ui/tabs";
 import { Badge } from "../ui/badge";
+import { garageRentDifferences, garageRents } from "../accounting/garageRents";
+import type { GarageRentYear } from "../accounting/garageRents";
 
 const MONTH_KEYS = ["jan","feb","mar","apr","may","jun","jul","aug","sep","oct","nov","dec"];
 const PIE_COLORS  = ["#0088FE","#00C49F","#FFBB28","#FF8042","#8884D8","#82ca9d","#ffc658","#ff7300"];
@@ -19,6 +21,22 @@ function fmt(v: number) {
   return `€${v.toLocaleString("de-DE", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 }
 
+/** Garagenmiete je Monat: erfasste Zahlungen, ohne Zahlungen rechnerisch je Mietmonat. */
+function garageMonthly(rows: GarageRentYear[], payments: any[], month: number) {
+  return rows.reduce((s, r) => {
+    if (r.estimated) return s + (r.expectedMonths.includes(month) ? r.monthly : 0);
+    return s + payments
+      .filter(p => String(p["garage-id"]) === r.garageId && Number(p.year) === r.year && Number(p.month) === month)
+      .reduce((t, p) => t + Number(p.value || 0), 0);
+  }, 0);
+}
+
+function garageIncome(rows: GarageRentYear[], propertyId?: any) {
+  return rows
+    .filter(r => propertyId == null || r.propertyId === String(propertyId))
+    .reduce((s, r) => s + r.income, 0);
+}
+
 function netClass(v: number) {
   return v > 0 ? "text-green-600" : v < 0 ? "text-red-600" : "text-muted-foreground";
 }
@@ -44,6 +62,8 @@ type Props = {
   allCosts?: any[];
   allAptCosts?: any[];
   allRentPayments?: any[];
+  garages?: any[];
+  garagePayments?: any[];
 };
 
 export default function UserAnalytics({
@@ -53,6 +73,8 @@ export default function UserAnalytics({
   allCosts = [],
   allAptCosts = [],
   allRentPayments = [],
+  garages = [],
+  garagePayments = [],
 }: Props) {
   const { t } = useTranslation("analytics");
   const currentYear = new Date().getFullYear();
@@ -63,9 +85,18 @@ export default function UserAnalytics({
 
   // ── Business totals ───────────────────────────────────────────────────────
 
+  const garageRows = useMemo(
+    () => garageRents(garages, year, garagePayments, tenants),
+    [garages, garagePayments, tenants, year]
+  );
+  const totalGarage          = garageIncome(garageRows);
+  const garageEstimatedTotal = garageIncome(garageRows.filter(r => r.estimated));
+  const garageDiffs          = garageRentDifferences(garageRows);
+
   const totalRent = useMemo(
-    () => allRentPayments.filter(p => Number(p.year) === year).reduce((s, p) => s + Number(p.value || 0), 0),
-    [allRentPayments, year]
+    () => allRentPayments.filter(p => Number(p.year) === year).reduce((s, p) => s + Number(p.value || 0), 0)
+      + totalGarage,
+    [allRentPayments, year, totalGarage]
   );
   const totalKaltmiete = useMemo(
     () => allRentPayments.filter(p => Number(p.year) === year).reduce((s, p) => s + Number(p.kaltmiete || 0), 0),
@@ -95,7 +126,7 @@ export default function UserAnalytics({
     return MONTH_KEYS.map((key, idx) => {
       const mth  = idx + 1;
       const pmts = allRentPayments.filter(p => Number(p.year) === year && Number(p.month) === mth);
-      const income = pmts.reduce((s, p) => s + Number(p.value || 0), 0);
+      const income = pmts.reduce((s, p) => s + Number(p.value || 0), 0) + garageMonthly(garageRows, garagePayments, mth);
       const kalt   = pmts.reduce((s, p) => s + Number(p.kaltmiete || 0), 0);
       const nk     = pmts.reduce((s, p) => s + Number(p["nebenkosten-warm"] || 0), 0);
       const other  = Math.max(0, income - kalt - nk);
@@ -112,7 +143,7 @@ export default function UserAnalytics({
         other:           +other.toFixed(2),
       };
     });
-  }, [allRentPayments, totalExpenses, year]);
+  }, [allRentPayments, garageRows, garagePayments, totalExpenses, year]);
 
   // ── Expense breakdown pie ─────────────────────────────────────────────────
 
@@ -133,11 +164,12 @@ export default function UserAnalytics({
   const yearlyData = useMemo(() =>
     years.map(y => ({
       name: String(y),
-      income:   allRentPayments.filter(p => Number(p.year) === y).reduce((s, p) => s + Number(p.value || 0), 0),
+      income:   allRentPayments.filter(p => Number(p.year) === y).reduce((s, p) => s + Number(p.value || 0), 0)
+              + garageIncome(garageRents(garages, y, garagePayments, tenants)),
       expenses: allCosts.filter(c => Number(c.year) === y).reduce((s, c) => s + Number(c.value || 0), 0)
               + allAptCosts.filter(c => Number(c.year) === y).reduce((s, c) => s + Number(c.value || 0), 0),
     })),
-    [allRentPayments, allCosts, allAptCosts, year]
+    [allRentPayments, allCosts, allAptCosts, garages, garagePayments, tenants, year]
   );
 
   // ── Property-level P&L table ──────────────────────────────────────────────
@@ -146,15 +178,16 @@ export default function UserAnalytics({
     properties.map(prop => {
       const pApts  = apartments.filter(a => (a.propertyId ?? a["property-id"]) === prop.id);
       const aptIds = new Set(pApts.map(a => a.id));
-      const inc    = allRentPayments.filter(p => Number(p.year) === year && aptIds.has(p.apartmentId ?? p["apartment-id"])).reduce((s, p) => s + Number(p.value || 0), 0);
+      const inc    = allRentPayments.filter(p => Number(p.year) === year && aptIds.has(p.apartmentId ?? p["apartment-id"])).reduce((s, p) => s + Number(p.value || 0), 0)
+                   + garageIncome(garageRows, prop.id);
       const pc     = allCosts.filter(c => Number(c.year) === year && (c.propertyId ?? c["property-id"]) === prop.id).reduce((s, c) => s + Number(c.value || 0), 0);
       const ac     = allAptCosts.filter(c => Number(c.year) === year && aptIds.has(c.apartmentId ?? c["apartment-id"])).reduce((s, c) => s + Number(c.value || 0), 0);
       return { id: prop.id, name: prop.name, income: inc, expenses: pc + ac, net: inc - pc - ac };
     }),
-    [properties, apartments, allRentPayments, allCosts, allAptCosts, year]
+    [properties, apartments, allRentPayments, allCosts, allAptCosts, garageRows, year]
   );
 
-  const hasData = allRentPayments.length > 0 || allCosts.length > 0 || allAptCosts.length > 0;
+  const hasData = allRentPayments.length > 0 || allCosts.length > 0 || allAptCosts.length > 0 || totalGarage > 0;
 
   // ── Per-property ──────────────────────────────────────────────────────────
 
@@ -163,8 +196,9 @@ export default function UserAnalytics({
   const propAptIds      = useMemo(() => new Set(propApts.map(a => a.id)), [propApts]);
 
   const propIncome = useMemo(
-    () => allRentPayments.filter(p => Number(p.year) === year && propAptIds.has(p.apartmentId ?? p["apartment-id"])).reduce((s, p) => s + Number(p.value || 0), 0),
-    [allRentPayments, year, propAptIds]
+    () => allRentPayments.filter(p => Number(p.year) === year && propAptIds.has(p.apartmentId ?? p["apartment-id"])).reduce((s, p) => s + Number(p.value || 0), 0)
+      + (effectivePropId != null ? garageIncome(garageRows, effectivePropId) : 0),
+    [allRentPayments, year, propAptIds, garageRows, effectivePropId]
   );
   const propPropCosts = useMemo(
     () => allCosts.filter(c => Number(c.year) === year && (c.propertyId ?? c["property-id"]) === effectivePropId).reduce((s, c) => s + Number(c.value || 0), 0),
@@ -256,7 +290,8 @@ export default function UserAnalytics({
         <TabsContent value="business" className="space-y-6 pt-4">
 
           <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
-            <KpiCard label={t("totalIncome")}         value={fmt(totalRent)}          valueClass="text-green-600" />
+            <KpiCard label={t("totalIncome")}         value={fmt(totalRent)}          valueClass="text-green-600"
+              subtitle={totalGarage > 0 ? t("garage.included", { sum: fmt(totalGarage) }) : undefined} />
             <KpiCard label={t("totalExpenses")}       value={fmt(totalExpenses)}       valueClass="text-red-600" />
             <KpiCard label={t("netResult")}           value={fmt(netResult)}           valueClass={netClass(netResult)} />
             <KpiCard label={t("avgMonthlyCashflow")}  value={fmt(avgMonthlyCashflow)}  valueClass={netClass(avgMonthlyCashflow)} />
@@ -264,6 +299,17 @@ export default function UserAnalytics({
             <KpiCard label={t("occupancy")}           value={`${occupancyPct}%`}       subtitle={`${occupiedCount}/${apartments.length} ${t("units")}`} />
           </div>
 
+          {(garageEstimatedTotal > 0 || garageDiffs.length > 0) && (
+            <div className="rounded-lg border bg-muted/40 px-3 py-2 text-xs text-muted-foreground space-y-1">
+              {garageEstimatedTotal > 0 && <p>{t("garage.estimated", { sum: fmt(garageEstimatedTotal) })}</p>}
+              {garageDiffs.map(r => (
+                <p key={r.garageId} className="text-amber-600">
+                  {t("garage.difference", { garage: r.code, expected: fmt(r.expected), received: fmt(r.received) })}
+                </p>
+              ))}
+            </div>
+          )}
+
           {!hasData ? (
             <Card>
               <CardContent className="py-12 text-center">
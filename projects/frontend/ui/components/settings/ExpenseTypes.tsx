@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from "react";
-import { Plus, Pencil, Trash2, Tags, AlertCircle, Search, ChevronLeft, ChevronRight, SplitSquareHorizontal } from "lucide-react";
+import React, { useState, useEffect, useMemo } from "react";
+import { Plus, Pencil, Trash2, Tags, AlertCircle, Search, ChevronLeft, ChevronRight, SplitSquareHorizontal, BookOpen } from "lucide-react";
 import { useTranslation } from "react-i18next";
 import { useToast } from "../../hooks/use-toast";
 import { Button } from "../ui/button";
@@ -10,6 +10,10 @@ const PAGE_SIZE = 10;
 import { Badge } from "../ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../ui/dialog";
 import { Skeleton } from "../ui/skeleton";
+import {
+  accountLabel, allAccounts, configureChart, mappingKey, suggestExpenseAccount,
+} from "../accounting/chartOfAccounts";
+import type { ChartId } from "../accounting/chartOfAccounts";
 
 const DISTRIBUTION_METHODS = ["living-area", "person", "consumed"] as const;
 type DistributionMethod = typeof DISTRIBUTION_METHODS[number];
@@ -33,6 +37,12 @@ type Props = {
   onAdd?: (data: { key: string; nameEn: string; nameDe: string; distributionMethod: DistributionMethod }) => void;
   onUpdate?: (id: string, nameEn: string, nameDe: string, distributionMethod: DistributionMethod) => void;
   onDelete?: (id: string) => void;
+  /** Kontenzuordnungen der Organisation (kind "expense-type" je Schlüssel). */
+  accountMappings?: any[];
+  chart?: ChartId | null;
+  customAccounts?: any[];
+  onSaveAccountMapping?: (data: { kind: "expense-type"; key: string; account: string }) => void;
+  onDeleteAccountMapping?: (id: string) => void;
 };
 
 function displayName(et: ExpenseType, lang: string): string {
@@ -50,6 +60,11 @@ export default function ExpenseTypes({
   onAdd,
   onUpdate,
   onDelete,
+  accountMappings = [],
+  chart = null,
+  customAccounts = [],
+  onSaveAccountMapping,
+  onDeleteAccountMapping,
 }: Props) {
   const { t, i18n } = useTranslation("expenseTypes");
   const { t: tCommon } = useTranslation("common");
@@ -61,10 +76,18 @@ export default function ExpenseTypes({
   const [editNameEn, setEditNameEn] = useState("");
   const [editNameDe, setEditNameDe] = useState("");
   const [editDistributionMethod, setEditDistributionMethod] = useState<DistributionMethod>("living-area");
+  const [editAccount, setEditAccount] = useState("");   // "" = Vorschlag verwenden
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [filterText, setFilterText] = useState("");
   const [page, setPage] = useState(1);
 
+  const expenseAccounts = useMemo(() => {
+    configureChart(chart, customAccounts);
+    return allAccounts().filter(a => a.type === "expense");
+  }, [chart, customAccounts]);
+  const mappingFor = (et: ExpenseType) =>
+    accountMappings.find(m => m.kind === "expense-type" && mappingKey(m.key) === mappingKey(et.key));
+
   useEffect(() => { onLoad?.(); }, []);
   useEffect(() => { setPage(1); }, [filterText, expenseTypes]);
 
@@ -81,11 +104,19 @@ export default function ExpenseTypes({
     setEditNameEn(et["name-en"] || et.name || "");
     setEditNameDe(et["name-de"] || et.name || "");
     setEditDistributionMethod((et["distribution-method"] ?? "living-area") as DistributionMethod);
+    setEditAccount(mappingFor(et)?.account ?? "");
   };
 
   const handleUpdate = () => {
     if (!editNameEn.trim() || !editNameDe.trim() || !editId) return;
     onUpdate?.(editId, editNameEn.trim(), editNameDe.trim(), editDistributionMethod);
+    const et = expenseTypes.find(x => x.id === editId);
+    const mapping = et && mappingFor(et);
+    if (et && editAccount && editAccount !== mapping?.account) {
+      onSaveAccountMapping?.({ kind: "expense-type", key: et.key, account: editAccount });
+    } else if (et && !editAccount && mapping) {
+      onDeleteAccountMapping?.(String(mapping.id));
+    }
     setEditId(null);
     setEditNameEn("");
     setEditNameDe("");
@@ -204,6 +235,22 @@ export default function ExpenseTypes({
                         ))}
                       </select>
                     </div>
+                    {onSaveAccountMapping && (
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-muted-foreground w-6"><BookOpen className="h-3.5 w-3.5" /></span>
+                        <select
+                          value={editAccount}
+                          onChange={(e) => setEditAccount(e.target.value)}
+                          className="h-8 flex-1 rounded-md border border-input bg-background px-2 text-sm"
+                          title={t("fields.account")}
+                        >
+                          <option value="">{t("account.suggestion", { account: accountLabel(suggestExpenseAccount(et.key, et["name-de"] ?? et.name)) })}</option>
+                          {expenseAccounts.map(a => (
+                            <option key={a.number} value={a.number}>{accountLabel(a.number)}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
                     <div className="flex gap-2">
                       <Button size="sm" onClick={handleUpdate} disabled={isSaving || isReadOnly}>
                         {tCommon("save")}
@@ -226,7 +273,18 @@ export default function ExpenseTypes({
                           : (et["name-de"] || et.name || "")}
                       </p>
                     </div>
-                    <Badge variant="outline" className="text-[10px] px-1.5 py-0 shrink-0 ml-auto mr-2">
+                    {(() => {
+                      const mapped = mappingFor(et)?.account;
+                      const no = mapped ?? suggestExpenseAccount(et.key, et["name-de"] ?? et.name);
+                      return (
+                        <Badge variant="outline"
+                          className={`text-[10px] px-1.5 py-0 shrink-0 ml-auto font-mono ${mapped ? "" : "text-muted-foreground border-dashed"}`}
+                          title={mapped ? t("account.mapped") : t("account.suggested")}>
+                          {accountLabel(no)}
+                        </Badge>
+                      );
+                    })()}
+                    <Badge variant="outline" className="text-[10px] px-1.5 py-0 shrink-0 mr-2">
                       {t(`methods.${et["distribution-method"] ?? "living-area"}`)}
                     </Badge>
                   </div>
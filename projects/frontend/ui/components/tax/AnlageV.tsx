@@ -9,8 +9,20 @@ import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
 import { Input } from "../ui/input";
 import { Label } from "../ui/label";
 import { Skeleton } from "../ui/skeleton";
+import { Checkbox } from "../ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
 import { generateAnlageVPdf, downloadPdf, type AnlageVLine, type AnlageVPdfData } from "./anlageVPdf";
+import {
+  loanTerms, loanSchedule, loanYears, monthlyPayment, balanceAtFixedEnd, loanInterestForYear,
+} from "../accounting/loanSchedule";
+import { garageRentDifferences, garageRents } from "../accounting/garageRents";
+import { depreciationForYear, toFixedAsset, type FixedAsset } from "../accounting/fixedAssets";
+import {
+  AFA_METHODS, DEGRESSIVE_RATE, SONDER_AFA_COST_CAP_PER_SQM, SONDER_AFA_MAX_PER_SQM,
+  afaRateOf, buildingAfa, buildingAfaForYear, isHerstellung, sonderAfaCap, suggestedAfaRate, suggestedSwitchYear,
+  type AfaMethod,
+} from "../accounting/buildingAfa";
+import AssetRegister from "./AssetRegister";
 
 type Property = {
   id: string;
@@ -24,6 +36,7 @@ type Property = {
   "ownership-share"?: number | string;
   "acquisition-date"?: string;
   "landlord-name"?: string;
+  "year-built"?: number | string;
 };
 
 type Apartment = {
@@ -39,6 +52,16 @@ type Garage = {
   "property-id"?: string;
   code?: string;
   "monthly-rent"?: number | string | null;
+  "tenant-id"?: string | null;
+  occupied?: boolean;
+};
+
+type GaragePayment = {
+  id: string;
+  "garage-id": string;
+  year: number;
+  month: number;
+  value: number | string;
 };
 
 type RentPayment = {
@@ -66,6 +89,10 @@ type TaxConfig = {
   "building-value"?: number | string;
   "afa-rate"?: number | string;
   "afa-start-date"?: string;
+  "afa-method"?: string;
+  "afa-switch-year"?: number | string;
+  "sonder-afa"?: boolean;
+  "sonder-afa-basis"?: number | string;
 };
 
 type Loan = {
@@ -75,6 +102,11 @@ type Loan = {
   "lender-name"?: string;
   "annual-interest": number | string;
   notes?: string;
+  "original-amount"?: number | string;
+  "interest-rate"?: number | string;
+  "repayment-rate"?: number | string;
+  "payout-date"?: string;
+  "fixed-until"?: string;
 };
 
 type Maintenance = {
@@ -84,6 +116,8 @@ type Maintenance = {
   description?: string;
   amount: number | string;
   "spread-years"?: number | string;
+  /** "herstellung" = nachträgliche Herstellungskosten (AfA-Grundlage), sonst Erhaltungsaufwand. */
+  kind?: string;
 };
 
 type TaxIncome = {
@@ -108,11 +142,15 @@ type Props = {
   properties?: Property[];
   apartments?: Apartment[];
   garages?: Garage[];
+  garagePayments?: GaragePayment[];
+  tenants?: any[];
   allRentPayments?: RentPayment[];
   allCosts?: Cost[];
   taxConfigs?: TaxConfig[];
   loans?: Loan[];
   maintenances?: Maintenance[];
+  /** Anlagenverzeichnis bewegliche Wirtschaftsgüter (fixed-asset Entities). */
+  fixedAssets?: any[];
   taxIncomes?: TaxIncome[];
   taxExpenses?: TaxExpense[];
   expenseTypes?: any[];
@@ -126,6 +164,9 @@ type Props = {
   onAddMaintenance?: (data: any) => void;
   onUpdateMaintenance?: (data: any) => void;
   onDeleteMaintenance?: (id: string) => void;
+  onAddFixedAsset?: (data: any) => void;
+  onUpdateFixedAsset?: (data: any) => void;
+  onDeleteFixedAsset?: (id: string) => void;
 };
 
 function parseNum(v: any): number {
@@ -145,15 +186,68 @@ function costGroup(key: string | undefined): "verwaltung" | "sonstige" | "betrie
   return "betriebskosten";
 }
 
+function emptyLoanForm(year: number) {
+  return {
+    lenderName: "", year: String(year), annualInterest: "", notes: "",
+    annuity: false, originalAmount: "", interestRate: "", repaymentRate: "", payoutDate: "", fixedUntil: "",
+  };
+}
+
+function emptyMaintForm(year: number) {
+  return { description: "", year: String(year), amount: "", spreadYears: "1", kind: "erhaltung" };
+}
+
+/** Tilgungsplan eines Annuitätendarlehens in Jahressummen. */
+function LoanScheduleTable({ terms, highlightYear }: { terms: NonNullable<ReturnType<typeof loanTerms>>; highlightYear: number }) {
+  const { t } = useTranslation("tax");
+  const rows = loanSchedule(terms);
+  const years = loanYears(rows);
+  const fixedEndBalance = balanceAtFixedEnd(terms, rows);
+  return (
+    <div className="overflow-x-auto rounded-lg border bg-muted/10">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b text-muted-foreground">
+            <th className="text-left  font-medium px-3 py-1.5">{t("loans.schedule.year")}</th>
+            <th className="text-right font-medium px-2 py-1.5">{t("loans.schedule.payment")}</th>
+            <th className="text-right font-medium px-2 py-1.5">{t("loans.schedule.interest")}</th>
+            <th className="text-right font-medium px-2 py-1.5">{t("loans.schedule.principal")}</th>
+            <th className="text-right font-medium px-3 py-1.5">{t("loans.schedule.balance")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {years.map(r => (
+            <tr key={r.year} className={`border-b last:border-0 ${r.year === highlightYear ? "bg-primary/5 font-medium" : ""} ${r.afterFixed ? "text-muted-foreground italic" : ""}`}>
+              <td className="px-3 py-1">{r.year}</td>
+              <td className="px-2 py-1 text-right tabular-nums">{fmt(r.payment)}</td>
+              <td className="px-2 py-1 text-right tabular-nums">{fmt(r.interest)}</td>
+              <td className="px-2 py-1 text-right tabular-nums">{fmt(r.principal)}</td>
+              <td className="px-3 py-1 text-right tabular-nums">{fmt(r.closing)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {fixedEndBalance !== undefined && (
+        <p className="px-3 py-2 text-xs text-muted-foreground border-t">
+          {t("loans.schedule.fixedEnd", { date: terms.fixedUntil, balance: fmt(fixedEndBalance) })}
+        </p>
+      )}
+    </div>
+  );
+}
+
 export default function AnlageV({
   properties = [],
   apartments = [],
   garages = [],
+  garagePayments = [],
+  tenants = [],
   allRentPayments = [],
   allCosts = [],
   taxConfigs = [],
   loans = [],
   maintenances = [],
+  fixedAssets = [],
   taxIncomes = [],
   taxExpenses = [],
   isReadOnly = false,
@@ -166,6 +260,9 @@ export default function AnlageV({
   onAddMaintenance,
   onUpdateMaintenance,
   onDeleteMaintenance,
+  onAddFixedAsset,
+  onUpdateFixedAsset,
+  onDeleteFixedAsset,
 }: Props) {
   const { t } = useTranslation("tax");
   const { t: tCommon } = useTranslation("common");
@@ -175,22 +272,26 @@ export default function AnlageV({
   const [selectedPropertyId, setSelectedPropertyId] = useState<string>(
     properties.length > 0 ? String(properties[0].id) : ""
   );
-  const [activeTab, setActiveTab] = useState<"summary" | "config" | "loans" | "maintenance">("summary");
+  const [activeTab, setActiveTab] = useState<"summary" | "config" | "loans" | "maintenance" | "assets">("summary");
   const [generating, setGenerating] = useState(false);
 
   // Config edit state
   const [editingConfig, setEditingConfig] = useState(false);
-  const [cfgForm, setCfgForm] = useState({ landValue: "", buildingValue: "", afaRate: "2", afaStartDate: "" });
+  const [cfgForm, setCfgForm] = useState({
+    landValue: "", buildingValue: "", afaRate: "2", afaStartDate: "",
+    afaMethod: "linear" as AfaMethod, switchYear: "", sonderAfa: false, sonderBasis: "",
+  });
 
   // Loan edit state
   const [addingLoan, setAddingLoan] = useState(false);
   const [editingLoanId, setEditingLoanId] = useState<string | null>(null);
-  const [loanForm, setLoanForm] = useState({ lenderName: "", year: String(currentYear - 1), annualInterest: "", notes: "" });
+  const [loanForm, setLoanForm] = useState(emptyLoanForm(currentYear - 1));
+  const [scheduleLoanId, setScheduleLoanId] = useState<string | null>(null);
 
   // Maintenance edit state
   const [addingMaint, setAddingMaint] = useState(false);
   const [editingMaintId, setEditingMaintId] = useState<string | null>(null);
-  const [maintForm, setMaintForm] = useState({ description: "", year: String(currentYear - 1), amount: "", spreadYears: "1" });
+  const [maintForm, setMaintForm] = useState(emptyMaintForm(currentYear - 1));
 
   useEffect(() => {
     if (!selectedPropertyId && properties.length > 0) {
@@ -214,7 +315,6 @@ export default function AnlageV({
   // ── Derived sets ────────────────────────────────────────────────────────────
   const propertyApts = apartments.filter(a => String(a["property-id"]) === selectedPropertyId);
   const propertyAptIds = new Set(propertyApts.map(a => String(a.id)));
-  const propertyGarages = garages.filter(g => String(g["property-id"]) === selectedPropertyId);
 
   // ── Income ──────────────────────────────────────────────────────────────────
   const yearPayments = allRentPayments.filter(
@@ -234,7 +334,11 @@ export default function AnlageV({
       totalValueFallback += parseNum(p.value);
     }
   }
-  const garageIncome = propertyGarages.reduce((sum, g) => sum + parseNum(g["monthly-rent"]) * 12, 0);
+  // Garagen: erfasste Zahlungen; ohne Zahlungen rechnerisch für die vermieteten Monate
+  const garageRows = garageRents(garages, year, garagePayments, tenants, undefined, selectedPropertyId);
+  const garageIncome = garageRows.reduce((sum, r) => sum + r.income, 0);
+  const garageEstimated = garageRows.filter(r => r.estimated);
+  const garageEstimatedSum = garageEstimated.reduce((sum, r) => sum + r.income, 0);
   const yearTaxIncomes = taxIncomes.filter(i => String(i["property-id"]) === selectedPropertyId && Number(i.year) === year);
   const otherIncomeTotal = yearTaxIncomes.reduce((sum, i) => sum + parseNum(i.amount), 0);
   const totalIncome = totalKaltmiete + totalNK + totalValueFallback + garageIncome + otherIncomeTotal;
@@ -254,48 +358,58 @@ export default function AnlageV({
     else betriebskostenSum += v;
   }
 
-  // ── AfA (depreciation) with pro-rata first year + lifetime cap ──────────────
+  // ── Gebäude-AfA (linear/degressiv, Sonder-AfA § 7b; wie in der Buchhaltung) ─
   const taxConfig = taxConfigs.find(c => String(c["property-id"]) === selectedPropertyId);
   const buildingValue = parseNum(taxConfig?.["building-value"]);
-  const afaRate = taxConfig?.["afa-rate"] !== undefined && taxConfig?.["afa-rate"] !== "" ? parseNum(taxConfig["afa-rate"]) : 2;
-  const fullAfa = buildingValue > 0 && afaRate > 0 ? (buildingValue * afaRate) / 100 : 0;
-  const afaStart = taxConfig?.["afa-start-date"] ? new Date(taxConfig["afa-start-date"] + "T00:00:00") : null;
-  const afaStartYear = afaStart ? afaStart.getFullYear() : null;
-  let afaAmount = fullAfa;
-  let afaNote = "";
-  if (afaStartYear != null) {
-    const lifetimeYears = afaRate > 0 ? Math.ceil(100 / afaRate) : Infinity;
-    if (year < afaStartYear) {
-      afaAmount = 0;
-      afaNote = t("afaNotYet", { defaultValue: "vor AfA-Beginn" });
-    } else if (year >= afaStartYear + lifetimeYears) {
-      afaAmount = 0;
-      afaNote = t("afaDone", { defaultValue: "vollständig abgeschrieben" });
-    } else if (year === afaStartYear) {
-      const monthsInFirstYear = 12 - afaStart!.getMonth(); // Jan=0 → 12 months
-      afaAmount = (fullAfa * monthsInFirstYear) / 12;
-      if (monthsInFirstYear < 12) afaNote = t("afaProRata", { months: monthsInFirstYear, defaultValue: `zeitanteilig ${monthsInFirstYear}/12` });
-    }
+  const afaRate = afaRateOf(taxConfig, selectedProperty);
+  const propertyMaints = maintenances.filter(m => String(m["property-id"]) === selectedPropertyId);
+  const afaParams = taxConfig ? buildingAfa(taxConfig, selectedProperty, apartments, propertyMaints) : null;
+  const afaRow = afaParams ? buildingAfaForYear(afaParams, year) : undefined;
+  const afaAmount = afaRow?.amount ?? 0;
+  const afaRegular = afaRow?.regular ?? 0;
+  const afaSonder = afaRow?.sonder ?? 0;
+  const afaNoteParts: string[] = [];
+  if (afaRow) {
+    if (afaRow.mode === "degressive") afaNoteParts.push(t("afaDegressive", { rate: DEGRESSIVE_RATE }));
+    else if (afaRow.mode === "residual") afaNoteParts.push(t("afaResidual"));
+    else afaNoteParts.push(`${afaRate}% × € ${fmt(buildingValue + afaParams!.additions.filter(a => a.year <= year).reduce((s, a) => s + a.amount, 0))}`);
+    if (afaRow.months < 12) afaNoteParts.push(t("afaProRata", { months: afaRow.months, defaultValue: `zeitanteilig ${afaRow.months}/12` }));
+    if (afaRow.additions > 0) afaNoteParts.push(t("afaAdditions", { amount: fmt(afaRow.additions) }));
+  } else if (afaParams) {
+    afaNoteParts.push(year < Number(afaParams.start.slice(0, 4))
+      ? t("afaNotYet", { defaultValue: "vor AfA-Beginn" })
+      : t("afaDone", { defaultValue: "vollständig abgeschrieben" }));
+  } else if (buildingValue > 0) {
+    afaNoteParts.push(t("afaNoStart"));
   }
+  const afaNote = afaNoteParts.join(" · ");
 
   // ── Loan interest ───────────────────────────────────────────────────────────
-  const yearLoans = loans.filter(l => String(l["property-id"]) === selectedPropertyId && Number(l.year) === year);
-  const totalInterest = yearLoans.reduce((sum, l) => sum + parseNum(l["annual-interest"]), 0);
+  // Annuitätendarlehen liefern die Zinsen laut Tilgungsplan, sonst gilt der erfasste Jahreszins.
+  const totalInterest = loans
+    .filter(l => String(l["property-id"]) === selectedPropertyId)
+    .reduce((sum, l) => sum + loanInterestForYear(l, year), 0);
 
   // ── Erhaltungsaufwand (maintenance) with multi-year spreading ───────────────
-  const propertyMaints = maintenances.filter(m => String(m["property-id"]) === selectedPropertyId);
-  const erhaltungThisYear = propertyMaints.reduce((sum, m) => {
+  //    Nachträgliche Herstellungskosten fließen stattdessen in die AfA-Grundlage.
+  const erhaltungMaints = propertyMaints.filter(m => !isHerstellung(m));
+  const erhaltungThisYear = erhaltungMaints.reduce((sum, m) => {
     const startY = Number(m.year);
     const spread = Math.max(1, Math.round(parseNum(m["spread-years"]) || 1));
     if (year >= startY && year < startY + spread) return sum + parseNum(m.amount) / spread;
     return sum;
   }, 0);
 
+  // ── AfA bewegliche Wirtschaftsgüter (Anlagenverzeichnis) ───────────────────
+  const propertyAssets = fixedAssets.filter(a => String(a["property-id"]) === selectedPropertyId);
+  const assetAfa = depreciationForYear(
+    propertyAssets.map(toFixedAsset).filter((a): a is FixedAsset => a !== null), year);
+
   const yearTaxExpenses = taxExpenses.filter(e => String(e["property-id"]) === selectedPropertyId && Number(e.year) === year);
   const otherExpensesTotal = yearTaxExpenses.reduce((sum, e) => sum + parseNum(e.amount), 0);
 
   const totalDeductionsRaw =
-    betriebskostenSum + verwaltungSum + sonstigeSum + afaAmount + totalInterest + erhaltungThisYear + otherExpensesTotal;
+    betriebskostenSum + verwaltungSum + sonstigeSum + afaAmount + assetAfa + totalInterest + erhaltungThisYear + otherExpensesTotal;
 
   // ── 66 % reduced-rent rule (§21 Abs. 2 EStG) ────────────────────────────────
   const marketAnnual = propertyApts.reduce((sum, a) => sum + parseNum(a["market-rent"]) * 12, 0);
@@ -314,11 +428,26 @@ export default function AnlageV({
   }
   const totalDeductionsEffective = totalDeductionsRaw * deductibleFactor;
 
+  // ── Garagenmieten: rechnerische Werte und Abweichungen Soll/Ist ─────────────
+  if (garageEstimated.length > 0) {
+    const garagesList = garageEstimated.map(r => r.code).join(", ");
+    warnings.push(t("warn.garageEstimated", {
+      garages: garagesList, sum: fmt(garageEstimatedSum),
+      defaultValue: `Keine Garagenzahlungen erfasst (${garagesList}): € ${fmt(garageEstimatedSum)} rechnerisch aus der Monatsmiete angesetzt.`,
+    }));
+  }
+  for (const r of garageRentDifferences(garageRows)) {
+    warnings.push(t("warn.garageDifference", {
+      garage: r.code, expected: fmt(r.expected), received: fmt(r.received),
+      defaultValue: `Garage ${r.code}: erwartet € ${fmt(r.expected)}, erhalten € ${fmt(r.received)}.`,
+    }));
+  }
+
   // ── Anschaffungsnahe Herstellungskosten (§6 Abs. 1 Nr. 1a EStG) ─────────────
   const acqDate = selectedProperty?.["acquisition-date"] ? new Date(selectedProperty["acquisition-date"] + "T00:00:00") : null;
   const acqYear = acqDate ? acqDate.getFullYear() : null;
   if (acqYear != null && buildingValue > 0) {
-    const within3y = propertyMaints
+    const within3y = erhaltungMaints
       .filter(m => Number(m.year) >= acqYear && Number(m.year) <= acqYear + 2)
       .reduce((sum, m) => sum + parseNum(m.amount), 0);
     const threshold = 0.15 * buildingValue;
@@ -343,11 +472,14 @@ export default function AnlageV({
   if (totalKaltmiete > 0)    incomeLines.push({ zeile: "9",  label: t("summary.income.kaltmiete"), amount: totalKaltmiete });
   if (totalValueFallback > 0) incomeLines.push({ zeile: "9",  label: t("summary.income.rent"), amount: totalValueFallback });
   if (totalNK > 0)          incomeLines.push({ zeile: "13", label: t("summary.income.nebenkosten"), amount: totalNK });
-  if (garageIncome > 0)     incomeLines.push({ zeile: "15", label: t("summary.income.garages", { defaultValue: "Garagen / Stellplätze" }), amount: garageIncome });
+  if (garageIncome > 0)     incomeLines.push({ zeile: "15", label: t("summary.income.garages", { defaultValue: "Garagen / Stellplätze" }), amount: garageIncome,
+                             note: garageEstimatedSum > 0 ? t("summary.income.garagesEstimated", { sum: fmt(garageEstimatedSum), defaultValue: `davon € ${fmt(garageEstimatedSum)} rechnerisch` }) : undefined });
   if (otherIncomeTotal > 0) incomeLines.push({ zeile: "21", label: t("summary.income.other", { defaultValue: "Sonstige Einnahmen" }), amount: otherIncomeTotal });
 
   const deductionLines: AnlageVLine[] = [];
-  if (afaAmount > 0)        deductionLines.push({ zeile: "33", label: t("summary.deductions.afa"), amount: afaAmount, note: afaNote || `${afaRate}% × € ${fmt(buildingValue)}` });
+  if (afaRegular > 0)       deductionLines.push({ zeile: afaRow?.mode === "degressive" ? "34" : "33", label: t("summary.deductions.afa"), amount: afaRegular, note: afaNote || undefined });
+  if (afaSonder > 0)        deductionLines.push({ zeile: "35", label: t("summary.deductions.sonderAfa"), amount: afaSonder });
+  if (assetAfa > 0)        deductionLines.push({ zeile: "36", label: t("summary.deductions.assetAfa"), amount: assetAfa });
   if (totalInterest > 0)   deductionLines.push({ zeile: "37", label: t("summary.deductions.interest"), amount: totalInterest });
   if (erhaltungThisYear > 0) deductionLines.push({ zeile: "40", label: t("summary.deductions.erhaltung", { defaultValue: "Erhaltungsaufwand" }), amount: erhaltungThisYear });
   if (betriebskostenSum > 0) deductionLines.push({ zeile: "50", label: t("summary.deductions.betriebskosten", { defaultValue: "Laufende Betriebskosten" }), amount: betriebskostenSum });
@@ -375,8 +507,12 @@ export default function AnlageV({
     setCfgForm({
       landValue: String(taxConfig?.["land-value"] ?? selectedProperty?.["land-value"] ?? ""),
       buildingValue: String(taxConfig?.["building-value"] ?? selectedProperty?.["building-value"] ?? ""),
-      afaRate: String(taxConfig?.["afa-rate"] ?? "2"),
+      afaRate: String(taxConfig?.["afa-rate"] ?? suggestedAfaRate(selectedProperty?.["year-built"])),
       afaStartDate: taxConfig?.["afa-start-date"] ?? selectedProperty?.["acquisition-date"] ?? "",
+      afaMethod: taxConfig?.["afa-method"] === "degressive" ? "degressive" : "linear",
+      switchYear: parseNum(taxConfig?.["afa-switch-year"]) > 0 ? String(taxConfig!["afa-switch-year"]) : "",
+      sonderAfa: !!taxConfig?.["sonder-afa"],
+      sonderBasis: parseNum(taxConfig?.["sonder-afa-basis"]) > 0 ? String(taxConfig!["sonder-afa-basis"]) : "",
     });
     setEditingConfig(true);
   }
@@ -386,15 +522,19 @@ export default function AnlageV({
       propertyId: selectedPropertyId,
       landValue: parseNum(cfgForm.landValue),
       buildingValue: parseNum(cfgForm.buildingValue),
-      afaRate: parseNum(cfgForm.afaRate) || 2,
+      afaRate: parseNum(cfgForm.afaRate) || suggestedAfaRate(selectedProperty?.["year-built"]),
       afaStartDate: cfgForm.afaStartDate || null,
+      afaMethod: cfgForm.afaMethod,
+      afaSwitchYear: cfgForm.afaMethod === "degressive" ? parseInt(cfgForm.switchYear) || 0 : 0,
+      sonderAfa: cfgForm.sonderAfa,
+      sonderAfaBasis: cfgForm.sonderAfa ? parseNum(cfgForm.sonderBasis) : 0,
     });
     setEditingConfig(false);
   }
 
   // ── Loan actions ────────────────────────────────────────────────────────────
   function startAddLoan() {
-    setLoanForm({ lenderName: "", year: String(year), annualInterest: "", notes: "" });
+    setLoanForm(emptyLoanForm(year));
     setAddingLoan(true);
     setEditingLoanId(null);
   }
@@ -404,30 +544,45 @@ export default function AnlageV({
       year: String(loan.year),
       annualInterest: String(loan["annual-interest"] ?? ""),
       notes: loan.notes ?? "",
+      annuity: loanTerms(loan) !== null,
+      originalAmount: String(loan["original-amount"] ?? ""),
+      interestRate: String(loan["interest-rate"] ?? ""),
+      repaymentRate: String(loan["repayment-rate"] ?? ""),
+      payoutDate: loan["payout-date"] ?? "",
+      fixedUntil: loan["fixed-until"] ?? "",
     });
     setEditingLoanId(String(loan.id));
     setAddingLoan(false);
   }
   function saveLoan() {
+    // Ohne Konditionen wird ein bestehender Tilgungsplan mit Betrag 0 aufgehoben.
+    const annuity = loanForm.annuity;
     const data = {
       propertyId: selectedPropertyId,
       lenderName: loanForm.lenderName || null,
-      year: parseInt(loanForm.year) || year,
-      annualInterest: parseNum(loanForm.annualInterest),
+      year: annuity ? parseInt(loanForm.payoutDate.slice(0, 4)) || year : parseInt(loanForm.year) || year,
+      annualInterest: annuity ? 0 : parseNum(loanForm.annualInterest),
       notes: loanForm.notes || null,
+      originalAmount: annuity ? parseNum(loanForm.originalAmount) : 0,
+      interestRate: annuity ? parseNum(loanForm.interestRate) : 0,
+      repaymentRate: annuity ? parseNum(loanForm.repaymentRate) : 0,
+      payoutDate: annuity ? loanForm.payoutDate : "",
+      fixedUntil: annuity ? loanForm.fixedUntil : "",
     };
     if (editingLoanId) { onUpdateLoan?.({ id: editingLoanId, ...data }); setEditingLoanId(null); }
     else { onAddLoan?.(data); setAddingLoan(false); }
-    setLoanForm({ lenderName: "", year: String(year), annualInterest: "", notes: "" });
+    setLoanForm(emptyLoanForm(year));
   }
   function cancelLoanEdit() {
     setAddingLoan(false); setEditingLoanId(null);
-    setLoanForm({ lenderName: "", year: String(year), annualInterest: "", notes: "" });
+    setLoanForm(emptyLoanForm(year));
   }
+  const loanFormValid = !loanForm.annuity
+    || (parseNum(loanForm.originalAmount) > 0 && parseNum(loanForm.interestRate) >= 0 && !!loanForm.payoutDate);
 
   // ── Maintenance actions ─────────────────────────────────────────────────────
   function startAddMaint() {
-    setMaintForm({ description: "", year: String(year), amount: "", spreadYears: "1" });
+    setMaintForm(emptyMaintForm(year));
     setAddingMaint(true);
     setEditingMaintId(null);
   }
@@ -437,6 +592,7 @@ export default function AnlageV({
       year: String(m.year),
       amount: String(m.amount ?? ""),
       spreadYears: String(m["spread-years"] ?? "1"),
+      kind: isHerstellung(m) ? "herstellung" : "erhaltung",
     });
     setEditingMaintId(String(m.id));
     setAddingMaint(false);
@@ -447,15 +603,16 @@ export default function AnlageV({
       description: maintForm.description || null,
       year: parseInt(maintForm.year) || year,
       amount: parseNum(maintForm.amount),
-      spreadYears: Math.max(1, Math.min(5, parseInt(maintForm.spreadYears) || 1)),
+      spreadYears: maintForm.kind === "herstellung" ? 1 : Math.max(1, Math.min(5, parseInt(maintForm.spreadYears) || 1)),
+      kind: maintForm.kind,
     };
     if (editingMaintId) { onUpdateMaintenance?.({ id: editingMaintId, ...data }); setEditingMaintId(null); }
     else { onAddMaintenance?.(data); setAddingMaint(false); }
-    setMaintForm({ description: "", year: String(year), amount: "", spreadYears: "1" });
+    setMaintForm(emptyMaintForm(year));
   }
   function cancelMaintEdit() {
     setAddingMaint(false); setEditingMaintId(null);
-    setMaintForm({ description: "", year: String(year), amount: "", spreadYears: "1" });
+    setMaintForm(emptyMaintForm(year));
   }
 
   // ── PDF ──────────────────────────────────────────────────────────────────────
@@ -494,21 +651,54 @@ export default function AnlageV({
           <Label className="text-xs">{t("loans.lenderName")}</Label>
           <Input value={loanForm.lenderName} onChange={e => setLoanForm(f => ({ ...f, lenderName: e.target.value }))} placeholder={t("loans.lenderPlaceholder")} className="mt-1" />
         </div>
-        <div>
-          <Label className="text-xs">{t("loans.yearLabel")}</Label>
-          <Input type="number" value={loanForm.year} onChange={e => setLoanForm(f => ({ ...f, year: e.target.value }))} className="mt-1" />
-        </div>
-        <div>
-          <Label className="text-xs">{t("loans.annualInterest")} (€)</Label>
-          <Input value={loanForm.annualInterest} onChange={e => setLoanForm(f => ({ ...f, annualInterest: e.target.value }))} placeholder="0,00" className="mt-1" />
+        <div className="flex items-end">
+          <label className="flex items-center gap-2 text-sm pb-2">
+            <input type="checkbox" checked={loanForm.annuity} onChange={e => setLoanForm(f => ({ ...f, annuity: e.target.checked }))} />
+            {t("loans.annuityToggle")}
+          </label>
         </div>
+        {loanForm.annuity ? (
+          <>
+            <div>
+              <Label className="text-xs">{t("loans.originalAmount")} (€)</Label>
+              <Input value={loanForm.originalAmount} onChange={e => setLoanForm(f => ({ ...f, originalAmount: e.target.value }))} placeholder="0,00" className="mt-1" />
+            </div>
+            <div>
+              <Label className="text-xs">{t("loans.payoutDate")}</Label>
+              <Input type="date" value={loanForm.payoutDate} onChange={e => setLoanForm(f => ({ ...f, payoutDate: e.target.value }))} className="mt-1" />
+            </div>
+            <div>
+              <Label className="text-xs">{t("loans.interestRate")} (%)</Label>
+              <Input value={loanForm.interestRate} onChange={e => setLoanForm(f => ({ ...f, interestRate: e.target.value }))} placeholder="3,5" className="mt-1" />
+            </div>
+            <div>
+              <Label className="text-xs">{t("loans.repaymentRate")} (%)</Label>
+              <Input value={loanForm.repaymentRate} onChange={e => setLoanForm(f => ({ ...f, repaymentRate: e.target.value }))} placeholder="2" className="mt-1" />
+            </div>
+            <div>
+              <Label className="text-xs">{t("loans.fixedUntil")}</Label>
+              <Input type="date" value={loanForm.fixedUntil} onChange={e => setLoanForm(f => ({ ...f, fixedUntil: e.target.value }))} className="mt-1" />
+            </div>
+          </>
+        ) : (
+          <>
+            <div>
+              <Label className="text-xs">{t("loans.yearLabel")}</Label>
+              <Input type="number" value={loanForm.year} onChange={e => setLoanForm(f => ({ ...f, year: e.target.value }))} className="mt-1" />
+            </div>
+            <div>
+              <Label className="text-xs">{t("loans.annualInterest")} (€)</Label>
+              <Input value={loanForm.annualInterest} onChange={e => setLoanForm(f => ({ ...f, annualInterest: e.target.value }))} placeholder="0,00" className="mt-1" />
+            </div>
+          </>
+        )}
         <div>
           <Label className="text-xs">{t("loans.notes")}</Label>
           <Input value={loanForm.notes} onChange={e => setLoanForm(f => ({ ...f, notes: e.target.value }))} className="mt-1" />
         </div>
       </div>
       <div className="flex gap-2">
-        <Button size="sm" onClick={saveLoan} disabled={isSaving}><Save className="h-3.5 w-3.5 mr-1.5" />{isSaving ? tCommon("saving") : tCommon("save")}</Button>
+        <Button size="sm" onClick={saveLoan} disabled={isSaving || !loanFormValid}><Save className="h-3.5 w-3.5 mr-1.5" />{isSaving ? tCommon("saving") : tCommon("save")}</Button>
         <Button size="sm" variant="ghost" onClick={cancelLoanEdit}><X className="h-3.5 w-3.5 mr-1" />{tCommon("cancel")}</Button>
       </div>
     </div>
@@ -530,6 +720,16 @@ export default function AnlageV({
           <Input value={maintForm.amount} onChange={e => setMaintForm(f => ({ ...f, amount: e.target.value }))} placeholder="0,00" className="mt-1" />
         </div>
         <div>
+          <Label className="text-xs">{t("maintenance.kind")}</Label>
+          <Select value={maintForm.kind} onValueChange={v => setMaintForm(f => ({ ...f, kind: v }))}>
+            <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="erhaltung">{t("maintenance.kinds.erhaltung")}</SelectItem>
+              <SelectItem value="herstellung">{t("maintenance.kinds.herstellung")}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {maintForm.kind !== "herstellung" && <div>
           <Label className="text-xs">{t("maintenance.spreadYears", { defaultValue: "Verteilung auf Jahre" })}</Label>
           <Select value={maintForm.spreadYears} onValueChange={v => setMaintForm(f => ({ ...f, spreadYears: v }))}>
             <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
@@ -539,9 +739,12 @@ export default function AnlageV({
               ))}
             </SelectContent>
           </Select>
-        </div>
+        </div>}
       </div>
-      {parseNum(maintForm.amount) > 0 && parseInt(maintForm.spreadYears) > 1 && (
+      {maintForm.kind === "herstellung" && (
+        <p className="text-xs text-muted-foreground">{t("maintenance.herstellungHint")}</p>
+      )}
+      {maintForm.kind !== "herstellung" && parseNum(maintForm.amount) > 0 && parseInt(maintForm.spreadYears) > 1 && (
         <p className="text-xs text-muted-foreground">
           {t("maintenance.perYearHint", {
             amount: fmt(parseNum(maintForm.amount) / (parseInt(maintForm.spreadYears) || 1)),
@@ -556,7 +759,17 @@ export default function AnlageV({
     </div>
   );
 
-  const tabs = ["summary", "config", "loans", "maintenance"] as const;
+  // Vorschläge im AfA-Formular (Satz nach Baujahr, Wechseljahr, Sonder-AfA-Grenzen)
+  const suggestedRate = suggestedAfaRate(selectedProperty?.["year-built"]);
+  const formAfa = editingConfig && cfgForm.afaMethod === "degressive"
+    ? buildingAfa({ "building-value": cfgForm.buildingValue, "afa-rate": cfgForm.afaRate, "afa-start-date": cfgForm.afaStartDate },
+        selectedProperty)
+    : null;
+  const formSwitchSuggestion = formAfa ? suggestedSwitchYear(formAfa) : null;
+  const sonderCap = sonderAfaCap(selectedPropertyId, apartments);
+  const sonderCostPerSqm = sonderCap > 0 ? (parseNum(cfgForm.sonderBasis) || parseNum(cfgForm.buildingValue)) / (sonderCap / SONDER_AFA_MAX_PER_SQM) : 0;
+
+  const tabs = ["summary", "config", "loans", "maintenance", "assets"] as const;
 
   return (
     <div className="space-y-4">
@@ -761,14 +974,60 @@ export default function AnlageV({
                       </div>
                       <div>
                         <Label className="text-xs">{t("config.afaRate")} (%)</Label>
-                        <Input value={cfgForm.afaRate} onChange={e => setCfgForm(f => ({ ...f, afaRate: e.target.value }))} placeholder="2" className="mt-1" />
-                        <p className="text-xs text-muted-foreground mt-1">{t("config.afaRateHint")}</p>
+                        <Input value={cfgForm.afaRate} onChange={e => setCfgForm(f => ({ ...f, afaRate: e.target.value }))} placeholder={String(suggestedRate)} className="mt-1" />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {selectedProperty?.["year-built"]
+                            ? t("config.afaRateSuggestion", { year: selectedProperty["year-built"], rate: String(suggestedRate).replace(".", ",") })
+                            : t("config.afaRateHint")}
+                        </p>
                       </div>
                       <div>
                         <Label className="text-xs">{t("config.afaStartDate")}</Label>
                         <Input type="date" value={cfgForm.afaStartDate} onChange={e => setCfgForm(f => ({ ...f, afaStartDate: e.target.value }))} className="mt-1" />
                         <p className="text-xs text-muted-foreground mt-1">{t("config.afaStartHint", { defaultValue: "Im ersten Jahr wird die AfA monatsgenau berechnet." })}</p>
                       </div>
+                      <div>
+                        <Label className="text-xs">{t("config.afaMethod")}</Label>
+                        <Select value={cfgForm.afaMethod} onValueChange={v => setCfgForm(f => ({ ...f, afaMethod: v as AfaMethod }))}>
+                          <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {AFA_METHODS.map(m => <SelectItem key={m} value={m}>{t(`config.afaMethods.${m}`, { rate: DEGRESSIVE_RATE })}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                        {cfgForm.afaMethod === "degressive" && (
+                          <p className="text-xs text-muted-foreground mt-1">{t("config.degressiveHint", { rate: DEGRESSIVE_RATE })}</p>
+                        )}
+                      </div>
+                      {cfgForm.afaMethod === "degressive" && (
+                        <div>
+                          <Label className="text-xs">{t("config.switchYear")}</Label>
+                          <Input type="number" value={cfgForm.switchYear} onChange={e => setCfgForm(f => ({ ...f, switchYear: e.target.value }))} placeholder="—" className="mt-1" />
+                          {formSwitchSuggestion && (
+                            <p className="text-xs text-muted-foreground mt-1">{t("config.switchYearHint", { year: formSwitchSuggestion })}</p>
+                          )}
+                        </div>
+                      )}
+                      <div className="sm:col-span-2 space-y-2">
+                        <label className="flex items-center gap-2 text-sm">
+                          <Checkbox checked={cfgForm.sonderAfa} onCheckedChange={v => setCfgForm(f => ({ ...f, sonderAfa: !!v }))} />
+                          {t("config.sonderAfa")}
+                        </label>
+                        {cfgForm.sonderAfa && (
+                          <div className="grid gap-4 sm:grid-cols-2">
+                            <div>
+                              <Label className="text-xs">{t("config.sonderAfaBasis")} (€)</Label>
+                              <Input value={cfgForm.sonderBasis} onChange={e => setCfgForm(f => ({ ...f, sonderBasis: e.target.value }))} placeholder={cfgForm.buildingValue || "0"} className="mt-1" />
+                            </div>
+                            <div className="text-xs text-muted-foreground space-y-1 self-end">
+                              <p>{t("config.sonderAfaHint", { max: fmt(SONDER_AFA_MAX_PER_SQM) })}</p>
+                              {sonderCap > 0 && <p>{t("config.sonderAfaCap", { area: fmt(sonderCap / SONDER_AFA_MAX_PER_SQM), cap: fmt(sonderCap) })}</p>}
+                              {sonderCostPerSqm > SONDER_AFA_COST_CAP_PER_SQM && (
+                                <p className="text-amber-700">{t("config.sonderAfaCostCap", { cost: fmt(sonderCostPerSqm), limit: fmt(SONDER_AFA_COST_CAP_PER_SQM) })}</p>
+                              )}
+                            </div>
+                          </div>
+                        )}
+                      </div>
                     </div>
                     <div className="flex gap-2">
                       <Button size="sm" onClick={saveConfig} disabled={isSaving}><Save className="h-3.5 w-3.5 mr-1.5" />{isSaving ? tCommon("saving") : tCommon("save")}</Button>
@@ -788,8 +1047,23 @@ export default function AnlageV({
                       </div>
                       <div>
                         <p className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">{t("config.afaRate")}</p>
-                        <p className="text-sm mt-0.5">{taxConfig["afa-rate"] ?? 2} %</p>
+                        <p className="text-sm mt-0.5">{afaRate} %</p>
                       </div>
+                      <div>
+                        <p className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">{t("config.afaMethod")}</p>
+                        <p className="text-sm mt-0.5">
+                          {t(`config.afaMethods.${afaParams?.method ?? "linear"}`, { rate: DEGRESSIVE_RATE })}
+                          {afaParams?.method === "degressive"
+                            ? ` · ${t("config.switchFrom", { year: afaParams.switchYear ?? suggestedSwitchYear(afaParams) })}`
+                            : ""}
+                        </p>
+                      </div>
+                      {afaParams && afaParams.sonderBasis > 0 && (
+                        <div>
+                          <p className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">{t("config.sonderAfa")}</p>
+                          <p className="text-sm mt-0.5 tabular-nums">€ {fmt(afaParams.sonderBasis)}</p>
+                        </div>
+                      )}
                       {taxConfig["afa-start-date"] && (
                         <div>
                           <p className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">{t("config.afaStartDate")}</p>
@@ -799,7 +1073,9 @@ export default function AnlageV({
                     </div>
                     {buildingValue > 0 && (
                       <div className="rounded-lg bg-muted/50 px-3 py-2 text-sm flex justify-between">
-                        <span className="text-muted-foreground">AfA {year} ({afaRate}% × € {fmt(buildingValue)}){afaNote ? ` · ${afaNote}` : ""}</span>
+                        <span className="text-muted-foreground">
+                          AfA {year}{afaNote ? ` (${afaNote})` : ""}{afaSonder > 0 ? ` · ${t("config.sonderAfaAmount", { amount: fmt(afaSonder) })}` : ""}
+                        </span>
                         <span className="font-semibold tabular-nums">€ {fmt(afaAmount)}</span>
                       </div>
                     )}
@@ -834,25 +1110,47 @@ export default function AnlageV({
                   </div>
                 ) : (
                   <div className="space-y-2">
-                    {propertyLoans.map(loan => editingLoanId === String(loan.id) ? (
-                      <React.Fragment key={String(loan.id)}>{LoanForm()}</React.Fragment>
-                    ) : (
-                      <div key={String(loan.id)} className="flex items-center justify-between rounded-xl border p-3">
-                        <div className="min-w-0">
-                          <p className="text-sm font-medium truncate">{loan["lender-name"] || t("loans.unnamed")}</p>
-                          <p className="text-xs text-muted-foreground">{t("loans.yearLabel")}: {loan.year}</p>
-                        </div>
-                        <div className="flex items-center gap-3 shrink-0">
-                          <span className="tabular-nums font-medium text-sm">€ {fmt(parseNum(loan["annual-interest"]))}</span>
-                          {!isReadOnly && (
-                            <div className="flex gap-1">
-                              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startEditLoan(loan)}><Pencil className="h-3.5 w-3.5" /></Button>
-                              <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive hover:text-destructive" onClick={() => onDeleteLoan?.(String(loan.id))}><Trash2 className="h-3.5 w-3.5" /></Button>
+                    {propertyLoans.map(loan => {
+                      if (editingLoanId === String(loan.id)) {
+                        return <React.Fragment key={String(loan.id)}>{LoanForm()}</React.Fragment>;
+                      }
+                      const terms = loanTerms(loan);
+                      const showSchedule = terms !== null && scheduleLoanId === String(loan.id);
+                      return (
+                        <div key={String(loan.id)} className="rounded-xl border p-3 space-y-3">
+                          <div className="flex items-center justify-between">
+                            <div className="min-w-0">
+                              <p className="text-sm font-medium truncate">{loan["lender-name"] || t("loans.unnamed")}</p>
+                              {terms ? (
+                                <p className="text-xs text-muted-foreground">
+                                  {t("loans.termsSummary", {
+                                    amount: fmt(terms.amount), rate: fmt(terms.rate), repayment: fmt(terms.repayment),
+                                    date: terms.payoutDate, payment: fmt(monthlyPayment(terms)),
+                                  })}
+                                </p>
+                              ) : (
+                                <p className="text-xs text-muted-foreground">{t("loans.yearLabel")}: {loan.year}</p>
+                              )}
                             </div>
-                          )}
+                            <div className="flex items-center gap-3 shrink-0">
+                              <span className="tabular-nums font-medium text-sm">€ {fmt(loanInterestForYear(loan, year))}</span>
+                              {terms && (
+                                <Button variant="outline" size="sm" className="h-7" onClick={() => setScheduleLoanId(showSchedule ? null : String(loan.id))}>
+                                  {showSchedule ? t("loans.hideSchedule") : t("loans.showSchedule")}
+                                </Button>
+                              )}
+                              {!isReadOnly && (
+                                <div className="flex gap-1">
+                                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startEditLoan(loan)}><Pencil className="h-3.5 w-3.5" /></Button>
+                                  <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive hover:text-destructive" onClick={() => onDeleteLoan?.(String(loan.id))}><Trash2 className="h-3.5 w-3.5" /></Button>
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                          {showSchedule && terms && <LoanScheduleTable terms={terms} highlightYear={year} />}
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 )}
               </CardContent>
@@ -888,6 +1186,7 @@ export default function AnlageV({
                           <p className="text-sm font-medium truncate">{m.description || t("maintenance.unnamed", { defaultValue: "Erhaltungsaufwand" })}</p>
                           <p className="text-xs text-muted-foreground">
                             {m.year}
+                            {isHerstellung(m) ? ` · ${t("maintenance.kinds.herstellung")}` : ""}
                             {parseNum(m["spread-years"]) > 1 ? ` · ${t("maintenance.spreadBadge", { n: Math.round(parseNum(m["spread-years"])), defaultValue: `auf ${Math.round(parseNum(m["spread-years"]))} Jahre` })}` : ""}
                           </p>
                         </div>
@@ -907,6 +1206,21 @@ export default function AnlageV({
               </CardContent>
             </Card>
           )}
+
+          {/* ── Anlagenverzeichnis (bewegliche Wirtschaftsgüter) tab ─────── */}
+          {activeTab === "assets" && (
+            <AssetRegister
+              assets={propertyAssets}
+              apartments={propertyApts}
+              propertyId={selectedPropertyId}
+              year={year}
+              isReadOnly={isReadOnly}
+              isSaving={isSaving}
+              onAdd={onAddFixedAsset}
+              onUpdate={onUpdateFixedAsset}
+              onDelete={onDeleteFixedAsset}
+            />
+          )}
         </>
       )}
     </div>
@@ -0,0 +1,261 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Plus, Pencil, Trash2, Save, X, ChevronDown, ChevronRight } from "lucide-react";
+import { Button } from "../ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import {
+  ASSET_METHODS, GWG_LIMIT, POOL_MAX, POOL_MIN, POOL_YEARS, assetMethodError, depreciationSchedule, toFixedAsset,
+  type AssetMethod, type FixedAsset,
+} from "../accounting/fixedAssets";
+
+type Props = {
+  /** Anlagegüter der gewählten Immobilie (fixed-asset Entities). */
+  assets: any[];
+  /** Wohnungen der gewählten Immobilie. */
+  apartments: any[];
+  propertyId: string;
+  year: number;
+  isReadOnly?: boolean;
+  isSaving?: boolean;
+  onAdd?: (data: any) => void;
+  onUpdate?: (data: any) => void;
+  onDelete?: (id: string) => void;
+};
+
+const WHOLE_PROPERTY = "__property__";
+
+function parseNum(v: any): number {
+  if (v === null || v === undefined || v === "") return 0;
+  return parseFloat(String(v).replace(",", ".")) || 0;
+}
+
+function fmt(n: number): string {
+  return n.toLocaleString("de-DE", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function emptyForm(year: number) {
+  return { name: "", apartmentId: WHOLE_PROPERTY, acquisitionDate: `${year}-01-01`, cost: "", usefulLife: "10", method: "linear" as AssetMethod };
+}
+
+/** Anlagenverzeichnis einer Immobilie: bewegliche Wirtschaftsgüter mit Abschreibungsplan. */
+export default function AssetRegister({ assets, apartments, propertyId, year, isReadOnly, isSaving, onAdd, onUpdate, onDelete }: Props) {
+  const { t } = useTranslation("tax");
+  const { t: tCommon } = useTranslation("common");
+  const [adding, setAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm(year));
+  const [scheduleId, setScheduleId] = useState<string | null>(null);
+
+  const rows = assets
+    .map(raw => ({ raw, asset: toFixedAsset(raw) }))
+    .filter((x): x is { raw: any; asset: FixedAsset } => x.asset !== null)
+    .sort((a, b) => b.asset.acquisitionDate.localeCompare(a.asset.acquisitionDate));
+
+  const aptCode = (id?: string) => apartments.find(a => String(a.id) === id)?.code ?? id;
+  const yearRow = (a: FixedAsset) => depreciationSchedule(a).find(r => r.year === year);
+  const bookValue = (a: FixedAsset) => {
+    const sched = depreciationSchedule(a);
+    const row = sched.find(r => r.year === year);
+    if (row) return row.closing;
+    return year < Number(a.acquisitionDate.slice(0, 4)) ? null : 0;
+  };
+  const totalYear = rows.reduce((s, x) => s + (yearRow(x.asset)?.amount ?? 0), 0);
+
+  const formCost = parseNum(form.cost);
+  const formLife = parseInt(form.usefulLife) || 0;
+  const formError = formCost > 0 ? assetMethodError(formCost, form.method, formLife) : null;
+  const formValid = !!form.name.trim() && /^\d{4}-\d{2}-\d{2}$/.test(form.acquisitionDate) && formCost > 0 && !formError;
+
+  function startAdd() {
+    setForm(emptyForm(year));
+    setAdding(true);
+    setEditingId(null);
+  }
+  function startEdit(raw: any, a: FixedAsset) {
+    setForm({
+      name: a.name,
+      apartmentId: a.apartmentId ?? WHOLE_PROPERTY,
+      acquisitionDate: a.acquisitionDate,
+      cost: String(raw.cost ?? ""),
+      usefulLife: String(a.usefulLife || ""),
+      method: a.method,
+    });
+    setEditingId(a.id);
+    setAdding(false);
+  }
+  function cancel() {
+    setAdding(false); setEditingId(null);
+    setForm(emptyForm(year));
+  }
+  function save() {
+    const data = {
+      propertyId,
+      apartmentId: form.apartmentId === WHOLE_PROPERTY ? null : form.apartmentId,
+      name: form.name.trim(),
+      acquisitionDate: form.acquisitionDate,
+      cost: formCost,
+      usefulLife: form.method === "linear" ? formLife : null,
+      method: form.method,
+    };
+    if (editingId) onUpdate?.({ id: editingId, ...data });
+    else onAdd?.(data);
+    cancel();
+  }
+
+  const methodLabel = (m: AssetMethod) => t(`assets.methods.${m}`);
+  const errorText = formError === "gwg-limit" ? t("assets.errors.gwgLimit", { limit: fmt(GWG_LIMIT) })
+    : formError === "pool-range" ? t("assets.errors.poolRange", { min: fmt(POOL_MIN), max: fmt(POOL_MAX) })
+    : formError === "useful-life" ? t("assets.errors.usefulLife") : null;
+
+  const AssetForm = () => (
+    <div className="rounded-xl border bg-muted/20 p-4 space-y-3">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="sm:col-span-2">
+          <Label className="text-xs">{t("assets.name")}</Label>
+          <Input value={form.name} onChange={e => setForm(f => ({ ...f, name: e.target.value }))} placeholder={t("assets.namePlaceholder")} className="mt-1" />
+        </div>
+        <div>
+          <Label className="text-xs">{t("assets.apartment")}</Label>
+          <Select value={form.apartmentId} onValueChange={v => setForm(f => ({ ...f, apartmentId: v }))}>
+            <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={WHOLE_PROPERTY}>{t("assets.wholeProperty")}</SelectItem>
+              {apartments.map(a => <SelectItem key={String(a.id)} value={String(a.id)}>{a.code ?? a.id}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs">{t("assets.acquisitionDate")}</Label>
+          <Input type="date" value={form.acquisitionDate} onChange={e => setForm(f => ({ ...f, acquisitionDate: e.target.value }))} className="mt-1" />
+        </div>
+        <div>
+          <Label className="text-xs">{t("assets.cost")} (€)</Label>
+          <Input value={form.cost} onChange={e => setForm(f => ({ ...f, cost: e.target.value }))} placeholder="0,00" className="mt-1" />
+        </div>
+        <div>
+          <Label className="text-xs">{t("assets.method")}</Label>
+          <Select value={form.method} onValueChange={v => setForm(f => ({ ...f, method: v as AssetMethod }))}>
+            <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {ASSET_METHODS.map(m => <SelectItem key={m} value={m}>{methodLabel(m)}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        {form.method === "linear" && (
+          <div>
+            <Label className="text-xs">{t("assets.usefulLife")}</Label>
+            <Input type="number" min={1} value={form.usefulLife} onChange={e => setForm(f => ({ ...f, usefulLife: e.target.value }))} className="mt-1" />
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">{t(`assets.methodHints.${form.method}`, { years: POOL_YEARS })}</p>
+      {errorText && <p className="text-xs text-destructive">{errorText}</p>}
+      <div className="flex gap-2">
+        <Button size="sm" onClick={save} disabled={isSaving || !formValid}><Save className="h-3.5 w-3.5 mr-1.5" />{isSaving ? tCommon("saving") : tCommon("save")}</Button>
+        <Button size="sm" variant="ghost" onClick={cancel}><X className="h-3.5 w-3.5 mr-1" />{tCommon("cancel")}</Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">{t("assets.title")}</CardTitle>
+          {!isReadOnly && !adding && !editingId && (
+            <Button size="sm" onClick={startAdd}><Plus className="h-3.5 w-3.5 mr-1.5" />{t("assets.add")}</Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground">{t("assets.hint")}</p>
+        {adding && AssetForm()}
+        {rows.length === 0 && !adding ? (
+          <div className="text-center py-8">
+            <p className="text-sm text-muted-foreground">{t("assets.empty")}</p>
+            {!isReadOnly && <Button size="sm" variant="outline" className="mt-3" onClick={startAdd}><Plus className="h-3.5 w-3.5 mr-1.5" />{t("assets.add")}</Button>}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {rows.map(({ raw, asset }) => editingId === asset.id ? (
+              <React.Fragment key={asset.id}>{AssetForm()}</React.Fragment>
+            ) : (
+              <div key={asset.id} className="rounded-xl border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <button type="button" className="min-w-0 text-left flex items-start gap-1.5"
+                    onClick={() => setScheduleId(id => id === asset.id ? null : asset.id)}>
+                    {scheduleId === asset.id
+                      ? <ChevronDown className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                      : <ChevronRight className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />}
+                    <span className="min-w-0">
+                      <span className="block text-sm font-medium truncate">{asset.name}</span>
+                      <span className="block text-xs text-muted-foreground">
+                        {asset.acquisitionDate.split("-").reverse().join(".")}
+                        {" · "}{methodLabel(asset.method)}
+                        {asset.method === "linear" ? ` · ${t("assets.lifeBadge", { n: asset.usefulLife })}` : ""}
+                        {" · "}{asset.apartmentId ? aptCode(asset.apartmentId) : t("assets.wholeProperty")}
+                      </span>
+                    </span>
+                  </button>
+                  <div className="flex items-center gap-3 shrink-0">
+                    <div className="text-right">
+                      <p className="tabular-nums font-medium text-sm">€ {fmt(asset.cost)}</p>
+                      <p className="text-xs text-muted-foreground tabular-nums">
+                        {t("assets.yearAmount", { year, amount: fmt(yearRow(asset)?.amount ?? 0) })}
+                      </p>
+                    </div>
+                    {!isReadOnly && (
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startEdit(raw, asset)}><Pencil className="h-3.5 w-3.5" /></Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive hover:text-destructive" onClick={() => onDelete?.(asset.id)}><Trash2 className="h-3.5 w-3.5" /></Button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+                {scheduleId === asset.id && (
+                  <div className="overflow-x-auto rounded-lg border bg-muted/10">
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="border-b text-muted-foreground">
+                          <th className="text-left  font-medium px-3 py-1.5">{t("assets.schedule.year")}</th>
+                          <th className="text-right font-medium px-2 py-1.5">{t("assets.schedule.opening")}</th>
+                          <th className="text-right font-medium px-2 py-1.5">{t("assets.schedule.amount")}</th>
+                          <th className="text-right font-medium px-3 py-1.5">{t("assets.schedule.closing")}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {depreciationSchedule(asset).map(r => (
+                          <tr key={r.year} className={`border-b last:border-0 ${r.year === year ? "bg-primary/5 font-medium" : ""}`}>
+                            <td className="px-3 py-1">{r.year}</td>
+                            <td className="px-2 py-1 text-right tabular-nums">{fmt(r.opening)}</td>
+                            <td className="px-2 py-1 text-right tabular-nums">{fmt(r.amount)}</td>
+                            <td className="px-3 py-1 text-right tabular-nums">{fmt(r.closing)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            ))}
+            <div className="flex items-center justify-between border-t pt-2 text-sm font-medium">
+              <span>{t("assets.total", { year })}</span>
+              <span className="tabular-nums">€ {fmt(totalYear)}</span>
+            </div>
+            {rows.some(x => bookValue(x.asset) !== null && bookValue(x.asset)! > 0) && (
+              <p className="text-xs text-muted-foreground text-right">
+                {t("assets.bookValue", {
+                  year,
+                  amount: fmt(rows.reduce((s, x) => s + (bookValue(x.asset) ?? 0), 0)),
+                })}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
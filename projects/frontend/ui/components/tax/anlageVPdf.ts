@@ -1,26 +1,8 @@
 // PDF generation for the Anlage V (Einkünfte aus Vermietung und Verpachtung)
 // summary using pdf-lib loaded from CDN. The output is a clean, line-mapped
 // overview that the landlord can transcribe into ELSTER / the official form.
-// pdf-lib UMD build exposes window.PDFLib.
-
-const PDF_LIB_VERSION = "1.17.1";
-const PDF_LIB_CDN = `https://cdn.jsdelivr.net/npm/pdf-lib@${PDF_LIB_VERSION}/dist/pdf-lib.min.js`;
-
-let pdfLibPromise: Promise<any> | null = null;
-
-function loadPdfLib(): Promise<any> {
-  if (pdfLibPromise) return pdfLibPromise;
-  const w = window as any;
-  if (w.PDFLib) return Promise.resolve(w.PDFLib);
-  pdfLibPromise = new Promise((resolve, reject) => {
-    const script = document.createElement("script");
-    script.src = PDF_LIB_CDN;
-    script.onload = () => resolve((window as any).PDFLib);
-    script.onerror = () => reject(new Error("Failed to load pdf-lib"));
-    document.head.appendChild(script);
-  });
-  return pdfLibPromise;
-}
+
+import { loadPdfLib } from "../../lib/pdfLib";
 
 export interface AnlageVLine {
   /** Official Anlage V line number, e.g. "9", "33", "50". */
@@ -0,0 +1,354 @@
+import React, { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Check, FileDown, Plus, RotateCcw, X } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  DEDUCTION_KINDS, depositInterest, depositSettlement, openNkClaims, paidAmount, toDeposit,
+} from "../accounting/deposits";
+import type { DeductionKind, Deposit, DepositDeduction } from "../accounting/deposits";
+import { generateDepositLetterPdf } from "./depositLetterPdf";
+import { downloadPdf } from "../billing/pdfGenerator";
+
+type Props = {
+  tenant: any;
+  deposit?: any | null;
+  apartments?: any[];
+  properties?: any[];
+  nkOutstandings?: any[];
+  nkSettlements?: any[];
+  isReadOnly?: boolean;
+  isSaving?: boolean;
+  onSaveDeposit?: (data: {
+    tenantId: string; apartmentId: string; amount: number; account: string;
+    interestRate: number; payments: { date: string; amount: number }[];
+  }) => void;
+  onSettleDeposit?: (data: {
+    id: string; settledOn: string; deductions: DepositDeduction[];
+  }) => void;
+  onReopenDeposit?: (id: string) => void;
+};
+
+type PaymentDraft = { date: string; amount: string };
+type DeductionDraft = { kind: DeductionKind; description: string; amount: string };
+
+function fmt(n: number): string {
+  return n.toLocaleString("de-DE", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function pNum(v: any): number {
+  if (v === null || v === undefined || v === "") return 0;
+  return parseFloat(String(v).replace(",", ".")) || 0;
+}
+
+function fmtDate(d?: string): string {
+  if (!d) return "";
+  const [y, m, day] = d.split("-");
+  return `${day}.${m}.${y}`;
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export default function DepositPanel({
+  tenant,
+  deposit = null,
+  apartments = [],
+  properties = [],
+  nkOutstandings = [],
+  nkSettlements = [],
+  isReadOnly = false,
+  isSaving = false,
+  onSaveDeposit,
+  onSettleDeposit,
+  onReopenDeposit,
+}: Props) {
+  const { t } = useTranslation("tenants");
+  const { t: tCommon } = useTranslation("common");
+
+  const tenantId = String(tenant.id);
+  const saved: Deposit | null = useMemo(() => (deposit ? toDeposit(deposit) : null), [deposit]);
+  const settled = saved?.status === "settled";
+  const canEdit = !isReadOnly && !!onSaveDeposit && !settled;
+
+  const [amount, setAmount] = useState(saved ? String(saved.amount) : "");
+  const [account, setAccount] = useState(saved?.account ?? "");
+  const [interestRate, setInterestRate] = useState(saved?.interestRate ? String(saved.interestRate) : "");
+  const [payments, setPayments] = useState<PaymentDraft[]>(
+    saved?.payments.map(p => ({ date: p.date, amount: String(p.amount) })) ?? []);
+  const [settleForm, setSettleForm] = useState<{ date: string; deductions: DeductionDraft[] } | null>(null);
+
+  const apartment = apartments.find(a => String(a.id) === String(saved?.apartmentId ?? tenant["apartment-id"]));
+  const property = properties.find(p => String(p.id) === String(apartment?.["property-id"]));
+  const maxDeposit = pNum(tenant.kaltmiete) * 3;
+
+  // Arbeitsstand aus den Eingaben (für Anzeige von Zinsen und Abrechnung)
+  const draft: Deposit = {
+    id: saved?.id,
+    tenantId,
+    apartmentId: saved?.apartmentId,
+    amount: pNum(amount),
+    account,
+    interestRate: pNum(interestRate),
+    payments: payments
+      .map(p => ({ date: p.date, amount: pNum(p.amount) }))
+      .filter(p => p.date && p.amount > 0)
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    status: saved?.status ?? "open",
+    settledOn: saved?.settledOn,
+    deductions: saved?.deductions ?? [],
+  };
+  const asOf = settled && saved?.settledOn ? saved.settledOn : today();
+  const paid = paidAmount(draft, asOf);
+  const interestToDate = depositInterest(draft, asOf).reduce((s, c) => s + c.amount, 0);
+  const outstanding = Math.max(draft.amount - paidAmount(draft), 0);
+
+  const settleDeductions: DepositDeduction[] = (settleForm?.deductions ?? []).map(x => ({
+    kind: x.kind, description: x.description.trim(), amount: pNum(x.amount),
+  })).filter(x => x.amount > 0);
+  const preview = settleForm ? depositSettlement(draft, settleForm.date, settleDeductions) : null;
+  const final = settled && saved?.settledOn ? depositSettlement(saved, saved.settledOn) : null;
+
+  const handleSave = () => {
+    onSaveDeposit?.({
+      tenantId,
+      apartmentId: String(tenant["apartment-id"] ?? ""),
+      amount: draft.amount,
+      account: account.trim(),
+      interestRate: draft.interestRate,
+      payments: draft.payments,
+    });
+  };
+
+  const openSettlement = () => {
+    const claims = openNkClaims(tenantId, nkOutstandings, nkSettlements);
+    setSettleForm({
+      date: tenant["end-date"] || today(),
+      deductions: claims.map(c => ({
+        kind: "nk" as const,
+        description: t("deposit.nkClaim", { year: c.year }),
+        amount: String(c.amount),
+      })),
+    });
+  };
+
+  const handleSettle = () => {
+    if (!saved?.id || !settleForm || !preview) return;
+    onSettleDeposit?.({
+      id: saved.id,
+      settledOn: settleForm.date,
+      deductions: settleDeductions,
+    });
+    setSettleForm(null);
+  };
+
+  const handleLetter = async () => {
+    if (!saved?.settledOn || !final) return;
+    const street = property?.address ?? "";
+    const postalCity = [property?.["postal-code"], property?.city].filter(Boolean).join(" ");
+    const landlord = property?.["landlord-name"] || property?.name || "Vermieter";
+    const kindLabel = (x: DepositDeduction) => x.description || t(`deposit.kinds.${x.kind}`);
+    const bytes = await generateDepositLetterPdf({
+      senderName:          landlord,
+      senderStreet:        property?.["landlord-street"] ?? "",
+      senderPostalCity:    property?.["landlord-postal-city"] ?? "",
+      city:                property?.city ?? "",
+      recipientName:       [tenant["first-name"], tenant["last-name"]].filter(Boolean).join(" ") || tenant.name || "",
+      recipientStreet:     street,
+      recipientPostalCity: postalCity,
+      propertyName:        property?.name ?? "",
+      apartmentCode:       apartment?.code ?? "",
+      moveOutDate:         fmtDate(tenant["end-date"]) || undefined,
+      settlementDate:      fmtDate(saved.settledOn),
+      agreedAmount:        saved.amount,
+      payments:            saved.payments.filter(p => p.date <= saved.settledOn!).map(p => ({ date: fmtDate(p.date), amount: p.amount })),
+      interest:            final.interest,
+      deductions:          saved.deductions.filter(x => x.amount > 0).map(x => ({ label: kindLabel(x), amount: x.amount })),
+      retained:            final.retained,
+      payout:              final.payout,
+      openClaim:           final.openClaim,
+      iban:                property?.iban ?? "",
+      bankName:            property?.["bank-name"] ?? "",
+    });
+    const name = [tenant["first-name"], tenant["last-name"]].filter(Boolean).join("_") || "Mieter";
+    downloadPdf(bytes, `Kautionsabrechnung_${apartment?.code ?? ""}_${name}.pdf`);
+  };
+
+  const summaryRow = (label: string, value: number, bold = false) => (
+    <div className={`flex justify-between text-sm ${bold ? "font-semibold border-t pt-1" : ""}`}>
+      <span className={bold ? "" : "text-muted-foreground"}>{label}</span>
+      <span className="tabular-nums">€ {fmt(value)}</span>
+    </div>
+  );
+
+  return (
+    <div className="rounded-xl border p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">{t("deposit.title")}</p>
+        {settled && (
+          <span className="text-xs rounded bg-muted text-muted-foreground px-2 py-0.5">
+            {t("deposit.settledOn", { date: fmtDate(saved?.settledOn) })}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="depositAmount">{t("deposit.amount")} (€)</Label>
+          <Input id="depositAmount" inputMode="decimal" className="text-right" value={amount}
+            disabled={!canEdit} onChange={e => setAmount(e.target.value)} />
+          {maxDeposit > 0 && pNum(amount) > maxDeposit + 0.005 && (
+            <p className="text-xs text-destructive">{t("deposit.maxHint", { max: fmt(maxDeposit) })}</p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="depositRate">{t("deposit.interestRate")} (%)</Label>
+          <Input id="depositRate" inputMode="decimal" className="text-right" value={interestRate}
+            disabled={!canEdit} onChange={e => setInterestRate(e.target.value)} />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="depositAccount">{t("deposit.account")}</Label>
+        <Input id="depositAccount" value={account} placeholder={t("deposit.accountPlaceholder")}
+          disabled={!canEdit} onChange={e => setAccount(e.target.value)} />
+      </div>
+
+      {/* Raten */}
+      <div className="space-y-1.5">
+        <p className="text-xs font-medium text-muted-foreground">{t("deposit.payments")}</p>
+        {payments.map((p, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <Input type="date" className="h-8 text-sm" value={p.date} disabled={!canEdit}
+              onChange={e => setPayments(ps => ps.map((x, j) => j === i ? { ...x, date: e.target.value } : x))} />
+            <Input inputMode="decimal" className="h-8 text-sm text-right w-32" value={p.amount} disabled={!canEdit}
+              onChange={e => setPayments(ps => ps.map((x, j) => j === i ? { ...x, amount: e.target.value } : x))} />
+            {canEdit && (
+              <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground"
+                onClick={() => setPayments(ps => ps.filter((_, j) => j !== i))}>
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </div>
+        ))}
+        {canEdit && (
+          <button type="button" className="text-xs text-primary underline underline-offset-2 hover:opacity-70"
+            onClick={() => setPayments(ps => [...ps, {
+              date: today(),
+              amount: outstanding > 0 ? String(Math.round(outstanding * 100) / 100) : "",
+            }])}>
+            + {t("deposit.addPayment")}
+          </button>
+        )}
+      </div>
+
+      <div className="rounded-md bg-muted/30 p-3 space-y-1">
+        {summaryRow(t("deposit.paid"), paid)}
+        {outstanding > 0.005 && summaryRow(t("deposit.outstanding"), outstanding)}
+        {summaryRow(t("deposit.interest"), interestToDate)}
+        {summaryRow(t("deposit.balance"), paid + interestToDate, true)}
+      </div>
+
+      {canEdit && (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={isSaving}>
+            <Check className="h-3.5 w-3.5 mr-1" />
+            {t("deposit.save")}
+          </Button>
+        </div>
+      )}
+
+      {/* Abrechnung nach Auszug */}
+      {saved?.id && !settled && !settleForm && !isReadOnly && onSettleDeposit && (
+        <Button variant="outline" size="sm" onClick={openSettlement}>
+          {t("deposit.settle")}
+        </Button>
+      )}
+
+      {settleForm && preview && (
+        <div className="rounded-md border p-3 space-y-3 bg-muted/30">
+          <p className="text-sm font-medium">{t("deposit.settlementTitle")}</p>
+          <div className="space-y-1 w-48">
+            <Label className="text-xs">{t("deposit.settlementDate")}</Label>
+            <Input type="date" className="h-8 text-sm" value={settleForm.date}
+              onChange={e => setSettleForm(f => f && { ...f, date: e.target.value })} />
+          </div>
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium text-muted-foreground">{t("deposit.deductions")}</p>
+            {settleForm.deductions.map((x, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <select className="border rounded px-2 h-8 text-sm bg-background" value={x.kind}
+                  onChange={e => setSettleForm(f => f && {
+                    ...f, deductions: f.deductions.map((d, j) => j === i ? { ...d, kind: e.target.value as DeductionKind } : d),
+                  })}>
+                  {DEDUCTION_KINDS.map(k => <option key={k} value={k}>{t(`deposit.kinds.${k}`)}</option>)}
+                </select>
+                <Input className="h-8 text-sm flex-1" value={x.description} placeholder={t("deposit.description")}
+                  onChange={e => setSettleForm(f => f && {
+                    ...f, deductions: f.deductions.map((d, j) => j === i ? { ...d, description: e.target.value } : d),
+                  })} />
+                <Input inputMode="decimal" className="h-8 text-sm text-right w-28" value={x.amount}
+                  onChange={e => setSettleForm(f => f && {
+                    ...f, deductions: f.deductions.map((d, j) => j === i ? { ...d, amount: e.target.value } : d),
+                  })} />
+                <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground"
+                  onClick={() => setSettleForm(f => f && { ...f, deductions: f.deductions.filter((_, j) => j !== i) })}>
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+            <button type="button" className="inline-flex items-center gap-1 text-xs text-primary underline underline-offset-2 hover:opacity-70"
+              onClick={() => setSettleForm(f => f && { ...f, deductions: [...f.deductions, { kind: "damage", description: "", amount: "" }] })}>
+              <Plus className="h-3 w-3" />
+              {t("deposit.addDeduction")}
+            </button>
+          </div>
+          <div className="space-y-1">
+            {summaryRow(t("deposit.paid"), preview.paid)}
+            {summaryRow(t("deposit.interest"), preview.interest)}
+            {summaryRow(t("deposit.balance"), preview.balance, true)}
+            {summaryRow(t("deposit.retained"), preview.retained)}
+            {preview.openClaim > 0.005 && summaryRow(t("deposit.openClaim"), preview.openClaim)}
+            {summaryRow(t("deposit.payout"), preview.payout, true)}
+          </div>
+          <p className="text-xs text-muted-foreground">{t("deposit.settleHint")}</p>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleSettle} disabled={isSaving || !settleForm.date}>
+              <Check className="h-3.5 w-3.5 mr-1" />
+              {t("deposit.confirmSettle")}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setSettleForm(null)}>
+              {tCommon("cancel")}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {settled && final && (
+        <div className="rounded-md border p-3 space-y-1">
+          {saved!.deductions.filter(x => x.amount > 0).map((x, i) => (
+            <div key={i} className="flex justify-between text-sm">
+              <span className="text-muted-foreground">{x.description || t(`deposit.kinds.${x.kind}`)}</span>
+              <span className="tabular-nums">− € {fmt(x.amount)}</span>
+            </div>
+          ))}
+          {final.openClaim > 0.005 && summaryRow(t("deposit.openClaim"), final.openClaim)}
+          {summaryRow(t("deposit.payout"), final.payout, true)}
+          <div className="flex gap-2 pt-2">
+            <Button size="sm" variant="outline" onClick={handleLetter}>
+              <FileDown className="h-3.5 w-3.5 mr-1" />
+              {t("deposit.letter")}
+            </Button>
+            {!isReadOnly && onReopenDeposit && (
+              <Button size="sm" variant="ghost" onClick={() => onReopenDeposit(saved!.id!)} disabled={isSaving}>
+                <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                {t("deposit.reopen")}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
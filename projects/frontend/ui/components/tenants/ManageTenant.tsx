@@ -8,6 +8,7 @@ import { Input } from "../ui/input";
 import { Label } from "../ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../ui/dialog";
 import { markCostSyncYear, markCostSyncYearsForDateChange } from "../../lib/aptCostSync";
+import DepositPanel from "./DepositPanel";
 
 type HouseholdMember = {
   name: string;
@@ -50,6 +51,14 @@ type Props = {
   onUpdate?: (id: number, data: Record<string, string>) => void;
   onAddPersonsChange?: (data: { tenantId: string; apartmentId: string; year: number; fromDate: string; count: number }) => void;
   onDeletePersonsChange?: (id: string) => void;
+  deposit?: any | null;
+  apartments?: any[];
+  properties?: any[];
+  nkOutstandings?: any[];
+  nkSettlements?: any[];
+  onSaveDeposit?: React.ComponentProps<typeof DepositPanel>["onSaveDeposit"];
+  onSettleDeposit?: React.ComponentProps<typeof DepositPanel>["onSettleDeposit"];
+  onReopenDeposit?: (id: string) => void;
 };
 
 function parseMembers(raw?: string): HouseholdMember[] {
@@ -67,6 +76,14 @@ export default function ManageTenant({
   onUpdate,
   onAddPersonsChange,
   onDeletePersonsChange,
+  deposit = null,
+  apartments = [],
+  properties = [],
+  nkOutstandings = [],
+  nkSettlements = [],
+  onSaveDeposit,
+  onSettleDeposit,
+  onReopenDeposit,
 }: Props) {
   const { t } = useTranslation("tenants");
   const { t: tCommon } = useTranslation("common");
@@ -403,6 +420,21 @@ export default function ManageTenant({
             </Button>
           </div>
 
+          <DepositPanel
+            key={deposit?.id ?? "new"}
+            tenant={tenant}
+            deposit={deposit}
+            apartments={apartments}
+            properties={properties}
+            nkOutstandings={nkOutstandings}
+            nkSettlements={nkSettlements}
+            isReadOnly={isReadOnly}
+            isSaving={isSaving}
+            onSaveDeposit={onSaveDeposit}
+            onSettleDeposit={onSettleDeposit}
+            onReopenDeposit={onReopenDeposit}
+          />
+
           <div className="rounded-xl border border-destructive/30 p-4">
             <p className="text-sm font-medium text-destructive mb-3">{tCommon("dangerZone")}</p>
             <Button
@@ -0,0 +1,192 @@
+// PDF generation for the Kautionsabrechnung (deposit settlement letter) using
+// pdf-lib loaded from CDN. Layout follows the Nebenkostenabrechnung letter
+// (DIN 5008 address window, info table on the right, summary table).
+
+import { loadPdfLib } from "../../lib/pdfLib";
+
+export interface DepositLetterData {
+  senderName: string;
+  senderStreet?: string;
+  senderPostalCity?: string;
+  city: string;
+  recipientName: string;
+  recipientStreet?: string;
+  recipientPostalCity?: string;
+  propertyName: string;
+  apartmentCode: string;
+  moveOutDate?: string;     // DD.MM.YYYY
+  settlementDate: string;   // DD.MM.YYYY
+  agreedAmount: number;
+  payments: { date: string; amount: number }[];   // date DD.MM.YYYY
+  interest: number;
+  deductions: { label: string; amount: number }[];
+  retained: number;
+  payout: number;
+  openClaim: number;
+  iban?: string;
+  bankName?: string;
+}
+
+function formatEur(v: number): string {
+  return v.toLocaleString("de-DE", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function germanDate(): string {
+  return new Intl.DateTimeFormat("de-DE", {
+    day: "numeric", month: "long", year: "numeric",
+  }).format(new Date());
+}
+
+export async function generateDepositLetterPdf(data: DepositLetterData): Promise<Uint8Array> {
+  const PDFLib = await loadPdfLib();
+  const { PDFDocument, StandardFonts, rgb } = PDFLib;
+
+  const doc  = await PDFDocument.create();
+  const page = doc.addPage([595.28, 841.89]); // A4
+
+  const fontR = await doc.embedFont(StandardFonts.Helvetica);
+  const fontB = await doc.embedFont(StandardFonts.HelveticaBold);
+
+  const { width, height } = page.getSize();
+  const L = 57;
+  const R = width - 55;
+
+  const gray      = rgb(0.5, 0.5, 0.5);
+  const lightGray = rgb(0.75, 0.75, 0.75);
+  const black     = rgb(0, 0, 0);
+  const blue      = rgb(0.1, 0.25, 0.6);
+  const lightBlue = rgb(0.88, 0.92, 0.97);
+
+  // ── Date + return address ────────────────────────────────────────────────
+  const topY = height - 52;
+  const dateStr = `${data.city ? `${data.city}, ` : ""}${germanDate()}`;
+  page.drawText(dateStr, { x: R - fontR.widthOfTextAtSize(dateStr, 9), y: topY, font: fontR, size: 9, color: black });
+
+  const senderAddrParts = [data.senderStreet, data.senderPostalCity].filter(Boolean);
+  const returnLine = senderAddrParts.length > 0 ? `${data.senderName} - ${senderAddrParts.join(" ")}` : data.senderName;
+  page.drawText(returnLine, { x: L, y: topY, font: fontR, size: 7, color: blue });
+  page.drawLine({ start: { x: L, y: topY - 5 }, end: { x: L + 240, y: topY - 5 }, thickness: 0.3, color: lightGray });
+
+  // ── Recipient (DIN 5008 envelope window) ─────────────────────────────────
+  const windowTop = height - 127;
+  let ry = windowTop - 16;
+  page.drawText(data.recipientName, { x: L, y: ry, font: fontB, size: 10.5, color: black });
+  ry -= 14;
+  if (data.recipientStreet) {
+    page.drawText(data.recipientStreet, { x: L, y: ry, font: fontR, size: 10, color: black });
+    ry -= 13;
+  }
+  if (data.recipientPostalCity) {
+    page.drawText(data.recipientPostalCity, { x: L, y: ry, font: fontR, size: 10, color: black });
+  }
+
+  // ── Info table (right side) ──────────────────────────────────────────────
+  const tL = 315;
+  const tW = R - tL;
+  const rH = 15;
+  const infoRows: Array<{ label: string; value: string; header?: boolean }> = [
+    { label: "Objekt",           value: data.propertyName, header: true },
+    { label: "Wohnung",          value: data.apartmentCode },
+    { label: "Auszug",           value: data.moveOutDate ?? "—" },
+    { label: "Abrechnungstag",   value: data.settlementDate },
+    { label: "Vereinbarte Kaution", value: `€ ${formatEur(data.agreedAmount)}` },
+  ];
+  const tableTop = windowTop + 2;
+  const tableBtm = tableTop - (infoRows.length * rH + 2);
+  page.drawRectangle({
+    x: tL, y: tableBtm, width: tW, height: tableTop - tableBtm,
+    color: rgb(1, 1, 1), borderColor: rgb(0.7, 0.75, 0.85), borderWidth: 0.5,
+  });
+  let iy = tableTop - 2;
+  infoRows.forEach(({ label, value, header }, i) => {
+    if (header) page.drawRectangle({ x: tL, y: iy - rH + 1, width: tW, height: rH, color: lightBlue });
+    page.drawText(label, { x: tL + 4, y: iy - rH + 4, font: header ? fontB : fontR, size: 7.5, color: header ? blue : gray });
+    page.drawText(value, { x: tL + 100, y: iy - rH + 4, font: header ? fontB : fontR, size: 7.5, color: header ? blue : black });
+    if (i < infoRows.length - 1) {
+      page.drawLine({ start: { x: tL, y: iy - rH + 1 }, end: { x: R, y: iy - rH + 1 }, thickness: 0.25, color: rgb(0.85, 0.87, 0.92) });
+    }
+    iy -= rH;
+  });
+
+  const contentY = Math.min(tableBtm, ry) - 16;
+  page.drawLine({ start: { x: L, y: contentY + 6 }, end: { x: R, y: contentY + 6 }, thickness: 0.4, color: lightGray });
+
+  // ── Subject + body ───────────────────────────────────────────────────────
+  let y = contentY - 12;
+  page.drawText(`Abrechnung der Mietkaution — Wohnung ${data.apartmentCode}`, { x: L, y, font: fontB, size: 11, color: blue });
+  y -= 20;
+  page.drawText(`Sehr geehrte(r) ${data.recipientName},`, { x: L, y, font: fontR, size: 9.5, color: black });
+  y -= 14;
+  for (const line of [
+    "nach Beendigung des Mietverhältnisses rechnen wir die von Ihnen geleistete Mietsicherheit",
+    "einschließlich der angefallenen Zinsen (§ 551 Abs. 3 BGB) wie folgt ab:",
+  ]) {
+    page.drawText(line, { x: L, y, font: fontR, size: 9.5, color: black });
+    y -= 13;
+  }
+  y -= 10;
+
+  // ── Settlement table ─────────────────────────────────────────────────────
+  const rowH = 15;
+  const row = (label: string, value: string, opts: { bold?: boolean; highlight?: boolean; muted?: boolean } = {}) => {
+    if (opts.highlight) page.drawRectangle({ x: L, y: y - 4, width: R - L, height: rowH + 2, color: lightBlue });
+    const f = opts.bold ? fontB : fontR;
+    const c = opts.bold ? blue : opts.muted ? gray : black;
+    page.drawText(label, { x: L + 3, y: y + 2, font: f, size: 8.5, color: c });
+    page.drawText(value, { x: R - 3 - f.widthOfTextAtSize(value, 8.5), y: y + 2, font: f, size: 8.5, color: c });
+    y -= rowH + 2;
+  };
+  const rule = (thickness: number) => {
+    page.drawLine({ start: { x: L, y: y + rowH }, end: { x: R, y: y + rowH }, thickness, color: gray });
+  };
+
+  page.drawRectangle({ x: L, y: y - 4, width: R - L, height: rowH + 2, color: lightBlue });
+  page.drawText("Position", { x: L + 3, y: y + 2, font: fontB, size: 7.5, color: blue });
+  const hdr = "Betrag";
+  page.drawText(hdr, { x: R - 3 - fontB.widthOfTextAtSize(hdr, 7.5), y: y + 2, font: fontB, size: 7.5, color: blue });
+  y -= rowH + 2;
+
+  for (const p of data.payments) row(`Kautionszahlung vom ${p.date}`, `€ ${formatEur(p.amount)}`);
+  row("Zinsen bis zum Abrechnungstag", `€ ${formatEur(data.interest)}`);
+  rule(0.5);
+  const balance = data.payments.reduce((s, p) => s + p.amount, 0) + data.interest;
+  row("Kautionsguthaben", `€ ${formatEur(balance)}`, { bold: true });
+  for (const d of data.deductions) row(`abzüglich ${d.label}`, `- € ${formatEur(d.amount)}`);
+  if (data.openClaim > 0.005) row("davon durch die Kaution nicht gedeckt", `€ ${formatEur(data.openClaim)}`, { muted: true });
+  rule(0.7);
+  row("Auszahlungsbetrag", `€ ${formatEur(data.payout)}`, { bold: true, highlight: true });
+  y -= 14;
+
+  // ── Payment note ─────────────────────────────────────────────────────────
+  const notes: string[] = [];
+  if (data.payout > 0.005) {
+    notes.push(`Den Betrag von € ${formatEur(data.payout)} überweisen wir in den nächsten Tagen auf Ihr Konto.`);
+  } else {
+    notes.push("Die Kaution wurde vollständig mit den oben genannten Forderungen verrechnet.");
+  }
+  if (data.openClaim > 0.005) {
+    notes.push(`Den nicht gedeckten Restbetrag von € ${formatEur(data.openClaim)} bitten wir auf folgendes Konto zu überweisen:`);
+  }
+  for (const n of notes) {
+    page.drawText(n, { x: L, y, font: fontR, size: 9.5, color: black });
+    y -= 14;
+  }
+  if (data.openClaim > 0.005 && data.iban) {
+    page.drawText(`IBAN: ${data.iban}`, { x: L, y, font: fontB, size: 9.5, color: black });
+    y -= 13;
+    if (data.bankName) {
+      page.drawText(`Bank: ${data.bankName}`, { x: L, y, font: fontR, size: 9.5, color: black });
+      y -= 13;
+    }
+  }
+  y -= 18;
+
+  // ── Closing ──────────────────────────────────────────────────────────────
+  page.drawText("Mit freundlichen Grüßen", { x: L, y, font: fontR, size: 9.5, color: black });
+  y -= 36;
+  page.drawLine({ start: { x: L, y }, end: { x: L + 160, y }, thickness: 0.4, color: lightGray });
+  y -= 12;
+  page.drawText(data.senderName, { x: L, y, font: fontR, size: 9, color: black });
+
+  return doc.save();
+}
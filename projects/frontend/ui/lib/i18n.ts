@@ -60,6 +60,12 @@ const resources = {
         nameEn: "Name (English)",
         nameDe: "Name (German)",
         distributionMethod: "Distribution Method",
+        account: "Expense account",
+      },
+      account: {
+        suggestion: "Suggestion: {{account}}",
+        mapped: "Assigned expense account",
+        suggested: "Suggested from the name — assign an account to make it binding",
       },
       placeholders: {
         key: "e.g. strom",
@@ -138,11 +144,16 @@ const resources = {
       afaNotYet: "before AfA start",
       afaDone: "fully depreciated",
       afaProRata: "pro-rata {{months}}/12",
+      afaDegressive: "declining balance {{rate}}% of the remaining value",
+      afaResidual: "remaining value / remaining useful life",
+      afaAdditions: "incl. subsequent construction costs € {{amount}}",
+      afaNoStart: "AfA start date missing",
       tabs: {
         summary:     "Summary",
         config:      "AfA Setup",
         loans:       "Loans",
         maintenance: "Repairs",
+        assets:      "Assets",
       },
       summary: {
         income: {
@@ -151,6 +162,7 @@ const resources = {
           nebenkosten: "Ancillary costs",
           rent:        "Rent",
           garages:     "Garages / parking",
+          garagesEstimated: "thereof € {{sum}} estimated",
           total:       "Gross rental income",
           empty:       "No rent payments recorded for this year.",
         },
@@ -163,6 +175,8 @@ const resources = {
           betriebskosten: "Operating costs",
           verwaltung:     "Management costs",
           sonstige:       "Other expenses",
+          assetAfa:       "Depreciation on movable assets",
+          sonderAfa:      "Special depreciation (§ 7b EStG)",
           limited:        "Deductible §21(2): {{pct}}%",
           total:          "Total deductions",
           empty:          "No deductions recorded.",
@@ -188,6 +202,8 @@ const resources = {
         below50:     "Rent is {{pct}}% of the local market rent (< 50%): expenses are only partially deductible ({{pct}}%).",
         below66:     "Rent is {{pct}}% of the local market rent (50–66%): full deduction only with a positive total-surplus forecast (Totalüberschussprognose).",
         herstellung: "Repairs in the first 3 years (€ {{sum}}) exceed 15% of the building value (€ {{threshold}}). Possible acquisition-related production costs — deductible only via AfA.",
+        garageEstimated:  "No garage payments recorded ({{garages}}): € {{sum}} estimated from the monthly rent.",
+        garageDifference: "Garage {{garage}}: expected € {{expected}}, received € {{received}}.",
       },
       config: {
         title:              "AfA Configuration",
@@ -199,9 +215,25 @@ const resources = {
         buildingValue:      "Building value (Gebäudewert)",
         buildingValueHint:  "Auto-computed from purchase price − land value. You can override it.",
         afaRate:            "AfA rate",
-        afaRateHint:        "Typically 2% (built after 1924) or 2.5% (built before 1925).",
+        afaRateHint:        "2% (built 1925–2022), 2.5% (built before 1925) or 3% (completed from 2023), § 7 (4) EStG.",
+        afaRateSuggestion:  "Suggested for year built {{year}}: {{rate}}% (§ 7 (4) EStG).",
         afaStartDate:       "AfA start date",
         afaStartHint:       "In the first year AfA is calculated month-accurate.",
+        afaMethod:          "Method",
+        afaMethods: {
+          linear:     "Straight-line",
+          degressive: "Declining balance {{rate}}% (§ 7 (5a) EStG)",
+        },
+        degressiveHint:     "{{rate}}% of the remaining value for new residential buildings (construction start 10/2023–09/2029). The straight-line rate determines the useful life after switching.",
+        switchYear:         "Switch to straight-line from",
+        switchYearHint:     "Leave empty to switch in {{year}}, the first year in which remaining value / remaining useful life exceeds the declining rate.",
+        switchFrom:         "straight-line from {{year}}",
+        sonderAfa:          "Special depreciation § 7b EStG (new rental flats)",
+        sonderAfaBasis:     "Eligible basis",
+        sonderAfaHint:      "Additional 5% per year in the year of completion and the following three years, basis at most € {{max}} per m² living area.",
+        sonderAfaCap:       "{{area}} m² living area → basis capped at € {{cap}}.",
+        sonderAfaCostCap:   "Construction costs of € {{cost}}/m² exceed the cap of € {{limit}}/m² — special depreciation not available.",
+        sonderAfaAmount:    "thereof special depreciation € {{amount}}",
       },
       loans: {
         title:            "Mortgage / Loan Interest",
@@ -213,6 +245,23 @@ const resources = {
         annualInterest:   "Annual interest paid",
         notes:            "Notes",
         unnamed:          "Unnamed loan",
+        annuityToggle:    "Annuity loan with repayment schedule",
+        originalAmount:   "Loan amount",
+        payoutDate:       "Payout date",
+        interestRate:     "Interest rate p.a.",
+        repaymentRate:    "Initial repayment p.a.",
+        fixedUntil:       "Fixed interest until",
+        termsSummary:     "€ {{amount}} at {{rate}} % + {{repayment}} % repayment since {{date}} — monthly € {{payment}}",
+        showSchedule:     "Schedule",
+        hideSchedule:     "Hide schedule",
+        schedule: {
+          year:      "Year",
+          payment:   "Payments",
+          interest:  "Interest",
+          principal: "Repayment",
+          balance:   "Balance at year end",
+          fixedEnd:  "Outstanding balance at end of fixed-rate period ({{date}}): € {{balance}}. Later years assume an unchanged rate.",
+        },
       },
       maintenance: {
         title:           "Repairs (Erhaltungsaufwand)",
@@ -229,6 +278,51 @@ const resources = {
         spreadN:         "{{n}} years (§82b EStDV)",
         spreadBadge:     "over {{n}} years",
         perYearHint:     "€ {{amount}} deductible per year.",
+        kind:            "Type",
+        kinds: {
+          erhaltung:   "Repair expense",
+          herstellung: "Subsequent construction costs",
+        },
+        herstellungHint: "Subsequent construction costs are added to the building's AfA basis from the year of payment and depreciated with it.",
+      },
+      assets: {
+        title:           "Asset register (movable assets)",
+        add:             "Add",
+        hint:            "Fitted kitchens, heating systems, furniture etc. are capitalised and depreciated separately from the building. Depreciation is included in the deductions and in the accounting.",
+        empty:           "No assets recorded yet.",
+        name:            "Asset",
+        namePlaceholder: "e.g. fitted kitchen flat 1",
+        apartment:       "Allocated to",
+        wholeProperty:   "Whole property",
+        acquisitionDate: "Acquisition date",
+        cost:            "Acquisition cost (net)",
+        method:          "Method",
+        usefulLife:      "Useful life (years)",
+        lifeBadge:       "{{n}} years",
+        yearAmount:      "Depreciation {{year}}: € {{amount}}",
+        total:           "Total depreciation {{year}}",
+        bookValue:       "Book value at 31.12.{{year}}: € {{amount}}",
+        methods: {
+          linear: "Straight-line",
+          gwg:    "Low-value asset (GWG)",
+          pool:   "Pooled item (Sammelposten)",
+        },
+        methodHints: {
+          linear: "Cost / useful life per year, pro rata by month in the year of acquisition (§ 7 (1) EStG).",
+          gwg:    "Written off in full in the year of acquisition (§ 6 (2) EStG, up to € 800 net).",
+          pool:   "Written off evenly over {{years}} years from the year of acquisition (§ 6 (2a) EStG, € 250.01 to € 1,000 net).",
+        },
+        errors: {
+          gwgLimit:   "Immediate write-off is only allowed up to € {{limit}} net.",
+          poolRange:  "The pooled item only covers assets above € {{min}} up to € {{max}} net.",
+          usefulLife: "Please enter a useful life.",
+        },
+        schedule: {
+          year:    "Year",
+          opening: "Book value 01.01.",
+          amount:  "Depreciation",
+          closing: "Book value 31.12.",
+        },
       },
     },
     tasks: {
@@ -455,6 +549,41 @@ const resources = {
         nebenkostenWarm: "Nebenkosten warm",
         total: "Total",
       },
+      deposit: {
+        title: "Rent deposit",
+        amount: "Agreed deposit",
+        interestRate: "Interest rate",
+        account: "Deposit account",
+        accountPlaceholder: "Bank / IBAN of the separate deposit account",
+        maxHint: "Exceeds three months' net rent (max. € {{max}}, § 551 BGB).",
+        payments: "Instalments",
+        addPayment: "Add instalment",
+        paid: "Paid in",
+        outstanding: "Outstanding",
+        interest: "Accrued interest",
+        balance: "Tenant's balance",
+        save: "Save deposit",
+        settle: "Settle deposit after move-out",
+        settlementTitle: "Deposit settlement",
+        settlementDate: "Settlement date",
+        deductions: "Deductions",
+        addDeduction: "Add deduction",
+        description: "Description",
+        nkClaim: "Utility back-payment {{year}}",
+        retained: "Retained",
+        openClaim: "Not covered by deposit",
+        payout: "Payout to tenant",
+        settleHint: "Retained amounts are booked as income; the payout is booked against the deposit account.",
+        confirmSettle: "Confirm settlement",
+        settledOn: "Settled on {{date}}",
+        letter: "Settlement letter (PDF)",
+        reopen: "Reopen",
+        kinds: {
+          nk: "Utility back-payment",
+          damage: "Damages",
+          other: "Other",
+        },
+      },
       household: {
         title: "Household Members",
         hint: "Add all people living in the apartment. This information is used for the Wohnbescheinigung.",
@@ -533,6 +662,10 @@ const resources = {
         wohnflaecheHint: "Living area in m². Used for Nebenkosten distribution.",
         marketRent: "Local comparable rent (cold)",
         marketRentHint: "The customary local cold rent for a comparable flat (e.g. Mietspiegel) — not your tenant's rent. Basis for the 66% check (Anlage V, §21 Abs. 2 EStG).",
+        vatOption: "VAT option (§ 9 UStG)",
+        vatOptionHint: "Commercially let unit opted into VAT. Recorded rents are gross amounts; accounting splits them into net rent and VAT.",
+        vatRate: "VAT rate",
+        vatExempt: "VAT-exempt (§ 4 No. 12 UStG)",
         stromZaehlerNr: "Electricity meter no.",
         wasserZaehlerNrn: "Water meter no(s).",
         addWasserZaehler: "Add water meter",
@@ -755,7 +888,7 @@ const resources = {
       },
     },
     accounting: {
-      gobdNote: "Double-entry bookkeeping following German GoB/GoBD principles (chart of accounts based on SKR04). Automatic entries (A-…) are derived from your existing data — rent payments, costs, loans, depreciation. Manual entries (M-…) are immutable once posted; corrections are made by reversal (Storno) only. Note: private landlords are generally not required to keep double-entry books (§238 HGB, §141 AO) — this module is provided as a voluntary, GoB-oriented bookkeeping view.",
+      gobdNote: "Double-entry bookkeeping following German GoB/GoBD principles (chart of accounts based on SKR04). Automatic entries (A-year-…) are derived from your existing data — rent payments, costs, loans, depreciation — and keep their document number once it has been assigned. Manual entries (M-…) are immutable once posted; corrections are made by reversal (Storno) only. Note: private landlords are generally not required to keep double-entry books (§238 HGB, §141 AO) — this module is provided as a voluntary, GoB-oriented bookkeeping view.",
       allProperties: "All properties",
       onboarding: {
         title: "Set up your bookkeeping — opening balance sheet",
@@ -776,6 +909,11 @@ const resources = {
         susa:    "Trial Balance",
         guv:     "P&L (GuV)",
         bilanz:  "Balance Sheet",
+        cashflow: "Cash flow",
+        euer: "Cash-basis (EÜR)",
+        ustva: "VAT return",
+        plan:    "Budget",
+        kontenrahmen: "Chart of accounts",
       },
       journal: {
         title: "Journal (Grundbuch) {{year}}",
@@ -799,10 +937,32 @@ const resources = {
         stornoConfirm: "Confirm Storno",
         stornoedBadge: "reversed",
         beforeOpening: "No bookings allowed before the opening balance date ({{date}}).",
+        splitToggle: "Split entry (several debit/credit accounts)",
+        splitAdd: "Add line",
+        splitRemove: "Remove line",
+        splitUnbalanced: "Debit and credit totals must be equal.",
+        splitBadge: "split",
+        numbersFix: "Fix document numbers ({{count}})",
+        numberPending: "Provisional number — fixed permanently on DATEV export, year-end close or via “Fix document numbers”.",
+        numbersPendingInfo: "{{count}} automatic entries in {{year}} only have provisional document numbers.",
+        numbersVacated: "Document numbers without entry (source deleted or moved to another year): {{numbers}}",
+      },
+      override: {
+        edit: "Reclassify (account, date, property)",
+        hint: "Overrides the derived entry {{id}} without changing the source data. Empty fields keep the derived value.",
+        keep: "unchanged ({{value}})",
+        note: "Reason (optional)",
+        notePlaceholder: "e.g. utility cost refund, not other income",
+        save: "Save reclassification",
+        remove: "Remove reclassification",
+        badge: "reclassified",
+        original: "Derived: {{debit}} to {{credit}} on {{date}}",
+        closedYear: "This year is closed — the change is posted as a correction on 01/01/{{next}}.",
       },
       konten: {
         title: "Account sheet (Hauptbuch)",
         counterAccount: "Contra",
+        receivablesHint: "Accrual mode: debit entries are rents due, credit entries payments received — the balance is the open rent arrears.",
         soll: "Debit",
         haben: "Credit",
         saldo: "Balance",
@@ -829,15 +989,361 @@ const resources = {
         total: "Total",
         asOf: "as of {{date}}",
       },
+      datev: {
+        export: "DATEV export",
+        intro: "Export all bookings of {{year}} ({{property}}, {{count}} entries) as a DATEV Buchungsstapel (EXTF format) for your tax advisor. Reversed entries and their Storno bookings are both included.",
+        beraterNr: "Advisor no. (Beraternummer)",
+        mandantNr: "Client no. (Mandantennummer)",
+        invalidNumbers: "Advisor no. must have 4–7 digits, client no. 1–5 digits.",
+        download: "Download EXTF file",
+      },
+      kontenrahmen: {
+        title: "Chart of accounts",
+        intro: "Choose the chart of accounts your tax advisor works with. Bookings are stored independently of the chart; switching only changes account numbers in all views and in the DATEV export.",
+        hintSKR04: "SKR04 (default): accounts follow the balance sheet structure (classes 0–9).",
+        hintSKR03: "SKR03: standard accounts are shown and exported with their SKR03 numbers (e.g. bank 1200, rent income 8105).",
+        rentMode: "Rent income",
+        cash: "Cash basis",
+        accrual: "Accrual (receivables)",
+        cashHint: "Rent is booked when a payment is recorded (bank to rent income).",
+        accrualHint: "The contractual rent of each tenant is booked as a receivable (1200) at the start of each month and cleared by the payment. Open receivables appear in the balance sheet; the ledger of account 1200 shows rent arrears.",
+        customTitle: "Custom accounts",
+        customEmpty: "No custom accounts yet — e.g. a second bank account or a deposit account.",
+        number: "Account no.",
+        name: "Name",
+        type: "Type",
+        add: "Add",
+        delete: "Delete account",
+        inUse: "Account has postings and cannot be deleted",
+        unknownWarning: "Bookings use unknown accounts ({{accounts}}). They are not included in P&L or balance sheet.",
+        types: {
+          asset: "Asset",
+          liability: "Liability",
+          equity: "Equity",
+          revenue: "Revenue",
+          expense: "Expense",
+        },
+        error: {
+          format: "Account numbers must have exactly 4 digits.",
+          taken: "This number is already used by a standard or custom account.",
+        },
+      },
+      close: {
+        button: "Close {{year}}",
+        title: "Year-end closing {{year}}",
+        intro: "Closing stores the trial balance, P&L and balance sheet as a snapshot, books the closing entries (result to 2970, balances to the closing balance sheet) and carries the balances forward to 1 January {{next}}. The year is then locked: manual entries are no longer possible, and later changes to rent payments, costs etc. of this year are booked as correction entries in the following year. Closing cannot be undone.",
+        unbalanced: "The balance sheet does not balance — please check the entries before closing.",
+        confirm: "Close year permanently",
+        closedAt: "Closed on {{date}}",
+        locked: "Year closed",
+        periodClosed: "Financial years up to {{year}} are closed.",
+      },
+      budget: {
+        title: "Budget vs. actual {{year}}",
+        portfolio: "Portfolio (all properties)",
+        through: "through",
+        plan: "Budget",
+        actual: "Actual",
+        planYear: "Budget year",
+        forecast: "Forecast",
+        hint: "Budget and actual through the selected month. Deviations of {{threshold}} % or more are highlighted: red unfavourable, green favourable. Forecast = actual to date + budget for the remaining months.",
+        entryTitle: "Budget entries — {{scope}}",
+        add: "Add budget",
+        edit: "Edit",
+        delete: "Delete",
+        yearAmount: "Annual amount",
+        spread: "Spread",
+        sum: "Total",
+        empty: "No budget entered for this year.",
+      },
+      cashFlow: {
+        title: "Cash flow statement {{year}}",
+        hint: "Direct method: all payments on the bank accounts ({{account}}), classified by counter-account. Transfers between own bank accounts are not payments.",
+        counterAccount: "Counter-account",
+        inflow: "Inflows",
+        outflow: "Outflows",
+        net: "Net",
+        opening: "Cash at beginning of period",
+        closing: "Cash at end of period",
+        netChange: "Net change in cash",
+        areas: {
+          operating: "Operating activities (rents, costs, interest)",
+          investing: "Investing activities (acquisitions)",
+          financing: "Financing activities (loans, owner withdrawals and contributions)",
+        },
+        totals: {
+          operating: "Cash flow from operating activities",
+          investing: "Cash flow from investing activities",
+          financing: "Cash flow from financing activities",
+        },
+        reconciled: "Reconciled: opening balance plus cash flows equals the closing bank balance.",
+        difference: "Not reconciled: difference of € {{amount}} to the bank ledgers.",
+      },
+      garageRent: {
+        estimated: "No garage payments recorded for {{year}} ({{garages}}) — income is estimated from the monthly rent for let months.",
+        difference: "Garage {{garage}} {{year}}: expected € {{expected}}, received € {{received}} (months without payment: {{months}}).",
+      },
+      mappings: {
+        taxTitle: "Accounts for other deductible expenses",
+        taxIntro: "Each category of other deductible expenses is booked to the account assigned here. Without an assignment, a suggestion based on the category name is used.",
+        taxEmpty: "No categorised expenses recorded yet.",
+        suggested: "Suggestion",
+        reset: "Remove assignment (use suggestion)",
+        fallbackTitle: "Lines on {{account}} ({{year}})",
+        fallbackIntro: "These cost lines have neither an assigned account nor a matching suggestion and are booked to the collective account. Assign an account per cost type or category; cost types can also be assigned under Expense types.",
+        fallbackEmpty: "All cost lines of this year are assigned to a specific account.",
+        fallbackNote: "{{count}} cost lines of {{year}} are booked to the collective account 6300 — see Chart of accounts › Account assignment.",
+        noKey: "Without cost type",
+        notMappable: "No cost type",
+        lines: "{{count}} line(s)",
+        kinds: {
+          "expense-type": "Cost type",
+          "tax-category": "Category",
+        },
+      },
+      banks: {
+        title: "Bank accounts on {{date}}",
+        hint: "Each registered bank account has its own sub-account of 1800. Enter the balance from the bank statement to compare it with the ledger.",
+        account: "Account",
+        iban: "IBAN",
+        ledgerBalance: "Ledger balance",
+        statementBalance: "Statement balance",
+        difference: "Difference",
+        reconciled: "Matches",
+        unassigned: "(payments without bank account)",
+        showLedger: "Show account sheet",
+      },
+      search: {
+        placeholder: "Search text, account, amount, voucher…",
+        allAccounts: "All accounts",
+        allTypes: "All origins",
+        allYears: "All years",
+        results: "{{count}} hit(s)",
+        reset: "Reset filters",
+        empty: "No bookings match the filters.",
+      },
+      drill: {
+        ledger: "Show bookings in the account sheet",
+      },
+      sources: {
+        column: "Origin",
+        open: "Open source record",
+        kinds: {
+          "rent-payment": "Rent payment",
+          tenant: "Tenant",
+          "garage-payment": "Garage payment",
+          garage: "Garage",
+          cost: "Cost",
+          maintenance: "Maintenance",
+          loan: "Loan",
+          "nk-settlement": "Service charge settlement",
+          deposit: "Deposit",
+          "tax-income": "Other income",
+          "tax-expense": "Other expense",
+          property: "Property",
+          opening: "Opening balance",
+          "fixed-asset": "Fixed asset",
+          "journal-entry": "Journal entry",
+        },
+        types: {
+          opening: "Opening balances",
+          acquisition: "Acquisition",
+          afa: "Depreciation (AfA)",
+          "rent-receivable": "Rent due (accrual)",
+          "rent-payment": "Rent payments",
+          "garage-payment": "Garage payments",
+          "garage-estimate": "Garage rent (estimated)",
+          cost: "Operating costs",
+          maintenance: "Maintenance",
+          "loan-payout": "Loan payouts",
+          "loan-interest": "Loan interest",
+          "loan-principal": "Loan repayments",
+          "nk-settlement": "Service charge settlements",
+          deposit: "Deposits",
+          "deposit-interest": "Deposit interest",
+          "deposit-settlement": "Deposit settlements",
+          "tax-income": "Other income",
+          "tax-expense": "Other expenses",
+          correction: "Corrections",
+          closing: "Closing entries",
+          "asset-acquisition": "Asset acquisitions",
+          "asset-depreciation": "Asset depreciation",
+          carryforward: "Carryforwards",
+        },
+      },
+      euer: {
+        title: "Anlage EÜR {{year}} (cash-basis accounting)",
+        hint: "Income and expenses in the year of payment (§ 11 EStG) from the bank accounts, plus depreciation and deposit deductions. Line numbers follow the 2023 form.",
+        pdf: "PDF",
+        line: "Line",
+        zeile: "L. {{zeile}}",
+        label: "Item",
+        amount: "Amount",
+        income: "Operating income",
+        expenses: "Operating expenses",
+        totalIncome: "Total operating income (L. 23)",
+        totalExpenses: "Total operating expenses (L. 75)",
+        profit: "Profit (L. 93)",
+        loss: "Loss (L. 93)",
+        none: "No bookings.",
+        warnNonCash: "€ {{amount}} of expenses were booked without payment in this year (e.g. against liabilities). They only count in the year they are paid.",
+        warnLiabilities: "€ {{amount}} were paid on liabilities (3300). Book these payments against the expense account so they appear in the EÜR.",
+        lines: {
+          "ust-frei": "VAT-exempt operating income (§ 4 No. 12 UStG)",
+          "ust-pflichtig": "Taxable operating income (net)",
+          "ust-vereinnahmt": "VAT collected",
+          "ust-erstattet": "VAT refunded by the tax office",
+          "afa-gebaeude": "Depreciation on immovable assets",
+          "afa-beweglich": "Depreciation on movable assets",
+          gwg: "Low-value assets (immediate write-off)",
+          sammelposten: "Release of pooled assets (Sammelposten)",
+          grundstueck: "Other expenses for business property",
+          beratung: "Legal and tax advice, bookkeeping",
+          abgaben: "Contributions, fees, levies and insurance",
+          schuldzinsen: "Interest on debt for acquiring fixed assets",
+          vorsteuer: "Input VAT paid",
+          "ust-gezahlt": "VAT paid to the tax office",
+          uebrige: "Other fully deductible operating expenses",
+        },
+      },
+      vat: {
+        title: "VAT return (UStVA) {{year}}",
+        hint: "Derived from the bookings on revenue, VAT and input VAT accounts of units opted into VAT (§ 9 UStG). Book payments to the tax office manually on {{account}}.",
+        monthly: "Monthly",
+        quarterly: "Quarterly",
+        period: "Period",
+        base19: "Kz. 81 net 19 %",
+        tax19: "VAT 19 %",
+        base7: "Kz. 86 net 7 %",
+        tax7: "VAT 7 %",
+        inputTax: "Kz. 66 input VAT",
+        payable: "Kz. 83 payable",
+        paid: "Paid (3820)",
+        total: "Year",
+        units: {
+          title: "Units opted into VAT and input VAT share",
+          hint: "Input VAT on property costs is deductible in proportion to the living area of the opted units (§ 15 (4) UStG); without areas, by number of units.",
+          none: "No unit has the VAT option. Enable it in the apartment details.",
+          property: "Property",
+          units: "Units (rate)",
+          share: "Deductible",
+          byArea: "{{vat}} of {{total}} m²",
+          byUnits: "{{vat}} of {{total}} units",
+        },
+        costs: {
+          title: "Input VAT from costs {{year}}",
+          hint: "Costs are recorded gross. Set the VAT rate contained in the invoice; the deductible share is booked to input VAT, the rest stays an expense.",
+          none: "No costs recorded for properties with opted units.",
+          cost: "Cost",
+          gross: "Gross",
+          rate: "VAT rate",
+          noVat: "no VAT",
+          inputTax: "Deductible input VAT",
+        },
+      },
+      costCenters: {
+        mode: { total: "Total", centers: "By property" },
+        allocation: "Allocate unassigned by",
+        keys: { none: "not allocated", units: "number of apartments", area: "living area", revenue: "revenue share" },
+        keyHint: {
+          none: "Entries without a property (e.g. bank fees) are shown in their own column.",
+          units: "Entries without a property are allocated to the properties by number of apartments.",
+          area: "Entries without a property are allocated to the properties by living area.",
+          revenue: "Entries without a property are allocated to the properties by their share of revenue.",
+        },
+        unassigned: "Unassigned",
+        consolidated: "Portfolio",
+        result: "Result",
+        allUnits: "All units",
+        apartment: "Apt. {{code}}",
+        garage: "Garage {{code}}",
+        filterHint: "Cost-centre view: only entries assigned to the selected property/unit.",
+      },
+      period: {
+        kinds: { year: "Year", quarter: "Quarter", month: "Month", ytd: "Year to date" },
+        label: {
+          quarter: "Q{{index}}/{{year}}",
+          month: "{{month}}/{{year}}",
+          ytd: "01–{{month}}/{{year}}",
+        },
+        compare: "Prior year",
+        prior: "Prior year",
+        delta: "Deviation",
+      },
+      audit: {
+        verify: "Verify chain",
+        ok: "Audit trail intact: {{count}} manual entries, numbering complete, no entry altered.",
+        failed: "Audit trail NOT intact — see findings below.",
+        legacy: "{{count}} entries were recorded before the audit trail was introduced (not signed).",
+        gaps: "Missing entry numbers: {{numbers}}",
+        issue: "Entry {{number}}: {{status}}",
+        status: {
+          ok: "ok",
+          altered: "content altered after booking",
+          "broken-link": "chain broken (predecessor missing or replaced)",
+          unsigned: "not signed",
+          duplicate: "duplicate entry number",
+        },
+        export: "Export audit log",
+        close: "Close",
+      },
     },
     bank: {
       title: "Bank Statement Import",
-      dropOrClick: "Drop a PDF here or click to select",
+      dropOrClick: "Drop a PDF, CAMT.053/052 (XML), MT940 or CSV file here or click to select",
       browse: "Browse",
-      parsing: "Parsing PDF...",
-      invalidFile: "Please select a PDF file.",
-      noTransactions: "No transactions found in this PDF.",
-      parseError: "Failed to parse the PDF. Make sure it is a supported bank statement.",
+      parsing: "Reading statement...",
+      invalidFile: "Please select a PDF, CAMT (XML), MT940 or CSV file.",
+      noTransactions: "No transactions found in this file.",
+      parseError: "Failed to read the file. Make sure it is a supported bank statement (PDF, CAMT.053/052, MT940 or CSV).",
+      openingBalance: "Opening balance {{date}}",
+      closingBalance: "Closing balance {{date}}",
+      balanceOk: "transactions match the balances",
+      balanceMismatch: "Opening balance plus transactions differs from the closing balance by € {{diff}} — the file may be incomplete.",
+      endToEnd: "Ref. {{ref}}",
+      csv: {
+        profile: "CSV import profile",
+        customProfile: "Custom profile",
+        noProfile: "The CSV format was not recognised. Please map the columns in a custom profile.",
+        headerNotFound: "The date and amount columns of the profile were not found in this file.",
+        customHint: "Columns are given by their header name or number (starting at 1). The profile is stored in this browser.",
+        profileName: "Profile name",
+        delimiter: "Delimiter",
+        delimiterSemicolon: "Semicolon (;)",
+        delimiterComma: "Comma (,)",
+        delimiterTab: "Tab",
+        decimal: "Decimal separator",
+        decimalComma: "Comma (1.234,56)",
+        decimalPoint: "Point (1,234.56)",
+        dateColumn: "Date column",
+        dateFormat: "Date format",
+        amountColumn: "Amount column",
+        sign: "Sign convention",
+        sign_signed: "Debits negative",
+        sign_inverted: "Debits positive",
+        sign_indicator: "Debit/credit column",
+        indicatorColumn: "Debit/credit column",
+        debitMarkers: "Debit markers (comma-separated)",
+        descriptionColumns: "Description columns (comma-separated)",
+        counterpartyColumn: "Counterparty column",
+        counterpartyIbanColumn: "Counterparty IBAN column",
+        apply: "Apply profile",
+      },
+      match: {
+        confidence: "Suggestion {{percent}} %",
+        iban: "payer IBAN known from earlier payments",
+        name: "name \"{{name}}\"",
+        expectedAmount: "amount = rent + service charges (€ {{amount}})",
+        previousAmount: "amount = last recorded rent (€ {{amount}})",
+        apartmentCode: "apartment {{code}} in reference",
+        monthHint: "month {{month}} {{year}} from reference",
+        advancePayment: "paid at month end, assigned to the following month",
+        ambiguous: "{{count}} apartments fit similarly",
+        monthRecorded: "month already recorded for this apartment",
+        monthTwice: "month already suggested for another transaction",
+        acceptAll: "Accept {{count}} confident suggestions",
+        accepted: "{{count}} transactions assigned",
+      },
       found: "{{count}} transactions found",
       uploadNew: "Upload Another",
       date: "Date",
@@ -881,6 +1387,11 @@ const resources = {
       cumulativeCashflow: "Cumulative Cashflow",
       rentComposition: "Rent Composition",
       monthlyDetail: "Monthly Details",
+      garage: {
+        included: "incl. {{sum}} garage rent",
+        estimated: "Garages without recorded payments: {{sum}} estimated from the monthly rent for let months.",
+        difference: "Garage {{garage}}: expected {{expected}}, received {{received}}.",
+      },
       estimatedMonthly: "Annual costs distributed evenly across 12 months",
       cumulative: "Cumulative",
       month: "Month",
@@ -1326,6 +1837,12 @@ const resources = {
         nameEn: "Name (Englisch)",
         nameDe: "Name (Deutsch)",
         distributionMethod: "Verteilungsschlüssel",
+        account: "Aufwandskonto",
+      },
+      account: {
+        suggestion: "Vorschlag: {{account}}",
+        mapped: "Zugeordnetes Aufwandskonto",
+        suggested: "Vorschlag anhand des Namens — Konto zuordnen, um es festzulegen",
       },
       placeholders: {
         key: "z.B. strom",
@@ -1404,11 +1921,16 @@ const resources = {
       afaNotYet: "vor AfA-Beginn",
       afaDone: "vollständig abgeschrieben",
       afaProRata: "zeitanteilig {{months}}/12",
+      afaDegressive: "degressiv {{rate}} % vom Restwert",
+      afaResidual: "Restwert / Restnutzungsdauer",
+      afaAdditions: "inkl. nachträglicher Herstellungskosten € {{amount}}",
+      afaNoStart: "AfA-Beginn fehlt",
       tabs: {
         summary:     "Zusammenfassung",
         config:      "AfA-Konfiguration",
         loans:       "Darlehen",
         maintenance: "Erhaltungsaufwand",
+        assets:      "Anlagen",
       },
       summary: {
         income: {
@@ -1417,6 +1939,7 @@ const resources = {
           nebenkosten: "Nebenkostenvorauszahlungen",
           rent:        "Miete",
           garages:     "Garagen / Stellplätze",
+          garagesEstimated: "davon € {{sum}} rechnerisch",
           total:       "Bruttomieteinnahmen",
           empty:       "Keine Mietzahlungen für dieses Jahr erfasst.",
         },
@@ -1429,6 +1952,8 @@ const resources = {
           betriebskosten: "Laufende Betriebskosten",
           verwaltung:     "Verwaltungskosten",
           sonstige:       "Sonstige Werbungskosten",
+          assetAfa:       "AfA bewegliche Wirtschaftsgüter",
+          sonderAfa:      "Sonderabschreibung § 7b EStG",
           limited:        "Abziehbar §21(2): {{pct}}%",
           total:          "Gesamte Werbungskosten",
           empty:          "Keine Werbungskosten erfasst.",
@@ -1454,6 +1979,8 @@ const resources = {
         below50:     "Miete beträgt {{pct}}% der ortsüblichen Miete (< 50%): Werbungskosten sind nur anteilig ({{pct}}%) abziehbar.",
         below66:     "Miete beträgt {{pct}}% der ortsüblichen Miete (50–66%): voller Werbungskostenabzug nur bei positiver Totalüberschussprognose.",
         herstellung: "Erhaltungsaufwand der ersten 3 Jahre (€ {{sum}}) übersteigt 15% des Gebäudewerts (€ {{threshold}}). Mögliche anschaffungsnahe Herstellungskosten — nur über die AfA absetzbar.",
+        garageEstimated:  "Keine Garagenzahlungen erfasst ({{garages}}): € {{sum}} rechnerisch aus der Monatsmiete angesetzt.",
+        garageDifference: "Garage {{garage}}: erwartet € {{expected}}, erhalten € {{received}}.",
       },
       config: {
         title:              "AfA-Konfiguration",
@@ -1465,9 +1992,25 @@ const resources = {
         buildingValue:      "Gebäudewert",
         buildingValueHint:  "Wird automatisch aus Kaufpreis − Bodenwert berechnet. Sie können den Wert manuell anpassen.",
         afaRate:            "AfA-Satz",
-        afaRateHint:        "Üblicherweise 2 % (Baujahr nach 1924) oder 2,5 % (Baujahr vor 1925).",
+        afaRateHint:        "2 % (Baujahr 1925–2022), 2,5 % (Baujahr vor 1925) oder 3 % (Fertigstellung ab 2023), § 7 Abs. 4 EStG.",
+        afaRateSuggestion:  "Vorschlag für Baujahr {{year}}: {{rate}} % (§ 7 Abs. 4 EStG).",
         afaStartDate:       "AfA-Beginn",
         afaStartHint:       "Im ersten Jahr wird die AfA monatsgenau berechnet.",
+        afaMethod:          "Methode",
+        afaMethods: {
+          linear:     "Linear",
+          degressive: "Degressiv {{rate}} % (§ 7 Abs. 5a EStG)",
+        },
+        degressiveHint:     "{{rate}} % vom Restwert für neue Wohngebäude (Baubeginn 10/2023–09/2029). Der lineare Satz bestimmt die Nutzungsdauer nach dem Wechsel.",
+        switchYear:         "Wechsel zur linearen AfA ab",
+        switchYearHint:     "Leer lassen für den Wechsel {{year}}, dem ersten Jahr, in dem Restwert / Restnutzungsdauer die degressive AfA übersteigt.",
+        switchFrom:         "linear ab {{year}}",
+        sonderAfa:          "Sonder-AfA § 7b EStG (neue Mietwohnungen)",
+        sonderAfaBasis:     "Förderfähige Bemessungsgrundlage",
+        sonderAfaHint:      "Zusätzlich 5 % jährlich im Jahr der Fertigstellung und den drei Folgejahren, Bemessungsgrundlage höchstens € {{max}} je m² Wohnfläche.",
+        sonderAfaCap:       "{{area}} m² Wohnfläche → Bemessungsgrundlage höchstens € {{cap}}.",
+        sonderAfaCostCap:   "Baukosten von € {{cost}}/m² übersteigen die Obergrenze von € {{limit}}/m² — keine Sonder-AfA möglich.",
+        sonderAfaAmount:    "davon Sonder-AfA € {{amount}}",
       },
       loans: {
         title:            "Hypotheken / Schuldzinsen",
@@ -1479,6 +2022,23 @@ const resources = {
         annualInterest:   "Gezahlte Zinsen (jährlich)",
         notes:            "Notizen",
         unnamed:          "Unbenanntes Darlehen",
+        annuityToggle:    "Annuitätendarlehen mit Tilgungsplan",
+        originalAmount:   "Darlehensbetrag",
+        payoutDate:       "Auszahlungsdatum",
+        interestRate:     "Sollzins p.a.",
+        repaymentRate:    "Anfängliche Tilgung p.a.",
+        fixedUntil:       "Zinsbindung bis",
+        termsSummary:     "€ {{amount}} zu {{rate}} % + {{repayment}} % Tilgung seit {{date}} — Rate monatlich € {{payment}}",
+        showSchedule:     "Tilgungsplan",
+        hideSchedule:     "Tilgungsplan ausblenden",
+        schedule: {
+          year:      "Jahr",
+          payment:   "Raten",
+          interest:  "Zinsen",
+          principal: "Tilgung",
+          balance:   "Restschuld zum Jahresende",
+          fixedEnd:  "Restschuld bei Ende der Zinsbindung ({{date}}): € {{balance}}. Folgejahre mit unverändertem Zins gerechnet.",
+        },
       },
       maintenance: {
         title:           "Erhaltungsaufwand",
@@ -1495,6 +2055,51 @@ const resources = {
         spreadN:         "{{n}} Jahre (§82b EStDV)",
         spreadBadge:     "auf {{n}} Jahre",
         perYearHint:     "€ {{amount}} pro Jahr abziehbar.",
+        kind:            "Art",
+        kinds: {
+          erhaltung:   "Erhaltungsaufwand",
+          herstellung: "Nachträgliche Herstellungskosten",
+        },
+        herstellungHint: "Nachträgliche Herstellungskosten erhöhen ab dem Jahr der Zahlung die AfA-Bemessungsgrundlage des Gebäudes und werden mit ihr abgeschrieben.",
+      },
+      assets: {
+        title:           "Anlagenverzeichnis (bewegliche Wirtschaftsgüter)",
+        add:             "Hinzufügen",
+        hint:            "Einbauküchen, Heizungsanlagen, Möblierung usw. werden aktiviert und getrennt vom Gebäude abgeschrieben. Die Abschreibung fließt in die Werbungskosten und in die Buchhaltung ein.",
+        empty:           "Noch keine Anlagegüter erfasst.",
+        name:            "Anlagegut",
+        namePlaceholder: "z. B. Einbauküche Whg. 1",
+        apartment:       "Zuordnung",
+        wholeProperty:   "Ganze Immobilie",
+        acquisitionDate: "Anschaffungsdatum",
+        cost:            "Anschaffungskosten (netto)",
+        method:          "Methode",
+        usefulLife:      "Nutzungsdauer (Jahre)",
+        lifeBadge:       "{{n}} Jahre",
+        yearAmount:      "Abschreibung {{year}}: € {{amount}}",
+        total:           "Abschreibung {{year}} gesamt",
+        bookValue:       "Restbuchwert zum 31.12.{{year}}: € {{amount}}",
+        methods: {
+          linear: "Linear",
+          gwg:    "GWG-Sofortabschreibung",
+          pool:   "Sammelposten",
+        },
+        methodHints: {
+          linear: "Anschaffungskosten / Nutzungsdauer je Jahr, im Anschaffungsjahr monatsgenau zeitanteilig (§ 7 Abs. 1 EStG).",
+          gwg:    "Vollständige Abschreibung im Anschaffungsjahr (§ 6 Abs. 2 EStG, bis 800 € netto).",
+          pool:   "Gleichmäßig über {{years}} Jahre ab dem Anschaffungsjahr (§ 6 Abs. 2a EStG, über 250 € bis 1.000 € netto).",
+        },
+        errors: {
+          gwgLimit:   "Sofortabschreibung nur bis € {{limit}} netto möglich.",
+          poolRange:  "Sammelposten nur für Wirtschaftsgüter über € {{min}} bis € {{max}} netto.",
+          usefulLife: "Bitte Nutzungsdauer angeben.",
+        },
+        schedule: {
+          year:    "Jahr",
+          opening: "Buchwert 01.01.",
+          amount:  "Abschreibung",
+          closing: "Buchwert 31.12.",
+        },
       },
     },
     tasks: {
@@ -1721,6 +2326,41 @@ const resources = {
         nebenkostenWarm: "Nebenkosten warm",
         total: "Gesamt",
       },
+      deposit: {
+        title: "Mietkaution",
+        amount: "Vereinbarte Kaution",
+        interestRate: "Zinssatz",
+        account: "Kautionskonto",
+        accountPlaceholder: "Bank / IBAN des getrennten Kautionskontos",
+        maxHint: "Übersteigt drei Nettokaltmieten (max. € {{max}}, § 551 BGB).",
+        payments: "Raten",
+        addPayment: "Rate hinzufügen",
+        paid: "Eingezahlt",
+        outstanding: "Noch offen",
+        interest: "Aufgelaufene Zinsen",
+        balance: "Guthaben des Mieters",
+        save: "Kaution speichern",
+        settle: "Kaution nach Auszug abrechnen",
+        settlementTitle: "Kautionsabrechnung",
+        settlementDate: "Abrechnungstag",
+        deductions: "Einbehalte",
+        addDeduction: "Einbehalt hinzufügen",
+        description: "Beschreibung",
+        nkClaim: "NK-Nachzahlung {{year}}",
+        retained: "Einbehalten",
+        openClaim: "Durch Kaution nicht gedeckt",
+        payout: "Auszahlung an Mieter",
+        settleHint: "Einbehalte werden als Ertrag gebucht, die Auszahlung gegen das Kautionskonto.",
+        confirmSettle: "Abrechnung bestätigen",
+        settledOn: "Abgerechnet am {{date}}",
+        letter: "Abrechnungsschreiben (PDF)",
+        reopen: "Wieder öffnen",
+        kinds: {
+          nk: "NK-Nachzahlung",
+          damage: "Schadensersatz",
+          other: "Sonstiges",
+        },
+      },
       household: {
         title: "Mitbewohner",
         hint: "Alle Personen hinzufügen, die in der Wohnung leben. Diese Daten werden für die Wohnbescheinigung verwendet.",
@@ -1799,6 +2439,10 @@ const resources = {
         wohnflaecheHint: "Wohnfläche in m². Wird für die Nebenkostenverteilung verwendet.",
         marketRent: "Ortsübliche Vergleichsmiete (kalt)",
         marketRentHint: "Ortsübliche Kaltmiete für eine vergleichbare Wohnung (z. B. Mietspiegel) — nicht die Miete Ihres Mieters. Grundlage der 66-%-Prüfung (Anlage V, §21 Abs. 2 EStG).",
+        vatOption: "Umsatzsteuer-Option (§ 9 UStG)",
+        vatOptionHint: "Gewerblich vermietete Einheit mit Option zur Umsatzsteuer. Erfasste Mieten sind Bruttobeträge; die Buchhaltung teilt sie in Nettomiete und Umsatzsteuer.",
+        vatRate: "Steuersatz",
+        vatExempt: "steuerfrei (§ 4 Nr. 12 UStG)",
         stromZaehlerNr: "Stromzählernummer",
         wasserZaehlerNrn: "Wasserzählernummern",
         addWasserZaehler: "Wasserzähler hinzufügen",
@@ -2021,7 +2665,7 @@ const resources = {
       },
     },
     accounting: {
-      gobdNote: "Doppelte Buchführung nach GoB/GoBD-Grundsätzen (Kontenrahmen in Anlehnung an SKR04). Automatische Buchungen (A-…) werden aus den vorhandenen Daten abgeleitet — Mietzahlungen, Kosten, Darlehen, AfA. Manuelle Buchungen (M-…) sind nach der Erfassung unveränderlich; Korrekturen erfolgen ausschließlich per Storno. Hinweis: Private Vermieter sind i.d.R. nicht buchführungspflichtig (§238 HGB, §141 AO) — dieses Modul ist eine freiwillige, GoB-orientierte Buchführungssicht.",
+      gobdNote: "Doppelte Buchführung nach GoB/GoBD-Grundsätzen (Kontenrahmen in Anlehnung an SKR04). Automatische Buchungen (A-Jahr-…) werden aus den vorhandenen Daten abgeleitet — Mietzahlungen, Kosten, Darlehen, AfA — und behalten ihre einmal vergebene Belegnummer. Manuelle Buchungen (M-…) sind nach der Erfassung unveränderlich; Korrekturen erfolgen ausschließlich per Storno. Hinweis: Private Vermieter sind i.d.R. nicht buchführungspflichtig (§238 HGB, §141 AO) — dieses Modul ist eine freiwillige, GoB-orientierte Buchführungssicht.",
       allProperties: "Alle Immobilien",
       onboarding: {
         title: "Buchhaltung einrichten — Eröffnungsbilanz",
@@ -2042,6 +2686,11 @@ const resources = {
         susa:    "SuSa",
         guv:     "GuV",
         bilanz:  "Bilanz",
+        cashflow: "Kapitalfluss",
+        euer: "Anlage EÜR",
+        ustva: "UStVA",
+        plan:    "Plan/Ist",
+        kontenrahmen: "Kontenrahmen",
       },
       journal: {
         title: "Journal (Grundbuch) {{year}}",
@@ -2065,10 +2714,32 @@ const resources = {
         stornoConfirm: "Storno bestätigen",
         stornoedBadge: "storniert",
         beforeOpening: "Keine Buchungen vor dem Eröffnungsbilanzstichtag ({{date}}) zulässig.",
+        splitToggle: "Splitbuchung (mehrere Soll-/Habenkonten)",
+        splitAdd: "Position hinzufügen",
+        splitRemove: "Position entfernen",
+        splitUnbalanced: "Soll- und Habensumme müssen übereinstimmen.",
+        splitBadge: "Split",
+        numbersFix: "Belegnummern festschreiben ({{count}})",
+        numberPending: "Vorläufige Nummer — wird beim DATEV-Export, beim Jahresabschluss oder über „Belegnummern festschreiben“ endgültig vergeben.",
+        numbersPendingInfo: "{{count}} automatische Buchungen in {{year}} haben erst vorläufige Belegnummern.",
+        numbersVacated: "Belegnummern ohne Buchung (Quelle gelöscht oder in ein anderes Jahr verschoben): {{numbers}}",
+      },
+      override: {
+        edit: "Umbuchen (Konto, Datum, Immobilie)",
+        hint: "Überschreibt die abgeleitete Buchung {{id}}, ohne die Quelldaten zu ändern. Leere Felder übernehmen den abgeleiteten Wert.",
+        keep: "unverändert ({{value}})",
+        note: "Begründung (optional)",
+        notePlaceholder: "z. B. Nebenkostenerstattung, keine sonstige Einnahme",
+        save: "Umbuchung speichern",
+        remove: "Umbuchung entfernen",
+        badge: "umgebucht",
+        original: "Abgeleitet: {{debit}} an {{credit}} am {{date}}",
+        closedYear: "Das Jahr ist abgeschlossen — die Änderung wird als Korrektur zum 01.01.{{next}} gebucht.",
       },
       konten: {
         title: "Kontenblatt (Hauptbuch)",
         counterAccount: "Gegenkonto",
+        receivablesHint: "Soll-Modus: Sollbuchungen sind fällige Mieten, Habenbuchungen Zahlungseingänge — der Saldo entspricht den offenen Mietrückständen.",
         soll: "Soll",
         haben: "Haben",
         saldo: "Saldo",
@@ -2095,15 +2766,361 @@ const resources = {
         total: "Bilanzsumme",
         asOf: "zum {{date}}",
       },
+      datev: {
+        export: "DATEV-Export",
+        intro: "Alle Buchungen {{year}} ({{property}}, {{count}} Buchungen) als DATEV-Buchungsstapel (EXTF-Format) für den Steuerberater exportieren. Stornierte Belege und ihre Stornobuchungen werden beide übergeben.",
+        beraterNr: "Beraternummer",
+        mandantNr: "Mandantennummer",
+        invalidNumbers: "Die Beraternummer muss 4–7 Ziffern, die Mandantennummer 1–5 Ziffern haben.",
+        download: "EXTF-Datei herunterladen",
+      },
+      kontenrahmen: {
+        title: "Kontenrahmen",
+        intro: "Wählen Sie den Kontenrahmen, mit dem Ihr Steuerberater arbeitet. Buchungen werden unabhängig vom Kontenrahmen gespeichert; ein Wechsel ändert nur die Kontonummern in allen Ansichten und im DATEV-Export.",
+        hintSKR04: "SKR04 (Standard): Konten nach dem Abschlussgliederungsprinzip (Klassen 0–9).",
+        hintSKR03: "SKR03: Standardkonten werden mit ihren SKR03-Nummern angezeigt und exportiert (z. B. Bank 1200, Mieterträge 8105).",
+        rentMode: "Mieterträge",
+        cash: "Nach Zufluss",
+        accrual: "Soll (Forderungen)",
+        cashHint: "Mieten werden bei erfasster Zahlung gebucht (Bank an Mieterträge).",
+        accrualHint: "Die vertragliche Miete jedes Mieters wird zum Monatsersten als Forderung (1200) gebucht und durch die Zahlung ausgeglichen. Offene Forderungen erscheinen in der Bilanz, das Konto 1200 zeigt die Mietrückstände.",
+        customTitle: "Eigene Konten",
+        customEmpty: "Noch keine eigenen Konten — z. B. ein zweites Bankkonto oder ein Kautionskonto.",
+        number: "Konto-Nr.",
+        name: "Bezeichnung",
+        type: "Kontoart",
+        add: "Anlegen",
+        delete: "Konto löschen",
+        inUse: "Auf dem Konto gibt es Buchungen, es kann nicht gelöscht werden",
+        unknownWarning: "Buchungen verwenden unbekannte Konten ({{accounts}}). Diese fließen nicht in GuV und Bilanz ein.",
+        types: {
+          asset: "Aktivkonto",
+          liability: "Passivkonto (Fremdkapital)",
+          equity: "Eigenkapital",
+          revenue: "Ertragskonto",
+          expense: "Aufwandskonto",
+        },
+        error: {
+          format: "Kontonummern sind genau 4-stellig.",
+          taken: "Diese Nummer ist bereits durch ein Standard- oder eigenes Konto belegt.",
+        },
+      },
+      close: {
+        button: "Jahresabschluss {{year}}",
+        title: "Jahresabschluss {{year}}",
+        intro: "Der Abschluss speichert SuSa, GuV und Bilanz als Snapshot, bucht die Abschlussbuchungen (Ergebnis auf 2970, Bestände auf das Schlussbilanzkonto) und trägt die Salden auf den 01.01.{{next}} vor. Danach ist das Jahr gesperrt: Manuelle Buchungen sind nicht mehr möglich, spätere Änderungen an Mietzahlungen, Kosten usw. dieses Jahres werden als Korrekturbuchungen im Folgejahr erfasst. Der Abschluss kann nicht rückgängig gemacht werden.",
+        unbalanced: "Die Bilanz ist nicht ausgeglichen — bitte prüfen Sie die Buchungen vor dem Abschluss.",
+        confirm: "Jahr endgültig abschließen",
+        closedAt: "Abgeschlossen am {{date}}",
+        locked: "Jahr abgeschlossen",
+        periodClosed: "Die Geschäftsjahre bis {{year}} sind abgeschlossen.",
+      },
+      budget: {
+        title: "Plan/Ist {{year}}",
+        portfolio: "Portfolio (alle Immobilien)",
+        through: "bis",
+        plan: "Plan",
+        actual: "Ist",
+        planYear: "Plan Jahr",
+        forecast: "Hochrechnung",
+        hint: "Plan und Ist bis einschließlich des gewählten Monats. Abweichungen ab {{threshold}} % sind hervorgehoben: rot ungünstig, grün günstig. Hochrechnung = Ist bisher + Plan der Restmonate.",
+        entryTitle: "Budgeterfassung — {{scope}}",
+        add: "Budget erfassen",
+        edit: "Bearbeiten",
+        delete: "Löschen",
+        yearAmount: "Jahresbetrag",
+        spread: "Verteilen",
+        sum: "Summe",
+        empty: "Für dieses Jahr ist kein Budget erfasst.",
+      },
+      cashFlow: {
+        title: "Kapitalflussrechnung {{year}}",
+        hint: "Direkte Methode: alle Zahlungen auf den Bankkonten ({{account}}), zugeordnet nach Gegenkonto. Umbuchungen zwischen eigenen Bankkonten sind keine Zahlungen.",
+        counterAccount: "Gegenkonto",
+        inflow: "Einzahlungen",
+        outflow: "Auszahlungen",
+        net: "Saldo",
+        opening: "Finanzmittelbestand am Anfang der Periode",
+        closing: "Finanzmittelbestand am Ende der Periode",
+        netChange: "Zahlungswirksame Veränderung",
+        areas: {
+          operating: "Laufende Geschäftstätigkeit (Mieten, Kosten, Zinsen)",
+          investing: "Investitionstätigkeit (Anschaffungen)",
+          financing: "Finanzierungstätigkeit (Darlehen, Privatentnahmen und -einlagen)",
+        },
+        totals: {
+          operating: "Cashflow aus laufender Geschäftstätigkeit",
+          investing: "Cashflow aus Investitionstätigkeit",
+          financing: "Cashflow aus Finanzierungstätigkeit",
+        },
+        reconciled: "Abgestimmt: Anfangsbestand zuzüglich der Cashflows ergibt den Endbestand laut Bankkonto.",
+        difference: "Nicht abgestimmt: Differenz von € {{amount}} zu den Kontenblättern der Bankkonten.",
+      },
+      garageRent: {
+        estimated: "Keine Garagenzahlungen für {{year}} erfasst ({{garages}}) — Erlös rechnerisch aus der Monatsmiete der vermieteten Monate.",
+        difference: "Garage {{garage}} {{year}}: erwartet € {{expected}}, erhalten € {{received}} (Monate ohne Zahlung: {{months}}).",
+      },
+      mappings: {
+        taxTitle: "Konten für sonstige Werbungskosten",
+        taxIntro: "Jede Kategorie sonstiger Werbungskosten wird auf das hier zugeordnete Konto gebucht. Ohne Zuordnung gilt ein Vorschlag anhand des Kategorienamens.",
+        taxEmpty: "Noch keine Ausgaben mit Kategorie erfasst.",
+        suggested: "Vorschlag",
+        reset: "Zuordnung aufheben (Vorschlag verwenden)",
+        fallbackTitle: "Buchungen auf {{account}} ({{year}})",
+        fallbackIntro: "Diese Kostenzeilen haben weder ein zugeordnetes Konto noch einen passenden Vorschlag und landen auf dem Sammelkonto. Ordnen Sie je Kostenart bzw. Kategorie ein Konto zu; Kostenarten lassen sich auch unter Kostenarten zuordnen.",
+        fallbackEmpty: "Alle Kostenzeilen dieses Jahres sind einem Konto zugeordnet.",
+        fallbackNote: "{{count}} Kostenzeilen aus {{year}} landen auf dem Sammelkonto 6300 — siehe Kontenrahmen › Kontenzuordnung.",
+        noKey: "Ohne Kostenart",
+        notMappable: "Keine Kostenart",
+        lines: "{{count}} Zeile(n)",
+        kinds: {
+          "expense-type": "Kostenart",
+          "tax-category": "Kategorie",
+        },
+      },
+      banks: {
+        title: "Bankkonten zum {{date}}",
+        hint: "Jedes erfasste Bankkonto hat ein eigenes Unterkonto zu 1800. Saldo laut Kontoauszug eintragen, um ihn mit dem Kontenblatt abzugleichen.",
+        account: "Konto",
+        iban: "IBAN",
+        ledgerBalance: "Saldo Kontenblatt",
+        statementBalance: "Saldo Kontoauszug",
+        difference: "Differenz",
+        reconciled: "Stimmt überein",
+        unassigned: "(Zahlungen ohne Bankkonto)",
+        showLedger: "Kontenblatt anzeigen",
+      },
+      search: {
+        placeholder: "Text, Konto, Betrag, Beleg suchen…",
+        allAccounts: "Alle Konten",
+        allTypes: "Alle Herkünfte",
+        allYears: "Alle Jahre",
+        results: "{{count}} Treffer",
+        reset: "Filter zurücksetzen",
+        empty: "Keine Buchungen passen zu den Filtern.",
+      },
+      drill: {
+        ledger: "Buchungen im Kontenblatt anzeigen",
+      },
+      sources: {
+        column: "Herkunft",
+        open: "Quelldatensatz öffnen",
+        kinds: {
+          "rent-payment": "Mietzahlung",
+          tenant: "Mieter",
+          "garage-payment": "Garagenmiete",
+          garage: "Garage",
+          cost: "Kosten",
+          maintenance: "Erhaltungsaufwand",
+          loan: "Darlehen",
+          "nk-settlement": "NK-Abrechnung",
+          deposit: "Kaution",
+          "tax-income": "Sonstige Einnahme",
+          "tax-expense": "Sonstige Ausgabe",
+          property: "Immobilie",
+          opening: "Saldovortrag",
+          "fixed-asset": "Anlagegut",
+          "journal-entry": "Buchungssatz",
+        },
+        types: {
+          opening: "Saldovorträge",
+          acquisition: "Anschaffung",
+          afa: "AfA",
+          "rent-receivable": "Sollmieten",
+          "rent-payment": "Mietzahlungen",
+          "garage-payment": "Garagenmieten",
+          "garage-estimate": "Garagenmieten (rechnerisch)",
+          cost: "Betriebskosten",
+          maintenance: "Erhaltungsaufwand",
+          "loan-payout": "Darlehensauszahlungen",
+          "loan-interest": "Darlehenszinsen",
+          "loan-principal": "Tilgungen",
+          "nk-settlement": "NK-Nachzahlungen",
+          deposit: "Kautionen",
+          "deposit-interest": "Kautionszinsen",
+          "deposit-settlement": "Kautionsabrechnungen",
+          "tax-income": "Sonstige Einnahmen",
+          "tax-expense": "Sonstige Werbungskosten",
+          correction: "Korrekturen",
+          closing: "Abschlussbuchungen",
+          "asset-acquisition": "Anschaffung Anlagegüter",
+          "asset-depreciation": "Abschreibung Anlagegüter",
+          carryforward: "Eröffnungsbuchungen",
+        },
+      },
+      euer: {
+        title: "Anlage EÜR {{year}} (Einnahmen-Überschuss-Rechnung)",
+        hint: "Einnahmen und Ausgaben im Jahr der Zahlung (§ 11 EStG) aus den Bankkonten, zuzüglich AfA und Kautionseinbehalten. Zeilennummern nach Vordruck 2023.",
+        pdf: "PDF",
+        line: "Zeile",
+        zeile: "Z. {{zeile}}",
+        label: "Posten",
+        amount: "Betrag",
+        income: "Betriebseinnahmen",
+        expenses: "Betriebsausgaben",
+        totalIncome: "Summe Betriebseinnahmen (Z. 23)",
+        totalExpenses: "Summe Betriebsausgaben (Z. 75)",
+        profit: "Gewinn (Z. 93)",
+        loss: "Verlust (Z. 93)",
+        none: "Keine Buchungen.",
+        warnNonCash: "€ {{amount}} Aufwand wurde in diesem Jahr ohne Zahlung gebucht (z. B. gegen Verbindlichkeiten). Er zählt erst im Jahr der Zahlung.",
+        warnLiabilities: "€ {{amount}} wurden auf Verbindlichkeiten (3300) gezahlt. Diese Zahlungen gegen das Aufwandskonto buchen, damit sie in der EÜR erscheinen.",
+        lines: {
+          "ust-frei": "Umsatzsteuerfreie Betriebseinnahmen (§ 4 Nr. 12 UStG)",
+          "ust-pflichtig": "Umsatzsteuerpflichtige Betriebseinnahmen (netto)",
+          "ust-vereinnahmt": "Vereinnahmte Umsatzsteuer",
+          "ust-erstattet": "Vom Finanzamt erstattete Umsatzsteuer",
+          "afa-gebaeude": "AfA auf unbewegliche Wirtschaftsgüter",
+          "afa-beweglich": "AfA auf bewegliche Wirtschaftsgüter",
+          gwg: "Aufwendungen für geringwertige Wirtschaftsgüter",
+          sammelposten: "Auflösung Sammelposten",
+          grundstueck: "Sonstige Aufwendungen für betrieblich genutzte Grundstücke",
+          beratung: "Rechts- und Steuerberatung, Buchführung",
+          abgaben: "Beiträge, Gebühren, Abgaben und Versicherungen",
+          schuldzinsen: "Schuldzinsen für die Anschaffung von Anlagevermögen",
+          vorsteuer: "Gezahlte Vorsteuerbeträge",
+          "ust-gezahlt": "An das Finanzamt gezahlte Umsatzsteuer",
+          uebrige: "Übrige unbeschränkt abziehbare Betriebsausgaben",
+        },
+      },
+      vat: {
+        title: "Umsatzsteuer-Voranmeldung {{year}}",
+        hint: "Abgeleitet aus den Buchungen auf Erlös-, Umsatzsteuer- und Vorsteuerkonten der optierten Einheiten (§ 9 UStG). Zahlungen an das Finanzamt manuell auf {{account}} buchen.",
+        monthly: "Monatlich",
+        quarterly: "Vierteljährlich",
+        period: "Zeitraum",
+        base19: "Kz. 81 netto 19 %",
+        tax19: "USt 19 %",
+        base7: "Kz. 86 netto 7 %",
+        tax7: "USt 7 %",
+        inputTax: "Kz. 66 Vorsteuer",
+        payable: "Kz. 83 Vorauszahlung",
+        paid: "Gezahlt (3820)",
+        total: "Jahr",
+        units: {
+          title: "Optierte Einheiten und Vorsteuerquote",
+          hint: "Vorsteuer aus Kosten der Immobilie ist im Verhältnis der Wohnfläche der optierten Einheiten abziehbar (§ 15 Abs. 4 UStG); ohne Flächenangaben nach Zahl der Einheiten.",
+          none: "Keine Einheit mit Umsatzsteuer-Option. Die Option wird in den Wohnungsdetails gesetzt.",
+          property: "Immobilie",
+          units: "Einheiten (Steuersatz)",
+          share: "Abziehbar",
+          byArea: "{{vat}} von {{total}} m²",
+          byUnits: "{{vat}} von {{total}} Einheiten",
+        },
+        costs: {
+          title: "Vorsteuer aus Kosten {{year}}",
+          hint: "Kosten sind Bruttobeträge. Den in der Rechnung enthaltenen Steuersatz wählen; der abziehbare Anteil wird als Vorsteuer gebucht, der Rest bleibt Aufwand.",
+          none: "Keine Kosten für Immobilien mit optierten Einheiten erfasst.",
+          cost: "Kosten",
+          gross: "Brutto",
+          rate: "Steuersatz",
+          noVat: "ohne USt",
+          inputTax: "Abziehbare Vorsteuer",
+        },
+      },
+      costCenters: {
+        mode: { total: "Gesamt", centers: "Je Immobilie" },
+        allocation: "Nicht Zugeordnetes verteilen nach",
+        keys: { none: "nicht verteilen", units: "Anzahl Wohnungen", area: "Wohnfläche", revenue: "Ertragsanteil" },
+        keyHint: {
+          none: "Buchungen ohne Immobilie (z. B. Kontoführungsgebühren) stehen in einer eigenen Spalte.",
+          units: "Buchungen ohne Immobilie werden nach Anzahl der Wohnungen auf die Immobilien verteilt.",
+          area: "Buchungen ohne Immobilie werden nach Wohnfläche auf die Immobilien verteilt.",
+          revenue: "Buchungen ohne Immobilie werden nach Ertragsanteil auf die Immobilien verteilt.",
+        },
+        unassigned: "Nicht zugeordnet",
+        consolidated: "Portfolio",
+        result: "Ergebnis",
+        allUnits: "Alle Einheiten",
+        apartment: "Whg. {{code}}",
+        garage: "Garage {{code}}",
+        filterHint: "Kostenstellensicht: nur Buchungen der gewählten Immobilie/Einheit.",
+      },
+      period: {
+        kinds: { year: "Jahr", quarter: "Quartal", month: "Monat", ytd: "Jahr bis Monat" },
+        label: {
+          quarter: "Q{{index}}/{{year}}",
+          month: "{{month}}/{{year}}",
+          ytd: "01–{{month}}/{{year}}",
+        },
+        compare: "Vorjahresvergleich",
+        prior: "Vorjahr",
+        delta: "Abweichung",
+      },
+      audit: {
+        verify: "Prüfkette prüfen",
+        ok: "Prüfkette intakt: {{count}} manuelle Belege, Nummernfolge lückenlos, kein Beleg verändert.",
+        failed: "Prüfkette NICHT intakt — siehe Befunde.",
+        legacy: "{{count}} Belege wurden vor Einführung der Prüfkette erfasst (nicht signiert).",
+        gaps: "Fehlende Belegnummern: {{numbers}}",
+        issue: "Beleg {{number}}: {{status}}",
+        status: {
+          ok: "in Ordnung",
+          altered: "Inhalt nach der Buchung verändert",
+          "broken-link": "Kette unterbrochen (Vorgänger fehlt oder wurde ersetzt)",
+          unsigned: "nicht signiert",
+          duplicate: "doppelte Belegnummer",
+        },
+        export: "Prüfprotokoll exportieren",
+        close: "Schließen",
+      },
     },
     bank: {
       title: "Kontoauszug importieren",
-      dropOrClick: "PDF hier ablegen oder klicken zum Auswählen",
+      dropOrClick: "PDF-, CAMT.053/052- (XML), MT940- oder CSV-Datei hier ablegen oder klicken zum Auswählen",
       browse: "Durchsuchen",
-      parsing: "PDF wird analysiert...",
-      invalidFile: "Bitte eine PDF-Datei auswählen.",
-      noTransactions: "Keine Transaktionen in dieser PDF gefunden.",
-      parseError: "Die PDF konnte nicht analysiert werden. Stellen Sie sicher, dass es ein unterstützter Kontoauszug ist.",
+      parsing: "Kontoauszug wird gelesen...",
+      invalidFile: "Bitte eine PDF-, CAMT- (XML), MT940- oder CSV-Datei auswählen.",
+      noTransactions: "Keine Transaktionen in dieser Datei gefunden.",
+      parseError: "Die Datei konnte nicht gelesen werden. Stellen Sie sicher, dass es ein unterstützter Kontoauszug ist (PDF, CAMT.053/052, MT940 oder CSV).",
+      openingBalance: "Anfangssaldo {{date}}",
+      closingBalance: "Endsaldo {{date}}",
+      balanceOk: "Umsätze stimmen mit den Salden überein",
+      balanceMismatch: "Anfangssaldo plus Umsätze weicht um € {{diff}} vom Endsaldo ab — die Datei ist möglicherweise unvollständig.",
+      endToEnd: "Ref. {{ref}}",
+      csv: {
+        profile: "CSV-Importprofil",
+        customProfile: "Eigenes Profil",
+        noProfile: "Das CSV-Format wurde nicht erkannt. Bitte die Spalten in einem eigenen Profil zuordnen.",
+        headerNotFound: "Datums- und Betragsspalte des Profils wurden in dieser Datei nicht gefunden.",
+        customHint: "Spalten werden über den Namen in der Kopfzeile oder ihre Nummer (ab 1) angegeben. Das Profil wird in diesem Browser gespeichert.",
+        profileName: "Profilname",
+        delimiter: "Trennzeichen",
+        delimiterSemicolon: "Semikolon (;)",
+        delimiterComma: "Komma (,)",
+        delimiterTab: "Tabulator",
+        decimal: "Dezimaltrennzeichen",
+        decimalComma: "Komma (1.234,56)",
+        decimalPoint: "Punkt (1,234.56)",
+        dateColumn: "Datumsspalte",
+        dateFormat: "Datumsformat",
+        amountColumn: "Betragsspalte",
+        sign: "Vorzeichen",
+        sign_signed: "Belastungen negativ",
+        sign_inverted: "Belastungen positiv",
+        sign_indicator: "Soll/Haben-Spalte",
+        indicatorColumn: "Soll/Haben-Spalte",
+        debitMarkers: "Kennzeichen für Belastung (kommagetrennt)",
+        descriptionColumns: "Spalten Verwendungszweck (kommagetrennt)",
+        counterpartyColumn: "Spalte Auftraggeber/Empfänger",
+        counterpartyIbanColumn: "Spalte IBAN Gegenkonto",
+        apply: "Profil übernehmen",
+      },
+      match: {
+        confidence: "Vorschlag {{percent}} %",
+        iban: "Zahler-IBAN aus früheren Zahlungen bekannt",
+        name: "Name „{{name}}“",
+        expectedAmount: "Betrag = Kaltmiete + NK-Vorauszahlung (€ {{amount}})",
+        previousAmount: "Betrag = zuletzt erfasste Miete (€ {{amount}})",
+        apartmentCode: "Wohnung {{code}} im Verwendungszweck",
+        monthHint: "Monat {{month}} {{year}} aus Verwendungszweck",
+        advancePayment: "Zahlung zum Monatsende, dem Folgemonat zugeordnet",
+        ambiguous: "{{count}} Wohnungen passen ähnlich gut",
+        monthRecorded: "Monat für diese Wohnung bereits erfasst",
+        monthTwice: "Monat bereits einem anderen Umsatz vorgeschlagen",
+        acceptAll: "{{count}} sichere Vorschläge übernehmen",
+        accepted: "{{count}} Umsätze zugeordnet",
+      },
       found: "{{count}} Transaktionen gefunden",
       uploadNew: "Neue hochladen",
       date: "Datum",
@@ -2147,6 +3164,11 @@ const resources = {
       cumulativeCashflow: "Kumulierter Cashflow",
       rentComposition: "Mietaufteilung",
       monthlyDetail: "Monatliche Details",
+      garage: {
+        included: "inkl. {{sum}} Garagenmiete",
+        estimated: "Garagen ohne erfasste Zahlungen: {{sum}} rechnerisch aus der Monatsmiete der vermieteten Monate.",
+        difference: "Garage {{garage}}: erwartet {{expected}}, erhalten {{received}}.",
+      },
       estimatedMonthly: "Jahreskosten gleichmäßig auf 12 Monate verteilt",
       cumulative: "Kumuliert",
       month: "Monat",
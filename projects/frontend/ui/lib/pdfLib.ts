@@ -0,0 +1,27 @@
+// pdf-lib is loaded once from CDN and shared by all PDF generators
+// (Nebenkostenabrechnung, Anlage V, Anlage EÜR, Kautionsabrechnung).
+// The UMD build exposes window.PDFLib.
+
+const PDF_LIB_VERSION = "1.17.1";
+const PDF_LIB_CDN = `https://cdn.jsdelivr.net/npm/pdf-lib@${PDF_LIB_VERSION}/dist/pdf-lib.min.js`;
+
+declare global {
+  interface Window {
+    PDFLib?: any;
+  }
+}
+
+let pdfLibPromise: Promise<any> | null = null;
+
+export function loadPdfLib(): Promise<any> {
+  if (pdfLibPromise) return pdfLibPromise;
+  if (window.PDFLib) return Promise.resolve(window.PDFLib);
+  pdfLibPromise = new Promise((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = PDF_LIB_CDN;
+    script.onload = () => resolve(window.PDFLib);
+    script.onerror = () => reject(new Error("Failed to load pdf-lib"));
+    document.head.appendChild(script);
+  });
+  return pdfLibPromise;
+}
@@ -686,6 +686,8 @@ export default function Dashboard(props) {
               allCosts={props.allCosts}
               allAptCosts={props.allAptCosts}
               allRentPayments={props.allRentPayments}
+              garages={props.garages}
+              garagePayments={props.garagePayments}
             />
           )}
           {activeTab === "tax" && props.taxView}
@@ -707,11 +709,16 @@ export default function Dashboard(props) {
               properties={props.properties}
               apartments={props.apartments}
               garages={props.garages}
+              garagePayments={props.garagePayments}
               allCosts={props.allCosts}
               allRentPayments={props.allRentPayments}
+              tenants={props.tenants}
+              tenantMieten={props.tenantMieten}
+              deposits={props.deposits}
               taxConfigs={props.taxConfigs}
               taxLoans={props.taxLoans}
               taxMaintenances={props.taxMaintenances}
+              taxFixedAssets={props.taxFixedAssets}
               nebenkostenSettlements={props.nebenkostenSettlements}
               taxIncomes={props.taxIncomes}
               taxExpenses={props.taxExpenses}
@@ -724,6 +731,27 @@ export default function Dashboard(props) {
               onAddJournalEntry={props.onAddJournalEntry}
               onStornoJournalEntry={props.onStornoJournalEntry}
               onCompleteAccountingOnboarding={props.onCompleteAccountingOnboarding}
+              accountingSettings={props.accountingSettings}
+              customAccounts={props.customAccounts}
+              onSaveAccountingSettings={props.onSaveAccountingSettings}
+              onAddCustomAccount={props.onAddCustomAccount}
+              onDeleteCustomAccount={props.onDeleteCustomAccount}
+              accountMappings={props.accountMappings}
+              onSaveAccountMapping={props.onSaveAccountMapping}
+              onDeleteAccountMapping={props.onDeleteAccountMapping}
+              onSetCostVatRate={props.onSetCostVatRate}
+              bankAccounts={props.bankAccounts}
+              onNavigate={(tab, ctx) => handleSelect(tab, ctx)}
+              yearCloses={props.yearCloses}
+              onCloseYear={props.onCloseYear}
+              documentNumbers={props.documentNumbers}
+              onAssignDocumentNumbers={props.onAssignDocumentNumbers}
+              bookingOverrides={props.bookingOverrides}
+              onSaveBookingOverride={props.onSaveBookingOverride}
+              onDeleteBookingOverride={props.onDeleteBookingOverride}
+              budgets={props.budgets}
+              onSaveBudget={props.onSaveBudget}
+              onDeleteBudget={props.onDeleteBudget}
             />
           )}
           {activeTab === "team" && props.userRole === "admin" && props.teamView}